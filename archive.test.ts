@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { uniqueFileName, toCsv } from './archive';
+
+describe('uniqueFileName', () => {
+    it('numbers later names that collide, ignoring case', () => {
+        const used = new Set<string>();
+        expect(uniqueFileName('photo.jpg', used)).toBe('photo.jpg');
+        expect(uniqueFileName('photo.jpg', used)).toBe('photo-2.jpg');
+        expect(uniqueFileName('Photo.JPG', used)).toBe('Photo-3.JPG');
+        expect(used).toEqual(new Set(['photo.jpg', 'photo-2.jpg', 'photo-3.jpg']));
+    });
+
+    it('steps past a name that is already numbered', () => {
+        const used = new Set(['photo.jpg', 'photo-2.jpg']);
+        expect(uniqueFileName('photo.jpg', used)).toBe('photo-3.jpg');
+    });
+
+    it('only treats a dot in the last segment as the extension', () => {
+        const used = new Set(['v1.2/readme', 'archive/.env']);
+        expect(uniqueFileName('v1.2/readme', used)).toBe('v1.2/readme-2');
+        expect(uniqueFileName('archive/.env', used)).toBe('archive/.env-2');
+    });
+
+    it('keeps reserved names free', () => {
+        const used = new Set(['manifest.json']);
+        expect(uniqueFileName('manifest.json', used)).toBe('manifest-2.json');
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes fields with commas, quotes or line breaks and leaves the rest alone', () => {
+        expect(toCsv([
+            ['name', 'size', 'note'],
+            ['a, b.jpg', 1024, 'said "hi"'],
+            ['plain.png', 0, 'two\nlines'],
+        ])).toBe('name,size,note\r\n"a, b.jpg",1024,"said ""hi"""\r\nplain.png,0,"two\nlines"\r\n');
+    });
+
+    it('writes missing values as empty fields', () => {
+        expect(toCsv([['x', undefined, 'y', undefined]])).toBe('x,,y,\r\n');
+    });
+});
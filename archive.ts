@@ -0,0 +1,121 @@
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+
+// Builds ZIP archives in the browser, one chunk at a time, so large batches
+// never have to sit in memory twice.
+
+export interface ArchiveEntry {
+    name: string;
+    data: Blob;
+    // Text like manifests shrinks well; images and PDFs are already compressed
+    // and are stored as-is.
+    deflate?: boolean;
+}
+
+// Returns `name`, or `name-2`, `name-3`… if an earlier entry already took it.
+// Comparison ignores case since most file systems do. Names can be paths;
+// only a dot in the last segment starts the extension.
+export const uniqueFileName = (name: string, used: Set<string>): string => {
+    const dot = name.lastIndexOf('.');
+    const hasExtension = dot > Math.max(name.lastIndexOf('/'), name.lastIndexOf('\\')) + 1;
+    const base = hasExtension ? name.slice(0, dot) : name;
+    const extension = hasExtension ? name.slice(dot) : '';
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        candidate = `${base}-${n}${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string => {
+    const escape = (value: string | number | undefined) => {
+        const text = value === undefined ? '' : String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+};
+
+// Streams the entries through fflate and hands each output chunk to `write`
+// in order. Resolves once the last chunk has been written.
+export const writeZip = async (entries: ArchiveEntry[], write: (chunk: Uint8Array) => Promise<void> | void): Promise<void> => {
+    let pending = Promise.resolve();
+    let failure: unknown;
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+
+    const zip = new Zip((error, chunk, final) => {
+        if (error) {
+            failure = error;
+            finish();
+            return;
+        }
+        pending = pending.then(() => write(chunk));
+        if (final) finish();
+    });
+
+    for (const entry of entries) {
+        const file = entry.deflate ? new ZipDeflate(entry.name, { level: 6 }) : new ZipPassThrough(entry.name);
+        zip.add(file);
+        const reader = entry.data.stream().getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            file.push(value);
+            if (failure) throw failure;
+        }
+        file.push(new Uint8Array(0), true);
+    }
+    zip.end();
+
+    await finished;
+    if (failure) throw failure;
+    await pending;
+};
+
+// Minimal typing for the File System Access API, which TypeScript's DOM lib
+// doesn't ship yet.
+type SaveFilePicker = (options: { suggestedName: string; types: { description: string; accept: Record<string, string[]> }[] }) => Promise<{
+    createWritable: () => Promise<{ write: (data: Uint8Array) => Promise<void>; close: () => Promise<void>; abort: () => Promise<void> }>;
+}>;
+
+// Saves a ZIP straight to disk where the browser lets us pick a file, and
+// falls back to assembling a Blob and clicking a download link elsewhere.
+// Resolves to false if the user dismissed the save dialog.
+export const saveZip = async (entries: ArchiveEntry[], fileName: string): Promise<boolean> => {
+    const showSaveFilePicker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+    if (showSaveFilePicker) {
+        let handle;
+        try {
+            handle = await showSaveFilePicker({ suggestedName: fileName, types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }] });
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'AbortError') return false;
+            throw error;
+        }
+        const writable = await handle.createWritable();
+        try {
+            await writeZip(entries, chunk => writable.write(chunk));
+            await writable.close();
+        } catch (error) {
+            await writable.abort();
+            throw error;
+        }
+        return true;
+    }
+
+    const chunks: Uint8Array[] = [];
+    await writeZip(entries, chunk => { chunks.push(chunk); });
+    saveBlob(new Blob(chunks as BlobPart[], { type: 'application/zip' }), fileName);
+    return true;
+};
+
+// Downloads a blob through a temporary link.
+export const saveBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before freeing the Blob.
+    setTimeout(() => URL.revokeObjectURL(link.href), 10_000);
+};
@@ -0,0 +1,60 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import decodeJpeg, { init as initJpegDecoder } from '@jsquash/jpeg/decode.js';
+import encodeJpeg, { init as initJpegEncoder } from '@jsquash/jpeg/encode.js';
+import decodePng, { init as initPngDecoder } from '@jsquash/png/decode.js';
+import decodeWebp, { init as initWebpDecoder } from '@jsquash/webp/decode.js';
+import encodeWebp, { init as initWebpEncoder } from '@jsquash/webp/encode.js';
+import { init as initAvifEncoder } from '@jsquash/avif/encode.js';
+import { orientRaster, readImageOrientation, RasterBackend } from '../core';
+
+// Decodes and encodes with the Squoosh codecs compiled to WASM, in place of
+// the browser's createImageBitmap and canvas.
+
+const require = createRequire(import.meta.url);
+
+// In the browser the codecs fetch their .wasm by URL; in Node they have to be
+// handed the compiled modules.
+const compile = async (specifier: string) => WebAssembly.compile(await readFile(require.resolve(specifier)));
+
+const sniffFormat = (bytes: Uint8Array): 'jpeg' | 'png' | 'webp' | undefined => {
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpeg';
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) return 'png';
+    if (new TextDecoder().decode(bytes.subarray(8, 12)) === 'WEBP') return 'webp';
+    return undefined;
+};
+
+export const createNodeBackend = async (): Promise<RasterBackend> => {
+    await Promise.all([
+        compile('@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm').then(module => initJpegDecoder(module)),
+        compile('@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm').then(module => initJpegEncoder(module)),
+        readFile(require.resolve('@jsquash/png/codec/pkg/squoosh_png_bg.wasm')).then(bytes => initPngDecoder(bytes)),
+        compile('@jsquash/webp/codec/dec/webp_dec.wasm').then(module => initWebpDecoder(module)),
+        // Node always has WASM SIMD, which is the build the WebP encoder picks.
+        compile('@jsquash/webp/codec/enc/webp_enc_simd.wasm').then(module => initWebpEncoder(module)),
+        compile('@jsquash/avif/codec/enc/avif_enc.wasm').then(module => initAvifEncoder(module)),
+    ]);
+
+    return {
+        // The WASM decoders never convert color spaces, so pixels stay in the
+        // source profile whether or not it's kept.
+        decode: async (file) => {
+            const buffer = await file.arrayBuffer();
+            const format = sniffFormat(new Uint8Array(buffer));
+            if (!format) throw new Error("Unsupported image format. Use JPG, PNG or WebP.");
+            const decoded = format === 'jpeg' ? await decodeJpeg(buffer) : format === 'png' ? await decodePng(buffer) : await decodeWebp(buffer);
+            const image = { width: decoded.width, height: decoded.height, data: decoded.data };
+            return orientRaster(image, await readImageOrientation(file));
+        },
+
+        encode: async (image, format, quality) => {
+            const encoded = format === 'jpeg'
+                ? await encodeJpeg(image as ImageData, { quality })
+                : await encodeWebp(image as ImageData, { quality });
+            return new Blob([encoded], { type: format === 'jpeg' ? 'image/jpeg' : 'image/webp' });
+        },
+
+        // The legacy build runs in Node and draws with @napi-rs/canvas.
+        loadPdfjs: () => import('pdfjs-dist/legacy/build/pdf.mjs'),
+    };
+};
@@ -0,0 +1,454 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { readFile, writeFile, mkdir, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import {
+    setRasterBackend, configureGemini, setRecommendationProviders, heuristicProvider,
+    compressImageFile, compressPdfFile, compressSvgFile, compressResponsiveSet, normalizeInputFile, formatBytes, toBytes,
+    getImageDimensions, resizeBounds, getAIBreakpoints, pictureMarkup, responsiveManifest, fallbackVariant, fallbackReason,
+    INPUT_FORMATS, INPUT_FORMAT_NAMES, INPUT_FORMAT_LIST, SVG_PRECISION, DEFAULT_RESPONSIVE_FORMATS, DEFAULT_SIZES,
+    OUTPUT_FORMAT_NAMES, OutputFormat, METADATA_POLICY_LABELS, RESIZE_FILTERS, ManualResize, MetadataPolicy, ResamplingOptions, ResizeFilter, OutputFormatChoice, PdfCompressionMode, PdfColorMode, PDF_COLOR_MODES, ProviderId, SizeUnit,
+    Locale, LOCALE_NAMES,
+} from '../core';
+import { uniqueFileName } from '../archive';
+import { createNodeBackend } from './nodeBackend';
+
+// whilo compress <files|dirs> [options]: the app's compression pipeline,
+// headless, for batch jobs and build scripts.
+
+const USAGE = `Usage: whilo compress <files|dirs...> [options]
+
+Options:
+  --target <size>         Size budget per file, e.g. 200KB or 1.5MB
+  --format <format>       auto (AI pick), best (smallest), ${OUTPUT_FORMAT_NAMES.join(', ')}  [auto]
+  --max-width <px>        Scale images down to fit this width
+  --max-height <px>       Scale images down to fit this height
+  --width <px>            Resize to this width (with --height: fit inside both)
+  --height <px>           Resize to this height
+  --scale <percent>       Resize by a percentage, e.g. 50
+  --max-long-edge <px>    Scale images down so the longer side fits
+  --crop <w:h>            Crop around the center to this ratio, e.g. 16:9
+  --filter <filter>       ${Object.keys(RESIZE_FILTERS).join(', ')}  [mks2013]
+  --unsharp <a[,r[,t]]>   Unsharp mask amount, radius and threshold
+  --smart-resize          Let the recommendation pick a smaller resolution
+  --metadata <policy>     ${Object.keys(METADATA_POLICY_LABELS).join(', ')}  [strip-private]
+  --pdf-mode <mode>       lossless or lossy  [lossy]
+  --pdf-color <mode>      ${Object.keys(PDF_COLOR_MODES).join(', ')}  [color]
+  --svg-precision <n>     Decimal places kept in SVG numbers  [${SVG_PRECISION}]
+  --srcset <widths|auto>  Make a responsive set instead, e.g. 480,960,1600;
+                          auto lets the recommendation pick the widths
+  --srcset-formats <list> Formats in the set  [${DEFAULT_RESPONSIVE_FORMATS.join(',')}]
+  --sizes <value>         sizes attribute for the set's markup  [${DEFAULT_SIZES}]
+  --out <dir>             Output directory  [compressed]
+  --lang <code>           Language of the AI reports: ${LOCALE_NAMES.join(', ')}  [en]
+  --json                  Print a JSON report instead of text
+  --no-ai                 Use the offline rules only, never call Gemini
+  -h, --help              Show this help
+
+Gemini is used when GEMINI_API_KEY is set. Exits with 1 when any file misses
+its target or fails, 2 on bad arguments.`;
+
+const INPUT_EXTENSIONS = new Set(INPUT_FORMAT_NAMES.flatMap(format => INPUT_FORMATS[format].extensions.map(extension => `.${extension}`)));
+
+// --- Arguments ---
+class UsageError extends Error {}
+
+interface CliOptions {
+    inputs: string[];
+    targetSize?: number;
+    targetUnit: SizeUnit;
+    outputFormatChoice: OutputFormatChoice;
+    maxWidth?: number;
+    maxHeight?: number;
+    resize?: ManualResize;
+    cropAspect?: number;
+    resampling?: ResamplingOptions;
+    smartResize: boolean;
+    metadataPolicy: MetadataPolicy;
+    pdfMode: PdfCompressionMode;
+    pdfColor: PdfColorMode;
+    svgPrecision?: number;
+    srcset?: number[] | 'auto';
+    srcsetFormats: OutputFormat[];
+    sizes: string;
+    outDir: string;
+    language: Locale;
+    json: boolean;
+    noAi: boolean;
+}
+
+// "200KB", "1.5 MB" or a bare number of kilobytes.
+const parseTarget = (value: string): { targetSize: number; targetUnit: SizeUnit } => {
+    const match = /^(\d+(?:\.\d+)?)\s*(KB|MB)?$/i.exec(value.trim());
+    if (!match || parseFloat(match[1]) <= 0) throw new UsageError(`Invalid --target "${value}". Use a size like 200KB or 1.5MB.`);
+    return { targetSize: parseFloat(match[1]), targetUnit: match[2]?.toUpperCase() === 'MB' ? 'MB' : 'KB' };
+};
+
+const parsePixels = (name: string, value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const pixels = Number(value);
+    if (!Number.isInteger(pixels) || pixels <= 0) throw new UsageError(`Invalid --${name} "${value}". Use a whole number of pixels.`);
+    return pixels;
+};
+
+const parsePercent = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const percent = Number(value.replace(/%$/, ''));
+    if (!(percent > 0) || !isFinite(percent)) throw new UsageError(`Invalid --scale "${value}". Use a percentage like 50.`);
+    return percent;
+};
+
+// "16:9", "1200:630" or a plain ratio like 1.91.
+const parseAspect = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const match = /^(\d+(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/.exec(value.trim());
+    const ratio = match ? parseFloat(match[1]) / (match[2] ? parseFloat(match[2]) : 1) : NaN;
+    if (!(ratio > 0) || !isFinite(ratio)) throw new UsageError(`Invalid --crop "${value}". Use a ratio like 16:9.`);
+    return ratio;
+};
+
+const parseUnsharp = (value: string | undefined): Pick<ResamplingOptions, 'unsharpAmount' | 'unsharpRadius' | 'unsharpThreshold'> => {
+    if (value === undefined) return {};
+    const [amount, radius, threshold] = value.split(',').map(Number);
+    if ([amount, radius, threshold].some(part => part !== undefined && !(part >= 0))) throw new UsageError(`Invalid --unsharp "${value}". Use amount[,radius[,threshold]], e.g. 120,0.8,2.`);
+    return { unsharpAmount: amount, unsharpRadius: radius, unsharpThreshold: threshold };
+};
+
+const parseDigits = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const digits = Number(value);
+    if (!Number.isInteger(digits) || digits < 0 || digits > 8) throw new UsageError(`Invalid --svg-precision "${value}". Use a whole number from 0 to 8.`);
+    return digits;
+};
+
+const parseWidths = (value: string | undefined): number[] | 'auto' | undefined => {
+    if (value === undefined) return undefined;
+    if (value === 'auto') return 'auto';
+    const widths = value.split(/[\s,]+/).filter(Boolean).map(Number);
+    if (!widths.length || widths.some(width => !Number.isInteger(width) || width <= 0)) throw new UsageError(`Invalid --srcset "${value}". Use auto or widths in pixels like 480,960,1600.`);
+    return widths;
+};
+
+const parseChoice = <T extends string>(name: string, value: string, choices: readonly string[]): T => {
+    if (!choices.includes(value)) throw new UsageError(`Invalid --${name} "${value}". Use one of: ${choices.join(', ')}.`);
+    return value as T;
+};
+
+const parseCliArgs = (args: string[]): CliOptions | undefined => {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'target': { type: 'string' },
+            'format': { type: 'string', default: 'auto' },
+            'max-width': { type: 'string' },
+            'max-height': { type: 'string' },
+            'width': { type: 'string' },
+            'height': { type: 'string' },
+            'scale': { type: 'string' },
+            'max-long-edge': { type: 'string' },
+            'crop': { type: 'string' },
+            'filter': { type: 'string' },
+            'unsharp': { type: 'string' },
+            'smart-resize': { type: 'boolean', default: false },
+            'metadata': { type: 'string', default: 'strip-private' },
+            'pdf-mode': { type: 'string', default: 'lossy' },
+            'pdf-color': { type: 'string', default: 'color' },
+            'svg-precision': { type: 'string' },
+            'srcset': { type: 'string' },
+            'srcset-formats': { type: 'string', default: DEFAULT_RESPONSIVE_FORMATS.join(',') },
+            'sizes': { type: 'string', default: DEFAULT_SIZES },
+            'out': { type: 'string', default: 'compressed' },
+            'lang': { type: 'string', default: 'en' },
+            'json': { type: 'boolean', default: false },
+            'no-ai': { type: 'boolean', default: false },
+            'help': { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help) return undefined;
+
+    const [command, ...inputs] = positionals;
+    if (command !== 'compress') throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+    if (inputs.length === 0) throw new UsageError('No files or directories given.');
+
+    const format = parseChoice<string>('format', values.format, ['auto', 'best', ...OUTPUT_FORMAT_NAMES]);
+    const resize: ManualResize = {
+        width: parsePixels('width', values.width),
+        height: parsePixels('height', values.height),
+        scalePercent: parsePercent(values.scale),
+        maxLongEdge: parsePixels('max-long-edge', values['max-long-edge']),
+    };
+    const resampling: ResamplingOptions = {
+        filter: values.filter === undefined ? undefined : parseChoice<ResizeFilter>('filter', values.filter, Object.keys(RESIZE_FILTERS)),
+        ...parseUnsharp(values.unsharp),
+    };
+    return {
+        inputs,
+        ...(values.target ? parseTarget(values.target) : { targetUnit: 'KB' }),
+        outputFormatChoice: (format === 'auto' ? 'ai' : format) as OutputFormatChoice,
+        maxWidth: parsePixels('max-width', values['max-width']),
+        maxHeight: parsePixels('max-height', values['max-height']),
+        resize,
+        cropAspect: parseAspect(values.crop),
+        resampling,
+        smartResize: values['smart-resize'],
+        metadataPolicy: parseChoice('metadata', values.metadata, Object.keys(METADATA_POLICY_LABELS)),
+        pdfMode: parseChoice('pdf-mode', values['pdf-mode'], ['lossless', 'lossy']),
+        pdfColor: parseChoice('pdf-color', values['pdf-color'], Object.keys(PDF_COLOR_MODES)),
+        svgPrecision: parseDigits(values['svg-precision']),
+        srcset: parseWidths(values.srcset),
+        srcsetFormats: values['srcset-formats'].split(',').map(format => parseChoice<OutputFormat>('srcset-formats', format.trim(), OUTPUT_FORMAT_NAMES)),
+        sizes: values.sizes,
+        outDir: values.out,
+        language: parseChoice('lang', values.lang, LOCALE_NAMES),
+        json: values.json,
+        noAi: values['no-ai'],
+    };
+};
+
+// --- Inputs ---
+interface InputFile {
+    path: string;
+    // Where the output goes under --out; directory inputs keep their layout.
+    relativePath: string;
+}
+
+const walk = async (dir: string, root: string, out: InputFile[]) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) await walk(full, root, out);
+        else if (entry.isFile() && INPUT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) out.push({ path: full, relativePath: path.relative(root, full) });
+    }
+};
+
+const collectInputs = async (inputs: string[]): Promise<InputFile[]> => {
+    const files: InputFile[] = [];
+    for (const input of inputs) {
+        const info = await stat(input).catch(() => undefined);
+        if (!info) throw new UsageError(`No such file or directory: ${input}`);
+        if (info.isDirectory()) {
+            await walk(input, input, files);
+        } else if (INPUT_EXTENSIONS.has(path.extname(input).toLowerCase())) {
+            files.push({ path: input, relativePath: path.basename(input) });
+        } else {
+            throw new UsageError(`Unsupported file type: ${input}. Use ${INPUT_FORMAT_LIST}.`);
+        }
+    }
+    return files;
+};
+
+// The type comes from the file's contents; the extension only picked it up.
+const loadFile = async (filePath: string): Promise<File> => {
+    const [bytes, info] = await Promise.all([readFile(filePath), stat(filePath)]);
+    const file = await normalizeInputFile(new File([bytes], path.basename(filePath), { lastModified: info.mtimeMs }));
+    if (!file) throw new Error(`Not a ${INPUT_FORMAT_LIST} file.`);
+    return file;
+};
+
+// --- Compression ---
+interface FileReport {
+    input: string;
+    output?: string;
+    originalSize: number;
+    compressedSize?: number;
+    targetBytes?: number;
+    targetMet: boolean;
+    format?: string;
+    quality?: number;
+    width?: number;
+    height?: number;
+    // Set when an animated GIF became an animated WebP.
+    frames?: number;
+    // Set when nothing came out smaller, so the output is a copy of the input.
+    unchanged?: boolean;
+    // A responsive set's files; `output` is then its HTML snippet.
+    variants?: { output: string; format: OutputFormat; width: number; height: number; size: number }[];
+    provider?: ProviderId;
+    // Why Gemini didn't choose the settings, when it was asked and failed.
+    fallbackReason?: string;
+    report?: string;
+    error?: string;
+}
+
+const compressOne = async (input: InputFile, options: CliOptions, outputPath: (name: string) => Promise<string>): Promise<FileReport> => {
+    const file = await loadFile(input.path);
+    const targetBytes = options.targetSize ? toBytes(options.targetSize, options.targetUnit) : undefined;
+
+    if (file.type === 'application/pdf') {
+        const { compressedFile, report } = await compressPdfFile(file, { mode: options.pdfMode, color: options.pdfColor, language: options.language });
+        const output = await outputPath(compressedFile.name);
+        await writeFile(output, new Uint8Array(await compressedFile.arrayBuffer()));
+        return {
+            input: input.path,
+            output,
+            originalSize: file.size,
+            compressedSize: compressedFile.size,
+            targetBytes,
+            targetMet: !targetBytes || compressedFile.size <= targetBytes,
+            format: 'pdf',
+            provider: report.provider,
+            report: report.text,
+        };
+    }
+
+    if (file.type === INPUT_FORMATS.svg.mimeType) {
+        const { compressedFile, report } = await compressSvgFile(file, { precision: options.svgPrecision, language: options.language });
+        const output = await outputPath(compressedFile.name);
+        await writeFile(output, new Uint8Array(await compressedFile.arrayBuffer()));
+        return {
+            input: input.path,
+            output,
+            originalSize: file.size,
+            compressedSize: compressedFile.size,
+            targetBytes,
+            targetMet: !targetBytes || compressedFile.size <= targetBytes,
+            format: 'svg',
+            provider: report.provider,
+            report: report.text,
+        };
+    }
+
+    if (options.srcset) {
+        const bounds = resizeBounds(await getImageDimensions(file), { cropAspect: options.cropAspect });
+        const widths = options.srcset === 'auto' ? (await getAIBreakpoints(file, bounds, options.language)).widths : options.srcset;
+        const { set, compressionSettings, provider, fallback: aiFallback, report } = await compressResponsiveSet(file, {
+            widths,
+            formats: options.srcsetFormats,
+            cropAspect: options.cropAspect,
+            resampling: options.resampling,
+            metadataPolicy: options.metadataPolicy,
+            language: options.language,
+        });
+        // Written first, so the markup names any variant that had to be renamed.
+        const variants = [];
+        for (const variant of set.variants) {
+            const output = await outputPath(variant.file.name);
+            await writeFile(output, new Uint8Array(await variant.file.arrayBuffer()));
+            variants.push({ ...variant, file: new File([variant.file], path.basename(output), { type: variant.file.type }), output });
+        }
+        const written = { ...set, variants };
+        const base = path.parse(file.name).name;
+        const html = await outputPath(`${base}.html`);
+        await writeFile(html, `${pictureMarkup(written, { sizes: options.sizes })}\n`);
+        await writeFile(await outputPath(`${base}.srcset.json`), `${JSON.stringify(responsiveManifest(written, options.sizes), null, 2)}\n`);
+        const fallback = fallbackVariant(written);
+        return {
+            input: input.path,
+            output: html,
+            originalSize: file.size,
+            compressedSize: fallback.file.size,
+            targetMet: true,
+            format: fallback.format,
+            quality: compressionSettings.targetQuality,
+            width: fallback.width,
+            height: fallback.height,
+            variants: variants.map(({ output, format, width, height, file }) => ({ output, format, width, height, size: file.size })),
+            provider,
+            fallbackReason: aiFallback && fallbackReason(aiFallback),
+            report: report.text,
+        };
+    }
+
+    const { compressedFile, compressionDetails, report } = await compressImageFile(file, {
+        targetSize: options.targetSize,
+        targetUnit: options.targetUnit,
+        smartResize: options.smartResize,
+        outputFormatChoice: options.outputFormatChoice,
+        maxWidth: options.maxWidth,
+        maxHeight: options.maxHeight,
+        resize: options.resize,
+        cropAspect: options.cropAspect,
+        resampling: options.resampling,
+        metadataPolicy: options.metadataPolicy,
+        language: options.language,
+    });
+    const output = await outputPath(compressedFile.name);
+    await writeFile(output, new Uint8Array(await compressedFile.arrayBuffer()));
+    return {
+        input: input.path,
+        output,
+        originalSize: file.size,
+        compressedSize: compressedFile.size,
+        targetBytes,
+        targetMet: compressionDetails.targetMet,
+        format: compressionDetails.format,
+        quality: compressionDetails.quality,
+        width: compressionDetails.width,
+        height: compressionDetails.height,
+        frames: compressionDetails.frames,
+        unchanged: compressionDetails.unchanged,
+        provider: compressionDetails.provider,
+        fallbackReason: compressionDetails.fallback && fallbackReason(compressionDetails.fallback),
+        report: report.text,
+    };
+};
+
+const describe = (result: FileReport): string => {
+    if (result.error) return `✗ ${result.input}: ${result.error}`;
+    const change = Math.round((result.compressedSize! / result.originalSize - 1) * 100);
+    const variants = result.variants ? `, ${result.variants.length} ${result.variants.length === 1 ? 'variant' : 'variants'}` : '';
+    const line = result.unchanged
+        ? `${result.targetMet ? '✓' : '✗'} ${result.input} → ${result.output}  ${formatBytes(result.originalSize)}, kept as it was: nothing came out smaller`
+        : `${result.targetMet ? '✓' : '✗'} ${result.input} → ${result.output}  ${formatBytes(result.originalSize)} → ${formatBytes(result.compressedSize!)} (${change > 0 ? '+' : ''}${change}%${variants})`;
+    return result.targetMet ? line : `${line}  missed target ${formatBytes(result.targetBytes!)}`;
+};
+
+const run = async (args: string[]): Promise<number> => {
+    let options: CliOptions | undefined;
+    let inputs: InputFile[];
+    try {
+        options = parseCliArgs(args);
+        if (!options) {
+            console.log(USAGE);
+            return 0;
+        }
+        inputs = await collectInputs(options.inputs);
+        if (inputs.length === 0) throw new UsageError(`No ${INPUT_FORMAT_LIST} files found.`);
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+
+    setRasterBackend(await createNodeBackend());
+    if (options.noAi) setRecommendationProviders([heuristicProvider]);
+    else configureGemini(process.env.GEMINI_API_KEY || process.env.API_KEY);
+
+    // Inputs are never overwritten, and two inputs never write the same output.
+    const used = new Set(inputs.map(input => path.resolve(input.path).toLowerCase()));
+    const results: FileReport[] = [];
+    for (const input of inputs) {
+        let result: FileReport;
+        try {
+            result = await compressOne(input, options, async name => {
+                const output = uniqueFileName(path.resolve(options!.outDir, path.dirname(input.relativePath), name), used);
+                await mkdir(path.dirname(output), { recursive: true });
+                return path.relative(process.cwd(), output);
+            });
+        } catch (error) {
+            const { size } = await stat(input.path);
+            result = { input: input.path, originalSize: size, targetMet: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        results.push(result);
+        if (!options.json) console.log(describe(result));
+    }
+
+    const done = results.filter(result => !result.error);
+    const summary = {
+        files: results.length,
+        failed: results.length - done.length,
+        missedTarget: done.filter(result => !result.targetMet).length,
+        originalSize: done.reduce((sum, result) => sum + result.originalSize, 0),
+        compressedSize: done.reduce((sum, result) => sum + result.compressedSize!, 0),
+    };
+    if (options.json) {
+        console.log(JSON.stringify({ files: results, summary }, null, 2));
+    } else {
+        const problems = [summary.failed && `${summary.failed} failed`, summary.missedTarget && `${summary.missedTarget} missed the target`].filter(Boolean);
+        console.log(`\n${summary.files} ${summary.files === 1 ? 'file' : 'files'}, ${formatBytes(summary.originalSize)} → ${formatBytes(summary.compressedSize)}${problems.length ? `; ${problems.join(', ')}` : ''}`);
+    }
+    return summary.failed || summary.missedTarget ? 1 : 0;
+};
+
+run(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,62 @@
+import { encodeFormatCandidates, FormatCandidate } from './core/imageCodec';
+import { compareImages, QualityMetrics } from './core/imageMetrics';
+import { compressWithMetadata, EncodeInput, EncodeOutput, CandidatesInput } from './core/encode';
+import { setRasterBackend, CropRect } from './core/raster';
+import { browserBackend } from './core/browserBackend';
+
+setRasterBackend(browserBackend);
+
+// Each job kind with the input it takes and the result it posts back.
+export interface CompressionJobs {
+    compress: {
+        input: EncodeInput;
+        output: EncodeOutput;
+    };
+    candidates: {
+        input: CandidatesInput;
+        output: FormatCandidate[];
+    };
+    metrics: {
+        input: { original: Blob; compressed: Blob; crop?: CropRect };
+        output: QualityMetrics;
+    };
+}
+
+export type CompressionJobKind = keyof CompressionJobs;
+
+export type WorkerRequest = {
+    [K in CompressionJobKind]: { id: number; kind: K; input: CompressionJobs[K]['input'] }
+}[CompressionJobKind];
+
+export type WorkerResponse =
+    | { id: number; type: 'progress'; fraction: number }
+    | { id: number; type: 'result'; result: CompressionJobs[CompressionJobKind]['output'] }
+    | { id: number; type: 'error'; message: string };
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    const onProgress = (fraction: number) => post({ id: request.id, type: 'progress', fraction });
+
+    try {
+        switch (request.kind) {
+            case 'compress': {
+                post({ id: request.id, type: 'result', result: await compressWithMetadata(request.input, onProgress) });
+                break;
+            }
+            case 'candidates': {
+                const { file, settings, hasTransparency } = request.input;
+                post({ id: request.id, type: 'result', result: await encodeFormatCandidates(file, settings, hasTransparency, onProgress) });
+                break;
+            }
+            case 'metrics': {
+                const { original, compressed, crop } = request.input;
+                post({ id: request.id, type: 'result', result: await compareImages(original, compressed, crop) });
+                break;
+            }
+        }
+    } catch (error) {
+        post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
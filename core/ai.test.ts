@@ -0,0 +1,95 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+    setRasterBackend, encodeImage, createScriptedProvider, setRecommendationProviders, geminiProvider, heuristicProvider,
+    getAIRecommendedSize, getAICompressionSuggestion, getAIReport, getAIPdfReport, fallbackReason, AIResponseError, RecommendationProvider,
+} from '.';
+import { createNodeBackend } from '../cli/nodeBackend';
+
+// The scripted provider standing in for Gemini, so the chain treats it as Gemini.
+const scriptedGemini = (script: Parameters<typeof createScriptedProvider>[0]): RecommendationProvider =>
+    ({ ...createScriptedProvider(script), id: 'gemini', label: 'Gemini' });
+
+const svgFile = () => new File(['<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>'.repeat(20)], 'logo.svg', { type: 'image/svg+xml' });
+
+const photoFile = async (): Promise<File> => {
+    const width = 160, height = 120;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < width * height; index++) {
+        data.set([index * 7 % 256, index * 13 % 256, index * 31 % 256, 255], index * 4);
+    }
+    return new File([await encodeImage({ data, width, height }, 'jpeg', 95)], 'photo.jpeg', { type: 'image/jpeg' });
+};
+
+beforeAll(async () => {
+    setRasterBackend(await createNodeBackend());
+});
+
+afterEach(() => {
+    setRecommendationProviders([geminiProvider, heuristicProvider]);
+});
+
+describe('the provider chain', () => {
+    it('takes the first answer without a fallback reason', async () => {
+        setRecommendationProviders([scriptedGemini({ recommendSize: [{ recommendedSize: 100, reason: 'Scripted' }] }), heuristicProvider]);
+        const answer = await getAIRecommendedSize(svgFile());
+        expect(answer).toMatchObject({ recommendedSize: 100, reason: 'Scripted', provider: 'gemini' });
+        expect(answer.fallback).toBeUndefined();
+    });
+
+    it('falls back to the offline rules when Gemini fails, and says why', async () => {
+        setRecommendationProviders([scriptedGemini({ recommendSize: [new AIResponseError('Gemini returned malformed JSON.')] }), heuristicProvider]);
+        const file = svgFile();
+        const answer = await getAIRecommendedSize(file);
+        expect(answer.provider).toBe('heuristic');
+        expect(answer.fallback).toEqual({ provider: 'gemini', error: { kind: 'bad-answer', message: 'Gemini returned malformed JSON.' } });
+        expect(fallbackReason(answer.fallback!)).toBe('Gemini failed: Gemini returned malformed JSON.');
+        expect(answer.recommendedSize).toBe(Math.round(file.size * 0.6));
+    });
+
+    it('skips a provider that is not configured without a reason', async () => {
+        setRecommendationProviders([{ ...scriptedGemini({}), isConfigured: () => false }, heuristicProvider]);
+        const { provider, fallback } = await getAIRecommendedSize(svgFile());
+        expect(provider).toBe('heuristic');
+        expect(fallback).toBeUndefined();
+    });
+
+    it('throws the last error when no provider answers', async () => {
+        setRecommendationProviders([scriptedGemini({ report: [new Error('down')] })]);
+        await expect(getAIReport(1000, 400)).rejects.toThrow('down');
+    });
+});
+
+describe('the offline rules', () => {
+    it('suggest a quality from the size target and keep within the bounds', async () => {
+        setRecommendationProviders([heuristicProvider]);
+        const file = await photoFile();
+        const { settings, provider } = await getAICompressionSuggestion(file, true, file.size / 4 / 1024, 'KB');
+        expect(provider).toBe('heuristic');
+        // 85 × √¼, clamped to 30–90.
+        expect(settings.targetQuality).toBe(43);
+        expect(settings.targetWidth).toBeUndefined();
+        expect(settings.recommendation).toBeTruthy();
+    });
+
+    it('scale down past the longest edge when smart resize is on', async () => {
+        setRecommendationProviders([heuristicProvider]);
+        const { settings } = await getAICompressionSuggestion(await photoFile(), true, undefined, undefined, false, { width: 5120, height: 3840 });
+        expect(settings).toMatchObject({ targetWidth: 2560, targetHeight: 1920 });
+    });
+
+    it('report savings, growth and untouched files differently', async () => {
+        setRecommendationProviders([heuristicProvider]);
+        expect((await getAIReport(2000, 1000)).text).toBe('Saved 50%: 1.95 KB down to 1000 Bytes.');
+        expect((await getAIReport(1000, 1000)).text).toBe('Nothing came out smaller, so the file was kept as it was.');
+        expect((await getAIReport(1000, 3000)).text).toMatch(/^The file grew 200%/);
+    });
+
+    it('list PDF optimizations as a sentence and only claim fidelity when nothing was resampled', async () => {
+        setRecommendationProviders([heuristicProvider]);
+        const stats = { removedObjects: 0, deduplicatedObjects: 1, deflatedStreams: 2, resampledImages: 0, recoloredImages: 1, color: 'bilevel' as const };
+        const { text } = await getAIPdfReport(2000, 1000, 'lossless', stats);
+        expect(text).toBe('Saved 50%: 1.95 KB down to 1000 Bytes. 1 image made black & white, 1 duplicate merged, 2 streams compressed.');
+        const untouched = await getAIPdfReport(2000, 1000, 'lossless', { ...stats, recoloredImages: 0 });
+        expect(untouched.text).toMatch(/1 duplicate merged, 2 streams compressed\. \S/);
+    });
+});
@@ -0,0 +1,708 @@
+import { GoogleGenAI, Type, ContentListUnion, GenerateContentConfig, Part } from "@google/genai";
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_NAMES, detectTransparency, getImageDimensions, OutputFormat, CompressionSettings } from './imageCodec';
+import { formatBytes as formatLocaleBytes } from './format';
+import { languageInstruction, DEFAULT_LOCALE, Locale } from './locale';
+import { heuristicText } from './heuristicText';
+import { isAnimatedGif } from './decoders';
+import { isVectorImage } from './inputFormats';
+import { analyzeContent, getPreviewParts, preferredFormatFor, CONTENT_TYPES, CONTENT_TYPE_NAMES, ContentAnalysis } from './content';
+import {
+    AITimeoutError, isRetryableAIError, classifyAIError, AIErrorInfo, parseJsonObject,
+    sanitizeSizeRecommendation, sanitizeSizeRecommendations, sanitizeCompressionSettings, sanitizeBreakpoints, sanitizeReport,
+} from './aiResponse';
+import { suggestBreakpoints, MAX_BREAKPOINTS } from './responsive';
+import { hashBlob } from './hash';
+import { aiCacheKey, cachedAICall, readAICache, writeAICache } from './aiCache';
+import { abortableSleep, createRateLimiter, recordAIRequest } from './aiUsage';
+import { PDF_COLOR_MODES, PdfCompressionMode, PdfOptimizeStats } from './pdf';
+import type { BatchSummaryStats } from './batchReport';
+
+// The AI side of compression: Gemini prompts, the offline rules engine that
+// stands in for it, and the fallback chain the app and CLI call through.
+
+// Prompts, and the offline rules' English answers, spell sizes the English way.
+const formatBytes = (bytes: number) => formatLocaleBytes(bytes, 2, 'en');
+
+// --- Gemini ---
+let ai: GoogleGenAI | undefined;
+
+// Gemini stays off until a key is configured; the other providers still answer.
+// `baseUrl` points it at another endpoint, such as the server's fake Gemini.
+export const configureGemini = (apiKey?: string, baseUrl?: string) => {
+    ai = undefined;
+    if (!apiKey) return;
+    try {
+        ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    } catch (error) {
+        console.error("Failed to initialize GoogleGenAI:", error);
+    }
+};
+
+const MODEL = "gemini-2.5-flash";
+const REQUEST_TIMEOUT_MS = 20_000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 800;
+
+// The free tier of gemini-2.5-flash allows 10 requests a minute; staying
+// under it on our side beats being answered with 429s.
+export const DEFAULT_REQUESTS_PER_MINUTE = 10;
+const rateLimiter = createRateLimiter(DEFAULT_REQUESTS_PER_MINUTE, 60_000);
+
+// 0 turns the limit off, e.g. for paid keys with far higher quotas.
+export const setAIRateLimit = (requestsPerMinute: number) => rateLimiter.setLimit(requestsPerMinute);
+
+// For providers that reach Gemini some other way, so the same limit covers them.
+export const acquireAIRequestSlot = (signal?: AbortSignal) => rateLimiter.acquire(signal);
+
+// One Gemini call. Each attempt waits its turn with the rate limiter, then
+// gets its own timeout; `parse` validates the answer, so a malformed one is
+// retried like a rate limit, with exponential backoff. Cancelling `signal`
+// stops it at once.
+const generate = async <T,>(contents: ContentListUnion, config: GenerateContentConfig, parse: (text: string | undefined) => T, signal?: AbortSignal): Promise<T> => {
+    if (!ai) throw new Error("AI Client not initialized.");
+    for (let attempt = 1; ; attempt++) {
+        await rateLimiter.acquire(signal);
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal!.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, REQUEST_TIMEOUT_MS);
+
+        try {
+            let response;
+            try {
+                response = await ai.models.generateContent({ model: MODEL, contents, config: { ...config, abortSignal: controller.signal } });
+            } finally {
+                recordAIRequest(response?.usageMetadata);
+            }
+            return parse(response.text);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            const failure = timedOut ? new AITimeoutError(`Gemini didn't answer within ${REQUEST_TIMEOUT_MS / 1000} seconds.`) : error;
+            if (attempt === MAX_ATTEMPTS || !isRetryableAIError(failure)) throw failure;
+            console.warn(`Gemini attempt ${attempt} of ${MAX_ATTEMPTS} failed, retrying:`, failure);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+        // Jittered so a batch that hit a rate limit together doesn't retry together.
+        await abortableSleep(RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+    }
+};
+
+// Gemini sees the file through downscaled previews sent alongside the prompt:
+// a thumbnail for images, the first pages for PDFs.
+const withPreviews = async (file: File, prompt: string) => [{
+    role: 'user',
+    parts: [{ text: prompt }, ...await getPreviewParts(file)],
+}];
+
+const CONTENT_PROMPT = ` The attached images are downscaled previews of the file. Classify what it shows as one of: ${CONTENT_TYPE_NAMES.map(type => `'${type}' (${CONTENT_TYPES[type].description})`).join(', ')}. Also list up to 3 regions of interest that must stay sharp, such as faces or text, as fractions (0-1) of the width and height from the top-left corner; leave the list empty if nothing stands out.`;
+
+const CONTENT_SCHEMA = {
+    contentType: { type: Type.STRING, enum: CONTENT_TYPE_NAMES, description: "What the file shows." },
+    regionsOfInterest: {
+        type: Type.ARRAY,
+        description: "Areas that must stay sharp.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                label: { type: Type.STRING, description: "What the region contains, e.g. 'face' or 'caption'." },
+                x: { type: Type.NUMBER, description: "Left edge as a fraction of the width." },
+                y: { type: Type.NUMBER, description: "Top edge as a fraction of the height." },
+                width: { type: Type.NUMBER, description: "Width as a fraction of the image width." },
+                height: { type: Type.NUMBER, description: "Height as a fraction of the image height." }
+            },
+            required: ["label", "x", "y", "width", "height"]
+        }
+    }
+};
+
+const geminiRecommendSize = async (file: File, language?: Locale, signal?: AbortSignal): Promise<SizeRecommendation> => {
+    let prompt;
+    let schema;
+
+    if (isVectorImage(file)) {
+        prompt = `For an SVG file named "${file.name}" of size ${formatBytes(file.size)}, suggest the size in bytes it will have once optimized as a vector: metadata, comments and editor data stripped, numbers rounded and paths merged. It is not rasterized. Also, provide a very brief reason for your suggestion. Respond ONLY with JSON.`;
+        schema = {
+            type: Type.OBJECT,
+            properties: {
+                recommendedSize: { type: Type.NUMBER, description: "Expected optimized file size in bytes." },
+                reason: { type: Type.STRING, description: "A brief reason for the suggestion." }
+            },
+            required: ["recommendedSize", "reason"]
+        };
+    } else if (file.type.startsWith('image/')) {
+        const animation = await isAnimatedGif(file) ? ' It is an animated GIF and will be re-encoded as an animated WebP with the same frame timing.' : '';
+        prompt = `For a file named "${file.name}" of type ${file.type} and size ${formatBytes(file.size)}, suggest a recommended compressed size in bytes. The goal is a good balance between quality and size reduction. Also, provide a very brief reason for your suggestion (e.g., 'Good for web use', 'Maintains print quality').${animation}${CONTENT_PROMPT} Respond ONLY with JSON.`;
+        schema = {
+            type: Type.OBJECT,
+            properties: {
+                recommendedSize: { type: Type.NUMBER, description: "Suggested target file size in bytes." },
+                reason: { type: Type.STRING, description: "A brief reason for the suggestion." },
+                ...CONTENT_SCHEMA
+            },
+            required: ["recommendedSize", "reason", "contentType", "regionsOfInterest"]
+        };
+    } else if (file.type === 'application/pdf') {
+        prompt = `For a PDF file named "${file.name}" of size ${formatBytes(file.size)}, suggest a recommended compressed size in bytes and a compression mode ('lossless' for preserving all details, 'lossy' for maximum size reduction). The goal is a good balance between quality and size reduction. Also, provide a very brief reason for your suggestion.${CONTENT_PROMPT} Respond ONLY with JSON.`;
+        schema = {
+            type: Type.OBJECT,
+            properties: {
+                recommendedSize: { type: Type.NUMBER, description: "Suggested target file size in bytes." },
+                reason: { type: Type.STRING, description: "A brief reason for the suggestion." },
+                recommendedMode: { type: Type.STRING, enum: ['lossless', 'lossy'], description: "Recommended compression mode." },
+                ...CONTENT_SCHEMA
+            },
+            required: ["recommendedSize", "reason", "recommendedMode", "contentType", "regionsOfInterest"]
+        };
+    } else {
+        throw new Error("Unsupported file type for recommendation");
+    }
+
+    return generate(
+        await withPreviews(file, prompt + languageInstruction(language)),
+        { responseMimeType: "application/json", responseSchema: schema },
+        text => sanitizeSizeRecommendation(parseJsonObject(text), file.size, file.type === 'application/pdf'),
+        signal
+    );
+};
+
+// Up to this many files share one request; more previews than that make the
+// prompt slow and the answers sloppy.
+const RECOMMENDATION_BATCH_SIZE = 8;
+
+const describeForBatch = async (file: File, index: number): Promise<string> => {
+    const description = `File ${index}: "${file.name}", ${file.type}, ${formatBytes(file.size)}.`;
+    if (isVectorImage(file)) return `${description} An SVG that is optimized as a vector, not rasterized: suggest its size once metadata, comments and editor data are stripped, numbers rounded and paths merged.`;
+    if (file.type === 'application/pdf') return `${description} A PDF: also pick a compression mode ('lossless' for preserving all details, 'lossy' for maximum size reduction).`;
+    if (await isAnimatedGif(file)) return `${description} An animated GIF that will be re-encoded as an animated WebP with the same frame timing.`;
+    return description;
+};
+
+const BATCH_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        files: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    index: { type: Type.NUMBER, description: "The file's number from the prompt." },
+                    recommendedSize: { type: Type.NUMBER, description: "Suggested target file size in bytes." },
+                    reason: { type: Type.STRING, description: "A brief reason for the suggestion." },
+                    recommendedMode: { type: Type.STRING, enum: ['lossless', 'lossy'], description: "Recommended compression mode, for PDFs only." },
+                    ...CONTENT_SCHEMA
+                },
+                required: ["index", "recommendedSize", "reason"]
+            }
+        }
+    },
+    required: ["files"]
+};
+
+// Several files in one request: each file's line is followed by its previews.
+const geminiRecommendBatch = async (files: File[], language?: Locale, signal?: AbortSignal): Promise<(SizeRecommendation | undefined)[]> => {
+    const prompt = `For each of the ${files.length} files below, suggest a recommended compressed size in bytes. The goal is a good balance between quality and size reduction. Also, provide a very brief reason for each suggestion (e.g., 'Good for web use', 'Maintains print quality'). The images after a file's line are downscaled previews of that file. For images and PDFs, classify what it shows as one of: ${CONTENT_TYPE_NAMES.map(type => `'${type}' (${CONTENT_TYPES[type].description})`).join(', ')}, and list up to 3 regions of interest that must stay sharp, such as faces or text, as fractions (0-1) of the width and height from the top-left corner. Answer once for every file, with its number as the index. Respond ONLY with JSON.`;
+    const parts: Part[] = [{ text: prompt + languageInstruction(language) }];
+    for (const [index, file] of files.entries()) {
+        parts.push({ text: await describeForBatch(file, index) }, ...await getPreviewParts(file));
+    }
+    return generate(
+        [{ role: 'user', parts }],
+        { responseMimeType: "application/json", responseSchema: BATCH_SCHEMA },
+        text => sanitizeSizeRecommendations(parseJsonObject(text), files.map(file => ({ size: file.size, isPdf: file.type === 'application/pdf' }))),
+        signal
+    );
+};
+
+// As few requests as the batch size allows. Files Gemini skipped come back
+// undefined.
+const geminiRecommendSizes = async (files: File[], language?: Locale, signal?: AbortSignal): Promise<(SizeRecommendation | undefined)[]> => {
+    const results: (SizeRecommendation | undefined)[] = [];
+    for (let start = 0; start < files.length; start += RECOMMENDATION_BATCH_SIZE) {
+        const chunk = files.slice(start, start + RECOMMENDATION_BATCH_SIZE);
+        results.push(...chunk.length === 1 ? [await geminiRecommendSize(chunk[0], language, signal)] : await geminiRecommendBatch(chunk, language, signal));
+    }
+    return results;
+};
+
+const geminiSuggestCompression = async (file: File, enableSmartResize: boolean, targetSize?: number, targetUnit?: 'KB' | 'MB', hasTransparency = false, bounds?: ResizeBounds, language?: Locale, signal?: AbortSignal): Promise<CompressionSettings> => {
+    const original = await getImageDimensions(file);
+    const dimensions = bounds || original;
+    let prompt = `Act as a file compression expert. For a file named "${file.name}" of type ${file.type} and size ${formatBytes(file.size)}, provide the best compression settings to significantly reduce size while preserving quality. For images, suggest a target quality (0-100, on the JPEG quality scale) and the best output format: 'jpeg' for photos, 'webp' for photos or graphics that need transparency, 'avif' for the smallest photos on modern browsers, 'png' for lossless output, or 'png-quantized' (a 256-color palette with dithering) for icons, logos and screenshots.`;
+
+    if (hasTransparency) {
+        prompt += ` The image has transparent areas, so never choose 'jpeg'.`;
+    }
+
+    if (await isAnimatedGif(file)) {
+        prompt += ` It is an animated GIF, which is always re-encoded as an animated WebP, so choose 'webp'.`;
+    }
+
+    if (targetSize && targetUnit) {
+        prompt += ` The user has specified a target size of approximately ${targetSize} ${targetUnit}. Prioritize getting close to this size while maintaining the best possible quality.`;
+    }
+
+    if (enableSmartResize) {
+        prompt += ` The original dimensions are ${original.width}x${original.height}px.`;
+        if (dimensions.width !== original.width || dimensions.height !== original.height) {
+            prompt += ` The user's crop and resize settings limit the output to ${dimensions.width}x${dimensions.height}px.`;
+        }
+        prompt += ` Also suggest an optimal new resolution (targetWidth and targetHeight) no larger than ${dimensions.width}x${dimensions.height}px that preserves key details and aspect ratio for maximum file size reduction.`
+    }
+    
+    prompt += `${CONTENT_PROMPT} Text, charts and line art need a higher quality and enough resolution to stay legible. Respond ONLY with JSON.${languageInstruction(language)}`
+
+    const schema: any = {
+        type: Type.OBJECT,
+        properties: {
+            targetQuality: { type: Type.NUMBER, description: "A value between 0 and 100 on the JPEG quality scale, or palette size for quantized PNG." },
+            outputFormat: { type: Type.STRING, enum: OUTPUT_FORMAT_NAMES, description: "The output format to encode the image as." },
+            recommendation: { type: Type.STRING, description: "A brief explanation for the chosen settings." },
+            contentType: CONTENT_SCHEMA.contentType
+        },
+        required: ["targetQuality", "outputFormat", "recommendation", "contentType"]
+    };
+
+    if (enableSmartResize) {
+        schema.properties.targetWidth = { type: Type.NUMBER, description: "Suggested new width for the image." };
+        schema.properties.targetHeight = { type: Type.NUMBER, description: "Suggested new height for the image." };
+    }
+
+    // Resize hints only count when asked for; the source aspect ratio always wins.
+    return generate(
+        await withPreviews(file, prompt),
+        { responseMimeType: "application/json", responseSchema: schema },
+        text => sanitizeCompressionSettings(parseJsonObject(text), enableSmartResize ? dimensions : undefined),
+        signal
+    );
+};
+
+const geminiProposeBreakpoints = async (file: File, dimensions: ResizeBounds, language?: Locale, signal?: AbortSignal): Promise<BreakpointProposal> => {
+    const prompt = `For an image named "${file.name}" that is ${dimensions.width}x${dimensions.height}px, propose the widths in pixels to generate for a responsive srcset: between 3 and ${Math.min(6, MAX_BREAKPOINTS)} of them, none wider than ${dimensions.width}px. Think about the layouts it is likely shown in (full-width hero, content column, card or thumbnail) on 1x and 2x screens, and keep neighbouring widths far enough apart that each one saves real bytes. Text, charts and screenshots need enough width to stay legible. Also, provide a very brief reason for your choice. The attached image is a downscaled preview. Respond ONLY with JSON.${languageInstruction(language)}`;
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            widths: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Image widths in pixels, smallest first." },
+            reason: { type: Type.STRING, description: "A brief reason for the breakpoints." }
+        },
+        required: ["widths", "reason"]
+    };
+    return generate(
+        await withPreviews(file, prompt),
+        { responseMimeType: "application/json", responseSchema: schema },
+        text => sanitizeBreakpoints(parseJsonObject(text), dimensions.width),
+        signal
+    );
+};
+
+const geminiReport = async (originalSize: number, newSize: number, language?: Locale, signal?: AbortSignal): Promise<string> => {
+    const reduction = (((originalSize - newSize) / originalSize) * 100).toFixed(0);
+    const prompt = `Generate a brief, encouraging compression report. Original size: ${formatBytes(originalSize)}, new size: ${formatBytes(newSize)}. Percentage saved: ${reduction}%. If nothing was saved, say so plainly rather than claiming a saving. Keep it under 20 words.${languageInstruction(language)}`;
+    return generate(prompt, {}, sanitizeReport, signal);
+}
+
+const geminiPdfReport = async (originalSize: number, newSize: number, mode?: 'lossless' | 'lossy', stats?: PdfOptimizeStats, language?: Locale, signal?: AbortSignal): Promise<string> => {
+    const reduction = (((originalSize - newSize) / originalSize) * 100).toFixed(0);
+    let prompt = `Generate a brief, encouraging compression report for a PDF file. Original size: ${formatBytes(originalSize)}, new size: ${formatBytes(newSize)}. Percentage saved: ${reduction}%.`;
+
+    if (stats?.unchanged) {
+        prompt += ` Nothing made the file smaller, so it was kept exactly as it was; say that it was already well optimized and mention no optimizations. Keep it under 20 words.${languageInstruction(language)}`;
+        return generate(prompt, {}, sanitizeReport, signal);
+    }
+
+    if (mode === 'lossless') {
+        prompt += ` Mention that document fidelity and quality are perfectly preserved.`;
+    } else {
+        prompt += ` Mention that readability is preserved, making it great for sharing.`;
+    }
+
+    if (stats?.color && stats.color !== 'color' && stats.recoloredImages > 0) {
+        prompt += ` The scanned images were converted to ${PDF_COLOR_MODES[stats.color].toLowerCase()} on request; mention it.`;
+    }
+
+    if (stats) {
+        prompt += ` What was actually done: ${stats.resampledImages} images downsampled, ${stats.recoloredImages ?? 0} images converted from colour, ${stats.deduplicatedObjects} duplicate fonts/images merged, ${stats.deflatedStreams} uncompressed streams deflated, ${stats.removedObjects} unused objects removed. Only mention optimizations that happened. If nothing was saved, say the file was already well optimized.`;
+    }
+    
+    prompt += ` Keep it under 25 words.${languageInstruction(language)}`;
+    return generate(prompt, {}, sanitizeReport, signal);
+}
+
+const geminiBatchSummary = async (stats: BatchSummaryStats, language?: Locale, signal?: AbortSignal): Promise<string> => {
+    const reduction = (((stats.originalSize - stats.compressedSize) / stats.originalSize) * 100).toFixed(0);
+    let prompt = `Generate a brief executive summary of a batch compression job for a bandwidth and storage savings report. Files: ${stats.files}. Original total: ${formatBytes(stats.originalSize)}, compressed total: ${formatBytes(stats.compressedSize)}. Percentage saved: ${reduction}%.`;
+    prompt += ` By file type: ${stats.byType.map(type => `${type.inputType} ${type.files} files, ${formatBytes(type.originalSize)} to ${formatBytes(type.compressedSize)}`).join('; ')}.`;
+    if (stats.biggestWin) {
+        prompt += ` Biggest single saving: "${stats.biggestWin.name}", ${formatBytes(stats.biggestWin.originalSize)} to ${formatBytes(stats.biggestWin.compressedSize)}.`;
+    }
+    if (stats.missedTargets) {
+        prompt += ` ${stats.missedTargets} files missed their size target; mention it plainly.`;
+    }
+    prompt += ` Write for a manager: factual, no exclamation marks. Keep it under 60 words.${languageInstruction(language)}`;
+    return generate(prompt, {}, sanitizeReport, signal);
+};
+
+// --- Recommendation Providers ---
+export type ProviderId = 'gemini' | 'heuristic' | 'mock';
+
+// The largest output the user's own crop and resize settings allow; smart
+// resize can only go smaller.
+export interface ResizeBounds {
+    width: number;
+    height: number;
+}
+
+export interface BreakpointProposal {
+    // Output widths in pixels, smallest first.
+    widths: number[];
+    // Gemini's, when it gave one.
+    reason?: string;
+}
+
+export interface SizeRecommendation {
+    recommendedSize: number;
+    // Gemini's, when it gave one.
+    reason?: string;
+    recommendedPdfMode?: PdfCompressionMode;
+    // What the previews show, when they could be made.
+    analysis?: ContentAnalysis;
+}
+
+// Everything the app asks of an AI backend. Any implementation can stand in
+// for another, which is what lets the app keep working without Gemini.
+// `language` is what the free text in an answer should be written in.
+export interface RecommendationProvider {
+    id: ProviderId;
+    label: string;
+    // Skipped without a word while this says no, e.g. Gemini without a key.
+    isConfigured?: () => boolean;
+    recommendSize: (file: File, language?: Locale, signal?: AbortSignal) => Promise<SizeRecommendation>;
+    // Many files at once, in file order; undefined where there's no answer.
+    // Optional: without it, files are asked about one at a time.
+    recommendSizes?: (files: File[], language?: Locale, signal?: AbortSignal) => Promise<(SizeRecommendation | undefined)[]>;
+    suggestCompression: (file: File, enableSmartResize: boolean, targetSize?: number, targetUnit?: 'KB' | 'MB', hasTransparency?: boolean, bounds?: ResizeBounds, language?: Locale, signal?: AbortSignal) => Promise<CompressionSettings>;
+    // `dimensions` is the image as it will be encoded, after any crop.
+    proposeBreakpoints: (file: File, dimensions: ResizeBounds, language?: Locale, signal?: AbortSignal) => Promise<BreakpointProposal>;
+    report: (originalSize: number, newSize: number, language?: Locale, signal?: AbortSignal) => Promise<string>;
+    pdfReport: (originalSize: number, newSize: number, mode?: PdfCompressionMode, stats?: PdfOptimizeStats, language?: Locale, signal?: AbortSignal) => Promise<string>;
+    // The executive summary of a finished batch.
+    batchSummary: (stats: BatchSummaryStats, language?: Locale, signal?: AbortSignal) => Promise<string>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Gemini',
+    heuristic: 'Offline rules',
+    mock: 'Mock',
+};
+
+// Wraps a provider so every answer is cached by the file's content hash and
+// the settings asked about; re-adding a file or reloading the page doesn't
+// ask again. A batch only asks about the files that aren't cached.
+export const withAICache = (provider: RecommendationProvider): RecommendationProvider => ({
+    ...provider,
+    recommendSize: async (file, language, signal) =>
+        cachedAICall(aiCacheKey('recommendSize', await hashBlob(file), language), () => provider.recommendSize(file, language, signal)),
+    recommendSizes: provider.recommendSizes && (async (files, language, signal) => {
+        const keys = await Promise.all(files.map(async file => aiCacheKey('recommendSize', await hashBlob(file), language)));
+        const results = await Promise.all(keys.map(key => readAICache<SizeRecommendation>(key)));
+        const missing = files.map((_, index) => index).filter(index => !results[index]);
+        if (missing.length) {
+            const answers = await provider.recommendSizes!(missing.map(index => files[index]), language, signal);
+            missing.forEach((index, position) => {
+                if (!answers[position]) return;
+                results[index] = answers[position];
+                writeAICache(keys[index], answers[position]);
+            });
+        }
+        return results;
+    }),
+    suggestCompression: async (file, enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal) =>
+        cachedAICall(
+            aiCacheKey('suggestCompression', await hashBlob(file), enableSmartResize, targetSize, targetUnit, !!hasTransparency, bounds, language),
+            () => provider.suggestCompression(file, enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal)
+        ),
+    proposeBreakpoints: async (file, dimensions, language, signal) =>
+        cachedAICall(aiCacheKey('proposeBreakpoints', await hashBlob(file), dimensions, language), () => provider.proposeBreakpoints(file, dimensions, language, signal)),
+    report: (originalSize, newSize, language, signal) =>
+        cachedAICall(aiCacheKey('report', originalSize, newSize, language), () => provider.report(originalSize, newSize, language, signal)),
+    pdfReport: (originalSize, newSize, mode, stats, language, signal) =>
+        cachedAICall(aiCacheKey('pdfReport', originalSize, newSize, mode, stats, language), () => provider.pdfReport(originalSize, newSize, mode, stats, language, signal)),
+    batchSummary: (stats, language, signal) =>
+        cachedAICall(aiCacheKey('batchSummary', stats, language), () => provider.batchSummary(stats, language, signal)),
+});
+
+export const geminiProvider: RecommendationProvider = withAICache({
+    id: 'gemini',
+    label: PROVIDER_LABELS.gemini,
+    isConfigured: () => !!ai,
+    recommendSize: geminiRecommendSize,
+    recommendSizes: geminiRecommendSizes,
+    suggestCompression: geminiSuggestCompression,
+    proposeBreakpoints: geminiProposeBreakpoints,
+    report: geminiReport,
+    pdfReport: geminiPdfReport,
+    batchSummary: geminiBatchSummary,
+});
+
+const percentSaved = (originalSize: number, newSize: number): number => Math.round(((originalSize - newSize) / originalSize) * 100);
+
+// Deterministic rules that pick settings from file type, size, pixel count
+// and transparency. Same input, same answer, no network. They answer in the
+// language asked for, English when none is.
+export const heuristicProvider: RecommendationProvider = {
+    id: 'heuristic',
+    label: PROVIDER_LABELS.heuristic,
+
+    recommendSize: async (file, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        if (file.type === 'application/pdf') {
+            const analysis = await analyzeContent(file);
+            // Scans are all image data, so downsampling is where the savings are.
+            const lossy = file.size > 1024 * 1024 || analysis?.contentType === 'scanned-document';
+            return {
+                recommendedSize: Math.round(file.size * (lossy ? 0.6 : 0.85)),
+                reason: lossy ? text.largePdf : text.smallPdf,
+                recommendedPdfMode: lossy ? 'lossy' : 'lossless',
+                analysis,
+            };
+        }
+        if (isVectorImage(file)) {
+            return { recommendedSize: Math.round(file.size * 0.6), reason: text.svg };
+        }
+        if (!file.type.startsWith('image/')) throw new Error("Unsupported file type for recommendation");
+        if (await isAnimatedGif(file)) {
+            return { recommendedSize: Math.round(file.size * 0.5), reason: text.animatedGif, analysis: await analyzeContent(file) };
+        }
+
+        const { width, height } = await getImageDimensions(file);
+        const pixels = width * height;
+        const analysis = await analyzeContent(file);
+        if (await detectTransparency(file)) {
+            return { recommendedSize: Math.round(Math.min(file.size * 0.6, pixels * 0.5)), reason: text.transparency, analysis };
+        }
+        if (analysis && analysis.contentType !== 'photo') {
+            return { recommendedSize: Math.round(Math.min(file.size * 0.5, pixels * 0.4)), reason: text.sharpEdges(text.subjects[analysis.contentType]), analysis };
+        }
+        if (!analysis && file.type === 'image/png' && pixels <= 500_000) {
+            return { recommendedSize: Math.round(Math.min(file.size * 0.5, pixels * 0.4)), reason: text.smallGraphic };
+        }
+        return { recommendedSize: Math.round(Math.min(file.size * 0.7, pixels * 0.2)), reason: text.web, analysis };
+    },
+
+    suggestCompression: async (file, enableSmartResize, targetSize, targetUnit, hasTransparency = false, bounds, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        const { width, height } = await getImageDimensions(file);
+        const pixels = width * height;
+        const contentType = (await analyzeContent(file))?.contentType;
+        const isSmallGraphic = file.type === 'image/png' && pixels <= 500_000;
+
+        let targetQuality = file.size / pixels > 1 ? 75 : 80;
+        if (targetSize && targetUnit) {
+            // Quality falls off roughly with the square root of the size ratio.
+            const ratio = (targetSize * (targetUnit === 'MB' ? 1024 * 1024 : 1024)) / file.size;
+            targetQuality = Math.round(Math.min(90, Math.max(30, 85 * Math.sqrt(ratio))));
+        }
+
+        let outputFormat: OutputFormat = contentType ? preferredFormatFor(contentType) : isSmallGraphic ? 'png-quantized' : 'jpeg';
+        if (hasTransparency && outputFormat === 'jpeg') outputFormat = 'webp';
+        const subject = text.subjects[contentType ?? (isSmallGraphic ? 'graphic' : 'image')];
+        const settings: CompressionSettings = {
+            targetQuality,
+            outputFormat,
+            recommendation: text.settings(outputFormat === 'png-quantized' ? text.palettePng : OUTPUT_FORMATS[outputFormat].label, targetQuality, width, height, subject, hasTransparency),
+            contentType,
+        };
+
+        const maxEdge = 2560;
+        const limit = bounds || { width, height };
+        if (enableSmartResize && Math.max(limit.width, limit.height) > maxEdge) {
+            const scale = maxEdge / Math.max(limit.width, limit.height);
+            settings.targetWidth = Math.round(limit.width * scale);
+            settings.targetHeight = Math.round(limit.height * scale);
+        }
+        return settings;
+    },
+
+    proposeBreakpoints: async (file, dimensions, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        const contentType = (await analyzeContent(file))?.contentType;
+        const widths = suggestBreakpoints(dimensions.width, contentType);
+        return { widths, reason: text.breakpoints(widths[widths.length - 1], dimensions.width, text.subjects[contentType ?? 'image']) };
+    },
+
+    report: async (originalSize, newSize, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        const bytes = (size: number) => formatLocaleBytes(size, 2, language);
+        if (newSize === originalSize) return text.kept;
+        return newSize < originalSize
+            ? text.saved(percentSaved(originalSize, newSize), bytes(originalSize), bytes(newSize))
+            : text.grew(-percentSaved(originalSize, newSize), bytes(originalSize), bytes(newSize));
+    },
+
+    pdfReport: async (originalSize, newSize, mode, stats, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        const bytes = (size: number) => formatLocaleBytes(size, 2, language);
+        const applied = stats ? [
+            stats.resampledImages && text.resampled(stats.resampledImages),
+            stats.recoloredImages && stats.color && text.recolored(stats.recoloredImages, text.colors[stats.color]),
+            stats.deduplicatedObjects && text.deduplicated(stats.deduplicatedObjects),
+            stats.deflatedStreams && text.deflated(stats.deflatedStreams),
+            stats.removedObjects && text.removed(stats.removedObjects),
+        ].filter((fragment): fragment is string => Boolean(fragment)) : [];
+        const summary = stats?.unchanged || newSize === originalSize
+            ? text.alreadyOptimized
+            : newSize < originalSize
+                ? text.saved(percentSaved(originalSize, newSize), bytes(originalSize), bytes(newSize))
+                : text.grew(-percentSaved(originalSize, newSize), bytes(originalSize), bytes(newSize));
+        // Downsampled or recoloured images are a change to the document, however small.
+        const faithful = mode === 'lossless' && !stats?.resampledImages && !stats?.recoloredImages;
+        return [summary, applied.length > 0 && text.applied(applied), faithful && text.fidelity].filter(Boolean).join(' ');
+    },
+
+    batchSummary: async (stats, language = DEFAULT_LOCALE) => {
+        const text = heuristicText(language);
+        const bytes = (size: number) => formatLocaleBytes(size, 2, language);
+        const [top] = stats.byType;
+        return [
+            text.batch(stats.files, bytes(stats.originalSize), bytes(stats.compressedSize), percentSaved(stats.originalSize, stats.compressedSize)),
+            stats.byType.length > 1 && top.originalSize > top.compressedSize && text.topType(top.inputType, bytes(top.originalSize - top.compressedSize)),
+            stats.missedTargets > 0 && text.missedTargets(stats.missedTargets),
+        ].filter(Boolean).join(' ');
+    },
+};
+
+type ScriptedResponse<T> = T | Error;
+
+// A provider that replays canned responses in order, for tests and demos.
+// Each method throws once its script runs out.
+export const createScriptedProvider = (script: {
+    recommendSize?: ScriptedResponse<SizeRecommendation>[];
+    suggestCompression?: ScriptedResponse<CompressionSettings>[];
+    proposeBreakpoints?: ScriptedResponse<BreakpointProposal>[];
+    report?: ScriptedResponse<string>[];
+    pdfReport?: ScriptedResponse<string>[];
+    batchSummary?: ScriptedResponse<string>[];
+}): RecommendationProvider => {
+    const next = <T,>(name: keyof typeof script, queue: ScriptedResponse<T>[] = []) => async (): Promise<T> => {
+        const response = queue.shift();
+        if (response === undefined) throw new Error(`Mock provider has no scripted ${name} response left.`);
+        if (response instanceof Error) throw response;
+        return response;
+    };
+    return {
+        id: 'mock',
+        label: PROVIDER_LABELS.mock,
+        recommendSize: next('recommendSize', script.recommendSize),
+        suggestCompression: next('suggestCompression', script.suggestCompression),
+        proposeBreakpoints: next('proposeBreakpoints', script.proposeBreakpoints),
+        report: next('report', script.report),
+        pdfReport: next('pdfReport', script.pdfReport),
+        batchSummary: next('batchSummary', script.batchSummary),
+    };
+};
+
+// Tried in order; the heuristic engine is always last so there is an answer offline.
+let recommendationProviders: RecommendationProvider[] = [geminiProvider, heuristicProvider];
+
+export const setRecommendationProviders = (providers: RecommendationProvider[]) => {
+    recommendationProviders = providers;
+};
+
+// Why the chain moved past a provider: the browser was offline, or it failed
+// with `error`.
+export interface AIFallback {
+    provider: ProviderId;
+    error?: AIErrorInfo;
+}
+
+// The same in English, for logs, the CLI and the server.
+export const fallbackReason = ({ provider, error }: AIFallback): string =>
+    error ? `${PROVIDER_LABELS[provider]} failed: ${error.message}` : "You're offline.";
+
+// `fallback` says why an earlier provider didn't answer, for the UI.
+interface ProviderResult<T> {
+    result: T;
+    provider: ProviderId;
+    fallback?: AIFallback;
+}
+
+// Node has no navigator, or one without onLine; only skip when the browser says it's offline.
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const isConfigured = (provider: RecommendationProvider) => !provider.isConfigured || provider.isConfigured();
+
+const runWithFallback = async <T,>(call: (provider: RecommendationProvider) => Promise<T>, signal?: AbortSignal): Promise<ProviderResult<T>> => {
+    let lastError: unknown = new Error("No recommendation provider available.");
+    let fallback: AIFallback | undefined;
+    for (const provider of recommendationProviders) {
+        if (!isConfigured(provider)) continue;
+        if (provider.id === 'gemini' && isOffline()) {
+            fallback = { provider: provider.id };
+            continue;
+        }
+        try {
+            return { result: await call(provider), provider: provider.id, fallback };
+        } catch (error) {
+            // A cancelled job must not quietly continue on the next provider.
+            if (signal?.aborted) throw error;
+            console.warn(`${provider.label} failed, trying the next provider:`, error);
+            lastError = error;
+            fallback = { provider: provider.id, error: classifyAIError(error) };
+        }
+    }
+    throw lastError;
+};
+
+export const getAIRecommendedSize = async (file: File, language?: Locale, signal?: AbortSignal): Promise<SizeRecommendation & { provider: ProviderId; fallback?: AIFallback }> => {
+    const { result, provider, fallback } = await runWithFallback(p => p.recommendSize(file, language, signal), signal);
+    return { ...result, provider, fallback };
+};
+
+// Recommendations for a whole drop. The first provider that can be asked gets
+// every file at once if it batches; whatever it leaves unanswered goes through
+// the usual chain one file at a time. Settled per file, in file order.
+export const getAIRecommendedSizes = async (files: File[], language?: Locale, signal?: AbortSignal): Promise<PromiseSettledResult<SizeRecommendation & { provider: ProviderId; fallback?: AIFallback }>[]> => {
+    const first = recommendationProviders.find(provider => isConfigured(provider) && !(provider.id === 'gemini' && isOffline()));
+    let answers: (SizeRecommendation | undefined)[] = [];
+    if (first?.recommendSizes && files.length > 1) {
+        try {
+            answers = await first.recommendSizes(files, language, signal);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn(`${first.label} couldn't answer for the whole batch, asking file by file:`, error);
+        }
+    }
+    return Promise.allSettled(files.map(async (file, index) => answers[index]
+        ? { ...answers[index]!, provider: first!.id }
+        : getAIRecommendedSize(file, language, signal)));
+};
+
+export const getAICompressionSuggestion = async (file: File, enableSmartResize: boolean, targetSize?: number, targetUnit?: 'KB' | 'MB', hasTransparency = false, bounds?: ResizeBounds, language?: Locale, signal?: AbortSignal): Promise<{ settings: CompressionSettings; provider: ProviderId; fallback?: AIFallback }> => {
+    const { result, provider, fallback } = await runWithFallback(p => p.suggestCompression(file, enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal), signal);
+    return { settings: result, provider, fallback };
+};
+
+export const getAIBreakpoints = async (file: File, dimensions: ResizeBounds, language?: Locale, signal?: AbortSignal): Promise<BreakpointProposal & { provider: ProviderId; fallback?: AIFallback }> => {
+    const { result, provider, fallback } = await runWithFallback(p => p.proposeBreakpoints(file, dimensions, language, signal), signal);
+    return { ...result, provider, fallback };
+};
+
+export const getAIReport = async (originalSize: number, newSize: number, language?: Locale, signal?: AbortSignal): Promise<{ text: string; provider: ProviderId }> => {
+    const { result, provider } = await runWithFallback(p => p.report(originalSize, newSize, language, signal), signal);
+    return { text: result, provider };
+};
+
+export const getAIPdfReport = async (originalSize: number, newSize: number, mode?: PdfCompressionMode, stats?: PdfOptimizeStats, language?: Locale, signal?: AbortSignal): Promise<{ text: string; provider: ProviderId }> => {
+    const { result, provider } = await runWithFallback(p => p.pdfReport(originalSize, newSize, mode, stats, language, signal), signal);
+    return { text: result, provider };
+};
+
+export const getAIBatchSummary = async (stats: BatchSummaryStats, language?: Locale, signal?: AbortSignal): Promise<{ text: string; provider: ProviderId }> => {
+    const { result, provider } = await runWithFallback(p => p.batchSummary(stats, language, signal), signal);
+    return { text: result, provider };
+};
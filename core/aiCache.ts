@@ -0,0 +1,75 @@
+import { recordCacheLookup } from './aiUsage';
+
+// Gemini answers are kept by what was asked: the kind of prompt, the file's
+// content hash and the settings that went into it. Asking again about the
+// same bytes with the same settings, after a re-add or a reload, costs
+// nothing. The store is in memory unless the platform sets a persistent one.
+// The memory store keeps the most recently used answers up to a cap, so a
+// long-running server doesn't hold every answer it ever gave.
+
+export interface AICacheStore {
+    get: (key: string) => Promise<unknown>;
+    set: (key: string, value: unknown) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+export const DEFAULT_MEMORY_CACHE_ENTRIES = 1000;
+
+// A Map iterates in insertion order, so re-inserting on every hit keeps the
+// least recently used entry first, and that's the one that goes.
+export const createMemoryCache = (maxEntries = DEFAULT_MEMORY_CACHE_ENTRIES): AICacheStore => {
+    const entries = new Map<string, unknown>();
+    return {
+        get: async (key) => {
+            if (!entries.has(key)) return undefined;
+            const value = entries.get(key);
+            entries.delete(key);
+            entries.set(key, value);
+            return value;
+        },
+        set: async (key, value) => {
+            entries.delete(key);
+            entries.set(key, value);
+            while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+        },
+        clear: async () => entries.clear(),
+    };
+};
+
+let store: AICacheStore = createMemoryCache();
+
+export const setAICacheStore = (next: AICacheStore) => {
+    store = next;
+};
+
+export const clearAICache = () => store.clear();
+
+// Bumped when prompts change enough that old answers shouldn't be reused.
+const CACHE_VERSION = 1;
+
+export const aiCacheKey = (kind: string, ...parts: unknown[]): string => `v${CACHE_VERSION}:${kind}:${JSON.stringify(parts)}`;
+
+export const readAICache = async <T,>(key: string): Promise<T | undefined> => {
+    let value: unknown;
+    try {
+        value = await store.get(key);
+    } catch (error) {
+        console.warn("Couldn't read the AI cache:", error);
+    }
+    recordCacheLookup(value !== undefined);
+    return value as T | undefined;
+};
+
+// A cache that can't be written is only a missed saving.
+export const writeAICache = (key: string, value: unknown) => {
+    store.set(key, value).catch(error => console.warn("Couldn't write the AI cache:", error));
+};
+
+// The cached answer, or a fresh one that's then kept.
+export const cachedAICall = async <T,>(key: string, call: () => Promise<T>): Promise<T> => {
+    const cached = await readAICache<T>(key);
+    if (cached !== undefined) return cached;
+    const result = await call();
+    writeAICache(key, result);
+    return result;
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '@google/genai';
+import {
+    AIResponseError, AITimeoutError, AIServerError, classifyAIError, describeAIError, parseJsonObject, sanitizeSizeRecommendation, sanitizeSizeRecommendations, sanitizeCompressionSettings, sanitizeBreakpoints, sanitizeReport,
+} from '.';
+
+describe('classifyAIError', () => {
+    it('sorts failures into kinds the app can word, keeping the English', () => {
+        expect(classifyAIError(new ApiError({ message: 'quota', status: 429 }))).toEqual({ kind: 'rate-limit', message: 'Gemini rate limit reached.' });
+        expect(classifyAIError(new ApiError({ message: 'bad', status: 400 }))).toEqual({ kind: 'refused', status: 400, message: 'Gemini refused the request (400).' });
+        expect(classifyAIError(new AITimeoutError('Too slow.')).kind).toBe('timeout');
+        expect(classifyAIError(new AIServerError('Down.', 0)).kind).toBe('server-unreachable');
+        expect(classifyAIError(new AIServerError('Upstream.', 502))).toEqual({ kind: 'server-failed', status: 502, message: 'Upstream.' });
+        expect(classifyAIError(new Error('Odd.'))).toEqual({ kind: 'failed', message: 'Odd.' });
+        expect(describeAIError(new AIResponseError('Gemini returned malformed JSON.'))).toBe('Gemini returned malformed JSON.');
+    });
+});
+
+describe('parseJsonObject', () => {
+    it('rejects malformed JSON and anything but an object', () => {
+        expect(() => parseJsonObject('{"a":')).toThrow(AIResponseError);
+        expect(() => parseJsonObject('[1, 2]')).toThrow(AIResponseError);
+        expect(() => parseJsonObject(undefined)).toThrow(AIResponseError);
+        expect(parseJsonObject('{"a": 1}')).toEqual({ a: 1 });
+    });
+});
+
+describe('sanitizeCompressionSettings', () => {
+    const original = { width: 4000, height: 3000 };
+
+    it('clamps and rounds quality into 1–100', () => {
+        expect(sanitizeCompressionSettings({ outputFormat: 'jpeg', targetQuality: 140 }).targetQuality).toBe(100);
+        expect(sanitizeCompressionSettings({ outputFormat: 'jpeg', targetQuality: -5 }).targetQuality).toBe(1);
+        expect(sanitizeCompressionSettings({ outputFormat: 'jpeg', targetQuality: '72.6' }).targetQuality).toBe(73);
+    });
+
+    it('rejects a quality that is not a number, and an unknown format', () => {
+        expect(() => sanitizeCompressionSettings({ outputFormat: 'jpeg', targetQuality: 'high' })).toThrow(AIResponseError);
+        expect(() => sanitizeCompressionSettings({ outputFormat: 'jpeg', targetQuality: null })).toThrow(AIResponseError);
+        expect(() => sanitizeCompressionSettings({ outputFormat: 'heic', targetQuality: 80 })).toThrow(AIResponseError);
+    });
+
+    it('keeps the aspect ratio, taking the tighter side', () => {
+        const settings = sanitizeCompressionSettings({ outputFormat: 'webp', targetQuality: 80, targetWidth: 2000, targetHeight: 2000 }, original);
+        expect(settings).toMatchObject({ targetWidth: 2000, targetHeight: 1500 });
+    });
+
+    it('scales from one side when only one is given', () => {
+        const settings = sanitizeCompressionSettings({ outputFormat: 'webp', targetQuality: 80, targetHeight: 600 }, original);
+        expect(settings).toMatchObject({ targetWidth: 800, targetHeight: 600 });
+    });
+
+    it('never upscales, and ignores sizes without an original to scale', () => {
+        const upscale = sanitizeCompressionSettings({ outputFormat: 'webp', targetQuality: 80, targetWidth: 8000, targetHeight: 6000 }, original);
+        expect(upscale.targetWidth).toBeUndefined();
+        expect(upscale.targetHeight).toBeUndefined();
+        const noOriginal = sanitizeCompressionSettings({ outputFormat: 'webp', targetQuality: 80, targetWidth: 100 });
+        expect(noOriginal.targetWidth).toBeUndefined();
+    });
+});
+
+describe('sanitizeSizeRecommendation', () => {
+    it('caps a recommendation at or above the original below it', () => {
+        expect(sanitizeSizeRecommendation({ recommendedSize: 1000, reason: 'Same' }, 1000, false).recommendedSize).toBe(950);
+        expect(sanitizeSizeRecommendation({ recommendedSize: 5000, reason: 'Bigger' }, 1000, false).recommendedSize).toBe(950);
+        expect(sanitizeSizeRecommendation({ recommendedSize: 400, reason: 'Smaller' }, 1000, false).recommendedSize).toBe(400);
+    });
+
+    it('rejects a size of zero or less, or none at all', () => {
+        expect(() => sanitizeSizeRecommendation({ recommendedSize: 0 }, 1000, false)).toThrow(AIResponseError);
+        expect(() => sanitizeSizeRecommendation({ recommendedSize: 'small' }, 1000, false)).toThrow(AIResponseError);
+        expect(() => sanitizeSizeRecommendation({}, 1000, false)).toThrow(AIResponseError);
+    });
+
+    it('only gives PDFs a mode, lossy when the one given is unknown', () => {
+        expect(sanitizeSizeRecommendation({ recommendedSize: 400, recommendedMode: 'lossless' }, 1000, true).recommendedPdfMode).toBe('lossless');
+        expect(sanitizeSizeRecommendation({ recommendedSize: 400, recommendedMode: 'extreme' }, 1000, true).recommendedPdfMode).toBe('lossy');
+        expect(sanitizeSizeRecommendation({ recommendedSize: 400, recommendedMode: 'lossless' }, 1000, false).recommendedPdfMode).toBeUndefined();
+    });
+});
+
+describe('sanitizeSizeRecommendations', () => {
+    const files = [{ size: 1000, isPdf: false }, { size: 2000, isPdf: true }, { size: 3000, isPdf: false }];
+
+    it('answers files by index and leaves malformed, repeated or missing entries unanswered', () => {
+        const results = sanitizeSizeRecommendations({
+            files: [
+                { index: 1, recommendedSize: 800, reason: 'PDF' },
+                { index: 1, recommendedSize: 100, reason: 'Repeated' },
+                { index: 0, recommendedSize: 'lots' },
+                { index: 7, recommendedSize: 100 },
+                { index: 0.5, recommendedSize: 100 },
+                null,
+                'file 2',
+            ],
+        }, files);
+        expect(results).toHaveLength(3);
+        expect(results[0]).toBeUndefined();
+        expect(results[1]).toMatchObject({ recommendedSize: 800, reason: 'PDF', recommendedPdfMode: 'lossy' });
+        expect(results[2]).toBeUndefined();
+    });
+
+    it('is no answer when nothing is usable', () => {
+        expect(() => sanitizeSizeRecommendations({ files: [{ index: 9, recommendedSize: 10 }] }, files)).toThrow(AIResponseError);
+        expect(() => sanitizeSizeRecommendations({ files: 'none' }, files)).toThrow(AIResponseError);
+        expect(() => sanitizeSizeRecommendations({}, files)).toThrow(AIResponseError);
+    });
+});
+
+describe('sanitizeBreakpoints', () => {
+    it('drops widths past the source and is no answer without any left', () => {
+        const { widths } = sanitizeBreakpoints({ widths: [1600, 400, 'wide', 800, 5000], reason: 'Layouts' }, 1200);
+        expect(widths.every(width => width <= 1200)).toBe(true);
+        expect(widths).toEqual([...widths].sort((a, b) => a - b));
+        expect(() => sanitizeBreakpoints({ widths: 'many' }, 1200)).toThrow(AIResponseError);
+    });
+});
+
+describe('sanitizeReport', () => {
+    it('strips quotes and emphasis around a one-liner', () => {
+        expect(sanitizeReport('"**Saved 40%.**"')).toBe('Saved 40%.');
+    });
+});
@@ -0,0 +1,220 @@
+import { ApiError } from "@google/genai";
+import { OUTPUT_FORMAT_NAMES, CompressionSettings, OutputFormat } from './imageCodec';
+import { CONTENT_TYPE_NAMES, ContentAnalysis, ContentType, RegionOfInterest } from './content';
+import { normalizeBreakpoints } from './responsive';
+import type { PdfCompressionMode } from './pdf';
+
+// Model output is untrusted input. Everything Gemini returns passes through
+// here: checked against the shape we asked for, clamped to values the encoders
+// can use, or rejected so the call is retried or falls back.
+
+// --- Errors ---
+// The answer arrived but can't be used. Worth asking again.
+export class AIResponseError extends Error {
+    name = 'AIResponseError';
+}
+
+export class AITimeoutError extends Error {
+    name = 'AITimeoutError';
+}
+
+// The Whilo server answered with an error; `status` is 0 when it couldn't be
+// reached at all.
+export class AIServerError extends Error {
+    name = 'AIServerError';
+    constructor(message: string, readonly status: number) {
+        super(message);
+    }
+}
+
+// Rate limits, server errors, timeouts and malformed answers may go away on
+// a second try; a bad key or a rejected prompt won't.
+export const isRetryableAIError = (error: unknown): boolean => {
+    if (error instanceof AIResponseError || error instanceof AITimeoutError) return true;
+    if (error instanceof ApiError) return error.status === 429 || error.status >= 500;
+    // fetch rejects with a TypeError when the network drops.
+    return error instanceof TypeError;
+};
+
+// Why a provider gave no answer. The app words `kind` in the user's language;
+// `message` is the English, with any detail, for logs, the CLI and the server.
+export type AIErrorKind = 'timeout' | 'bad-answer' | 'rate-limit' | 'key-rejected' | 'unavailable' | 'refused' | 'unreachable' | 'server-unreachable' | 'server-failed' | 'failed';
+
+export interface AIErrorInfo {
+    kind: AIErrorKind;
+    // The HTTP status, where one says more than the kind.
+    status?: number;
+    message: string;
+}
+
+export const classifyAIError = (error: unknown): AIErrorInfo => {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof AITimeoutError) return { kind: 'timeout', message };
+    if (error instanceof AIResponseError) return { kind: 'bad-answer', message };
+    if (error instanceof AIServerError) {
+        if (error.status === 0) return { kind: 'server-unreachable', message };
+        if (error.status === 429) return { kind: 'rate-limit', message };
+        if (error.status === 504) return { kind: 'timeout', message };
+        return { kind: 'server-failed', status: error.status, message };
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429) return { kind: 'rate-limit', message: 'Gemini rate limit reached.' };
+        if (error.status === 401 || error.status === 403) return { kind: 'key-rejected', message: 'Gemini rejected the API key.' };
+        if (error.status >= 500) return { kind: 'unavailable', message: 'Gemini is unavailable right now.' };
+        return { kind: 'refused', status: error.status, message: `Gemini refused the request (${error.status}).` };
+    }
+    if (error instanceof TypeError) return { kind: 'unreachable', message: "Couldn't reach Gemini." };
+    return { kind: 'failed', message };
+};
+
+// A sentence in English about why a provider gave no answer.
+export const describeAIError = (error: unknown): string => classifyAIError(error).message;
+
+// --- Field Readers ---
+type RawObject = Record<string, unknown>;
+
+export const parseJsonObject = (text: string | undefined): RawObject => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text || '');
+    } catch {
+        throw new AIResponseError('Gemini returned malformed JSON.');
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new AIResponseError('Gemini returned JSON that is not an object.');
+    return value as RawObject;
+};
+
+const readNumber = (raw: RawObject, key: string): number | undefined => {
+    const value = typeof raw[key] === 'string' ? Number(raw[key]) : raw[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+const requireNumber = (raw: RawObject, key: string): number => {
+    const value = readNumber(raw, key);
+    if (value === undefined) throw new AIResponseError(`Gemini's answer has no usable "${key}".`);
+    return value;
+};
+
+const readText = (raw: RawObject, key: string, maxLength = 200): string | undefined => {
+    const value = raw[key];
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const text = value.trim();
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const readChoice = <T extends string>(raw: RawObject, key: string, choices: readonly T[]): T | undefined => {
+    const value = raw[key];
+    return typeof value === 'string' && (choices as readonly string[]).includes(value) ? value as T : undefined;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// --- Content Analysis ---
+const MAX_REGIONS = 3;
+
+// Boxes are clipped to the image; empty or malformed ones are dropped.
+const sanitizeRegions = (value: unknown): RegionOfInterest[] => {
+    if (!Array.isArray(value)) return [];
+    const regions: RegionOfInterest[] = [];
+    for (const item of value) {
+        if (!item || typeof item !== 'object') continue;
+        const raw = item as RawObject;
+        const label = readText(raw, 'label', 40);
+        const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(key => readNumber(raw, key));
+        if (!label || x === undefined || y === undefined || width === undefined || height === undefined) continue;
+        const left = clamp(x, 0, 1), top = clamp(y, 0, 1);
+        const right = clamp(x + width, 0, 1), bottom = clamp(y + height, 0, 1);
+        if (right <= left || bottom <= top) continue;
+        regions.push({ label, x: left, y: top, width: right - left, height: bottom - top });
+        if (regions.length === MAX_REGIONS) break;
+    }
+    return regions;
+};
+
+export const sanitizeContentAnalysis = (raw: RawObject): ContentAnalysis | undefined => {
+    const contentType = readChoice<ContentType>(raw, 'contentType', CONTENT_TYPE_NAMES);
+    return contentType ? { contentType, regions: sanitizeRegions(raw.regionsOfInterest) } : undefined;
+};
+
+// --- Size Recommendations ---
+// A "suggestion" at or above the original size saves nothing, so it's capped
+// a little below it.
+const MAX_RECOMMENDED_RATIO = 0.95;
+
+export const sanitizeSizeRecommendation = (raw: RawObject, originalSize: number, isPdf: boolean) => {
+    const recommendedSize = requireNumber(raw, 'recommendedSize');
+    if (recommendedSize <= 0) throw new AIResponseError('Gemini recommended a size of zero or less.');
+    return {
+        recommendedSize: Math.max(1, Math.round(Math.min(recommendedSize, originalSize * MAX_RECOMMENDED_RATIO))),
+        reason: readText(raw, 'reason'),
+        recommendedPdfMode: isPdf ? readChoice<PdfCompressionMode>(raw, 'recommendedMode', ['lossless', 'lossy']) || 'lossy' : undefined,
+        analysis: sanitizeContentAnalysis(raw),
+    };
+};
+
+// A batch answer lists files by their index in the request. Entries that are
+// malformed, out of range or repeated are dropped, leaving those files
+// unanswered; an answer with nothing usable is no answer.
+export const sanitizeSizeRecommendations = (raw: RawObject, files: { size: number; isPdf: boolean }[]) => {
+    const entries = Array.isArray(raw.files) ? raw.files : [];
+    const results: (ReturnType<typeof sanitizeSizeRecommendation> | undefined)[] = files.map(() => undefined);
+    for (const entry of entries) {
+        if (!entry || typeof entry !== 'object') continue;
+        const index = readNumber(entry as RawObject, 'index');
+        if (index === undefined || !Number.isInteger(index) || !files[index] || results[index]) continue;
+        try {
+            results[index] = sanitizeSizeRecommendation(entry as RawObject, files[index].size, files[index].isPdf);
+        } catch (error) {
+            if (!(error instanceof AIResponseError)) throw error;
+        }
+    }
+    if (!results.some(Boolean)) throw new AIResponseError(`Gemini's answer has no usable "files".`);
+    return results;
+};
+
+// --- Compression Settings ---
+// Quality is a whole number from 1 to 100. A resize keeps the source aspect
+// ratio, taking the tighter of the two suggested sides, and never upscales.
+export const sanitizeCompressionSettings = (raw: RawObject, original?: { width: number; height: number }): CompressionSettings => {
+    const outputFormat = readChoice<OutputFormat>(raw, 'outputFormat', OUTPUT_FORMAT_NAMES);
+    if (!outputFormat) throw new AIResponseError(`Gemini picked an unknown output format "${String(raw.outputFormat)}".`);
+
+    const settings: CompressionSettings = {
+        targetQuality: Math.round(clamp(requireNumber(raw, 'targetQuality'), 1, 100)),
+        outputFormat,
+        recommendation: readText(raw, 'recommendation', 300),
+        contentType: readChoice<ContentType>(raw, 'contentType', CONTENT_TYPE_NAMES),
+    };
+
+    const width = readNumber(raw, 'targetWidth');
+    const height = readNumber(raw, 'targetHeight');
+    if (original && ((width && width > 0) || (height && height > 0))) {
+        const scale = Math.min(
+            1,
+            width && width > 0 ? width / original.width : Infinity,
+            height && height > 0 ? height / original.height : Infinity,
+        );
+        if (scale < 1) {
+            settings.targetWidth = Math.max(1, Math.round(original.width * scale));
+            settings.targetHeight = Math.max(1, Math.round(original.height * scale));
+        }
+    }
+    return settings;
+};
+
+// --- Breakpoints ---
+// Widths are clamped to the source and sorted; an answer with none left is
+// no answer.
+export const sanitizeBreakpoints = (raw: RawObject, sourceWidth: number) => {
+    const widths = normalizeBreakpoints(Array.isArray(raw.widths) ? raw.widths.map(Number) : [], sourceWidth);
+    if (!widths.length) throw new AIResponseError(`Gemini's answer has no usable "widths".`);
+    return { widths, reason: readText(raw, 'reason') };
+};
+
+// --- Reports ---
+export const sanitizeReport = (text: string | undefined): string => {
+    // Models like to wrap one-liners in quotes or markdown emphasis.
+    const report = (text || '').trim().replace(/^["'*_`]+|["'*_`]+$/g, '').trim();
+    if (!report) throw new AIResponseError('Gemini returned an empty report.');
+    return report.length > 300 ? `${report.slice(0, 299).trimEnd()}…` : report;
+};
@@ -0,0 +1,126 @@
+// What the AI calls cost: requests and tokens as Gemini reports them, cache
+// hits, and an estimate in dollars. Also the client-side rate limiter every
+// Gemini request waits on.
+
+// --- Usage ---
+export interface AIUsage {
+    // Requests that reached Gemini, retries included.
+    requests: number;
+    promptTokens: number;
+    // Answer and thinking tokens; both are billed as output.
+    outputTokens: number;
+    cacheHits: number;
+    cacheLookups: number;
+    // Estimated from the token counts, in US dollars.
+    costUsd: number;
+}
+
+// Token counts from a response's usageMetadata.
+export interface TokenCounts {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+}
+
+// Paid-tier list prices for gemini-2.5-flash, per million tokens. Only an
+// estimate: free-tier keys pay nothing, and prices change.
+export const AI_PRICING = { inputPerMillion: 0.30, outputPerMillion: 2.50 };
+
+const emptyUsage = (): AIUsage => ({ requests: 0, promptTokens: 0, outputTokens: 0, cacheHits: 0, cacheLookups: 0, costUsd: 0 });
+
+let usage = emptyUsage();
+type UsageListener = (usage: AIUsage, change: Partial<AIUsage>) => void;
+const listeners = new Set<UsageListener>();
+
+const record = (change: Partial<AIUsage>) => {
+    usage = { ...usage };
+    (Object.keys(change) as (keyof AIUsage)[]).forEach(key => { usage[key] += change[key] ?? 0; });
+    listeners.forEach(listener => listener(usage, change));
+};
+
+export const estimateCost = (promptTokens: number, outputTokens: number): number =>
+    (promptTokens * AI_PRICING.inputPerMillion + outputTokens * AI_PRICING.outputPerMillion) / 1_000_000;
+
+// One request to Gemini, with the token counts if an answer came back.
+export const recordAIRequest = (tokens: TokenCounts = {}) => {
+    const promptTokens = tokens.promptTokenCount ?? 0;
+    const outputTokens = (tokens.candidatesTokenCount ?? 0) + (tokens.thoughtsTokenCount ?? 0);
+    record({ requests: 1, promptTokens, outputTokens, costUsd: estimateCost(promptTokens, outputTokens) });
+};
+
+export const recordCacheLookup = (hit: boolean) => record({ cacheLookups: 1, cacheHits: hit ? 1 : 0 });
+
+// Usage that happened elsewhere, such as on the Whilo server for this client.
+export const recordAIUsage = (change: Partial<AIUsage>) => record(change);
+
+export const getAIUsage = (): AIUsage => usage;
+
+export const resetAIUsage = () => {
+    usage = emptyUsage();
+    listeners.forEach(listener => listener(usage, {}));
+};
+
+// Called with the new totals and what just changed. Returns an unsubscribe.
+export const subscribeAIUsage = (listener: UsageListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// --- Rate Limiting ---
+// Resolves after `ms`, or rejects with the signal's reason once it's aborted.
+export const abortableSleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RateLimiter {
+    // Waits for a free slot, in the order callers arrived.
+    acquire: (signal?: AbortSignal) => Promise<void>;
+    // Takes a slot only if one is free right now and nobody is waiting.
+    tryAcquire: () => boolean;
+    setLimit: (limit: number) => void;
+}
+
+// At most `limit` starts in any `windowMs`. A limit of 0 or less turns it off.
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+    const starts: number[] = [];
+    let queue = Promise.resolve();
+
+    let waiting = 0;
+
+    const takeSlot = (now: number) => {
+        while (starts.length && starts[0] <= now - windowMs) starts.shift();
+        if (limit > 0 && starts.length >= limit) return false;
+        starts.push(now);
+        return true;
+    };
+
+    const waitForSlot = async (signal?: AbortSignal) => {
+        for (;;) {
+            signal?.throwIfAborted();
+            const now = Date.now();
+            if (takeSlot(now)) return;
+            await abortableSleep(starts[0] + windowMs - now, signal);
+        }
+    };
+
+    return {
+        acquire: (signal) => {
+            waiting++;
+            const turn = queue.then(() => waitForSlot(signal)).finally(() => { waiting--; });
+            // A cancelled caller mustn't hold up the ones behind it.
+            queue = turn.catch(() => undefined);
+            return turn;
+        },
+        tryAcquire: () => waiting === 0 && takeSlot(Date.now()),
+        setLimit: (next) => { limit = next; },
+    };
+};
@@ -0,0 +1,137 @@
+import { cropRegion, encodeImage, outputDimensions, CompressionSettings, ImageCompressionResult, ProgressCallback } from './imageCodec';
+import { cropRaster, resizeRaster, hasTransparentPixels, RasterImage } from './raster';
+import { decodeGif } from './decoders';
+
+// Animated GIFs become animated WebP: every frame is encoded as a still WebP
+// by the raster backend, then the stills are wrapped in one animated
+// container with the GIF's frame timing and loop count.
+
+// --- WebP Muxing ---
+const ASCII = new TextDecoder('latin1');
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+    return out;
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(ascii(fourcc));
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+const uint24 = (value: number) => [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF];
+
+// The image data of a still WebP: its VP8 or VP8L chunk, and ALPH if the
+// lossy encoder put the alpha channel in a chunk of its own.
+const imageChunks = (webp: Uint8Array): Uint8Array[] => {
+    const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+    const chunks: Uint8Array[] = [];
+    for (let offset = 12; offset + 8 <= webp.length;) {
+        const size = view.getUint32(offset + 4, true);
+        const fourcc = ASCII.decode(webp.subarray(offset, offset + 4));
+        const end = offset + 8 + size + (size % 2);
+        if (fourcc === 'ALPH' || fourcc === 'VP8 ' || fourcc === 'VP8L') chunks.push(webp.subarray(offset, end));
+        offset = end;
+    }
+    return chunks;
+};
+
+export interface AnimationFrame {
+    webp: Uint8Array;
+    // Milliseconds.
+    delay: number;
+}
+
+// Every frame covers the whole canvas, so none of them blend with or
+// dispose of the one before.
+export const muxAnimatedWebp = (frames: AnimationFrame[], width: number, height: number, loopCount: number, hasAlpha: boolean): Blob => {
+    const header = new Uint8Array([hasAlpha ? 0x12 : 0x02, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+    // Background color (unused by browsers), then the loop count.
+    const anim = new Uint8Array([0, 0, 0, 0, loopCount & 0xFF, (loopCount >> 8) & 0xFF]);
+    const body = concat([
+        riffChunk('VP8X', header),
+        riffChunk('ANIM', anim),
+        ...frames.map(frame => riffChunk('ANMF', concat([
+            new Uint8Array([0, 0, 0, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1), ...uint24(Math.min(0xFFFFFF, Math.round(frame.delay))), 0x02]),
+            ...imageChunks(frame.webp),
+        ]))),
+    ]);
+    const riff = new Uint8Array(12 + body.length);
+    riff.set(ascii('RIFF'));
+    new DataView(riff.buffer).setUint32(4, 4 + body.length, true);
+    riff.set(ascii('WEBP'), 8);
+    riff.set(body, 12);
+    return new Blob([riff], { type: 'image/webp' });
+};
+
+// --- Compression ---
+const MIN_SEARCH_QUALITY = 5;
+const MAX_SEARCH_PASSES = 8;
+const SEARCH_TOLERANCE = 0.95;
+
+const sameImage = (a: RasterImage, b: RasterImage) => a.data.length === b.data.length && a.data.every((value, i) => value === b.data[i]);
+
+// Crops and resizes every frame like a still image, folds runs of identical
+// frames into one longer frame, then searches quality for a target size.
+// Resizing an animation frame by frame is too slow to use as a fallback, so
+// a target that can't be met at the lowest quality is reported as missed.
+export const compressAnimation = async (file: Blob, settings: CompressionSettings, targetBytes?: number, onProgress?: ProgressCallback): Promise<ImageCompressionResult> => {
+    const gif = await decodeGif(file);
+    const crop = cropRegion(gif, settings);
+    const { width, height } = outputDimensions(crop || gif, settings);
+
+    const frames: { image: RasterImage; delay: number }[] = [];
+    for (const frame of gif.frames) {
+        const image = await resizeRaster(crop ? cropRaster(frame.image, crop) : frame.image, width, height, settings.resampling);
+        const last = frames[frames.length - 1];
+        if (last && sameImage(last.image, image)) last.delay += frame.delay;
+        else frames.push({ image, delay: frame.delay });
+    }
+    const hasAlpha = frames.some(frame => hasTransparentPixels(frame.image));
+
+    let passes = 0;
+    let smallest: { blob: Blob; quality: number } | undefined;
+    const encode = async (quality: number) => {
+        const encoded: AnimationFrame[] = [];
+        for (const frame of frames) {
+            const blob = await encodeImage(frame.image, 'webp', quality);
+            encoded.push({ webp: new Uint8Array(await blob.arrayBuffer()), delay: frame.delay });
+            onProgress?.((passes + encoded.length / frames.length) / (targetBytes ? MAX_SEARCH_PASSES : 1));
+        }
+        passes++;
+        const blob = muxAnimatedWebp(encoded, width, height, gif.loopCount, hasAlpha);
+        if (!smallest || blob.size < smallest.blob.size) smallest = { blob, quality };
+        return blob;
+    };
+
+    const startQuality = Math.min(100, Math.max(MIN_SEARCH_QUALITY, Math.round(settings.targetQuality)));
+    if (!targetBytes) {
+        const blob = await encode(startQuality);
+        return { blob, passes, quality: startQuality, width, height, targetMet: true, crop, frames: frames.length };
+    }
+
+    let fit: { blob: Blob; quality: number } | undefined;
+    // Like still images, never above the starting quality.
+    let low = MIN_SEARCH_QUALITY - 1;
+    let high = startQuality + 1;
+    let quality = startQuality;
+    while (high - low > 1 && passes < MAX_SEARCH_PASSES) {
+        const blob = await encode(quality);
+        if (blob.size <= targetBytes) {
+            fit = { blob, quality };
+            low = quality;
+            if (blob.size >= targetBytes * SEARCH_TOLERANCE) break;
+        } else {
+            high = quality;
+        }
+        quality = Math.max(MIN_SEARCH_QUALITY, Math.floor((low + high) / 2));
+        if (quality === low || quality === high) break;
+    }
+    const result = fit || smallest!;
+    return { ...result, passes, width, height, targetMet: !!fit, crop, frames: frames.length };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildBatchReport, batchReportRows, batchSummaryStats, batchReportHtml, BatchReportEntry } from '.';
+import { toCsv } from '../archive';
+
+const entry = (name: string, inputType: string, originalSize: number, compressedSize: number, extra: Partial<BatchReportEntry> = {}): BatchReportEntry => ({
+    name, inputType, outputName: name.replace(/\.\w+$/, '.webp'), originalSize, compressedSize,
+    settings: 'WebP · Quality 80', targetMet: true, aiReasoning: {}, ...extra,
+});
+
+const batch = buildBatchReport([
+    entry('holiday, beach.jpg', 'JPG', 400_000, 100_000, { provider: 'gemini', aiReasoning: { report: 'Saved 75%, the "big" one.' } }),
+    entry('logo.png', 'PNG', 10_000, 12_000, { targetBytes: 8_000, targetMet: false }),
+    entry('scan.jpg', 'JPG', 200_000, 150_000),
+], 0);
+
+describe('buildBatchReport', () => {
+    it('totals the batch and each input type, biggest saving first', () => {
+        expect(batch).toMatchObject({ files: 3, originalSize: 610_000, compressedSize: 262_000 });
+        expect(batch.byType).toEqual([
+            { inputType: 'JPG', files: 2, originalSize: 600_000, compressedSize: 250_000 },
+            { inputType: 'PNG', files: 1, originalSize: 10_000, compressedSize: 12_000 },
+        ]);
+    });
+
+    it('lists only files that shrank as wins, and the ones that missed their target', () => {
+        expect(batch.biggestWins.map(win => win.name)).toEqual(['holiday, beach.jpg', 'scan.jpg']);
+        expect(batch.missedTargets.map(missed => missed.name)).toEqual(['logo.png']);
+        expect(batchSummaryStats(batch)).toMatchObject({ missedTargets: 1, biggestWin: { name: 'holiday, beach.jpg', originalSize: 400_000, compressedSize: 100_000 } });
+    });
+});
+
+describe('batchReportRows', () => {
+    it('writes one row per file after the header', () => {
+        const [header, ...rows] = batchReportRows(batch);
+        expect(header[0]).toBe('name');
+        expect(rows).toHaveLength(3);
+        expect(rows[1]).toEqual(['logo.png', 'PNG', 'logo.webp', 10_000, 12_000, -2_000, -20, 'WebP · Quality 80', 8_000, 'false', undefined, undefined, undefined, undefined]);
+    });
+
+    it('escapes commas and quotes once joined into CSV', () => {
+        const [, first] = toCsv(batchReportRows(batch)).split('\r\n');
+        expect(first).toBe('"holiday, beach.jpg",JPG,"holiday, beach.webp",400000,100000,300000,75,WebP · Quality 80,,true,gemini,,,"Saved 75%, the ""big"" one."');
+    });
+});
+
+describe('batchReportHtml', () => {
+    it('escapes file names', () => {
+        const html = batchReportHtml(buildBatchReport([entry('<b>&.png', 'PNG', 2_000, 1_000)], 0));
+        expect(html).toContain('&lt;b&gt;&amp;.png');
+        expect(html).not.toContain('<b>&.png');
+    });
+});
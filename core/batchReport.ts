@@ -0,0 +1,164 @@
+import { formatBytes } from './format';
+import type { ProviderId } from './ai';
+
+// A finished batch summed up for reporting upstream: totals, savings per file
+// type, the biggest wins and the files that missed their target, with every
+// file's settings and the AI's reasoning behind them.
+
+// --- Types ---
+export interface BatchReportEntry {
+    // Path inside the dropped folder, or the file name.
+    name: string;
+    // The input's format label, e.g. "JPG" or "PDF".
+    inputType: string;
+    outputName: string;
+    originalSize: number;
+    compressedSize: number;
+    // "WebP · Quality 80 · 1920×1080px" and the like.
+    settings: string;
+    targetBytes?: number;
+    targetMet: boolean;
+    provider?: ProviderId;
+    aiReasoning: {
+        recommendation?: string;
+        settings?: string;
+        report?: string;
+    };
+}
+
+export interface TypeSavings {
+    inputType: string;
+    files: number;
+    originalSize: number;
+    compressedSize: number;
+}
+
+export interface BatchReport {
+    createdAt: number;
+    files: number;
+    originalSize: number;
+    compressedSize: number;
+    byType: TypeSavings[];
+    biggestWins: BatchReportEntry[];
+    missedTargets: BatchReportEntry[];
+    entries: BatchReportEntry[];
+    // The AI-written executive summary, once there is one.
+    summary?: string;
+    summaryProvider?: ProviderId;
+}
+
+// --- Building ---
+const BIGGEST_WINS = 5;
+
+export const savedBytes = ({ originalSize, compressedSize }: { originalSize: number; compressedSize: number }) => originalSize - compressedSize;
+
+export const savedPercent = ({ originalSize, compressedSize }: { originalSize: number; compressedSize: number }): number =>
+    originalSize ? Math.round((originalSize - compressedSize) / originalSize * 100) : 0;
+
+export const buildBatchReport = (entries: BatchReportEntry[], createdAt = Date.now()): BatchReport => {
+    const byType = new Map<string, TypeSavings>();
+    entries.forEach(entry => {
+        const totals = byType.get(entry.inputType) ?? { inputType: entry.inputType, files: 0, originalSize: 0, compressedSize: 0 };
+        byType.set(entry.inputType, { ...totals, files: totals.files + 1, originalSize: totals.originalSize + entry.originalSize, compressedSize: totals.compressedSize + entry.compressedSize });
+    });
+    return {
+        createdAt,
+        files: entries.length,
+        originalSize: entries.reduce((sum, entry) => sum + entry.originalSize, 0),
+        compressedSize: entries.reduce((sum, entry) => sum + entry.compressedSize, 0),
+        byType: [...byType.values()].sort((a, b) => savedBytes(b) - savedBytes(a)),
+        biggestWins: entries.filter(entry => savedBytes(entry) > 0).sort((a, b) => savedBytes(b) - savedBytes(a)).slice(0, BIGGEST_WINS),
+        missedTargets: entries.filter(entry => !entry.targetMet),
+        entries,
+    };
+};
+
+// What the executive summary is written from: the totals, not the files.
+export interface BatchSummaryStats {
+    files: number;
+    originalSize: number;
+    compressedSize: number;
+    byType: TypeSavings[];
+    missedTargets: number;
+    biggestWin?: { name: string; originalSize: number; compressedSize: number };
+}
+
+export const batchSummaryStats = (report: BatchReport): BatchSummaryStats => {
+    const [win] = report.biggestWins;
+    return {
+        files: report.files,
+        originalSize: report.originalSize,
+        compressedSize: report.compressedSize,
+        byType: report.byType,
+        missedTargets: report.missedTargets.length,
+        biggestWin: win && { name: win.name, originalSize: win.originalSize, compressedSize: win.compressedSize },
+    };
+};
+
+// --- Export ---
+// "-1.2 MB" for savings, "+30 KB" when a file grew.
+export const formatSavings = (bytes: number): string => `${bytes < 0 ? '+' : '-'}${formatBytes(Math.abs(bytes))}`;
+
+// One row per file, header first, for toCsv.
+export const batchReportRows = (report: BatchReport): (string | number | undefined)[][] => [
+    ['name', 'input_type', 'output_name', 'original_size', 'compressed_size', 'saved_bytes', 'saved_percent', 'settings', 'target_bytes', 'target_met', 'provider', 'ai_recommendation', 'ai_settings', 'ai_report'],
+    ...report.entries.map(entry => [
+        entry.name, entry.inputType, entry.outputName, entry.originalSize, entry.compressedSize, savedBytes(entry), savedPercent(entry),
+        entry.settings, entry.targetBytes, String(entry.targetMet), entry.provider,
+        entry.aiReasoning.recommendation, entry.aiReasoning.settings, entry.aiReasoning.report,
+    ]),
+];
+
+export const batchReportJson = (report: BatchReport): string => JSON.stringify({
+    ...report,
+    createdAt: new Date(report.createdAt).toISOString(),
+    savedBytes: savedBytes(report),
+    savedPercent: savedPercent(report),
+}, null, 2);
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fileRow = (entry: BatchReportEntry) => `<tr>
+  <td>${escapeHtml(entry.name)}</td>
+  <td class="num">${formatBytes(entry.originalSize)}</td>
+  <td class="num">${formatBytes(entry.compressedSize)}</td>
+  <td class="num">${formatSavings(savedBytes(entry))} (${savedPercent(entry)}%)</td>
+</tr>`;
+
+const PRINT_STYLES = `body{font-family:system-ui,sans-serif;color:#111;margin:2rem;max-width:60rem}
+h1{margin-bottom:0}h2{margin-top:2rem;border-bottom:1px solid #ccc}
+table{border-collapse:collapse;width:100%;font-size:.85rem}th,td{text-align:left;padding:.3rem .5rem;border-bottom:1px solid #eee;vertical-align:top}
+.num{text-align:right;white-space:nowrap}.muted{color:#666}.summary{font-size:1.05rem;line-height:1.5}
+@media print{body{margin:0}h2{break-after:avoid}tr{break-inside:avoid}}`;
+
+// A standalone page that prints cleanly, for sharing as HTML or saving as PDF.
+export const batchReportHtml = (report: BatchReport): string => {
+    const date = new Date(report.createdAt).toLocaleString();
+    const sections = [
+        `<h1>Compression report</h1>`,
+        `<p class="muted">${escapeHtml(date)} · ${report.files} ${report.files === 1 ? 'file' : 'files'}</p>`,
+        `<p><strong>${formatBytes(report.originalSize)} → ${formatBytes(report.compressedSize)}</strong> (${formatSavings(savedBytes(report))}, ${savedPercent(report)}% saved)</p>`,
+        report.summary ? `<p class="summary">${escapeHtml(report.summary)}</p>` : '',
+        `<h2>Savings by file type</h2>`,
+        `<table><tr><th>Type</th><th class="num">Files</th><th class="num">Original</th><th class="num">Compressed</th><th class="num">Saved</th></tr>${report.byType.map(type => `<tr><td>${escapeHtml(type.inputType)}</td><td class="num">${type.files}</td><td class="num">${formatBytes(type.originalSize)}</td><td class="num">${formatBytes(type.compressedSize)}</td><td class="num">${formatSavings(savedBytes(type))} (${savedPercent(type)}%)</td></tr>`).join('')}</table>`,
+        report.biggestWins.length ? `<h2>Biggest wins</h2><table><tr><th>File</th><th class="num">Original</th><th class="num">Compressed</th><th class="num">Saved</th></tr>${report.biggestWins.map(fileRow).join('')}</table>` : '',
+        report.missedTargets.length ? `<h2>Missed targets</h2><table><tr><th>File</th><th class="num">Target</th><th class="num">Compressed</th></tr>${report.missedTargets.map(entry => `<tr><td>${escapeHtml(entry.name)}</td><td class="num">${entry.targetBytes ? formatBytes(entry.targetBytes) : '—'}</td><td class="num">${formatBytes(entry.compressedSize)}</td></tr>`).join('')}</table>` : '',
+        `<h2>Every file</h2>`,
+        `<table><tr><th>File</th><th>Settings</th><th class="num">Original</th><th class="num">Compressed</th><th>AI reasoning</th></tr>${report.entries.map(entry => {
+            const reasoning = [entry.aiReasoning.recommendation, entry.aiReasoning.settings].filter(Boolean).map(text => escapeHtml(text!)).join('<br>');
+            return `<tr><td>${escapeHtml(entry.name)}</td><td>${escapeHtml(entry.settings)}</td><td class="num">${formatBytes(entry.originalSize)}</td><td class="num">${formatBytes(entry.compressedSize)}</td><td>${reasoning || '<span class="muted">—</span>'}</td></tr>`;
+        }).join('')}</table>`,
+    ];
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Compression report ${escapeHtml(date)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${sections.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+};
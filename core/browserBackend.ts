@@ -0,0 +1,41 @@
+/// <reference types="vite/client" />
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { RasterBackend, NativeFormat } from './raster';
+
+// Decodes with createImageBitmap and encodes through OffscreenCanvas, so it
+// works on the main thread and in workers alike.
+
+const NATIVE_FORMATS: Record<NativeFormat, { mimeType: string; label: string }> = {
+    jpeg: { mimeType: 'image/jpeg', label: 'JPEG' },
+    webp: { mimeType: 'image/webp', label: 'WebP' },
+};
+
+export const browserBackend: RasterBackend = {
+    decode: async (file, options = {}) => {
+        const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image', colorSpaceConversion: options.keepColorProfile ? 'none' : 'default' });
+        try {
+            const { width, height } = bitmap;
+            const context = new OffscreenCanvas(width, height).getContext('2d')!;
+            context.drawImage(bitmap, 0, 0);
+            return { width, height, data: context.getImageData(0, 0, width, height).data };
+        } finally {
+            bitmap.close();
+        }
+    },
+
+    encode: async (image, format, quality) => {
+        const { mimeType, label } = NATIVE_FORMATS[format];
+        const canvas = new OffscreenCanvas(image.width, image.height);
+        canvas.getContext('2d')!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+        const blob = await canvas.convertToBlob({ type: mimeType, quality: quality / 100 });
+        // Browsers quietly fall back to PNG for types they can't encode.
+        if (blob.type !== mimeType) throw new Error(`This browser can't encode ${label}.`);
+        return blob;
+    },
+
+    loadPdfjs: async () => {
+        const pdfjs = await import('pdfjs-dist');
+        pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+        return pdfjs;
+    },
+};
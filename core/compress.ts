@@ -0,0 +1,315 @@
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_NAMES, detectTransparency, getImageDimensions, resolveOutputFormat, resizeBounds, CompressionSettings, FormatCandidate, ManualResize, OutputFormat, ProgressCallback } from './imageCodec';
+import type { MetadataPolicy, MetadataSummary } from './imageMetadata';
+import type { CropRect, ResamplingOptions } from './raster';
+import { inlineRunner, EncodeRunner } from './encode';
+import { optimizePdf, PdfColorMode, PdfCompressionMode, PdfOptimizeStats } from './pdf';
+import { applyContentProfile } from './content';
+import { isAnimatedGif } from './decoders';
+import { optimizeSvg, SvgOptimizeStats } from './svg';
+import { normalizeBreakpoints, variantFileName, fallbackVariant, DEFAULT_RESPONSIVE_FORMATS, ResponsiveSet, ResponsiveVariant } from './responsive';
+import { getAICompressionSuggestion, getAIReport, getAIPdfReport, ProviderId, AIFallback } from './ai';
+import type { Locale } from './locale';
+
+// The whole flow for one file: settings from the recommendation providers, the
+// encode and its size search, then a report. The app and the CLI both call
+// these; only where the encodes run differs between them.
+
+// --- Types ---
+// 'ai' follows the model's pick, 'best' keeps whichever candidate format is smallest.
+export type OutputFormatChoice = 'ai' | 'best' | OutputFormat;
+export type SizeUnit = 'KB' | 'MB';
+
+export interface CompressionDetails {
+    format: OutputFormat;
+    // Set when the requested format couldn't hold the image's transparency.
+    requestedFormat?: OutputFormat;
+    passes: number;
+    quality: number;
+    width: number;
+    height: number;
+    targetBytes?: number;
+    targetMet: boolean;
+    // Which recommendation provider chose the settings.
+    provider?: ProviderId;
+    // Why an earlier provider didn't answer, if one didn't.
+    fallback?: AIFallback;
+    // The region of the original that was kept, when cropped.
+    crop?: CropRect;
+    // Set for animations: how many frames the output has.
+    frames?: number;
+    metadata?: MetadataSummary;
+    // Set when nothing came out smaller, so the original is the output.
+    unchanged?: boolean;
+}
+
+// What a compression is doing now. Callers put it into words, in their own
+// language.
+export type CompressionStage =
+    | { step: 'choosing' | 'comparing' | 'encoding' | 'pdf' | 'svg' | 'report' }
+    | { step: 'variant'; width: number; format: OutputFormat };
+
+// Reports overall progress from 0 to 1 along with the stage it's in.
+export type StageCallback = (progress: number, stage: CompressionStage) => void;
+
+export const toBytes = (size: number, unit: SizeUnit): number => Math.round(size * (unit === 'MB' ? 1024 * 1024 : 1024));
+
+// `photo.jpg` becomes `photo<suffix>.<extension>`.
+export const outputFileName = (name: string, extension: string, suffix = ''): string => {
+    const dot = name.lastIndexOf('.');
+    return `${dot > 0 ? name.slice(0, dot) : name}${suffix}.${extension}`;
+};
+
+// --- Images ---
+export interface EncodeOptions {
+    metadataPolicy?: MetadataPolicy;
+    runner?: EncodeRunner;
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
+}
+
+// Encodes with settings that have already been chosen, e.g. when switching
+// to another candidate format.
+export const encodeImageFile = async (file: File, settings: CompressionSettings, targetBytes?: number, options: EncodeOptions = {}): Promise<{ compressedFile: File; compressionDetails: CompressionDetails }> => {
+    const { metadataPolicy, runner = inlineRunner, ...runOptions } = options;
+    const result = await runner.compress({ file, settings, targetBytes, metadataPolicy }, runOptions);
+    const compressedFile = result.unchanged ? file : new File([result.blob], outputFileName(file.name, OUTPUT_FORMATS[settings.outputFormat].extension), { type: result.blob.type });
+    const format = result.unchanged ? OUTPUT_FORMAT_NAMES.find(name => OUTPUT_FORMATS[name].mimeType === file.type)! : settings.outputFormat;
+
+    return {
+        compressedFile,
+        compressionDetails: {
+            format,
+            passes: result.passes,
+            quality: result.quality,
+            width: result.width,
+            height: result.height,
+            targetBytes,
+            targetMet: result.targetMet,
+            crop: result.crop,
+            frames: result.frames,
+            metadata: result.metadata,
+            unchanged: result.unchanged
+        }
+    };
+};
+
+export interface ImageCompressionOptions {
+    targetSize?: number;
+    targetUnit?: SizeUnit;
+    smartResize?: boolean;
+    outputFormatChoice?: OutputFormatChoice;
+    maxWidth?: number;
+    maxHeight?: number;
+    crop?: CropRect;
+    cropAspect?: number;
+    resize?: ManualResize;
+    resampling?: ResamplingOptions;
+    metadataPolicy?: MetadataPolicy;
+    // What the AI's reasons and report are written in.
+    language?: Locale;
+    runner?: EncodeRunner;
+    signal?: AbortSignal;
+    onProgress?: StageCallback;
+}
+
+export interface ImageCompressionOutcome {
+    compressedFile: File;
+    compressionDetails: CompressionDetails;
+    compressionSettings: CompressionSettings;
+    formatCandidates?: FormatCandidate[];
+    report: { text: string; provider: ProviderId };
+}
+
+export const compressImageFile = async (file: File, options: ImageCompressionOptions = {}): Promise<ImageCompressionOutcome> => {
+    const { targetUnit = 'KB', runner = inlineRunner, language, signal } = options;
+    const setProgress: StageCallback = (progress, stage) => options.onProgress?.(progress, stage);
+    const targetSize = options.targetSize && options.targetSize > 0 ? options.targetSize : undefined;
+
+    setProgress(0.05, { step: 'choosing' });
+    const hasTransparency = await detectTransparency(file);
+    // The user's own geometry; the AI's smart resize has to fit inside it.
+    const limits = {
+        maxWidth: options.maxWidth,
+        maxHeight: options.maxHeight,
+        crop: options.crop,
+        cropAspect: options.cropAspect,
+        resize: options.resize,
+        resampling: options.resampling,
+    };
+    const bounds = resizeBounds(await getImageDimensions(file), limits);
+    const { settings: suggestion, provider, fallback } = await getAICompressionSuggestion(file, !!options.smartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal);
+
+    // Animations only have one encoder, so the format isn't a choice.
+    const animated = await isAnimatedGif(file);
+    const formatChoice = animated ? 'webp' : options.outputFormatChoice || 'ai';
+    let formatCandidates: FormatCandidate[] | undefined;
+    let requestedFormat: OutputFormat;
+    if (formatChoice === 'best') {
+        setProgress(0.2, { step: 'comparing' });
+        formatCandidates = await runner.candidates({ file, settings: { ...suggestion, ...limits }, hasTransparency }, {
+            signal,
+            onProgress: fraction => setProgress(0.2 + fraction * 0.3, { step: 'comparing' })
+        });
+        requestedFormat = formatCandidates[0].format;
+    } else {
+        requestedFormat = formatChoice === 'ai' ? suggestion.outputFormat : formatChoice;
+    }
+    let settings: CompressionSettings = { ...suggestion, ...limits, outputFormat: resolveOutputFormat(requestedFormat, hasTransparency) };
+    if (settings.contentType) settings = applyContentProfile(settings, bounds);
+
+    // The AI settings are only the starting point; the search enforces the budget.
+    const targetBytes = targetSize ? toBytes(targetSize, targetUnit) : undefined;
+    const encodeStart = formatCandidates ? 0.5 : 0.2;
+    setProgress(encodeStart, { step: 'encoding' });
+    const { compressedFile, compressionDetails } = await encodeImageFile(file, settings, targetBytes, {
+        metadataPolicy: options.metadataPolicy,
+        runner,
+        signal,
+        onProgress: fraction => setProgress(encodeStart + fraction * (0.9 - encodeStart), { step: 'encoding' })
+    });
+    compressionDetails.provider = provider;
+    compressionDetails.fallback = fallback;
+    if (hasTransparency && requestedFormat !== settings.outputFormat) {
+        compressionDetails.requestedFormat = requestedFormat;
+    }
+
+    setProgress(0.9, { step: 'report' });
+    const report = await getAIReport(file.size, compressedFile.size, language, signal);
+
+    return { compressedFile, compressionDetails, compressionSettings: settings, formatCandidates, report };
+};
+
+// --- PDFs ---
+export interface PdfCompressionOptions {
+    mode?: PdfCompressionMode;
+    color?: PdfColorMode;
+    language?: Locale;
+    signal?: AbortSignal;
+    onProgress?: StageCallback;
+}
+
+export interface PdfCompressionOutcome {
+    compressedFile: File;
+    stats: PdfOptimizeStats;
+    report: { text: string; provider: ProviderId };
+}
+
+export const compressPdfFile = async (file: File, options: PdfCompressionOptions = {}): Promise<PdfCompressionOutcome> => {
+    const { mode = 'lossy', color, language, signal } = options;
+    const setProgress: StageCallback = (progress, stage) => options.onProgress?.(progress, stage);
+
+    setProgress(0.05, { step: 'pdf' });
+    const { bytes, stats } = await optimizePdf(file, {
+        mode,
+        color,
+        signal,
+        onProgress: fraction => setProgress(0.05 + fraction * 0.85, { step: 'pdf' })
+    });
+    const compressedFile = new File([bytes], outputFileName(file.name, 'pdf', '-compressed'), { type: 'application/pdf' });
+
+    setProgress(0.9, { step: 'report' });
+    const report = await getAIPdfReport(file.size, compressedFile.size, mode, stats, language, signal);
+
+    return { compressedFile, stats, report };
+};
+
+// --- SVGs ---
+export interface SvgCompressionOptions {
+    precision?: number;
+    language?: Locale;
+    signal?: AbortSignal;
+    onProgress?: StageCallback;
+}
+
+export interface SvgCompressionOutcome {
+    compressedFile: File;
+    stats: SvgOptimizeStats;
+    report: { text: string; provider: ProviderId };
+}
+
+export const compressSvgFile = async (file: File, options: SvgCompressionOptions = {}): Promise<SvgCompressionOutcome> => {
+    const { language, signal } = options;
+    const setProgress: StageCallback = (progress, stage) => options.onProgress?.(progress, stage);
+
+    setProgress(0.05, { step: 'svg' });
+    const { text, stats } = await optimizeSvg(file, { precision: options.precision });
+    signal?.throwIfAborted();
+    const compressedFile = new File([text], outputFileName(file.name, 'svg', '.min'), { type: 'image/svg+xml' });
+
+    setProgress(0.9, { step: 'report' });
+    const report = await getAIReport(file.size, compressedFile.size, language, signal);
+
+    return { compressedFile, stats, report };
+};
+
+// --- Responsive Sets ---
+export interface ResponsiveSetOptions {
+    widths: number[];
+    formats?: OutputFormat[];
+    // Crop first; each width then replaces any other resize.
+    crop?: CropRect;
+    cropAspect?: number;
+    resampling?: ResamplingOptions;
+    metadataPolicy?: MetadataPolicy;
+    language?: Locale;
+    runner?: EncodeRunner;
+    signal?: AbortSignal;
+    onProgress?: StageCallback;
+}
+
+export interface ResponsiveSetOutcome {
+    set: ResponsiveSet;
+    compressionSettings: CompressionSettings;
+    provider: ProviderId;
+    fallback?: AIFallback;
+    report: { text: string; provider: ProviderId };
+}
+
+// One quality from the recommendation providers for the whole set, so every
+// variant looks the same, then one encode per width and format. Formats that
+// can't hold the image's transparency fall back like single encodes do, and
+// animations only come out as WebP.
+export const compressResponsiveSet = async (file: File, options: ResponsiveSetOptions): Promise<ResponsiveSetOutcome> => {
+    const { runner = inlineRunner, language, signal } = options;
+    const setProgress: StageCallback = (progress, stage) => options.onProgress?.(progress, stage);
+    const geometry = { crop: options.crop, cropAspect: options.cropAspect, resampling: options.resampling };
+
+    setProgress(0.05, { step: 'choosing' });
+    const hasTransparency = await detectTransparency(file);
+    const source = resizeBounds(await getImageDimensions(file), geometry);
+    const widths = normalizeBreakpoints(options.widths, source.width);
+    if (!widths.length) throw new Error('Choose at least one width for the responsive set.');
+    const animated = await isAnimatedGif(file);
+    const requested = animated ? ['webp' as const] : options.formats?.length ? options.formats : DEFAULT_RESPONSIVE_FORMATS;
+    const formats = [...new Set(requested.map(format => resolveOutputFormat(format, hasTransparency)))];
+
+    const { settings: suggestion, provider, fallback } = await getAICompressionSuggestion(file, false, undefined, undefined, hasTransparency, source, language, signal);
+    const tuned = suggestion.contentType ? applyContentProfile(suggestion, source) : suggestion;
+
+    const variants: ResponsiveVariant[] = [];
+    const total = widths.length * formats.length;
+    for (const width of widths) {
+        for (const format of formats) {
+            const stage: CompressionStage = { step: 'variant', width, format };
+            const start = 0.15 + (variants.length / total) * 0.75;
+            setProgress(start, stage);
+            const settings: CompressionSettings = { ...tuned, ...geometry, outputFormat: format, targetWidth: undefined, targetHeight: undefined, resize: { width } };
+            const result = await runner.compress({ file, settings, metadataPolicy: options.metadataPolicy }, {
+                signal,
+                onProgress: fraction => setProgress(start + fraction * 0.75 / total, stage)
+            });
+            variants.push({
+                file: new File([result.blob], variantFileName(file.name, width, format), { type: result.blob.type }),
+                format,
+                width: result.width,
+                height: result.height,
+            });
+        }
+    }
+    const set: ResponsiveSet = { sourceName: file.name, width: source.width, height: source.height, widths, formats, variants };
+
+    setProgress(0.9, { step: 'report' });
+    const report = await getAIReport(file.size, fallbackVariant(set).file.size, language, signal);
+
+    return { set, compressionSettings: { ...tuned, ...geometry, outputFormat: fallbackVariant(set).format }, provider, fallback, report };
+};
@@ -0,0 +1,208 @@
+import { decodeImage, CompressionSettings, OutputFormat } from './imageCodec';
+import { getRasterBackend, resizeRaster, RasterImage } from './raster';
+import { isVectorImage } from './inputFormats';
+
+// What an image or PDF actually shows, worked out from small previews. The
+// same previews go to Gemini as images and feed the offline classifier.
+
+// --- Types ---
+export type ContentType = 'photo' | 'screenshot' | 'illustration' | 'scanned-document' | 'chart';
+
+export const CONTENT_TYPES: Record<ContentType, { label: string; description: string }> = {
+    'photo': { label: 'Photo', description: 'camera photos and other continuous-tone images' },
+    'screenshot': { label: 'Screenshot / text', description: 'screen captures, UI and anything mostly text' },
+    'illustration': { label: 'Illustration', description: 'logos, icons, drawings and flat-color art' },
+    'scanned-document': { label: 'Scanned document', description: 'scans or photos of paper pages' },
+    'chart': { label: 'Chart', description: 'graphs, diagrams and plots' },
+};
+export const CONTENT_TYPE_NAMES = Object.keys(CONTENT_TYPES) as ContentType[];
+
+// A part of the image Gemini thinks should stay sharp, as fractions of its
+// width and height from the top-left corner. Only shown to the user; the
+// encoders don't read it. The offline rules never find any.
+export interface RegionOfInterest {
+    label: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ContentAnalysis {
+    contentType: ContentType;
+    regions: RegionOfInterest[];
+}
+
+// --- Content Profiles ---
+// How far each kind of content can be pushed. Text and line art smear long
+// before photos do, so they start higher and keep more resolution. A target
+// size can still drive the search below `minQuality`.
+const CONTENT_PROFILES: Record<ContentType, { format: OutputFormat; minQuality: number; minResizeEdge?: number }> = {
+    'photo': { format: 'jpeg', minQuality: 40 },
+    'screenshot': { format: 'png-quantized', minQuality: 80, minResizeEdge: 1280 },
+    'illustration': { format: 'png-quantized', minQuality: 60 },
+    'scanned-document': { format: 'jpeg', minQuality: 50, minResizeEdge: 1600 },
+    'chart': { format: 'png-quantized', minQuality: 75, minResizeEdge: 1024 },
+};
+
+export const preferredFormatFor = (contentType: ContentType): OutputFormat => CONTENT_PROFILES[contentType].format;
+
+// Raises the starting quality to what the content needs and undoes any smart
+// resize that would make text illegible. `original` is the size smart resize
+// started from.
+export const applyContentProfile = (settings: CompressionSettings, original: { width: number; height: number }): CompressionSettings => {
+    if (!settings.contentType) return settings;
+    const { minQuality, minResizeEdge } = CONTENT_PROFILES[settings.contentType];
+    const tuned = { ...settings, targetQuality: Math.max(settings.targetQuality, minQuality) };
+
+    if (minResizeEdge && tuned.targetWidth && tuned.targetHeight) {
+        const originalEdge = Math.max(original.width, original.height);
+        const minScale = Math.min(1, minResizeEdge / originalEdge);
+        if (Math.max(tuned.targetWidth, tuned.targetHeight) / originalEdge < minScale) {
+            tuned.targetWidth = Math.round(original.width * minScale);
+            tuned.targetHeight = Math.round(original.height * minScale);
+        }
+    }
+    return tuned;
+};
+
+// --- Previews ---
+const PREVIEW_EDGE = 512;
+const PDF_PREVIEW_PAGES = 3;
+const PREVIEW_QUALITY = 80;
+const PDF_THUMBNAIL_EDGE = 200;
+
+// Transparent areas are shown on white, the way a viewer would.
+const flattenOnWhite = (image: RasterImage): RasterImage => {
+    const data = new Uint8ClampedArray(image.data);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        if (alpha === 1) continue;
+        data[i] = data[i] * alpha + 255 * (1 - alpha);
+        data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+        data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+        data[i + 3] = 255;
+    }
+    return { ...image, data };
+};
+
+const fitWithin = (image: { width: number; height: number }, maxEdge: number) => {
+    const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+    return { width: Math.max(1, Math.round(image.width * scale)), height: Math.max(1, Math.round(image.height * scale)) };
+};
+
+// Renders the first pages of a PDF, or nothing if the backend can't render PDFs.
+export const renderPdfPages = async (file: Blob, pageCount = PDF_PREVIEW_PAGES, maxEdge = PREVIEW_EDGE): Promise<RasterImage[]> => {
+    const pdfjs = await getRasterBackend().loadPdfjs?.();
+    if (!pdfjs) return [];
+
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), isEvalSupported: false }).promise;
+    try {
+        const pages: RasterImage[] = [];
+        for (let number = 1; number <= Math.min(pageCount, doc.numPages); number++) {
+            const page = await doc.getPage(number);
+            const unscaled = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale: fitWithin(unscaled, maxEdge).width / unscaled.width });
+            const width = Math.ceil(viewport.width);
+            const height = Math.ceil(viewport.height);
+            // pdf.js knows how to make a canvas on every platform it runs on.
+            const { canvas, context } = (doc.canvasFactory as { create: (width: number, height: number) => { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } }).create(width, height);
+            await page.render({ canvas, canvasContext: context, viewport }).promise;
+            pages.push({ width, height, data: context.getImageData(0, 0, width, height).data });
+            page.cleanup();
+        }
+        return pages;
+    } finally {
+        await doc.destroy();
+    }
+};
+
+const previews = new WeakMap<Blob, Promise<RasterImage[]>>();
+
+// Downscaled views of a file: one thumbnail for an image, the first pages of
+// a PDF, the first frame of an animation. Built once per file and shared by
+// every provider that asks. Resolves to an empty list when no preview can be
+// made.
+export const getPreviews = (file: File): Promise<RasterImage[]> => {
+    let pending = previews.get(file);
+    if (!pending) {
+        pending = (async () => {
+            if (file.type === 'application/pdf') return renderPdfPages(file);
+            // SVGs are optimized as markup and never rasterized.
+            if (isVectorImage(file)) return [];
+            const image = await decodeImage(file);
+            const { width, height } = fitWithin(image, PREVIEW_EDGE);
+            return [flattenOnWhite(await resizeRaster(image, width, height))];
+        })().catch(error => {
+            console.warn(`Couldn't create a preview of ${file.name}:`, error);
+            return [];
+        });
+        previews.set(file, pending);
+    }
+    return pending;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+// The previews as JPEG parts for a multimodal prompt.
+export const getPreviewParts = async (file: File): Promise<{ inlineData: { mimeType: string; data: string } }[]> => {
+    const images = await getPreviews(file);
+    return Promise.all(images.map(async image => {
+        const blob = await getRasterBackend().encode(image, 'jpeg', PREVIEW_QUALITY);
+        return { inlineData: { mimeType: 'image/jpeg', data: toBase64(new Uint8Array(await blob.arrayBuffer())) } };
+    }));
+};
+
+// The first preview as a JPEG, for showing files the browser can't display.
+export const getThumbnail = async (file: File): Promise<Blob | undefined> => {
+    const [image] = await getPreviews(file);
+    return image && getRasterBackend().encode(image, 'jpeg', PREVIEW_QUALITY);
+};
+
+// Every page of a PDF as a small JPEG, for the page tools.
+export const getPdfPageThumbnails = async (file: Blob, maxEdge = PDF_THUMBNAIL_EDGE): Promise<Blob[]> => {
+    const pages = await renderPdfPages(file, Infinity, maxEdge);
+    return Promise.all(pages.map(page => getRasterBackend().encode(page, 'jpeg', PREVIEW_QUALITY)));
+};
+
+// --- Offline Classifier ---
+// Rough rules over a preview: flat runs of identical pixels mean rendered
+// graphics, few colors mean charts and line art, mostly gray and light means
+// paper. Good enough to pick settings when Gemini isn't there.
+export const classifyContent = (image: RasterImage): ContentType => {
+    const { data, width, height } = image;
+    const pixels = width * height;
+    const colors = new Set<number>();
+    let flat = 0, gray = 0, light = 0;
+
+    for (let p = 0; p < pixels; p++) {
+        const i = p * 4;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        colors.add(((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3));
+        if (Math.max(r, g, b) - Math.min(r, g, b) < 16) gray++;
+        if (0.299 * r + 0.587 * g + 0.114 * b > 230) light++;
+        if ((p + 1) % width !== 0 && Math.abs(r - data[i + 4]) + Math.abs(g - data[i + 5]) + Math.abs(b - data[i + 6]) <= 3) flat++;
+    }
+
+    const flatRatio = flat / pixels;
+    const grayRatio = gray / pixels;
+    const lightRatio = light / pixels;
+    if (flatRatio > 0.6) {
+        if (lightRatio > 0.5) return colors.size < 64 ? 'chart' : 'screenshot';
+        return 'illustration';
+    }
+    if (grayRatio > 0.9 && lightRatio > 0.4) return 'scanned-document';
+    return 'photo';
+};
+
+// Classifies the file's first preview, or undefined if there isn't one.
+export const analyzeContent = async (file: File): Promise<ContentAnalysis | undefined> => {
+    const [preview] = await getPreviews(file);
+    return preview ? { contentType: classifyContent(preview), regions: [] } : undefined;
+};
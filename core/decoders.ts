@@ -0,0 +1,226 @@
+import { orientRaster, RasterImage } from './raster';
+import { sniffInputFormat } from './inputFormats';
+import type { ParsedGif } from 'gifuct-js';
+
+// Decoders for input formats that createImageBitmap and the Squoosh codecs
+// don't cover everywhere. They run in the core so HEIC, TIFF, GIF and BMP
+// decode the same in every browser and in Node. The heavier libraries are
+// loaded on first use.
+
+// --- BMP ---
+// Uncompressed and bitfield BMPs at every common bit depth. RLE compression
+// is rare enough in practice to turn away.
+const decodeBmp = (bytes: Uint8Array): RasterImage => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const pixelOffset = view.getUint32(10, true);
+    const headerSize = view.getUint32(14, true);
+    const core = headerSize === 12;
+    const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+    const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+    const bitDepth = view.getUint16(core ? 24 : 28, true);
+    const compression = core ? 0 : view.getUint32(30, true);
+    const height = Math.abs(rawHeight);
+    if (compression !== 0 && compression !== 3 && compression !== 6) throw new Error('Compressed BMP files are not supported.');
+    if (width <= 0 || height === 0) throw new Error('This BMP has no pixels.');
+
+    const paletteStart = 14 + headerSize;
+    const paletteEntry = core ? 3 : 4;
+    const colorsUsed = core ? 0 : view.getUint32(46, true);
+    const palette = (index: number) => paletteStart + Math.min(index, (colorsUsed || 1 << bitDepth) - 1) * paletteEntry;
+
+    // Bitfield masks follow a 40-byte header, or sit inside the V4/V5 ones.
+    let masks = bitDepth === 16 ? [0x7C00, 0x03E0, 0x001F, 0] : [0xFF0000, 0xFF00, 0xFF, 0xFF000000];
+    if (compression === 3 || compression === 6) {
+        masks = [0, 1, 2, 3].map(i => i < 3 || compression === 6 || headerSize >= 56 ? view.getUint32(54 + i * 4, true) : 0);
+    }
+    const channel = (value: number, mask: number) => {
+        if (!mask) return 255;
+        const shift = 31 - Math.clz32(mask & -mask);
+        const max = mask >>> shift;
+        return Math.round(((value & mask) >>> shift) * 255 / max);
+    };
+
+    const rowSize = Math.ceil(width * bitDepth / 32) * 4;
+    const data = new Uint8ClampedArray(width * height * 4);
+    let anyAlpha = false;
+    for (let y = 0; y < height; y++) {
+        const row = pixelOffset + (rawHeight > 0 ? height - 1 - y : y) * rowSize;
+        for (let x = 0; x < width; x++) {
+            const out = (y * width + x) * 4;
+            if (bitDepth <= 8) {
+                const bit = x * bitDepth;
+                const index = (bytes[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+                const entry = palette(index);
+                data.set([bytes[entry + 2], bytes[entry + 1], bytes[entry], 255], out);
+            } else if (bitDepth === 24) {
+                const p = row + x * 3;
+                data.set([bytes[p + 2], bytes[p + 1], bytes[p], 255], out);
+            } else if (bitDepth === 16 || bitDepth === 32) {
+                const value = bitDepth === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+                data.set([channel(value, masks[0]), channel(value, masks[1]), channel(value, masks[2]), channel(value, masks[3])], out);
+                if (masks[3] && (value & masks[3])) anyAlpha = true;
+            } else {
+                throw new Error(`${bitDepth}-bit BMP files are not supported.`);
+            }
+        }
+    }
+    // Plenty of writers leave the spare byte of 32-bit pixels at zero; that
+    // means "no alpha", not "fully transparent".
+    if (masks[3] && !anyAlpha) {
+        for (let i = 3; i < data.length; i += 4) data[i] = 255;
+    }
+    return { width, height, data };
+};
+
+// --- TIFF ---
+// Multi-page files and files with embedded thumbnails hold several images;
+// the largest is the one that was scanned or shot.
+// The parts of a UTIF image file directory read here. Tags are keyed by
+// number: 256 is the width, 257 the height, 274 the orientation.
+interface TiffIfd {
+    t256?: number[];
+    t257?: number[];
+    t274?: number[];
+    // Filled in by UTIF.decodeImage.
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+type SizedTiffIfd = TiffIfd & { t256: number[]; t257: number[] };
+
+const largestTiffImage = (UTIF: { decode: (buffer: ArrayBuffer) => TiffIfd[] }, buffer: ArrayBuffer): SizedTiffIfd => {
+    const ifds = UTIF.decode(buffer).filter((ifd): ifd is SizedTiffIfd => !!ifd.t256 && !!ifd.t257);
+    if (!ifds.length) throw new Error('This TIFF has no images.');
+    return ifds.reduce((a, b) => b.t256[0] * b.t257[0] > a.t256[0] * a.t257[0] ? b : a);
+};
+
+const decodeTiff = async (buffer: ArrayBuffer): Promise<RasterImage> => {
+    const { default: UTIF } = await import('utif');
+    const ifd = largestTiffImage(UTIF, buffer);
+    UTIF.decodeImage(buffer, ifd);
+    const image = { width: ifd.width, height: ifd.height, data: new Uint8ClampedArray(UTIF.toRGBA8(ifd).buffer) };
+    return orientRaster(image, ifd.t274?.[0] ?? 1);
+};
+
+// --- HEIC ---
+// libheif applies the rotation and mirroring stored in the container itself.
+const decodeHeic = async (buffer: ArrayBuffer): Promise<RasterImage> => {
+    const { default: decode } = await import('heic-decode');
+    const { width, height, data } = await decode({ buffer: new Uint8Array(buffer) });
+    return { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength) };
+};
+
+// --- GIF ---
+export interface GifFrame {
+    image: RasterImage;
+    // How long the frame stays up, in milliseconds.
+    delay: number;
+}
+
+export interface DecodedGif {
+    width: number;
+    height: number;
+    frames: GifFrame[];
+    // 0 loops forever.
+    loopCount: number;
+}
+
+type GifImageBlock = Extract<ParsedGif['frames'][number], { image: unknown }>;
+const isImageBlock = (block: ParsedGif['frames'][number]): block is GifImageBlock => 'image' in block;
+
+// Browsers show GIF delays of 10ms or less at 100ms, and files are authored
+// against that, so it's the timing the animation actually has.
+const BROWSER_GIF_DELAY = 100;
+
+// Draws each frame over the ones before it, honouring the disposal methods,
+// so every frame comes out as the full picture shown at that moment.
+// `maxFrames` stops early when only the first frame is wanted.
+export const decodeGif = async (file: Blob, maxFrames = Infinity): Promise<DecodedGif> => {
+    const { parseGIF, decompressFrame } = await import('gifuct-js');
+    const gif = parseGIF(await file.arrayBuffer());
+    const { width, height } = gif.lsd;
+
+    const netscape = gif.frames.find(frame => 'application' in frame && frame.application.id.startsWith('NETSCAPE')) as { application: { blocks: number[] } } | undefined;
+    // Without the NETSCAPE extension a GIF plays once.
+    const loopCount = netscape ? (netscape.application.blocks[1] | (netscape.application.blocks[2] << 8)) : 1;
+
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    const frames: GifFrame[] = [];
+    for (const block of gif.frames.filter(isImageBlock).slice(0, maxFrames)) {
+        const frame = decompressFrame(block, gif.gct, true);
+        const { dims, patch, disposalType } = frame;
+        const previous = disposalType === 3 ? canvas.slice() : undefined;
+
+        for (let y = 0; y < dims.height; y++) {
+            const top = dims.top + y;
+            if (top >= height) break;
+            for (let x = 0; x < dims.width; x++) {
+                const left = dims.left + x;
+                const from = (y * dims.width + x) * 4;
+                if (left >= width || patch[from + 3] === 0) continue;
+                canvas.set(patch.subarray(from, from + 4), (top * width + left) * 4);
+            }
+        }
+        frames.push({ image: { width, height, data: canvas.slice() }, delay: frame.delay <= 10 ? BROWSER_GIF_DELAY : frame.delay });
+
+        if (disposalType === 2) {
+            for (let y = dims.top; y < Math.min(height, dims.top + dims.height); y++) {
+                canvas.fill(0, (y * width + dims.left) * 4, (y * width + Math.min(width, dims.left + dims.width)) * 4);
+            }
+        } else if (previous) {
+            canvas.set(previous);
+        }
+    }
+    if (!frames.length) throw new Error('This GIF has no frames.');
+    return { width, height, frames, loopCount };
+};
+
+// Counts image descriptors without decompressing any of them.
+export const isAnimatedGif = async (file: Blob): Promise<boolean> => {
+    if (sniffInputFormat(new Uint8Array(await file.slice(0, 16).arrayBuffer())) !== 'gif') return false;
+    const { parseGIF } = await import('gifuct-js');
+    return parseGIF(await file.arrayBuffer()).frames.filter(isImageBlock).length > 1;
+};
+
+// --- Dispatch ---
+// Decodes the formats above, or returns undefined for the ones the raster
+// backend handles itself. A GIF decodes to its first frame.
+export const decodeExtraFormat = async (file: Blob): Promise<RasterImage | undefined> => {
+    const format = sniffInputFormat(new Uint8Array(await file.slice(0, 16).arrayBuffer()));
+    if (format === 'gif') return (await decodeGif(file, 1)).frames[0].image;
+    if (format === 'bmp') return decodeBmp(new Uint8Array(await file.arrayBuffer()));
+    if (format === 'tiff') return decodeTiff(await file.arrayBuffer());
+    if (format === 'heic') return decodeHeic(await file.arrayBuffer());
+    if (format === 'svg') throw new Error('SVG files are optimized as vectors, not decoded to pixels.');
+    return undefined;
+};
+
+// Sizes from the headers of the formats above, as displayed.
+export const readExtraFormatSize = async (file: Blob): Promise<{ width: number; height: number } | undefined> => {
+    const bytes = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const format = sniffInputFormat(bytes);
+    if (format === 'gif') return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    if (format === 'bmp') {
+        const core = view.getUint32(14, true) === 12;
+        return core
+            ? { width: view.getUint16(18, true), height: Math.abs(view.getInt16(20, true)) }
+            : { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+    }
+    if (format === 'tiff') {
+        const { default: UTIF } = await import('utif');
+        const ifd = largestTiffImage(UTIF, await file.arrayBuffer());
+        const [width, height] = [ifd.t256[0], ifd.t257[0]];
+        return (ifd.t274?.[0] ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+    }
+    if (format === 'heic') {
+        // Reads the item properties without decoding any pixels.
+        const { default: decode } = await import('heic-decode');
+        const images = await decode.all({ buffer: new Uint8Array(await file.arrayBuffer()) });
+        const { width, height } = images[0];
+        images.dispose();
+        return { width, height };
+    }
+    return undefined;
+};
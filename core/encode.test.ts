@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { setRasterBackend, encodeImage, compressWithMetadata, CompressionSettings } from '.';
+import { createNodeBackend } from '../cli/nodeBackend';
+
+// A busy pattern, so quality makes a real difference to the size.
+const noiseJpeg = async (width: number, height: number, quality: number): Promise<File> => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < width * height; index++) {
+        data.set([index * 7 % 256, index * 13 % 256, index * 31 % 256, 255], index * 4);
+    }
+    const blob = await encodeImage({ data, width, height }, 'jpeg', quality);
+    return new File([blob], 'noise.jpeg', { type: 'image/jpeg' });
+};
+
+const settings = (targetQuality: number): CompressionSettings => ({ targetQuality, outputFormat: 'jpeg' });
+
+beforeAll(async () => {
+    setRasterBackend(await createNodeBackend());
+});
+
+describe('compressWithMetadata', () => {
+    it('stays at the starting quality when that already fits', async () => {
+        const file = await noiseJpeg(120, 90, 95);
+        const result = await compressWithMetadata({ file, settings: settings(60), targetBytes: file.size * 10 });
+        expect(result.quality).toBe(60);
+        expect(result.targetMet).toBe(true);
+        expect(result.blob.size).toBeLessThan(file.size);
+    });
+
+    it('keeps the original when no encode is smaller', async () => {
+        const file = await noiseJpeg(120, 90, 40);
+        const result = await compressWithMetadata({ file, settings: settings(100), targetBytes: file.size * 10 });
+        expect(result.unchanged).toBe(true);
+        expect(result.blob).toBe(file);
+        expect(result.targetMet).toBe(true);
+    });
+});
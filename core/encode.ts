@@ -0,0 +1,71 @@
+import { OUTPUT_FORMATS, compressImageToTarget, encodeFormatCandidates, getImageDimensions, CompressionSettings, FormatCandidate, ImageCompressionResult, ProgressCallback } from './imageCodec';
+import { compressAnimation } from './animation';
+import { isAnimatedGif } from './decoders';
+import { readImageMetadata, applyMetadataPolicy, metadataOverhead, embedMetadata, MetadataPolicy, MetadataSummary } from './imageMetadata';
+
+// The encode jobs themselves, kept apart from the AI and PDF code so the
+// compression workers only load what they run.
+
+export interface EncodeInput {
+    file: File;
+    settings: CompressionSettings;
+    targetBytes?: number;
+    metadataPolicy?: MetadataPolicy;
+}
+
+export type EncodeOutput = ImageCompressionResult & { metadata: MetadataSummary };
+
+export interface CandidatesInput {
+    file: File;
+    settings: CompressionSettings;
+    hasTransparency: boolean;
+}
+
+export interface RunOptions {
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
+}
+
+// Where the heavy encodes run. The app hands them to its worker pool; the CLI
+// runs them in-process.
+export interface EncodeRunner {
+    compress: (input: EncodeInput, options?: RunOptions) => Promise<EncodeOutput>;
+    candidates: (input: CandidatesInput, options?: RunOptions) => Promise<FormatCandidate[]>;
+}
+
+// An output no smaller than its original is swapped back for the original,
+// as long as that gives up nothing that was asked for: the same pixels in a
+// format we also write, with no metadata the policy would have removed.
+const keepOriginal = async (file: File, result: EncodeOutput, targetBytes?: number): Promise<EncodeOutput> => {
+    if (result.blob.size < file.size || result.crop || result.metadata.removed.length) return result;
+    if (!Object.values(OUTPUT_FORMATS).some(format => format.mimeType === file.type)) return result;
+    const { width, height } = await getImageDimensions(file);
+    if (width !== result.width || height !== result.height) return result;
+    return { ...result, blob: file, unchanged: true, targetMet: !targetBytes || file.size <= targetBytes };
+};
+
+// The size search leaves room for the metadata that gets written back
+// afterwards, so the final file still fits the target. GIFs have no metadata
+// we read, so animated ones go straight to the animation encoder.
+export const compressWithMetadata = async ({ file, settings, targetBytes, metadataPolicy = 'strip-private' }: EncodeInput, onProgress?: ProgressCallback): Promise<EncodeOutput> => {
+    const { kept, summary } = applyMetadataPolicy(await readImageMetadata(file), metadataPolicy, settings.outputFormat);
+    if (await isAnimatedGif(file)) return { ...await compressAnimation(file, settings, targetBytes, onProgress), metadata: summary };
+    const overhead = metadataOverhead(kept);
+    const budget = targetBytes ? Math.max(1, targetBytes - overhead) : undefined;
+    const result = await compressImageToTarget(file, settings, budget, onProgress, { keepColorProfile: !!kept.icc });
+    const blob = await embedMetadata(result.blob, settings.outputFormat, kept);
+    return keepOriginal(file, { ...result, blob, targetMet: result.targetMet && (!targetBytes || blob.size <= targetBytes), metadata: summary }, targetBytes);
+};
+
+// Encodes can't be interrupted midway in-process, so cancelling only stops
+// the next one from starting.
+export const inlineRunner: EncodeRunner = {
+    compress: async (input, { signal, onProgress } = {}) => {
+        signal?.throwIfAborted();
+        return compressWithMetadata(input, onProgress);
+    },
+    candidates: async ({ file, settings, hasTransparency }, { signal, onProgress } = {}) => {
+        signal?.throwIfAborted();
+        return encodeFormatCandidates(file, settings, hasTransparency, onProgress);
+    },
+};
@@ -0,0 +1,21 @@
+import { getLocale, Locale } from './locale';
+
+const BYTE_UNITS: Record<Locale, string[]> = {
+    en: ['Bytes', 'KB', 'MB', 'GB'],
+    hi: ['बाइट', 'KB', 'MB', 'GB'],
+    mr: ['बाइट्स', 'KB', 'MB', 'GB'],
+    es: ['bytes', 'KB', 'MB', 'GB'],
+};
+
+// Digits and decimal marks the locale's way, without grouping.
+export const formatNumber = (value: number, maximumFractionDigits = 0, locale: Locale = getLocale()): string =>
+    new Intl.NumberFormat(locale, { maximumFractionDigits, useGrouping: false }).format(value);
+
+export const formatBytes = (bytes: number, decimals = 2, locale: Locale = getLocale()): string => {
+    const sizes = BYTE_UNITS[locale];
+    if (bytes === 0) return `${formatNumber(0, 0, locale)} ${sizes[0]}`;
+    const k = 1024;
+    const dm = decimals < 0 ? 0 : decimals;
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${formatNumber(bytes / Math.pow(k, i), dm, locale)} ${sizes[i]}`;
+};
@@ -0,0 +1,17 @@
+// Files are identified by what's in them rather than by name and timestamp,
+// so the same bytes picked twice, or under another name, are recognised.
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Blobs are immutable, so each is hashed once however often it's asked about.
+const hashes = new WeakMap<Blob, Promise<string>>();
+
+// SHA-256 of the whole blob, as lowercase hex.
+export const hashBlob = (blob: Blob): Promise<string> => {
+    let hash = hashes.get(blob);
+    if (!hash) {
+        hash = blob.arrayBuffer().then(buffer => crypto.subtle.digest('SHA-256', buffer)).then(toHex);
+        hashes.set(blob, hash);
+    }
+    return hash;
+};
@@ -0,0 +1,165 @@
+import { ContentType } from './content';
+import { PdfColorMode } from './pdf';
+import { formatNumber } from './format';
+import { Locale } from './locale';
+
+// What the offline rules say, in each language the app speaks. Gemini is
+// asked to answer in the user's language; these are written in it. Sizes
+// come in already formatted, counts are written with `n`.
+
+export type HeuristicSubject = ContentType | 'graphic' | 'image';
+
+export interface HeuristicText {
+    largePdf: string;
+    smallPdf: string;
+    svg: string;
+    animatedGif: string;
+    transparency: string;
+    sharpEdges: (subject: string) => string;
+    smallGraphic: string;
+    web: string;
+    // What "PNG (palette)" is called.
+    palettePng: string;
+    settings: (format: string, quality: number, width: number, height: number, subject: string, transparency: boolean) => string;
+    breakpoints: (widest: number, width: number, subject: string) => string;
+    saved: (percent: number, from: string, to: string) => string;
+    grew: (percent: number, from: string, to: string) => string;
+    kept: string;
+    alreadyOptimized: string;
+    resampled: (count: number) => string;
+    recolored: (count: number, color: string) => string;
+    deduplicated: (count: number) => string;
+    deflated: (count: number) => string;
+    removed: (count: number) => string;
+    // The fragments above, as one sentence.
+    applied: (fragments: string[]) => string;
+    fidelity: string;
+    batch: (files: number, from: string, to: string, percent: number) => string;
+    topType: (type: string, saved: string) => string;
+    missedTargets: (files: number) => string;
+    // What the image is called mid-sentence.
+    subjects: Record<HeuristicSubject, string>;
+    colors: Record<PdfColorMode, string>;
+}
+
+const HEURISTIC_TEXT: Record<Locale, (n: (value: number) => string) => HeuristicText> = {
+    en: n => ({
+        largePdf: 'Large PDF: downsampling images pays off',
+        smallPdf: 'Small PDF: keep full fidelity',
+        svg: 'SVG: minified markup stays a sharp vector',
+        animatedGif: 'Animated GIF: animated WebP is far smaller',
+        transparency: 'Keeps transparency, good for web use',
+        sharpEdges: subject => `${subject[0].toUpperCase()}${subject.slice(1)}: keep edges and text sharp`,
+        smallGraphic: 'Small graphic: a palette PNG stays sharp',
+        web: 'Good for web use',
+        palettePng: 'PNG (palette)',
+        settings: (format, quality, width, height, subject, transparency) => `${format} at quality ${n(quality)} suits a ${n(width)}×${n(height)} ${subject}${transparency ? ' with transparency' : ''}.`,
+        breakpoints: (widest, width, subject) => `Common layout widths up to ${n(widest)}px for a ${n(width)}px ${subject}`,
+        saved: (percent, from, to) => `Saved ${n(percent)}%: ${from} down to ${to}.`,
+        grew: (percent, from, to) => `The file grew ${n(percent)}%: ${from} up to ${to}.`,
+        kept: 'Nothing came out smaller, so the file was kept as it was.',
+        alreadyOptimized: 'This PDF was already well optimized.',
+        resampled: count => `${n(count)} ${count === 1 ? 'image' : 'images'} downsampled`,
+        recolored: (count, color) => `${n(count)} ${count === 1 ? 'image' : 'images'} made ${color}`,
+        deduplicated: count => `${n(count)} ${count === 1 ? 'duplicate' : 'duplicates'} merged`,
+        deflated: count => `${n(count)} ${count === 1 ? 'stream' : 'streams'} compressed`,
+        removed: count => `${n(count)} unused ${count === 1 ? 'object' : 'objects'} removed`,
+        applied: fragments => `${fragments.join(', ')}.`,
+        fidelity: 'Document fidelity is fully preserved.',
+        batch: (files, from, to, percent) => `${n(files)} ${files === 1 ? 'file' : 'files'} went from ${from} to ${to}, saving ${n(percent)}%.`,
+        topType: (type, saved) => `${type} files saved the most, ${saved}.`,
+        missedTargets: files => `${n(files)} ${files === 1 ? 'file' : 'files'} missed the size target.`,
+        subjects: { 'photo': 'photo', 'screenshot': 'screenshot / text', 'illustration': 'illustration', 'scanned-document': 'scanned document', 'chart': 'chart', 'graphic': 'graphic', 'image': 'image' },
+        colors: { color: 'colour', grayscale: 'grayscale', bilevel: 'black & white' },
+    }),
+    hi: n => ({
+        largePdf: 'बड़ी PDF: छवियों का रिज़ॉल्यूशन घटाने से फ़ायदा होता है',
+        smallPdf: 'छोटी PDF: पूरी गुणवत्ता बनाए रखें',
+        svg: 'SVG: छोटा किया गया मार्कअप तीखा वेक्टर बना रहता है',
+        animatedGif: 'एनिमेटेड GIF: एनिमेटेड WebP कहीं छोटा होता है',
+        transparency: 'पारदर्शिता बनी रहती है, वेब उपयोग के लिए अच्छा',
+        sharpEdges: subject => `${subject}: किनारे और टेक्स्ट तीखे रखें`,
+        smallGraphic: 'छोटा ग्राफ़िक: पैलेट PNG तीखा रहता है',
+        web: 'वेब उपयोग के लिए अच्छा',
+        palettePng: 'PNG (पैलेट)',
+        settings: (format, quality, width, height, subject, transparency) => `${n(width)}×${n(height)} के ${subject}${transparency ? ' (पारदर्शिता सहित)' : ''} के लिए ${n(quality)} गुणवत्ता पर ${format} उपयुक्त है।`,
+        breakpoints: (widest, width, subject) => `${n(width)}px के ${subject} के लिए ${n(widest)}px तक की सामान्य लेआउट चौड़ाइयाँ`,
+        saved: (percent, from, to) => `${n(percent)}% की बचत: ${from} से घटकर ${to}।`,
+        grew: (percent, from, to) => `फ़ाइल ${n(percent)}% बढ़ गई: ${from} से बढ़कर ${to}।`,
+        kept: 'कुछ भी छोटा नहीं निकला, इसलिए फ़ाइल जैसी थी वैसी ही रखी गई।',
+        alreadyOptimized: 'यह PDF पहले से ही अच्छी तरह अनुकूलित थी।',
+        resampled: count => count === 1 ? `${n(count)} छवि का रिज़ॉल्यूशन घटाया गया` : `${n(count)} छवियों का रिज़ॉल्यूशन घटाया गया`,
+        recolored: (count, color) => count === 1 ? `${n(count)} छवि ${color} बनाई गई` : `${n(count)} छवियाँ ${color} बनाई गईं`,
+        deduplicated: count => count === 1 ? `${n(count)} डुप्लिकेट मिलाया गया` : `${n(count)} डुप्लिकेट मिलाए गए`,
+        deflated: count => count === 1 ? `${n(count)} स्ट्रीम संपीड़ित की गई` : `${n(count)} स्ट्रीम संपीड़ित की गईं`,
+        removed: count => count === 1 ? `${n(count)} अप्रयुक्त ऑब्जेक्ट हटाया गया` : `${n(count)} अप्रयुक्त ऑब्जेक्ट हटाए गए`,
+        applied: fragments => `${fragments.join(', ')}।`,
+        fidelity: 'दस्तावेज़ की गुणवत्ता पूरी तरह सुरक्षित है।',
+        batch: (files, from, to, percent) => `${n(files)} ${files === 1 ? 'फ़ाइल' : 'फ़ाइलें'} ${from} से ${to} ${files === 1 ? 'हो गई' : 'हो गईं'}, ${n(percent)}% की बचत।`,
+        topType: (type, saved) => `${type} फ़ाइलों में सबसे ज़्यादा बचत हुई, ${saved}।`,
+        missedTargets: files => files === 1 ? `${n(files)} फ़ाइल आकार के लक्ष्य तक नहीं पहुँची।` : `${n(files)} फ़ाइलें आकार के लक्ष्य तक नहीं पहुँचीं।`,
+        subjects: { 'photo': 'फ़ोटो', 'screenshot': 'स्क्रीनशॉट', 'illustration': 'चित्रण', 'scanned-document': 'स्कैन किए गए दस्तावेज़', 'chart': 'चार्ट', 'graphic': 'ग्राफ़िक', 'image': 'छवि' },
+        colors: { color: 'रंगीन', grayscale: 'ग्रेस्केल', bilevel: 'श्वेत-श्याम' },
+    }),
+    mr: n => ({
+        largePdf: 'मोठी PDF: प्रतिमांचे रिझोल्यूशन कमी केल्याने फायदा होतो',
+        smallPdf: 'लहान PDF: पूर्ण गुणवत्ता राखा',
+        svg: 'SVG: लहान केलेला मार्कअप धारदार व्हेक्टर राहतो',
+        animatedGif: 'ॲनिमेटेड GIF: ॲनिमेटेड WebP खूपच लहान असते',
+        transparency: 'पारदर्शकता राखली जाते, वेब वापरासाठी चांगले',
+        sharpEdges: subject => `${subject}: कडा आणि मजकूर धारदार ठेवा`,
+        smallGraphic: 'लहान ग्राफिक: पॅलेट PNG धारदार राहते',
+        web: 'वेब वापरासाठी चांगले',
+        palettePng: 'PNG (पॅलेट)',
+        settings: (format, quality, width, height, subject, transparency) => `${n(width)}×${n(height)} ${subject}${transparency ? ' (पारदर्शकतेसह)' : ''} साठी ${n(quality)} गुणवत्तेवर ${format} योग्य आहे.`,
+        breakpoints: (widest, width, subject) => `${n(width)}px ${subject} साठी ${n(widest)}px पर्यंतच्या सामान्य लेआउट रुंदी`,
+        saved: (percent, from, to) => `${n(percent)}% बचत: ${from} वरून ${to}.`,
+        grew: (percent, from, to) => `फाइल ${n(percent)}% वाढली: ${from} वरून ${to}.`,
+        kept: 'काहीही लहान झाले नाही, म्हणून फाइल जशी होती तशीच ठेवली.',
+        alreadyOptimized: 'ही PDF आधीच चांगली ऑप्टिमाइझ केलेली होती.',
+        resampled: count => count === 1 ? `${n(count)} प्रतिमेचे रिझोल्यूशन कमी केले` : `${n(count)} प्रतिमांचे रिझोल्यूशन कमी केले`,
+        recolored: (count, color) => count === 1 ? `${n(count)} प्रतिमा ${color} केली` : `${n(count)} प्रतिमा ${color} केल्या`,
+        deduplicated: count => count === 1 ? `${n(count)} डुप्लिकेट एकत्र केला` : `${n(count)} डुप्लिकेट एकत्र केले`,
+        deflated: count => count === 1 ? `${n(count)} स्ट्रीम संकुचित केला` : `${n(count)} स्ट्रीम संकुचित केले`,
+        removed: count => count === 1 ? `${n(count)} न वापरलेला ऑब्जेक्ट काढला` : `${n(count)} न वापरलेले ऑब्जेक्ट काढले`,
+        applied: fragments => `${fragments.join(', ')}.`,
+        fidelity: 'दस्तऐवजाची गुणवत्ता पूर्णपणे जपली आहे.',
+        batch: (files, from, to, percent) => `${n(files)} ${files === 1 ? 'फाइल' : 'फाइल्स'} ${from} वरून ${to} ${files === 1 ? 'झाली' : 'झाल्या'}, ${n(percent)}% बचत.`,
+        topType: (type, saved) => `${type} फाइल्समध्ये सर्वाधिक बचत झाली, ${saved}.`,
+        missedTargets: files => files === 1 ? `${n(files)} फाइल आकाराचे लक्ष्य गाठू शकली नाही.` : `${n(files)} फाइल्स आकाराचे लक्ष्य गाठू शकल्या नाहीत.`,
+        subjects: { 'photo': 'फोटो', 'screenshot': 'स्क्रीनशॉट', 'illustration': 'चित्र', 'scanned-document': 'स्कॅन केलेला दस्तऐवज', 'chart': 'चार्ट', 'graphic': 'ग्राफिक', 'image': 'प्रतिमा' },
+        colors: { color: 'रंगीत', grayscale: 'ग्रेस्केल', bilevel: 'कृष्णधवल' },
+    }),
+    // Spanish subjects carry their article, since it depends on the noun.
+    es: n => ({
+        largePdf: 'PDF grande: reducir la resolución de las imágenes compensa',
+        smallPdf: 'PDF pequeño: conserva toda la fidelidad',
+        svg: 'SVG: el marcado minificado sigue siendo un vector nítido',
+        animatedGif: 'GIF animado: un WebP animado es mucho más pequeño',
+        transparency: 'Conserva la transparencia, bueno para la web',
+        sharpEdges: subject => `Mantén nítidos los bordes y el texto en ${subject}`,
+        smallGraphic: 'Gráfico pequeño: un PNG con paleta se mantiene nítido',
+        web: 'Bueno para la web',
+        palettePng: 'PNG (paleta)',
+        settings: (format, quality, width, height, subject, transparency) => `${format} con calidad ${n(quality)} es adecuado para ${subject} de ${n(width)}×${n(height)}${transparency ? ' con transparencia' : ''}.`,
+        breakpoints: (widest, width, subject) => `Anchos de diseño habituales hasta ${n(widest)}px para ${subject} de ${n(width)}px`,
+        saved: (percent, from, to) => `Ahorro del ${n(percent)}%: de ${from} a ${to}.`,
+        grew: (percent, from, to) => `El archivo creció un ${n(percent)}%: de ${from} a ${to}.`,
+        kept: 'Nada quedó más pequeño, así que el archivo se conserva tal cual.',
+        alreadyOptimized: 'Este PDF ya estaba bien optimizado.',
+        resampled: count => count === 1 ? `${n(count)} imagen con menos resolución` : `${n(count)} imágenes con menos resolución`,
+        recolored: (count, color) => count === 1 ? `${n(count)} imagen pasada a ${color}` : `${n(count)} imágenes pasadas a ${color}`,
+        deduplicated: count => count === 1 ? `${n(count)} duplicado combinado` : `${n(count)} duplicados combinados`,
+        deflated: count => count === 1 ? `${n(count)} flujo comprimido` : `${n(count)} flujos comprimidos`,
+        removed: count => count === 1 ? `${n(count)} objeto sin usar eliminado` : `${n(count)} objetos sin usar eliminados`,
+        applied: fragments => `${fragments.join(', ')}.`,
+        fidelity: 'La fidelidad del documento se conserva por completo.',
+        batch: (files, from, to, percent) => `${n(files)} ${files === 1 ? 'archivo pasó' : 'archivos pasaron'} de ${from} a ${to}, con un ahorro del ${n(percent)}%.`,
+        topType: (type, saved) => `Los archivos ${type} fueron los que más ahorraron: ${saved}.`,
+        missedTargets: files => files === 1 ? `${n(files)} archivo no alcanzó el tamaño objetivo.` : `${n(files)} archivos no alcanzaron el tamaño objetivo.`,
+        subjects: { 'photo': 'una foto', 'screenshot': 'una captura de pantalla', 'illustration': 'una ilustración', 'scanned-document': 'un documento escaneado', 'chart': 'un gráfico', 'graphic': 'una imagen gráfica', 'image': 'una imagen' },
+        colors: { color: 'color', grayscale: 'escala de grises', bilevel: 'blanco y negro' },
+    }),
+};
+
+export const heuristicText = (locale: Locale): HeuristicText => HEURISTIC_TEXT[locale](value => formatNumber(value, 0, locale));
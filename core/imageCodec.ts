@@ -0,0 +1,322 @@
+import UPNG from 'upng-js';
+import { buildPaletteSync, applyPaletteSync, utils as imageQUtils } from 'image-q';
+import { getRasterBackend, resizeRaster, cropRaster, clampCrop, centerCrop, hasTransparentPixels, CropRect, RasterImage, DecodeOptions, ResamplingOptions } from './raster';
+import { readImageSize } from './imageMetadata';
+import { decodeExtraFormat, readExtraFormatSize } from './decoders';
+import { displaysNatively } from './inputFormats';
+import type { ContentType } from './content';
+
+// Image decoding, resizing and encoding. Pixels come from whichever raster
+// backend is set, so this runs the same in the browser, in workers and in Node.
+
+// --- Types ---
+export type OutputFormat = 'jpeg' | 'webp' | 'avif' | 'png' | 'png-quantized';
+
+// Dimensions the user asked for. Exact sizes and percentages may upscale;
+// `maxLongEdge` only ever shrinks.
+export interface ManualResize {
+    width?: number;
+    height?: number;
+    // With both sides given, fit inside them instead of stretching to them.
+    lockAspect?: boolean;
+    scalePercent?: number;
+    maxLongEdge?: number;
+}
+
+export interface CompressionSettings {
+    targetQuality: number;
+    outputFormat: OutputFormat;
+    // The AI's smart resize, always inside the manual and preset limits.
+    targetWidth?: number;
+    targetHeight?: number;
+    // Hard limits from a preset; the output is scaled down to fit inside them.
+    maxWidth?: number;
+    maxHeight?: number;
+    // An explicit crop wins over a crop aspect, which crops around the center.
+    crop?: CropRect;
+    cropAspect?: number;
+    resize?: ManualResize;
+    resampling?: ResamplingOptions;
+    recommendation?: string;
+    // What the image shows; raises the quality floor for text and line art.
+    contentType?: ContentType;
+}
+
+// The settings that decide the output dimensions.
+export type GeometrySettings = Pick<CompressionSettings, 'targetWidth' | 'targetHeight' | 'maxWidth' | 'maxHeight' | 'crop' | 'cropAspect' | 'resize'>;
+
+export interface FormatCandidate {
+    format: OutputFormat;
+    size: number;
+}
+
+export interface ImageCompressionResult {
+    blob: Blob;
+    passes: number;
+    quality: number;
+    width: number;
+    height: number;
+    targetMet: boolean;
+    // The region of the source that was encoded, when it was cropped.
+    crop?: CropRect;
+    // Frames in the output, for animations.
+    frames?: number;
+    // Set when no encode came out smaller and the original is returned as it was.
+    unchanged?: boolean;
+}
+
+// Reports how far along a long-running encode is, from 0 to 1.
+export type ProgressCallback = (fraction: number) => void;
+
+// --- Output Formats ---
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; mimeType: string; extension: string; supportsAlpha: boolean; lossy: boolean }> = {
+    'jpeg': { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpeg', supportsAlpha: false, lossy: true },
+    'webp': { label: 'WebP', mimeType: 'image/webp', extension: 'webp', supportsAlpha: true, lossy: true },
+    'avif': { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', supportsAlpha: true, lossy: true },
+    'png': { label: 'PNG', mimeType: 'image/png', extension: 'png', supportsAlpha: true, lossy: false },
+    'png-quantized': { label: 'PNG (palette)', mimeType: 'image/png', extension: 'png', supportsAlpha: true, lossy: true },
+};
+export const OUTPUT_FORMAT_NAMES = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+// The formats "Best format" mode races against each other.
+const CANDIDATE_FORMATS: OutputFormat[] = ['jpeg', 'webp', 'avif'];
+
+// Quality is always expressed on the JPEG scale. These calibration points map it
+// onto each encoder's own scale so every format lands at roughly the same
+// perceived quality (WebP is a little more efficient, AVIF much more).
+const QUALITY_CALIBRATION: Partial<Record<OutputFormat, [number, number][]>> = {
+    'webp': [[0, 0], [50, 45], [70, 66], [80, 77], [90, 88], [100, 100]],
+    'avif': [[0, 0], [50, 30], [70, 45], [80, 55], [90, 72], [100, 100]],
+};
+
+const nativeQuality = (format: OutputFormat, quality: number): number => {
+    const points = QUALITY_CALIBRATION[format];
+    if (!points) return quality;
+    for (let i = 1; i < points.length; i++) {
+        const [x0, y0] = points[i - 1];
+        const [x1, y1] = points[i];
+        if (quality <= x1) return Math.round(y0 + ((quality - x0) / (x1 - x0)) * (y1 - y0));
+    }
+    return 100;
+};
+
+// JPEG has no alpha channel, so transparent images fall back to WebP instead.
+export const resolveOutputFormat = (requested: OutputFormat | undefined, hasTransparency: boolean): OutputFormat => {
+    const format = requested && OUTPUT_FORMATS[requested] ? requested : 'jpeg';
+    return hasTransparency && !OUTPUT_FORMATS[format].supportsAlpha ? 'webp' : format;
+};
+
+// Maps the 0-100 quality scale onto a palette size: 100 keeps 256 colors and
+// every 12.5 points below that halves it.
+export const qualityToPaletteSize = (quality: number): number => {
+    return Math.max(2, Math.min(256, Math.round(Math.pow(2, (quality / 100) * 8))));
+};
+
+// --- Decoding & Resizing ---
+// EXIF orientation is applied while decoding, so every resize and encode sees
+// the image the right way up. HEIC, TIFF, GIF and BMP go through the core's
+// own decoders; everything else through the backend.
+export const decodeImage = async (file: Blob, options: DecodeOptions = {}): Promise<RasterImage> => {
+    return await decodeExtraFormat(file) ?? getRasterBackend().decode(file, options);
+};
+
+// Reads the size from the file header where we can, and only decodes the
+// pixels for formats we don't parse.
+export const getImageDimensions = async (file: Blob): Promise<{ width: number; height: number }> => {
+    const size = await readImageSize(file) ?? await readExtraFormatSize(file);
+    if (size) return size;
+    const { width, height } = await decodeImage(file);
+    return { width, height };
+};
+
+// A copy an <img> can show at full size, for formats browsers don't
+// display. Lossless, so comparisons against it are fair.
+export const toDisplayableImage = async (file: Blob): Promise<Blob> => {
+    return displaysNatively(file) ? file : encodePng(await decodeImage(file));
+};
+
+// --- Geometry ---
+// The part of the image that gets encoded, or undefined for all of it.
+export const cropRegion = (image: { width: number; height: number }, settings: GeometrySettings): CropRect | undefined => {
+    if (settings.crop) return clampCrop(image, settings.crop);
+    if (settings.cropAspect && settings.cropAspect > 0) return clampCrop(image, centerCrop(image, settings.cropAspect));
+    return undefined;
+};
+
+const manualDimensions = (image: { width: number; height: number }, resize: ManualResize = {}) => {
+    if (resize.width || resize.height) {
+        if (resize.width && resize.height && resize.lockAspect === false) return { width: resize.width, height: resize.height };
+        const scale = Math.min(resize.width ? resize.width / image.width : Infinity, resize.height ? resize.height / image.height : Infinity);
+        return { width: image.width * scale, height: image.height * scale };
+    }
+    if (resize.scalePercent && resize.scalePercent > 0) {
+        return { width: image.width * resize.scalePercent / 100, height: image.height * resize.scalePercent / 100 };
+    }
+    return image;
+};
+
+// Output size for an already cropped image: the manual size, scaled down to
+// fit the long edge and any preset max width/height, then down again to the
+// AI's smart resize, which was chosen inside those limits.
+export const outputDimensions = (image: { width: number; height: number }, settings: GeometrySettings) => {
+    let { width, height } = manualDimensions(image, settings.resize);
+    const { maxLongEdge } = settings.resize || {};
+    const limit = Math.min(
+        1,
+        settings.maxWidth ? settings.maxWidth / width : 1,
+        settings.maxHeight ? settings.maxHeight / height : 1,
+        maxLongEdge ? maxLongEdge / Math.max(width, height) : 1,
+    );
+    width *= limit;
+    height *= limit;
+    if (settings.targetWidth && settings.targetHeight) {
+        const scale = Math.min(1, settings.targetWidth / width, settings.targetHeight / height);
+        width *= scale;
+        height *= scale;
+    }
+    return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+};
+
+// The dimensions the AI may choose within, for an image of this size.
+export const resizeBounds = (image: { width: number; height: number }, settings: GeometrySettings) => {
+    const region = cropRegion(image, settings) || image;
+    return outputDimensions({ width: region.width, height: region.height }, { ...settings, targetWidth: undefined, targetHeight: undefined });
+};
+
+// Decodes and crops; every encode path resizes from this.
+const decodeSource = async (file: File, settings: CompressionSettings, options?: DecodeOptions): Promise<{ image: RasterImage; crop?: CropRect }> => {
+    const image = await decodeImage(file, options);
+    const crop = cropRegion(image, settings);
+    return { image: crop ? cropRaster(image, crop) : image, crop };
+};
+
+// Checks for any pixel that isn't fully opaque. JPEGs can't have any.
+export const detectTransparency = async (file: File): Promise<boolean> => {
+    if (file.type === 'image/jpeg' || file.type === 'image/jpg') return false;
+    return hasTransparentPixels(await decodeImage(file));
+};
+
+// --- Encoding ---
+const encodePng = (image: RasterImage, paletteSize?: number): Blob => {
+    const { width, height } = image;
+    let rgba = image.data as Uint8ClampedArray | Uint8Array;
+
+    if (paletteSize) {
+        const points = imageQUtils.PointContainer.fromUint8Array(rgba, width, height);
+        const palette = buildPaletteSync([points], { colors: paletteSize, paletteQuantization: 'wuquant', colorDistanceFormula: 'euclidean-bt709' });
+        rgba = applyPaletteSync(points, palette, { imageQuantization: 'floyd-steinberg', colorDistanceFormula: 'euclidean-bt709' }).toUint8Array();
+    }
+
+    // With cnum 0 UPNG stays lossless, but still writes an indexed PNG when the
+    // image has 256 colors or fewer and picks the smallest filter per row.
+    const png = UPNG.encode([rgba.slice().buffer as ArrayBuffer], width, height, 0);
+    return new Blob([png], { type: 'image/png' });
+};
+
+// Canvas can't reliably produce AVIF, so it goes through libavif compiled to
+// WASM. The codec is loaded on first use to keep it out of the main bundle.
+const encodeAvif = async (image: RasterImage, quality: number): Promise<Blob> => {
+    const { encode } = await import('@jsquash/avif');
+    const avif = await encode(image as ImageData, { quality, speed: 6 });
+    return new Blob([avif], { type: 'image/avif' });
+};
+
+export const encodeImage = async (image: RasterImage, format: OutputFormat, quality: number): Promise<Blob> => {
+    if (format === 'png') return encodePng(image);
+    if (format === 'png-quantized') return encodePng(image, qualityToPaletteSize(quality));
+    if (format === 'avif') return encodeAvif(image, nativeQuality(format, quality));
+    return getRasterBackend().encode(image, format, nativeQuality(format, quality));
+};
+
+export const compressImage = async (file: File, settings: CompressionSettings): Promise<Blob> => {
+    const { image } = await decodeSource(file, settings);
+    const { width, height } = outputDimensions(image, settings);
+    return encodeImage(await resizeRaster(image, width, height, settings.resampling), settings.outputFormat, settings.targetQuality);
+};
+
+// Encodes the image once per candidate format at the same perceived quality
+// and dimensions, smallest first. JPEG sits out when the image has transparency.
+export const encodeFormatCandidates = async (file: File, settings: CompressionSettings, hasTransparency: boolean, onProgress?: ProgressCallback): Promise<FormatCandidate[]> => {
+    const { image } = await decodeSource(file, settings);
+    const { width, height } = outputDimensions(image, settings);
+    const resized = await resizeRaster(image, width, height, settings.resampling);
+
+    const formats = CANDIDATE_FORMATS.filter(format => !hasTransparency || OUTPUT_FORMATS[format].supportsAlpha);
+    const candidates: FormatCandidate[] = [];
+    for (const format of formats) {
+        const blob = await encodeImage(resized, format, settings.targetQuality);
+        candidates.push({ format, size: blob.size });
+        onProgress?.(candidates.length / formats.length);
+    }
+    return candidates.sort((a, b) => a.size - b.size);
+};
+
+// --- Target Size Search ---
+const MIN_SEARCH_QUALITY = 5;
+const MAX_SEARCH_PASSES = 12;
+const MIN_SEARCH_EDGE = 16;
+// A result within this fraction of the budget is close enough to stop searching.
+const SEARCH_TOLERANCE = 0.95;
+
+// Starts from the AI's settings and re-encodes until the output fits `targetBytes`:
+// first a binary search over quality at the current dimensions, then, if even the
+// lowest quality is too big, a downscale sized from how far over budget we were.
+// Quality only ever goes down from the AI's: a file that already fits is not
+// grown to fill the budget.
+export const compressImageToTarget = async (file: File, settings: CompressionSettings, targetBytes?: number, onProgress?: ProgressCallback, decodeOptions?: DecodeOptions): Promise<ImageCompressionResult> => {
+    const { image, crop } = await decodeSource(file, settings, decodeOptions);
+    const format = settings.outputFormat;
+    const startQuality = Math.min(100, Math.max(MIN_SEARCH_QUALITY, Math.round(settings.targetQuality)));
+    let { width, height } = outputDimensions(image, settings);
+    let passes = 0;
+    let smallest: Omit<ImageCompressionResult, 'passes' | 'targetMet'> | undefined;
+
+    const encode = async (resized: RasterImage, quality: number) => {
+        passes++;
+        const blob = await encodeImage(resized, format, quality);
+        if (!smallest || blob.size < smallest.blob.size) smallest = { blob, quality, width, height };
+        // The pass budget is the only upper bound we know up front.
+        onProgress?.(targetBytes ? passes / MAX_SEARCH_PASSES : 1);
+        return blob;
+    };
+
+    if (!targetBytes) {
+        const blob = await encode(await resizeRaster(image, width, height, settings.resampling), startQuality);
+        return { blob, passes, quality: startQuality, width, height, targetMet: true, crop };
+    }
+
+    while (passes < MAX_SEARCH_PASSES) {
+        const resized = await resizeRaster(image, width, height, settings.resampling);
+        let fit: Omit<ImageCompressionResult, 'passes' | 'targetMet'> | undefined;
+        // Invariant: `low` fits the budget (or is below the search range), `high`
+        // doesn't (or is above the starting quality).
+        let low = MIN_SEARCH_QUALITY - 1;
+        let high = startQuality + 1;
+        let quality = startQuality;
+
+        while (high - low > 1 && passes < MAX_SEARCH_PASSES) {
+            const blob = await encode(resized, quality);
+            if (blob.size <= targetBytes) {
+                fit = { blob, quality, width, height };
+                low = quality;
+                if (blob.size >= targetBytes * SEARCH_TOLERANCE) break;
+            } else {
+                high = quality;
+            }
+            // Lossless PNG ignores quality, so one encode per size is all we need.
+            if (!OUTPUT_FORMATS[format].lossy) break;
+            quality = Math.floor((low + high) / 2);
+            if (quality < MIN_SEARCH_QUALITY) quality = MIN_SEARCH_QUALITY;
+            if (quality === low || quality === high) break;
+        }
+
+        if (fit) return { ...fit, passes, targetMet: true, crop };
+
+        const overshoot = targetBytes / smallest!.blob.size;
+        const scale = Math.min(0.9, Math.sqrt(overshoot) * SEARCH_TOLERANCE);
+        width = Math.round(width * scale);
+        height = Math.round(height * scale);
+        if (Math.min(width, height) < MIN_SEARCH_EDGE) break;
+    }
+
+    return { ...smallest!, passes, targetMet: false, crop };
+};
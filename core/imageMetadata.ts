@@ -0,0 +1,552 @@
+import { deflate, inflate } from 'pako';
+import type { OutputFormat } from './imageCodec';
+
+// Reads EXIF, XMP and ICC profiles from JPEG and PNG inputs, filters them by
+// policy and writes what's kept back into the encoded output. Canvas encoders
+// drop all of it, so without this every output would be bare pixels.
+
+// --- Types ---
+// 'strip-private' removes location and anything identifying the device or its
+// owner, and keeps the rest (capture settings, copyright, color profile).
+export type MetadataPolicy = 'strip-all' | 'strip-private' | 'keep-all';
+
+export const METADATA_POLICY_LABELS: Record<MetadataPolicy, string> = {
+    'strip-all': 'Strip all',
+    'strip-private': 'Strip GPS & device info',
+    'keep-all': 'Keep all',
+};
+
+interface ExifEntry {
+    tag: number;
+    type: number;
+    count: number;
+    // Raw value bytes, still in the source byte order.
+    value: Uint8Array;
+}
+
+interface ExifData {
+    littleEndian: boolean;
+    ifd0: ExifEntry[];
+    exif: ExifEntry[];
+    gps: ExifEntry[];
+    hasThumbnail: boolean;
+}
+
+export interface ImageMetadata {
+    exif?: ExifData;
+    xmp?: Uint8Array;
+    icc?: Uint8Array;
+    // Segments the canvas drops that we don't know how to carry over.
+    unsupported: string[];
+}
+
+export interface MetadataSummary {
+    policy: MetadataPolicy;
+    // The EXIF orientation that was applied to the pixels, when it wasn't 1.
+    orientation?: number;
+    removed: string[];
+    kept: string[];
+}
+
+// --- EXIF ---
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xA005;
+const TAG_MAKER_NOTE = 0x927C;
+
+// Bytes per value for each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Tags that describe the original pixels and would be wrong after re-encoding.
+const STALE_TAGS = new Set([0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0111, 0x0115, 0x0116, 0x0117, TAG_ORIENTATION, 0xA002, 0xA003, TAG_INTEROP_IFD]);
+
+// Make, model, software, artist and host computer in IFD0; owner, serials,
+// lens identity, unique ID and maker notes in the EXIF IFD.
+const DEVICE_TAGS = new Set([0x010F, 0x0110, 0x0131, 0x013B, 0x013C, 0xA420, 0xA430, 0xA431, 0xA433, 0xA434, 0xA435, TAG_MAKER_NOTE]);
+
+const parseExif = (tiff: Uint8Array): ExifData | undefined => {
+    if (tiff.length < 8) return undefined;
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = tiff[0] === 0x49;
+    if (view.getUint16(2, littleEndian) !== 42) return undefined;
+
+    const readIfd = (offset: number): { entries: ExifEntry[]; next: number } => {
+        const entries: ExifEntry[] = [];
+        if (offset <= 0 || offset + 2 > tiff.length) return { entries, next: 0 };
+        const count = view.getUint16(offset, littleEndian);
+        for (let i = 0; i < count; i++) {
+            const entryOffset = offset + 2 + i * 12;
+            if (entryOffset + 12 > tiff.length) break;
+            const tag = view.getUint16(entryOffset, littleEndian);
+            const type = view.getUint16(entryOffset + 2, littleEndian);
+            const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+            const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+            if (size === 0) continue;
+            const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+            if (valueOffset + size > tiff.length) continue;
+            entries.push({ tag, type, count: valueCount, value: tiff.slice(valueOffset, valueOffset + size) });
+        }
+        const nextOffset = offset + 2 + count * 12;
+        return { entries, next: nextOffset + 4 <= tiff.length ? view.getUint32(nextOffset, littleEndian) : 0 };
+    };
+
+    const pointer = (entries: ExifEntry[], tag: number) => {
+        const entry = entries.find(e => e.tag === tag);
+        return entry && entry.value.length === 4 ? new DataView(entry.value.buffer, entry.value.byteOffset, 4).getUint32(0, littleEndian) : 0;
+    };
+
+    const ifd0 = readIfd(view.getUint32(4, littleEndian));
+    const exif = readIfd(pointer(ifd0.entries, TAG_EXIF_IFD)).entries;
+    const gps = readIfd(pointer(ifd0.entries, TAG_GPS_IFD)).entries;
+    return {
+        littleEndian,
+        // Sub-IFD pointers are rebuilt when writing.
+        ifd0: ifd0.entries.filter(e => e.tag !== TAG_EXIF_IFD && e.tag !== TAG_GPS_IFD),
+        exif,
+        gps,
+        hasThumbnail: ifd0.next > 0,
+    };
+};
+
+const readOrientation = (exif?: ExifData): number | undefined => {
+    const entry = exif?.ifd0.find(e => e.tag === TAG_ORIENTATION);
+    if (!entry || entry.type !== 3) return undefined;
+    return new DataView(entry.value.buffer, entry.value.byteOffset, 2).getUint16(0, exif!.littleEndian);
+};
+
+// Writes IFD0 and the EXIF and GPS sub-IFDs in the original byte order, so
+// the raw values can be copied across untouched. No thumbnail IFD is written.
+const serializeExif = ({ littleEndian, ifd0, exif, gps }: ExifData): Uint8Array => {
+    const pointerEntry = (tag: number): ExifEntry => ({ tag, type: 4, count: 1, value: new Uint8Array(4) });
+    const ifds = [
+        [...ifd0, ...(exif.length ? [pointerEntry(TAG_EXIF_IFD)] : []), ...(gps.length ? [pointerEntry(TAG_GPS_IFD)] : [])],
+        exif,
+        gps,
+    ].map(entries => [...entries].sort((a, b) => a.tag - b.tag));
+    const padded = (size: number) => size + (size % 2);
+    const ifdSize = (entries: ExifEntry[]) => 2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.value.length > 4 ? padded(e.value.length) : 0), 0);
+
+    const offsets: number[] = [];
+    let total = 8;
+    ifds.forEach(entries => {
+        offsets.push(entries.length ? total : 0);
+        total += entries.length ? ifdSize(entries) : 0;
+    });
+
+    const bytes = new Uint8Array(total);
+    const view = new DataView(bytes.buffer);
+    bytes.set(littleEndian ? [0x49, 0x49] : [0x4D, 0x4D]);
+    view.setUint16(2, 42, littleEndian);
+    view.setUint32(4, offsets[0], littleEndian);
+
+    ifds.forEach((entries, index) => {
+        if (!entries.length) return;
+        const start = offsets[index];
+        let dataOffset = start + 2 + entries.length * 12 + 4;
+        view.setUint16(start, entries.length, littleEndian);
+        entries.forEach((entry, i) => {
+            const entryOffset = start + 2 + i * 12;
+            view.setUint16(entryOffset, entry.tag, littleEndian);
+            view.setUint16(entryOffset + 2, entry.type, littleEndian);
+            view.setUint32(entryOffset + 4, entry.count, littleEndian);
+            if (entry.tag === TAG_EXIF_IFD || entry.tag === TAG_GPS_IFD) {
+                view.setUint32(entryOffset + 8, offsets[entry.tag === TAG_EXIF_IFD ? 1 : 2], littleEndian);
+            } else if (entry.value.length <= 4) {
+                bytes.set(entry.value, entryOffset + 8);
+            } else {
+                view.setUint32(entryOffset + 8, dataOffset, littleEndian);
+                bytes.set(entry.value, dataOffset);
+                dataOffset += padded(entry.value.length);
+            }
+        });
+        // Next-IFD offset stays 0.
+    });
+    return bytes;
+};
+
+// --- ICC ---
+// The profile's human-readable name, from its 'desc' tag (v2 text or v4 mluc).
+const iccDescription = (icc: Uint8Array): string | undefined => {
+    if (icc.length < 132) return undefined;
+    const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount && 132 + (i + 1) * 12 <= icc.length; i++) {
+        const entry = 132 + i * 12;
+        if (view.getUint32(entry) !== 0x64657363) continue; // 'desc'
+        const offset = view.getUint32(entry + 4);
+        if (offset + 28 > icc.length) return undefined;
+        const type = view.getUint32(offset);
+        if (type === 0x64657363) {
+            const length = view.getUint32(offset + 8);
+            return new TextDecoder('latin1').decode(icc.subarray(offset + 12, Math.min(icc.length, offset + 12 + length))).replace(/\0+$/, '').trim() || undefined;
+        }
+        if (type === 0x6D6C7563) { // 'mluc'
+            const length = view.getUint32(offset + 20);
+            const start = offset + view.getUint32(offset + 24);
+            let text = '';
+            for (let c = start; c + 1 < Math.min(icc.length, start + length); c += 2) text += String.fromCharCode(view.getUint16(c));
+            return text.replace(/\0+$/, '').trim() || undefined;
+        }
+        return undefined;
+    }
+    return undefined;
+};
+
+// --- Reading ---
+const ASCII = new TextDecoder('latin1');
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => ASCII.decode(bytes.subarray(offset, offset + text.length)) === text;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => { out.set(part, offset); offset += part.length; });
+    return out;
+};
+
+const readJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const metadata: ImageMetadata = { unsupported: [] };
+    const iccChunks: Uint8Array[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+        const marker = bytes[offset + 1];
+        // Start of scan: no more metadata segments follow.
+        if (marker === 0xDA) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const payload = bytes.subarray(offset + 4, offset + 2 + length);
+        if (marker === 0xE1 && startsWith(payload, 0, EXIF_HEADER)) {
+            metadata.exif = parseExif(payload.slice(EXIF_HEADER.length));
+        } else if (marker === 0xE1 && startsWith(payload, 0, XMP_HEADER)) {
+            metadata.xmp = payload.slice(XMP_HEADER.length);
+        } else if (marker === 0xE2 && startsWith(payload, 0, ICC_HEADER)) {
+            iccChunks[payload[ICC_HEADER.length] - 1] = payload.slice(ICC_HEADER.length + 2);
+        } else if (marker === 0xED) {
+            metadata.unsupported.push('IPTC');
+        } else if (marker === 0xFE) {
+            metadata.unsupported.push('Comments');
+        }
+        offset += 2 + length;
+    }
+    if (iccChunks.length && iccChunks.every(Boolean)) metadata.icc = concat(iccChunks);
+    return metadata;
+};
+
+const readPngMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const metadata: ImageMetadata = { unsupported: [] };
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = ASCII.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IDAT' || type === 'IEND') break;
+        if (type === 'eXIf') {
+            metadata.exif = parseExif(data.slice());
+        } else if (type === 'iCCP') {
+            const nameEnd = data.indexOf(0);
+            try {
+                metadata.icc = inflate(data.subarray(nameEnd + 2));
+            } catch {
+                metadata.unsupported.push('ICC profile (corrupt)');
+            }
+        } else if (type === 'iTXt' && startsWith(data, 0, XMP_KEYWORD + '\0')) {
+            // keyword\0 compressed method lang\0 translated\0 text
+            let textStart = XMP_KEYWORD.length + 3;
+            textStart = data.indexOf(0, textStart) + 1;
+            textStart = data.indexOf(0, textStart) + 1;
+            metadata.xmp = data[XMP_KEYWORD.length + 1] ? inflate(data.subarray(textStart)) : data.slice(textStart);
+        } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+            if (!metadata.unsupported.includes('Text chunks')) metadata.unsupported.push('Text chunks');
+        }
+        offset += 12 + length;
+    }
+    return metadata;
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xFF && bytes[1] === 0xD8;
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+const isWebp = (bytes: Uint8Array) => startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP');
+
+const readMetadata = (bytes: Uint8Array): ImageMetadata => {
+    if (isJpeg(bytes)) return readJpegMetadata(bytes);
+    if (isPng(bytes)) return readPngMetadata(bytes);
+    return { unsupported: [] };
+};
+
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+    return readMetadata(new Uint8Array(await file.arrayBuffer()));
+};
+
+// The EXIF orientation, or 1 when there is none.
+export const readImageOrientation = async (file: Blob): Promise<number> => {
+    return readOrientation((await readImageMetadata(file)).exif) ?? 1;
+};
+
+// --- Dimensions ---
+interface ImageSize {
+    width: number;
+    height: number;
+}
+
+const readJpegSize = (bytes: Uint8Array): ImageSize | undefined => {
+    let offset = 2;
+    while (offset + 9 <= bytes.length && bytes[offset] === 0xFF) {
+        const marker = bytes[offset + 1];
+        // Any start-of-frame marker; C4, C8 and CC share the range but aren't frames.
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return { height: (bytes[offset + 5] << 8) | bytes[offset + 6], width: (bytes[offset + 7] << 8) | bytes[offset + 8] };
+        }
+        offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    }
+    return undefined;
+};
+
+// IHDR is always the first chunk.
+const readPngSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 24) return undefined;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+const readWebpSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 30) return undefined;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunk = ASCII.decode(bytes.subarray(12, 16));
+    if (chunk === 'VP8X') {
+        return { width: (view.getUint32(24, true) & 0xFFFFFF) + 1, height: (view.getUint32(26, true) >>> 8) + 1 };
+    }
+    if (chunk === 'VP8L' && bytes[20] === 0x2F) {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3FFF) + 1, height: ((bits >>> 14) & 0x3FFF) + 1 };
+    }
+    if (chunk === 'VP8 ') {
+        return { width: view.getUint16(26, true) & 0x3FFF, height: view.getUint16(28, true) & 0x3FFF };
+    }
+    return undefined;
+};
+
+// Reads the pixel size from the file header, as displayed: orientations that
+// turn the image sideways swap width and height. Undefined for formats we
+// don't parse.
+export const readImageSize = async (file: Blob): Promise<ImageSize | undefined> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let size: ImageSize | undefined;
+    if (isJpeg(bytes)) size = readJpegSize(bytes);
+    else if (isPng(bytes)) size = readPngSize(bytes);
+    else if (isWebp(bytes)) size = readWebpSize(bytes);
+    if (!size?.width || !size.height) return undefined;
+
+    const orientation = readOrientation(readMetadata(bytes).exif) ?? 1;
+    return orientation >= 5 && orientation <= 8 ? { width: size.height, height: size.width } : size;
+};
+
+// --- Policy ---
+// Output formats we can write metadata into. AVIF goes through a WASM encoder
+// whose container we don't rewrite.
+export const supportsMetadata = (format: OutputFormat) => format !== 'avif';
+
+const fieldCount = (count: number) => `${count} ${count === 1 ? 'field' : 'fields'}`;
+
+// Splits the metadata into what the policy keeps and a summary of the rest.
+export const applyMetadataPolicy = (metadata: ImageMetadata, policy: MetadataPolicy, format: OutputFormat): { kept: ImageMetadata; summary: MetadataSummary } => {
+    const { exif, xmp, icc } = metadata;
+    const orientation = readOrientation(exif);
+    const summary: MetadataSummary = { policy, orientation: orientation && orientation !== 1 ? orientation : undefined, removed: [], kept: [] };
+    const kept: ImageMetadata = { unsupported: [] };
+    const iccName = icc ? `ICC profile${iccDescription(icc) ? ` (${iccDescription(icc)})` : ''}` : '';
+    const exifCount = exif ? exif.ifd0.length + exif.exif.length + exif.gps.length : 0;
+
+    if (policy === 'strip-all' || !supportsMetadata(format)) {
+        if (exifCount) summary.removed.push(`EXIF (${fieldCount(exifCount)})`);
+        if (xmp) summary.removed.push('XMP');
+        if (icc) summary.removed.push(iccName);
+        summary.removed.push(...metadata.unsupported);
+        if (policy !== 'strip-all' && summary.removed.length) summary.removed.push(`${format.toUpperCase()} output can't carry metadata`);
+        return { kept, summary };
+    }
+
+    if (exif) {
+        const isKept = (entry: ExifEntry) => !STALE_TAGS.has(entry.tag) && (policy === 'keep-all' || !DEVICE_TAGS.has(entry.tag));
+        const filtered: ExifData = {
+            ...exif,
+            ifd0: exif.ifd0.filter(isKept),
+            exif: exif.exif.filter(isKept),
+            gps: policy === 'keep-all' ? exif.gps : [],
+            hasThumbnail: false,
+        };
+        if (policy === 'strip-private') {
+            if (exif.gps.length) summary.removed.push('GPS location');
+            if ([...exif.ifd0, ...exif.exif].some(entry => DEVICE_TAGS.has(entry.tag))) summary.removed.push('Device & owner identifiers');
+        }
+        if (exif.hasThumbnail) summary.removed.push('Embedded thumbnail');
+        const keptCount = filtered.ifd0.length + filtered.exif.length + filtered.gps.length;
+        if (keptCount) {
+            kept.exif = filtered;
+            summary.kept.push(`EXIF (${fieldCount(keptCount)})`);
+        }
+    }
+    // XMP often repeats location and device fields in free-form XML, so only
+    // "keep all" carries it over.
+    if (xmp && policy === 'keep-all') {
+        kept.xmp = xmp;
+        summary.kept.push('XMP');
+    } else if (xmp) {
+        summary.removed.push('XMP');
+    }
+    if (icc) {
+        kept.icc = icc;
+        summary.kept.push(iccName);
+    }
+    summary.removed.push(...metadata.unsupported);
+    return { kept, summary };
+};
+
+// Roughly how many bytes embedding `metadata` adds, so the size search can leave room for it.
+export const metadataOverhead = ({ exif, xmp, icc }: ImageMetadata): number => {
+    return (exif ? serializeExif(exif).length + 32 : 0) + (xmp ? xmp.length + 64 : 0) + (icc ? icc.length + 64 : 0);
+};
+
+// --- Writing ---
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+    const segment = new Uint8Array(payload.length + 4);
+    segment.set([0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+    segment.set(payload, 4);
+    return segment;
+};
+
+// JPEG segments top out at 64 KB, so ICC profiles are split into numbered chunks.
+const MAX_JPEG_SEGMENT = 65533;
+const MAX_ICC_CHUNK = MAX_JPEG_SEGMENT - ICC_HEADER.length - 2;
+
+const embedInJpeg = (bytes: Uint8Array, { exif, xmp, icc }: ImageMetadata): Uint8Array => {
+    const segments: Uint8Array[] = [];
+    if (exif) {
+        const payload = concat([ascii(EXIF_HEADER), serializeExif(exif)]);
+        if (payload.length <= MAX_JPEG_SEGMENT) segments.push(jpegSegment(0xE1, payload));
+    }
+    if (xmp && xmp.length + XMP_HEADER.length <= MAX_JPEG_SEGMENT) {
+        segments.push(jpegSegment(0xE1, concat([ascii(XMP_HEADER), xmp])));
+    }
+    if (icc) {
+        const count = Math.ceil(icc.length / MAX_ICC_CHUNK);
+        for (let i = 0; i < count; i++) {
+            segments.push(jpegSegment(0xE2, concat([ascii(ICC_HEADER), new Uint8Array([i + 1, count]), icc.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK)])));
+        }
+    }
+    // Keep the encoder's JFIF APP0 first, as most readers expect.
+    let insertAt = 2;
+    if (bytes[2] === 0xFF && bytes[3] === 0xE0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(data.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(ascii(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+    return chunk;
+};
+
+const embedInPng = (bytes: Uint8Array, { exif, xmp, icc }: ImageMetadata): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    if (icc) chunks.push(pngChunk('iCCP', concat([ascii('ICC profile\0\0'), deflate(icc)])));
+    if (exif) chunks.push(pngChunk('eXIf', serializeExif(exif)));
+    if (xmp) chunks.push(pngChunk('iTXt', concat([ascii(`${XMP_KEYWORD}\0\0\0\0\0`), xmp])));
+    // Straight after IHDR, which is always the first chunk.
+    const insertAt = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+    return concat([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)]);
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(ascii(fourcc));
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+// Simple WebP files are a single VP8/VP8L chunk; metadata needs the extended
+// (VP8X) layout, whose header carries the canvas size and feature flags.
+const embedInWebp = (bytes: Uint8Array, { exif, xmp, icc }: ImageMetadata): Uint8Array => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { fourcc: string; data: Uint8Array }[] = [];
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ fourcc: ASCII.decode(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+
+    let width = 0, height = 0, hasAlpha = chunks.some(c => c.fourcc === 'ALPH');
+    const existing = chunks.find(c => c.fourcc === 'VP8X');
+    const image = chunks.find(c => c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+    if (existing) {
+        width = (existing.data[4] | (existing.data[5] << 8) | (existing.data[6] << 16)) + 1;
+        height = (existing.data[7] | (existing.data[8] << 8) | (existing.data[9] << 16)) + 1;
+        hasAlpha = hasAlpha || !!(existing.data[0] & 0x10);
+    } else if (image?.fourcc === 'VP8 ') {
+        const frame = new DataView(image.data.buffer, image.data.byteOffset + 6, 4);
+        width = frame.getUint16(0, true) & 0x3FFF;
+        height = frame.getUint16(2, true) & 0x3FFF;
+    } else if (image?.fourcc === 'VP8L') {
+        const bits = new DataView(image.data.buffer, image.data.byteOffset + 1, 4).getUint32(0, true);
+        width = (bits & 0x3FFF) + 1;
+        height = ((bits >> 14) & 0x3FFF) + 1;
+        hasAlpha = !!((bits >> 28) & 1);
+    }
+    if (!width || !height) return bytes;
+
+    const header = new Uint8Array(10);
+    header[0] = (icc ? 0x20 : 0) | (hasAlpha ? 0x10 : 0) | (exif ? 0x08 : 0) | (xmp ? 0x04 : 0);
+    header.set([(width - 1) & 0xFF, ((width - 1) >> 8) & 0xFF, (width - 1) >> 16, (height - 1) & 0xFF, ((height - 1) >> 8) & 0xFF, (height - 1) >> 16], 4);
+
+    const body = concat([
+        riffChunk('VP8X', header),
+        ...(icc ? [riffChunk('ICCP', icc)] : []),
+        ...chunks.filter(c => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(c.fourcc)).map(c => riffChunk(c.fourcc, c.data)),
+        ...(exif ? [riffChunk('EXIF', serializeExif(exif))] : []),
+        ...(xmp ? [riffChunk('XMP ', xmp)] : []),
+    ]);
+    const riff = new Uint8Array(12 + body.length);
+    riff.set(ascii('RIFF'));
+    new DataView(riff.buffer).setUint32(4, 4 + body.length, true);
+    riff.set(ascii('WEBP'), 8);
+    riff.set(body, 12);
+    return riff;
+};
+
+export const embedMetadata = async (blob: Blob, format: OutputFormat, metadata: ImageMetadata): Promise<Blob> => {
+    if (!metadata.exif && !metadata.xmp && !metadata.icc) return blob;
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let output: Uint8Array;
+    if (format === 'jpeg') output = embedInJpeg(bytes, metadata);
+    else if (format === 'png' || format === 'png-quantized') output = embedInPng(bytes, metadata);
+    else if (format === 'webp') output = embedInWebp(bytes, metadata);
+    else return blob;
+    return new Blob([output as BlobPart], { type: blob.type });
+};
@@ -0,0 +1,128 @@
+import UPNG from 'upng-js';
+import { decodeImage } from './imageCodec';
+import { resizeRaster, cropRaster, CropRect, RasterImage } from './raster';
+
+// Objective quality metrics between an original image and its compressed
+// output. Works on raw pixels, so it runs in the workers and in Node.
+
+export interface QualityMetrics {
+    // Peak signal-to-noise ratio in dB over RGB; Infinity when identical.
+    psnr: number;
+    // Mean structural similarity of the luma channel, from 0 to 1.
+    ssim: number;
+    // The resolution both images were compared at.
+    width: number;
+    height: number;
+    // Per-pixel difference, rendered as a PNG heatmap.
+    heatmap: Blob;
+}
+
+// Bigger outputs are compared at this long edge to keep the worker quick.
+const MAX_METRICS_EDGE = 2048;
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// Differences are small in practice, so they're boosted to make the heatmap readable.
+const HEATMAP_GAIN = 4;
+
+const readPixels = async (image: RasterImage, width: number, height: number): Promise<Uint8ClampedArray> => {
+    return (await resizeRaster(image, width, height)).data;
+};
+
+// Composites onto white so transparent pixels compare by what's actually shown.
+const flattenToRgb = (rgba: Uint8ClampedArray): Float32Array => {
+    const rgb = new Float32Array((rgba.length / 4) * 3);
+    for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+        const alpha = rgba[i + 3] / 255;
+        rgb[j] = rgba[i] * alpha + 255 * (1 - alpha);
+        rgb[j + 1] = rgba[i + 1] * alpha + 255 * (1 - alpha);
+        rgb[j + 2] = rgba[i + 2] * alpha + 255 * (1 - alpha);
+    }
+    return rgb;
+};
+
+const toLuma = (rgb: Float32Array): Float32Array => {
+    const luma = new Float32Array(rgb.length / 3);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+    }
+    return luma;
+};
+
+const computePsnr = (a: Float32Array, b: Float32Array): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        const d = a[i] - b[i];
+        sum += d * d;
+    }
+    const mse = sum / a.length;
+    return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+// SSIM averaged over overlapping square windows. Images smaller than one
+// window are treated as a single window.
+const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+    const windowWidth = Math.min(SSIM_WINDOW, width);
+    const windowHeight = Math.min(SSIM_WINDOW, height);
+    const n = windowWidth * windowHeight;
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + windowHeight <= height; y += SSIM_STRIDE) {
+        for (let x = 0; x + windowWidth <= width; x += SSIM_STRIDE) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let wy = 0; wy < windowHeight; wy++) {
+                let i = (y + wy) * width + x;
+                for (let wx = 0; wx < windowWidth; wx++, i++) {
+                    const va = a[i], vb = b[i];
+                    sumA += va; sumB += vb;
+                    sumAA += va * va; sumBB += vb * vb; sumAB += va * vb;
+                }
+            }
+            const meanA = sumA / n, meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+            total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+                ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+            windows++;
+        }
+    }
+    return windows > 0 ? total / windows : 1;
+};
+
+// Black where the pixels match, through red to yellow as they drift apart.
+const renderHeatmap = (a: Float32Array, b: Float32Array, width: number, height: number): Blob => {
+    const heatmap = new Uint8Array(width * height * 4);
+    for (let p = 0; p < width * height; p++) {
+        const diff = (Math.abs(a[p * 3] - b[p * 3]) + Math.abs(a[p * 3 + 1] - b[p * 3 + 1]) + Math.abs(a[p * 3 + 2] - b[p * 3 + 2])) / 3;
+        const level = Math.min(1, (diff * HEATMAP_GAIN) / 255);
+        heatmap[p * 4] = Math.round(Math.min(1, level * 2) * 255);
+        heatmap[p * 4 + 1] = Math.round(Math.max(0, level * 2 - 1) * 255);
+        heatmap[p * 4 + 2] = 0;
+        heatmap[p * 4 + 3] = 255;
+    }
+    return new Blob([UPNG.encode([heatmap.buffer], width, height, 0)], { type: 'image/png' });
+};
+
+// The original is resampled to the output's dimensions first, so a resized
+// output is judged against what the same downscale would look like losslessly.
+// `crop` is the region of the original that was encoded, if it was cropped.
+export const compareImages = async (original: Blob, compressed: Blob, crop?: CropRect): Promise<QualityMetrics> => {
+    const [decoded, compressedImage] = await Promise.all([decodeImage(original), decodeImage(compressed)]);
+    const originalImage = crop ? cropRaster(decoded, crop) : decoded;
+    const scale = Math.min(1, MAX_METRICS_EDGE / Math.max(compressedImage.width, compressedImage.height));
+    const width = Math.max(1, Math.round(compressedImage.width * scale));
+    const height = Math.max(1, Math.round(compressedImage.height * scale));
+
+    const a = flattenToRgb(await readPixels(originalImage, width, height));
+    const b = flattenToRgb(await readPixels(compressedImage, width, height));
+    return {
+        psnr: computePsnr(a, b),
+        ssim: computeSsim(toLuma(a), toLuma(b), width, height),
+        width,
+        height,
+        heatmap: renderHeatmap(a, b, width, height),
+    };
+};
@@ -0,0 +1,26 @@
+// The headless compression library: no DOM, no React. Set a raster backend
+// (browserBackend here, or a Node one) before compressing.
+export * from './raster';
+export * from './browserBackend';
+export * from './inputFormats';
+export * from './hash';
+export * from './imageCodec';
+export * from './decoders';
+export * from './animation';
+export * from './imageMetadata';
+export * from './imageMetrics';
+export * from './pdf';
+export * from './pdfPages';
+export * from './svg';
+export * from './responsive';
+export * from './batchReport';
+export * from './content';
+export * from './ai';
+export * from './aiResponse';
+export * from './aiCache';
+export * from './aiUsage';
+export * from './serverApi';
+export * from './encode';
+export * from './compress';
+export * from './locale';
+export * from './format';
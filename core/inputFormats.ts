@@ -0,0 +1,77 @@
+// The file types Whilo takes in, recognised by their first bytes. Browsers
+// and operating systems often leave the MIME type empty or wrong for HEIC
+// and TIFF, so the name's extension is only the last resort.
+
+export type InputFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'heic' | 'svg' | 'pdf';
+
+export const INPUT_FORMATS: Record<InputFormat, { label: string; mimeType: string; extensions: string[] }> = {
+    'jpeg': { label: 'JPG', mimeType: 'image/jpeg', extensions: ['jpg', 'jpeg'] },
+    'png': { label: 'PNG', mimeType: 'image/png', extensions: ['png'] },
+    'webp': { label: 'WebP', mimeType: 'image/webp', extensions: ['webp'] },
+    'gif': { label: 'GIF', mimeType: 'image/gif', extensions: ['gif'] },
+    'bmp': { label: 'BMP', mimeType: 'image/bmp', extensions: ['bmp'] },
+    'tiff': { label: 'TIFF', mimeType: 'image/tiff', extensions: ['tif', 'tiff'] },
+    'heic': { label: 'HEIC', mimeType: 'image/heic', extensions: ['heic', 'heif'] },
+    'svg': { label: 'SVG', mimeType: 'image/svg+xml', extensions: ['svg'] },
+    'pdf': { label: 'PDF', mimeType: 'application/pdf', extensions: ['pdf'] },
+};
+export const INPUT_FORMAT_NAMES = Object.keys(INPUT_FORMATS) as InputFormat[];
+
+// For a file input's `accept`: MIME types plus extensions, since HEIC often
+// has no MIME type the picker recognises.
+export const INPUT_ACCEPT = INPUT_FORMAT_NAMES
+    .flatMap(format => [INPUT_FORMATS[format].mimeType, ...INPUT_FORMATS[format].extensions.map(extension => `.${extension}`)])
+    .join(',');
+
+// "JPG, PNG, WebP, … or PDF", for error messages.
+export const INPUT_FORMAT_LIST = `${INPUT_FORMAT_NAMES.slice(0, -1).map(format => INPUT_FORMATS[format].label).join(', ')} or ${INPUT_FORMATS.pdf.label}`;
+
+// ISO-BMFF brands of HEIF stills and sequences.
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+const ASCII = new TextDecoder('latin1');
+
+export const sniffInputFormat = (bytes: Uint8Array): InputFormat | undefined => {
+    const text = (start: number, end: number) => ASCII.decode(bytes.subarray(start, end));
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpeg';
+    if (bytes[0] === 0x89 && text(1, 4) === 'PNG') return 'png';
+    if (text(0, 4) === 'RIFF' && text(8, 12) === 'WEBP') return 'webp';
+    if (text(0, 4) === 'GIF8') return 'gif';
+    if (text(0, 2) === 'BM') return 'bmp';
+    if (text(0, 4) === 'II*\0' || text(0, 4) === 'MM\0*') return 'tiff';
+    if (text(4, 8) === 'ftyp' && HEIF_BRANDS.has(text(8, 12))) return 'heic';
+    if (text(0, 5) === '%PDF-') return 'pdf';
+    // SVG is text: an optional XML prolog, comments or doctype, then <svg.
+    if (/^(\uFEFF)?\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(new TextDecoder().decode(bytes))) return 'svg';
+    return undefined;
+};
+
+const fromExtension = (name: string): InputFormat | undefined => {
+    const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+    return INPUT_FORMAT_NAMES.find(format => INPUT_FORMATS[format].extensions.includes(extension));
+};
+
+// Long XML prologs and comments can push an SVG's root element a way in.
+const SNIFF_BYTES = 1024;
+
+export const detectInputFormat = async (file: Blob & { name?: string }): Promise<InputFormat | undefined> => {
+    const format = sniffInputFormat(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+    return format ?? (file.name ? fromExtension(file.name) : undefined);
+};
+
+// The same file with the MIME type its contents call for, or undefined when
+// it's a type Whilo can't take.
+export const normalizeInputFile = async (file: File): Promise<File | undefined> => {
+    const format = await detectInputFormat(file);
+    if (!format) return undefined;
+    const { mimeType } = INPUT_FORMATS[format];
+    return file.type === mimeType ? file : new File([file], file.name, { type: mimeType, lastModified: file.lastModified });
+};
+
+// SVG goes through the vector optimizer; everything else that isn't a PDF
+// is decoded to pixels.
+export const isVectorImage = (file: Blob) => file.type === INPUT_FORMATS.svg.mimeType;
+export const isRasterImage = (file: Blob) => file.type.startsWith('image/') && !isVectorImage(file);
+
+// Whether an <img> can show the file as it is. Only Safari renders HEIC and
+// TIFF, so they always get a converted copy.
+export const displaysNatively = (file: Blob) => file.type !== INPUT_FORMATS.heic.mimeType && file.type !== INPUT_FORMATS.tiff.mimeType;
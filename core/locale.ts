@@ -0,0 +1,43 @@
+// The languages the app speaks. The UI's own messages live with the app;
+// the core only needs to know the language to format numbers in and to ask
+// the AI to answer in.
+
+export type Locale = 'en' | 'hi' | 'mr' | 'es';
+
+export const LOCALES: Record<Locale, { nativeName: string; englishName: string }> = {
+    en: { nativeName: 'English', englishName: 'English' },
+    hi: { nativeName: 'हिन्दी', englishName: 'Hindi' },
+    mr: { nativeName: 'मराठी', englishName: 'Marathi' },
+    es: { nativeName: 'Español', englishName: 'Spanish' },
+};
+
+export const LOCALE_NAMES = Object.keys(LOCALES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// The first of the user's preferred languages we have, by primary subtag:
+// "es-MX" gets Spanish. English when none match.
+export const matchLocale = (tags: readonly (string | undefined)[]): Locale => {
+    for (const tag of tags) {
+        const language = tag?.split(/[-_.]/)[0].toLowerCase();
+        if (isLocale(language)) return language;
+    }
+    return DEFAULT_LOCALE;
+};
+
+// What formatBytes and formatNumber use when not told otherwise.
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export const setLocale = (locale: Locale) => {
+    currentLocale = locale;
+};
+
+export const getLocale = (): Locale => currentLocale;
+
+// Appended to a prompt so the free text comes back in the user's language
+// while the JSON the app parses stays as it is.
+export const languageInstruction = (language?: Locale): string => !language || language === 'en'
+    ? ''
+    : ` Write all free text (reasons, recommendations, reports) in ${LOCALES[language].englishName}. Keep JSON keys and enum values exactly as given.`;
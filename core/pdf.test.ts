@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { optimizePdf } from '.';
+
+describe('optimizePdf', () => {
+    it('hands back the original, with nothing claimed, when the rewrite is no smaller', async () => {
+        const doc = await PDFDocument.create();
+        doc.addPage([200, 200]);
+        const original = await doc.save({ useObjectStreams: true });
+
+        const { bytes, stats } = await optimizePdf(new Blob([original as BlobPart]), { mode: 'lossy', color: 'grayscale' });
+        expect(bytes).toEqual(original);
+        expect(stats).toEqual({ removedObjects: 0, deduplicatedObjects: 0, deflatedStreams: 0, resampledImages: 0, recoloredImages: 0, unchanged: true });
+    });
+});
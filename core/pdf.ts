@@ -0,0 +1,430 @@
+import { PDFDocument, PDFName, PDFDict, PDFArray, PDFRef, PDFRawStream, PDFStream, PDFNumber, PDFBool, PDFObject, PDFContext, EncryptedPDFError } from 'pdf-lib';
+import { deflate, inflate } from 'pako';
+import { getRasterBackend, resizeRaster, RasterImage } from './raster';
+
+// Lossless clean-up of PDF internals plus, in lossy mode, downsampling of the
+// embedded images to what their pages can show.
+
+export type PdfCompressionMode = 'lossless' | 'lossy';
+// Grayscale and bilevel convert the embedded images; text and vector art keep their colours.
+export type PdfColorMode = 'color' | 'grayscale' | 'bilevel';
+
+export const PDF_COLOR_MODES: Record<PdfColorMode, string> = {
+    color: 'Colour',
+    grayscale: 'Grayscale',
+    bilevel: 'Black & white',
+};
+
+const PDF_IMAGE_DPI = 150;
+const PDF_IMAGE_QUALITY = 75;
+
+export interface PdfOptimizeOptions {
+    mode: PdfCompressionMode;
+    imageDpi?: number;
+    imageQuality?: number;
+    color?: PdfColorMode;
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void;
+}
+
+export interface PdfOptimizeStats {
+    removedObjects: number;
+    deduplicatedObjects: number;
+    deflatedStreams: number;
+    // Images downsampled to the lossy mode's DPI.
+    resampledImages: number;
+    // Images converted to grayscale or black and white.
+    recoloredImages: number;
+    color?: PdfColorMode;
+    // Set when the rewrite wasn't smaller and the original bytes came back;
+    // the counts are then all zero, since none of it is in the file.
+    unchanged?: boolean;
+}
+
+const sha256Hex = async (data: Uint8Array | string): Promise<string> => {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const collectPdfRefs = (obj: PDFObject | undefined, out: PDFRef[]) => {
+    if (obj instanceof PDFRef) {
+        out.push(obj);
+    } else if (obj instanceof PDFDict) {
+        obj.values().forEach(value => collectPdfRefs(value, out));
+    } else if (obj instanceof PDFArray) {
+        obj.asArray().forEach(value => collectPdfRefs(value, out));
+    } else if (obj instanceof PDFStream) {
+        collectPdfRefs(obj.dict, out);
+    }
+};
+
+const replacePdfRefs = (obj: PDFObject | undefined, replacements: Map<PDFRef, PDFRef>) => {
+    if (obj instanceof PDFDict) {
+        obj.entries().forEach(([key, value]) => {
+            const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+            if (replacement) obj.set(key, replacement);
+            else replacePdfRefs(value, replacements);
+        });
+    } else if (obj instanceof PDFArray) {
+        for (let i = 0; i < obj.size(); i++) {
+            const value = obj.get(i);
+            const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+            if (replacement) obj.set(i, replacement);
+            else replacePdfRefs(value, replacements);
+        }
+    } else if (obj instanceof PDFStream) {
+        replacePdfRefs(obj.dict, replacements);
+    }
+};
+
+// Drops every indirect object that can no longer be reached from the trailer
+// (orphaned revisions, old object/xref streams, linearization hints...).
+const removeUnusedPdfObjects = (context: PDFContext): number => {
+    const reachable = new Set<PDFRef>();
+    const queue: PDFRef[] = [];
+    Object.values(context.trailerInfo).forEach(value => collectPdfRefs(value, queue));
+
+    while (queue.length > 0) {
+        const ref = queue.pop()!;
+        if (reachable.has(ref)) continue;
+        reachable.add(ref);
+        collectPdfRefs(context.lookup(ref), queue);
+    }
+
+    let removed = 0;
+    context.enumerateIndirectObjects().forEach(([ref]) => {
+        if (!reachable.has(ref)) {
+            context.delete(ref);
+            removed++;
+        }
+    });
+    return removed;
+};
+
+const pdfDedupeKey = async (obj: PDFObject): Promise<string | undefined> => {
+    if (obj instanceof PDFRawStream) {
+        const type = obj.dict.get(PDFName.of('Type'));
+        if (type === PDFName.of('XRef') || type === PDFName.of('ObjStm')) return undefined;
+        return `stream:${obj.dict.toString()}:${await sha256Hex(obj.contents)}`;
+    }
+    if (obj instanceof PDFDict) {
+        const type = obj.get(PDFName.of('Type'));
+        if (type === PDFName.of('Font') || type === PDFName.of('FontDescriptor')) {
+            return `dict:${await sha256Hex(obj.toString())}`;
+        }
+    }
+    return undefined;
+};
+
+// Merges byte-identical streams (embedded images, font programs) and identical
+// font dictionaries. Runs until nothing changes, because merging font files
+// can make their descriptors and fonts identical in turn.
+const deduplicatePdfObjects = async (context: PDFContext): Promise<number> => {
+    let total = 0;
+    for (let pass = 0; pass < 4; pass++) {
+        const canonical = new Map<string, PDFRef>();
+        const replacements = new Map<PDFRef, PDFRef>();
+
+        for (const [ref, obj] of context.enumerateIndirectObjects()) {
+            const key = await pdfDedupeKey(obj);
+            if (!key) continue;
+            const existing = canonical.get(key);
+            if (existing) replacements.set(ref, existing);
+            else canonical.set(key, ref);
+        }
+
+        if (replacements.size === 0) break;
+        context.enumerateIndirectObjects().forEach(([, obj]) => replacePdfRefs(obj, replacements));
+        replacements.forEach((_, ref) => context.delete(ref));
+        total += replacements.size;
+    }
+    return total;
+};
+
+const deflateUncompressedPdfStreams = (context: PDFContext): number => {
+    let deflated = 0;
+    context.enumerateIndirectObjects().forEach(([ref, obj]) => {
+        if (!(obj instanceof PDFRawStream) || obj.dict.has(PDFName.of('Filter'))) return;
+        const type = obj.dict.get(PDFName.of('Type'));
+        if (type === PDFName.of('XRef') || type === PDFName.of('ObjStm') || type === PDFName.of('Metadata')) return;
+
+        const contents = deflate(obj.contents, { level: 9 });
+        if (contents.length >= obj.contents.length) return;
+
+        const dict = obj.dict.clone(context);
+        dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+        context.assign(ref, PDFRawStream.of(dict, contents));
+        deflated++;
+    });
+    return deflated;
+};
+
+// Maps every image XObject to the long edge (in points) of the largest page it
+// is drawn on. An image can't be shown larger than its page, so that edge at the
+// target DPI is the most pixels it will ever need.
+const collectPdfImagePlacements = (doc: PDFDocument): Map<PDFRef, number> => {
+    const placements = new Map<PDFRef, number>();
+
+    const visit = (resources: PDFDict | undefined, edge: number, seen: Set<PDFRef>) => {
+        const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        if (!xObjects) return;
+        xObjects.values().forEach(value => {
+            if (!(value instanceof PDFRef) || seen.has(value)) return;
+            const xObject = doc.context.lookup(value);
+            if (!(xObject instanceof PDFRawStream)) return;
+            const subtype = xObject.dict.get(PDFName.of('Subtype'));
+            if (subtype === PDFName.of('Image')) {
+                placements.set(value, Math.max(placements.get(value) ?? 0, edge));
+            } else if (subtype === PDFName.of('Form')) {
+                seen.add(value);
+                visit(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), edge, seen);
+            }
+        });
+    };
+
+    doc.getPages().forEach(page => {
+        const { width, height } = page.getSize();
+        visit(page.node.Resources(), Math.max(width, height), new Set());
+    });
+    return placements;
+};
+
+const pdfColorComponents = (context: PDFContext, colorSpace: PDFObject | undefined): number | undefined => {
+    const resolved = context.lookup(colorSpace);
+    if (resolved === PDFName.of('DeviceGray') || resolved === PDFName.of('CalGray')) return 1;
+    if (resolved === PDFName.of('DeviceRGB') || resolved === PDFName.of('CalRGB')) return 3;
+    if (resolved instanceof PDFArray && resolved.lookup(0) === PDFName.of('ICCBased')) {
+        const profile = resolved.lookup(1);
+        const n = profile instanceof PDFStream ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber) : undefined;
+        return n?.asNumber();
+    }
+    return undefined;
+};
+
+// Reverses the TIFF (2) and PNG (10-15) predictors for 8-bit samples.
+const unpredictPdfSamples = (data: Uint8Array, params: PDFDict | undefined, width: number, height: number, components: number): Uint8Array | undefined => {
+    const predictor = params?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1;
+    const rowLength = width * components;
+
+    if (predictor === 1) return data;
+    if (predictor === 2) {
+        const out = data.slice(0, rowLength * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = components; x < rowLength; x++) {
+                out[y * rowLength + x] = (out[y * rowLength + x] + out[y * rowLength + x - components]) & 0xff;
+            }
+        }
+        return out;
+    }
+    if (predictor < 10) return undefined;
+
+    const out = new Uint8Array(rowLength * height);
+    for (let y = 0; y < height; y++) {
+        const filter = data[y * (rowLength + 1)];
+        const src = y * (rowLength + 1) + 1;
+        const dst = y * rowLength;
+        for (let x = 0; x < rowLength; x++) {
+            const raw = data[src + x];
+            const left = x >= components ? out[dst + x - components] : 0;
+            const up = y > 0 ? out[dst - rowLength + x] : 0;
+            const upLeft = y > 0 && x >= components ? out[dst - rowLength + x - components] : 0;
+            let value: number;
+            switch (filter) {
+                case 0: value = raw; break;
+                case 1: value = raw + left; break;
+                case 2: value = raw + up; break;
+                case 3: value = raw + ((left + up) >> 1); break;
+                case 4: {
+                    const p = left + up - upLeft;
+                    const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+                    value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+                    break;
+                }
+                default: return undefined;
+            }
+            out[dst + x] = value & 0xff;
+        }
+    }
+    return out;
+};
+
+// Decodes the image XObjects we know how to re-encode faithfully: baseline
+// JPEGs and 8-bit Flate images in gray or RGB. Masks, decode arrays, CMYK,
+// indexed and JBIG2/JPX images are left untouched.
+const decodePdfImage = async (context: PDFContext, stream: PDFRawStream): Promise<{ image: RasterImage; components: number } | undefined> => {
+    const { dict } = stream;
+    if (dict.get(PDFName.of('ImageMask')) === PDFBool.True || dict.has(PDFName.of('Decode'))) return undefined;
+    if (dict.lookup(PDFName.of('Mask')) instanceof PDFArray) return undefined;
+
+    const components = pdfColorComponents(context, dict.get(PDFName.of('ColorSpace')));
+    if (components !== 1 && components !== 3) return undefined;
+
+    const filters = dict.lookup(PDFName.of('Filter'));
+    const filter = filters instanceof PDFArray && filters.size() === 1 ? filters.lookup(0) : filters;
+    const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+    const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+    if (width <= 0 || height <= 0) return undefined;
+
+    if (filter === PDFName.of('DCTDecode')) {
+        const image = await getRasterBackend().decode(new Blob([stream.contents], { type: 'image/jpeg' }));
+        return { image, components };
+    }
+
+    const bitsPerComponent = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+    if (filter !== PDFName.of('FlateDecode') || bitsPerComponent !== 8) return undefined;
+
+    const rawParams = dict.lookup(PDFName.of('DecodeParms'));
+    const params = rawParams instanceof PDFArray ? rawParams.lookupMaybe(0, PDFDict) : rawParams instanceof PDFDict ? rawParams : undefined;
+    const samples = unpredictPdfSamples(inflate(stream.contents), params, width, height, components);
+    if (!samples || samples.length < width * height * components) return undefined;
+
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0, p = 0; i < width * height; i++, p += components) {
+        rgba[i * 4] = samples[p];
+        rgba[i * 4 + 1] = samples[components === 3 ? p + 1 : p];
+        rgba[i * 4 + 2] = samples[components === 3 ? p + 2 : p];
+        rgba[i * 4 + 3] = 255;
+    }
+    return { image: { width, height, data: rgba }, components };
+};
+
+const luminance = (image: RasterImage): Uint8Array => {
+    const { width, height, data } = image;
+    const gray = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+        gray[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8;
+    }
+    return gray;
+};
+
+// One bit per pixel, rows padded to whole bytes, 1 for white as DeviceGray reads it.
+const packBilevel = (gray: Uint8Array, width: number, height: number): Uint8Array => {
+    const rowBytes = Math.ceil(width / 8);
+    const packed = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] >= 128) packed[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    }
+    return packed;
+};
+
+interface EncodedPdfImage {
+    contents: Uint8Array;
+    filter: 'DCTDecode' | 'FlateDecode';
+    colorSpace: 'DeviceGray' | 'DeviceRGB';
+    bitsPerComponent: number;
+}
+
+// JPEG for colour; for grayscale the smaller of a gray Flate image and, when
+// lossy, a JPEG; bilevel is always a 1-bit Flate image.
+const encodePdfImage = async (image: RasterImage, color: PdfColorMode, lossy: boolean, quality: number): Promise<EncodedPdfImage> => {
+    const jpeg = async (): Promise<EncodedPdfImage> => {
+        const blob = await getRasterBackend().encode(image, 'jpeg', quality);
+        // The encoders always write a 3-channel JPEG, so gray sources become RGB.
+        return { contents: new Uint8Array(await blob.arrayBuffer()), filter: 'DCTDecode', colorSpace: 'DeviceRGB', bitsPerComponent: 8 };
+    };
+    if (color === 'color') return jpeg();
+
+    const gray = luminance(image);
+    if (color === 'bilevel') {
+        return { contents: deflate(packBilevel(gray, image.width, image.height), { level: 9 }), filter: 'FlateDecode', colorSpace: 'DeviceGray', bitsPerComponent: 1 };
+    }
+    const flate: EncodedPdfImage = { contents: deflate(gray, { level: 9 }), filter: 'FlateDecode', colorSpace: 'DeviceGray', bitsPerComponent: 8 };
+    if (!lossy) return flate;
+    const rgbGray = new Uint8ClampedArray(image.data.length);
+    for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+        rgbGray[p] = rgbGray[p + 1] = rgbGray[p + 2] = gray[i];
+        rgbGray[p + 3] = 255;
+    }
+    const blob = await getRasterBackend().encode({ ...image, data: rgbGray }, 'jpeg', quality);
+    const contents = new Uint8Array(await blob.arrayBuffer());
+    return contents.length < flate.contents.length ? { contents, filter: 'DCTDecode', colorSpace: 'DeviceRGB', bitsPerComponent: 8 } : flate;
+};
+
+// Downsamples the images in lossy mode and converts them in a grayscale or
+// bilevel one. A conversion is what was asked for, so it's kept even when
+// it doesn't make that image smaller.
+const reencodePdfImages = async (doc: PDFDocument, options: { lossy: boolean; dpi: number; quality: number; color: PdfColorMode }, signal?: AbortSignal, onProgress?: (fraction: number) => void): Promise<{ resampled: number; recolored: number }> => {
+    const { context } = doc;
+    const { lossy, dpi, quality, color } = options;
+    const placements = [...collectPdfImagePlacements(doc)];
+    let resampled = 0;
+    let recolored = 0;
+
+    for (const [index, [ref, pageEdge]] of placements.entries()) {
+        signal?.throwIfAborted();
+        onProgress?.(index / placements.length);
+        const stream = context.lookup(ref);
+        if (!(stream instanceof PDFRawStream)) continue;
+
+        const decoded = await decodePdfImage(context, stream);
+        if (!decoded) continue;
+
+        const { image } = decoded;
+        const maxEdge = Math.ceil((pageEdge / 72) * dpi);
+        const scale = lossy ? Math.min(1, maxEdge / Math.max(image.width, image.height)) : 1;
+        const target = await resizeRaster(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+
+        const encoded = await encodePdfImage(target, color, lossy, quality);
+        if (color === 'color' && encoded.contents.length >= stream.contents.length) continue;
+
+        const dict = stream.dict.clone(context);
+        dict.set(PDFName.of('Filter'), PDFName.of(encoded.filter));
+        dict.set(PDFName.of('Width'), PDFNumber.of(target.width));
+        dict.set(PDFName.of('Height'), PDFNumber.of(target.height));
+        dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(encoded.bitsPerComponent));
+        dict.set(PDFName.of('ColorSpace'), PDFName.of(encoded.colorSpace));
+        dict.delete(PDFName.of('DecodeParms'));
+        context.assign(ref, PDFRawStream.of(dict, encoded.contents));
+        // Re-encoded at full size isn't resampled, only recompressed.
+        if (target.width < image.width || target.height < image.height) resampled++;
+        if (color !== 'color') recolored++;
+    }
+    return { resampled, recolored };
+};
+
+// Reads a PDF with pdf-lib, turning its encryption error into one worth showing.
+export const loadPdfDocument = async (bytes: Uint8Array): Promise<PDFDocument> => {
+    try {
+        return await PDFDocument.load(bytes, { updateMetadata: false });
+    } catch (error) {
+        if (error instanceof EncryptedPDFError) throw new Error("This PDF is encrypted and can't be modified.");
+        throw error;
+    }
+};
+
+export const optimizePdf = async (file: Blob, options: PdfOptimizeOptions): Promise<{ bytes: Uint8Array; stats: PdfOptimizeStats }> => {
+    const original = new Uint8Array(await file.arrayBuffer());
+
+    const doc = await loadPdfDocument(original);
+
+    const { signal, onProgress, color = 'color' } = options;
+    const lossy = options.mode === 'lossy';
+    const stats: PdfOptimizeStats = { removedObjects: 0, deduplicatedObjects: 0, deflatedStreams: 0, resampledImages: 0, recoloredImages: 0, color };
+    stats.deduplicatedObjects = await deduplicatePdfObjects(doc.context);
+    signal?.throwIfAborted();
+    onProgress?.(0.2);
+    if (lossy || color !== 'color') {
+        // Image re-encoding is the slow part, so it gets most of the progress bar.
+        const { resampled, recolored } = await reencodePdfImages(doc, {
+            lossy,
+            dpi: options.imageDpi ?? PDF_IMAGE_DPI,
+            quality: options.imageQuality ?? PDF_IMAGE_QUALITY,
+            color,
+        }, signal, fraction => onProgress?.(0.2 + fraction * 0.6));
+        stats.resampledImages = resampled;
+        stats.recoloredImages = recolored;
+    }
+    stats.deflatedStreams = deflateUncompressedPdfStreams(doc.context);
+    stats.removedObjects = removeUnusedPdfObjects(doc.context);
+    signal?.throwIfAborted();
+    onProgress?.(0.9);
+
+    const bytes = await doc.save({ useObjectStreams: true, addDefaultPage: false, updateFieldAppearances: false });
+    // Never hand back something bigger than what we were given, unless it
+    // carries a colour conversion that was asked for.
+    if (bytes.length < original.length || stats.recoloredImages > 0) return { bytes, stats };
+    return { bytes: original, stats: { removedObjects: 0, deduplicatedObjects: 0, deflatedStreams: 0, resampledImages: 0, recoloredImages: 0, unchanged: true } };
+};
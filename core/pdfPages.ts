@@ -0,0 +1,119 @@
+import { PDFDocument } from 'pdf-lib';
+import { loadPdfDocument } from './pdf';
+
+// Page-level edits that make a PDF smaller without touching what's on its
+// pages: keeping and reordering pages, splitting into parts and merging.
+// Pages are numbered from 0 here; only the range syntax users type starts at 1.
+
+// --- Types ---
+export interface PdfPart {
+    bytes: Uint8Array;
+    // The pages of the source this part holds, in order.
+    pages: number[];
+}
+
+const readPdf = async (file: Blob) => loadPdfDocument(new Uint8Array(await file.arrayBuffer()));
+
+const savePdf = (doc: PDFDocument) => doc.save({ useObjectStreams: true, addDefaultPage: false, updateFieldAppearances: false });
+
+// A new document with the given pages of each source, in order.
+const assemblePdf = async (sources: { doc: PDFDocument; pages: number[] }[]): Promise<PDFDocument> => {
+    const out = await PDFDocument.create({ updateMetadata: false });
+    for (const { doc, pages } of sources) {
+        const copied = await out.copyPages(doc, pages);
+        copied.forEach(page => out.addPage(page));
+    }
+    return out;
+};
+
+export const getPdfPageCount = async (file: Blob): Promise<number> => (await readPdf(file)).getPageCount();
+
+// --- Ranges ---
+// "1-3, 5, 8-" into zero-based page groups, one group per comma.
+export const parsePageRanges = (text: string, pageCount: number): number[][] => {
+    const groups = text.split(',').map(part => part.trim()).filter(Boolean);
+    if (groups.length === 0) throw new Error('Enter page ranges like "1-3, 4-10".');
+    return groups.map(group => {
+        const match = /^(\d+)?\s*(-)?\s*(\d+)?$/.exec(group);
+        if (!match || (!match[1] && !match[3])) throw new Error(`"${group}" isn't a page range.`);
+        const first = Number(match[1] ?? 1);
+        const last = match[2] ? Number(match[3] ?? pageCount) : first;
+        if (first < 1 || last > pageCount || first > last) throw new Error(`"${group}" isn't a page range within 1-${pageCount}.`);
+        return Array.from({ length: last - first + 1 }, (_, i) => first - 1 + i);
+    });
+};
+
+// "1-3, 5" for showing a part's pages.
+export const formatPageRanges = (pages: number[]): string => {
+    const runs: [number, number][] = [];
+    pages.forEach(page => {
+        const run = runs[runs.length - 1];
+        if (run && page === run[1] + 1) run[1] = page;
+        else runs.push([page, page]);
+    });
+    return runs.map(([first, last]) => first === last ? `${first + 1}` : `${first + 1}-${last + 1}`).join(', ');
+};
+
+// --- Editing ---
+// Keeps only the given pages, in the given order.
+export const extractPdfPages = async (file: Blob, pages: number[]): Promise<Uint8Array> => {
+    if (pages.length === 0) throw new Error('Keep at least one page.');
+    return savePdf(await assemblePdf([{ doc: await readPdf(file), pages }]));
+};
+
+// Each file's pages after the previous file's, optionally only some of them.
+export const mergePdfs = async (sources: { file: Blob; pages?: number[] }[]): Promise<Uint8Array> => {
+    const docs = await Promise.all(sources.map(async ({ file, pages }) => {
+        const doc = await readPdf(file);
+        return { doc, pages: pages ?? doc.getPageIndices() };
+    }));
+    if (docs.every(({ pages }) => pages.length === 0)) throw new Error('Keep at least one page.');
+    return savePdf(await assemblePdf(docs));
+};
+
+export const splitPdfByRanges = async (file: Blob, ranges: number[][]): Promise<PdfPart[]> => {
+    const doc = await readPdf(file);
+    const parts: PdfPart[] = [];
+    for (const pages of ranges) {
+        parts.push({ bytes: await savePdf(await assemblePdf([{ doc, pages }])), pages });
+    }
+    return parts;
+};
+
+// Packs consecutive pages into parts of at most maxBytes. Each page is
+// measured on its own first; fonts and images shared between pages are
+// counted once per page there, so the sum overshoots and most parts fit on
+// the first try. A part that still doesn't gives up its last page to the
+// next one. A single page bigger than the limit becomes a part by itself.
+export const splitPdfBySize = async (file: Blob, maxBytes: number, pages?: number[], signal?: AbortSignal): Promise<PdfPart[]> => {
+    const doc = await readPdf(file);
+    const order = pages ?? doc.getPageIndices();
+    if (order.length === 0) throw new Error('Keep at least one page.');
+
+    const pageSizes: number[] = [];
+    for (const page of order) {
+        signal?.throwIfAborted();
+        pageSizes.push((await savePdf(await assemblePdf([{ doc, pages: [page] }]))).length);
+    }
+
+    const parts: PdfPart[] = [];
+    let start = 0;
+    while (start < order.length) {
+        let end = start + 1;
+        let estimate = pageSizes[start];
+        while (end < order.length && estimate + pageSizes[end] <= maxBytes) estimate += pageSizes[end++];
+
+        for (;;) {
+            signal?.throwIfAborted();
+            const partPages = order.slice(start, end);
+            const bytes = await savePdf(await assemblePdf([{ doc, pages: partPages }]));
+            if (bytes.length <= maxBytes || end - start === 1) {
+                parts.push({ bytes, pages: partPages });
+                break;
+            }
+            end--;
+        }
+        start = end;
+    }
+    return parts;
+};
@@ -0,0 +1,174 @@
+import pica from 'pica';
+import type * as PdfJs from 'pdfjs-dist';
+
+// Decoded pixels and the platform hooks that produce and encode them. Everything
+// else in the core works on plain RGBA buffers, so it runs the same in the
+// browser, in workers and in Node.
+
+// --- Types ---
+// Straight (not premultiplied) RGBA, one byte per channel.
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface DecodeOptions {
+    // Leaves pixels in the source color space instead of converting to sRGB.
+    // Only safe when the source ICC profile is embedded in the output too.
+    keepColorProfile?: boolean;
+}
+
+// The encoders every platform ships natively. PNG and AVIF are encoded in the
+// core itself.
+export type NativeFormat = 'jpeg' | 'webp';
+
+export interface RasterBackend {
+    // Decodes to pixels with the EXIF orientation already applied.
+    decode: (file: Blob, options?: DecodeOptions) => Promise<RasterImage>;
+    // `quality` is on the encoder's own 0-100 scale.
+    encode: (image: RasterImage, format: NativeFormat, quality: number) => Promise<Blob>;
+    // Loads pdf.js for rendering page previews. Without it PDFs get none.
+    loadPdfjs?: () => Promise<typeof PdfJs>;
+}
+
+// --- Backend ---
+let backend: RasterBackend | undefined;
+
+export const setRasterBackend = (next: RasterBackend) => {
+    backend = next;
+};
+
+export const getRasterBackend = (): RasterBackend => {
+    if (!backend) throw new Error("No image backend is set. Call setRasterBackend() before compressing.");
+    return backend;
+};
+
+// --- Resizing ---
+const resizer = pica({ features: ['js', 'wasm'] });
+
+// pica's filters, sharpest-and-slowest first. mks2013 already sharpens, so it
+// rarely needs an unsharp mask on top.
+export type ResizeFilter = 'mks2013' | 'lanczos3' | 'lanczos2' | 'hamming' | 'box';
+
+export const RESIZE_FILTERS: Record<ResizeFilter, string> = {
+    mks2013: 'MKS 2013 (default)',
+    lanczos3: 'Lanczos 3',
+    lanczos2: 'Lanczos 2',
+    hamming: 'Hamming',
+    box: 'Box (fastest)',
+};
+
+export interface ResamplingOptions {
+    filter?: ResizeFilter;
+    // 0 turns the unsharp mask off; 100-200 is a typical strength.
+    unsharpAmount?: number;
+    // Gaussian radius in pixels, 0.5-2.
+    unsharpRadius?: number;
+    // Differences below this (0-255) are left alone, so noise isn't sharpened.
+    unsharpThreshold?: number;
+}
+
+export const resizeRaster = async (image: RasterImage, width: number, height: number, options: ResamplingOptions = {}): Promise<RasterImage> => {
+    if (width === image.width && height === image.height) return image;
+    const resized = await resizer.resizeBuffer({
+        src: image.data,
+        width: image.width,
+        height: image.height,
+        toWidth: width,
+        toHeight: height,
+        filter: options.filter,
+        unsharpAmount: options.unsharpAmount,
+        unsharpRadius: options.unsharpRadius,
+        unsharpThreshold: options.unsharpThreshold,
+    });
+    return { width, height, data: new Uint8ClampedArray(resized.buffer, resized.byteOffset, resized.length) };
+};
+
+// --- Cropping ---
+// In pixels of the oriented image, from the top-left corner.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Keeps a crop inside the image and on whole pixels; undefined when it
+// covers the whole image anyway.
+export const clampCrop = (image: { width: number; height: number }, crop: CropRect): CropRect | undefined => {
+    const x = Math.min(image.width - 1, Math.max(0, Math.round(crop.x)));
+    const y = Math.min(image.height - 1, Math.max(0, Math.round(crop.y)));
+    const width = Math.max(1, Math.min(image.width - x, Math.round(crop.width)));
+    const height = Math.max(1, Math.min(image.height - y, Math.round(crop.height)));
+    if (x === 0 && y === 0 && width === image.width && height === image.height) return undefined;
+    return { x, y, width, height };
+};
+
+// Common width/height ratios for the crop tool and presets. The app names
+// them by `id`; `label` is the English.
+export type CropAspectId = 'square' | 'landscape-4-3' | 'landscape-3-2' | 'widescreen' | 'social-card' | 'portrait' | 'story';
+
+export const CROP_ASPECTS: { id: CropAspectId; label: string; ratio: number }[] = [
+    { id: 'square', label: 'Square 1:1', ratio: 1 },
+    { id: 'landscape-4-3', label: 'Landscape 4:3', ratio: 4 / 3 },
+    { id: 'landscape-3-2', label: 'Landscape 3:2', ratio: 3 / 2 },
+    { id: 'widescreen', label: 'Widescreen 16:9', ratio: 16 / 9 },
+    { id: 'social-card', label: 'Social card 1.91:1', ratio: 1200 / 630 },
+    { id: 'portrait', label: 'Portrait 4:5', ratio: 4 / 5 },
+    { id: 'story', label: 'Story 9:16', ratio: 9 / 16 },
+];
+
+// The largest centered crop with the given width/height ratio.
+export const centerCrop = (image: { width: number; height: number }, aspect: number): CropRect => {
+    const width = Math.min(image.width, Math.round(image.height * aspect));
+    const height = Math.min(image.height, Math.round(width / aspect));
+    return { x: Math.floor((image.width - width) / 2), y: Math.floor((image.height - height) / 2), width, height };
+};
+
+export const cropRaster = (image: RasterImage, crop: CropRect): RasterImage => {
+    const { x, y, width, height } = crop;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let row = 0; row < height; row++) {
+        const start = ((y + row) * image.width + x) * 4;
+        data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+    }
+    return { width, height, data };
+};
+
+// --- Orientation ---
+// Rotates and flips decoded pixels the way EXIF orientation 2-8 asks, for
+// decoders that leave that to the caller.
+export const orientRaster = (image: RasterImage, orientation: number): RasterImage => {
+    if (orientation < 2 || orientation > 8) return image;
+    const { width: w, height: h } = image;
+    const swap = orientation >= 5;
+    const width = swap ? h : w;
+    const height = swap ? w : h;
+    const source = new Uint32Array(image.data.buffer, image.data.byteOffset, w * h);
+    const out = new Uint32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sx: number, sy: number;
+            switch (orientation) {
+                case 2: sx = w - 1 - x; sy = y; break;
+                case 3: sx = w - 1 - x; sy = h - 1 - y; break;
+                case 4: sx = x; sy = h - 1 - y; break;
+                case 5: sx = y; sy = x; break;
+                case 6: sx = y; sy = h - 1 - x; break;
+                case 7: sx = w - 1 - y; sy = h - 1 - x; break;
+                default: sx = w - 1 - y; sy = x; break;
+            }
+            out[y * width + x] = source[sy * w + sx];
+        }
+    }
+    return { width, height, data: new Uint8ClampedArray(out.buffer) };
+};
+
+export const hasTransparentPixels = ({ data }: RasterImage): boolean => {
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
@@ -0,0 +1,119 @@
+import { OUTPUT_FORMATS, OutputFormat } from './imageCodec';
+import type { ContentType } from './content';
+
+// Responsive image sets: one picture at several widths and in several
+// formats, plus the <picture> markup and JSON manifest that let a page pick
+// between them. The encoding itself is in compress.ts.
+
+// --- Types ---
+export interface ResponsiveVariant {
+    file: File;
+    format: OutputFormat;
+    width: number;
+    height: number;
+}
+
+export interface ResponsiveSet {
+    sourceName: string;
+    // The source as encoded, after any crop.
+    width: number;
+    height: number;
+    widths: number[];
+    formats: OutputFormat[];
+    variants: ResponsiveVariant[];
+}
+
+// --- Breakpoints ---
+// Browsers try <source> elements in order, so the most efficient formats go first.
+export const RESPONSIVE_FORMAT_ORDER: OutputFormat[] = ['avif', 'webp', 'jpeg', 'png-quantized', 'png'];
+export const DEFAULT_RESPONSIVE_FORMATS: OutputFormat[] = ['avif', 'webp', 'jpeg'];
+export const DEFAULT_SIZES = '100vw';
+
+const MIN_BREAKPOINT = 16;
+export const MAX_BREAKPOINTS = 8;
+
+// Whole pixels, smallest first, without repeats. Widths past the source are
+// clamped to it since a set never upscales.
+export const normalizeBreakpoints = (widths: number[], sourceWidth: number): number[] => {
+    const clamped = widths
+        .filter(width => Number.isFinite(width) && width > 0)
+        .map(width => Math.round(Math.min(width, sourceWidth)))
+        .filter(width => width >= Math.min(MIN_BREAKPOINT, sourceWidth));
+    return [...new Set(clamped)].sort((a, b) => a - b).slice(0, MAX_BREAKPOINTS);
+};
+
+// "480, 960 1600" as typed into a field.
+export const parseBreakpoints = (text: string): number[] => text.split(/[\s,]+/).filter(Boolean).map(Number).filter(width => width > 0);
+
+// Common layout widths, for 1x and 2x screens. Text smears when it's shrunk,
+// so screenshots, charts and scans start wider.
+const PHOTO_WIDTHS = [320, 640, 960, 1280, 1920, 2560];
+const TEXT_WIDTHS = [640, 1024, 1440, 1920, 2560];
+const MAX_SUGGESTED_WIDTH = 2560;
+
+export const suggestBreakpoints = (sourceWidth: number, contentType?: ContentType): number[] => {
+    const legible = contentType === 'screenshot' || contentType === 'chart' || contentType === 'scanned-document';
+    const widths = (legible ? TEXT_WIDTHS : PHOTO_WIDTHS).filter(width => width < sourceWidth);
+    return normalizeBreakpoints([...widths, Math.min(sourceWidth, MAX_SUGGESTED_WIDTH)], sourceWidth);
+};
+
+// `hero.jpg` at 960px as WebP is `hero-960w.webp`.
+export const variantFileName = (name: string, width: number, format: OutputFormat): string => {
+    const dot = name.lastIndexOf('.');
+    return `${dot > 0 ? name.slice(0, dot) : name}-${width}w.${OUTPUT_FORMATS[format].extension}`;
+};
+
+// --- Markup ---
+// The <img> needs a format every browser shows; the widest one is its src.
+const LEGACY_FORMATS: OutputFormat[] = ['jpeg', 'png', 'png-quantized'];
+
+const orderedFormats = (set: ResponsiveSet) => RESPONSIVE_FORMAT_ORDER.filter(format => set.formats.includes(format));
+
+export const fallbackFormat = (set: ResponsiveSet): OutputFormat => {
+    const formats = orderedFormats(set);
+    return formats.find(format => LEGACY_FORMATS.includes(format)) ?? formats[formats.length - 1];
+};
+
+export const fallbackVariant = (set: ResponsiveSet): ResponsiveVariant => {
+    const format = fallbackFormat(set);
+    return set.variants.filter(variant => variant.format === format).reduce((a, b) => b.width > a.width ? b : a);
+};
+
+const escapeAttribute = (text: string) => text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const srcset = (set: ResponsiveSet, format: OutputFormat, basePath: string) => set.variants
+    .filter(variant => variant.format === format)
+    .map(variant => `${basePath}${variant.file.name} ${variant.width}w`)
+    .join(', ');
+
+export interface MarkupOptions {
+    alt?: string;
+    sizes?: string;
+    // Prefix for the file URLs, e.g. "/images/".
+    basePath?: string;
+}
+
+// A <picture> with one <source> per extra format, or a plain <img srcset>
+// when there's only one format.
+export const pictureMarkup = (set: ResponsiveSet, { alt = '', sizes = DEFAULT_SIZES, basePath = '' }: MarkupOptions = {}): string => {
+    const fallback = fallbackVariant(set);
+    const sizesAttribute = escapeAttribute(sizes);
+    const img = `<img src="${escapeAttribute(basePath + fallback.file.name)}" srcset="${escapeAttribute(srcset(set, fallback.format, basePath))}" sizes="${sizesAttribute}" width="${fallback.width}" height="${fallback.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`;
+    const sources = orderedFormats(set).filter(format => format !== fallback.format);
+    if (!sources.length) return img;
+    return [
+        '<picture>',
+        ...sources.map(format => `  <source type="${OUTPUT_FORMATS[format].mimeType}" srcset="${escapeAttribute(srcset(set, format, basePath))}" sizes="${sizesAttribute}">`),
+        `  ${img}`,
+        '</picture>',
+    ].join('\n');
+};
+
+export const responsiveManifest = (set: ResponsiveSet, sizes = DEFAULT_SIZES) => ({
+    source: { name: set.sourceName, width: set.width, height: set.height },
+    sizes,
+    widths: set.widths,
+    formats: orderedFormats(set),
+    fallback: fallbackVariant(set).file.name,
+    variants: set.variants.map(({ file, format, width, height }) => ({ file: file.name, format, mimeType: OUTPUT_FORMATS[format].mimeType, width, height, size: file.size })),
+});
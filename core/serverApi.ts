@@ -0,0 +1,202 @@
+import type { CompressionSettings } from './imageCodec';
+import type { PdfColorMode, PdfCompressionMode, PdfOptimizeStats } from './pdf';
+import type { ImageCompressionOptions } from './compress';
+import type { BatchSummaryStats } from './batchReport';
+import type { Locale } from './locale';
+import { PROVIDER_LABELS, acquireAIRequestSlot, ProviderId, RecommendationProvider, ResizeBounds, SizeRecommendation, BreakpointProposal, withAICache } from './ai';
+import { AIServerError } from './aiResponse';
+import { recordAIUsage, AIUsage } from './aiUsage';
+
+// The Whilo server's HTTP API, shared by the server and its clients. The
+// server holds the Gemini key and asks on the client's behalf; the browser
+// reaches it through createServerProvider, which stands in for Gemini.
+//
+// Requests about a file are multipart: the file as `file` (or `files` for a
+// batch) and everything else as JSON in `options`. Reports are plain JSON.
+
+export const AI_API_ROUTES = {
+    status: '/api/ai/status',
+    recommendSize: '/api/ai/recommend-size',
+    recommendSizes: '/api/ai/recommend-sizes',
+    suggestCompression: '/api/ai/suggest-compression',
+    proposeBreakpoints: '/api/ai/breakpoints',
+    report: '/api/ai/report',
+    pdfReport: '/api/ai/pdf-report',
+    batchSummary: '/api/ai/batch-summary',
+} as const;
+
+export const COMPRESS_API_ROUTE = '/api/compress';
+
+// --- Compression API ---
+// POST /api/compress takes one file and these options, and answers with a
+// multipart body: the compressed file as `file` and a CompressReport as
+// `report`.
+export type CompressRequestOptions = Pick<ImageCompressionOptions,
+    'targetSize' | 'targetUnit' | 'smartResize' | 'outputFormatChoice' | 'maxWidth' | 'maxHeight' | 'crop' | 'cropAspect' | 'resize' | 'resampling' | 'metadataPolicy' | 'language'
+> & {
+    pdfMode?: PdfCompressionMode;
+    pdfColor?: PdfColorMode;
+    svgPrecision?: number;
+};
+
+export interface CompressReport {
+    name: string;
+    outputName: string;
+    originalSize: number;
+    compressedSize: number;
+    targetBytes?: number;
+    targetMet: boolean;
+    format: string;
+    quality?: number;
+    width?: number;
+    height?: number;
+    // Set when an animated GIF became an animated WebP.
+    frames?: number;
+    // Set when nothing came out smaller, so the file sent back is the upload.
+    unchanged?: boolean;
+    provider: ProviderId;
+    // Why Gemini didn't choose the settings, when it was asked and failed.
+    fallbackReason?: string;
+    report: string;
+}
+
+// --- Requests ---
+// Every AI request can name the language its free text should come back in.
+export interface LanguageOption {
+    language?: Locale;
+}
+
+export interface SuggestCompressionOptions extends LanguageOption {
+    enableSmartResize: boolean;
+    targetSize?: number;
+    targetUnit?: 'KB' | 'MB';
+    hasTransparency?: boolean;
+    bounds?: ResizeBounds;
+}
+
+export interface BreakpointOptions extends LanguageOption {
+    dimensions: ResizeBounds;
+}
+
+export interface ReportRequest extends LanguageOption {
+    originalSize: number;
+    newSize: number;
+}
+
+export interface PdfReportRequest extends ReportRequest {
+    mode?: PdfCompressionMode;
+    stats?: PdfOptimizeStats;
+}
+
+export interface BatchSummaryRequest extends LanguageOption {
+    stats: BatchSummaryStats;
+}
+
+// --- Responses ---
+export interface AIServerStatus {
+    // Whether the server has a Gemini key to answer with.
+    gemini: boolean;
+    // Requests each client may make per minute; 0 is unlimited.
+    requestsPerMinute: number;
+}
+
+// `usage` is what answering cost, so the client's usage panel counts it.
+export interface AIApiResponse<T> {
+    result: T;
+    usage: Partial<AIUsage>;
+}
+
+export interface AIApiErrorBody {
+    error: string;
+}
+
+// Batches answer with null where JSON can't say undefined.
+export type RecommendSizesResult = (SizeRecommendation | null)[];
+
+// --- Client ---
+const fileForm = (files: File[], field: string, options?: unknown) => {
+    const form = new FormData();
+    files.forEach(file => form.append(field, file, file.name));
+    if (options !== undefined) form.append('options', JSON.stringify(options));
+    return form;
+};
+
+export interface ServerProvider extends RecommendationProvider {
+    // Asks the server whether it can answer; until then the provider is skipped.
+    connect: () => Promise<AIServerStatus | undefined>;
+}
+
+// `baseUrl` is empty when the app and the server share an origin, as they do
+// behind the dev server's proxy.
+export const createServerProvider = (baseUrl = ''): ServerProvider => {
+    let status: AIServerStatus | undefined;
+
+    // Waits its turn with the same limiter direct Gemini calls use, so the
+    // app's requests-per-minute setting holds whichever way AI is asked.
+    const call = async <T,>(route: string, body: FormData | object, signal?: AbortSignal): Promise<T> => {
+        await acquireAIRequestSlot(signal);
+        let response: Response;
+        try {
+            response = await fetch(baseUrl + route, body instanceof FormData
+                ? { method: 'POST', body, signal }
+                : { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' }, signal });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new AIServerError("Couldn't reach the Whilo server.", 0);
+        }
+        const payload = await response.json().catch(() => undefined);
+        if (!response.ok) throw new AIServerError((payload as AIApiErrorBody | undefined)?.error || `The Whilo server answered ${response.status}.`, response.status);
+        const { result, usage } = payload as AIApiResponse<T>;
+        recordAIUsage(usage);
+        return result;
+    };
+
+    const provider = withAICache({
+        id: 'gemini',
+        label: PROVIDER_LABELS.gemini,
+        isConfigured: () => !!status?.gemini,
+        recommendSize: (file, language, signal) => {
+            const options: LanguageOption = { language };
+            return call<SizeRecommendation>(AI_API_ROUTES.recommendSize, fileForm([file], 'file', options), signal);
+        },
+        recommendSizes: async (files, language, signal) => {
+            const options: LanguageOption = { language };
+            const results = await call<RecommendSizesResult>(AI_API_ROUTES.recommendSizes, fileForm(files, 'files', options), signal);
+            return results.map(result => result ?? undefined);
+        },
+        suggestCompression: (file, enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal) => {
+            const options: SuggestCompressionOptions = { enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language };
+            return call<CompressionSettings>(AI_API_ROUTES.suggestCompression, fileForm([file], 'file', options), signal);
+        },
+        proposeBreakpoints: (file, dimensions, language, signal) => {
+            const options: BreakpointOptions = { dimensions, language };
+            return call<BreakpointProposal>(AI_API_ROUTES.proposeBreakpoints, fileForm([file], 'file', options), signal);
+        },
+        report: (originalSize, newSize, language, signal) => {
+            const request: ReportRequest = { originalSize, newSize, language };
+            return call<string>(AI_API_ROUTES.report, request, signal);
+        },
+        pdfReport: (originalSize, newSize, mode, stats, language, signal) => {
+            const request: PdfReportRequest = { originalSize, newSize, mode, stats, language };
+            return call<string>(AI_API_ROUTES.pdfReport, request, signal);
+        },
+        batchSummary: (stats, language, signal) => {
+            const request: BatchSummaryRequest = { stats, language };
+            return call<string>(AI_API_ROUTES.batchSummary, request, signal);
+        },
+    });
+
+    return {
+        ...provider,
+        connect: async () => {
+            try {
+                const response = await fetch(baseUrl + AI_API_ROUTES.status);
+                status = response.ok ? await response.json() : undefined;
+            } catch (error) {
+                console.warn("Couldn't reach the Whilo server; using the offline rules:", error);
+                status = undefined;
+            }
+            return status;
+        },
+    };
+};
@@ -0,0 +1,39 @@
+// SVGs stay vectors: SVGO rewrites the markup instead of anything being
+// rasterized. The default preset strips metadata, comments and editor
+// namespaces, rounds numbers, shortens path data and merges adjacent paths
+// that share their styling.
+
+export const SVG_PRECISION = 3;
+
+export interface SvgOptimizeOptions {
+    // Decimal places kept in coordinates and other numbers.
+    precision?: number;
+}
+
+export interface SvgOptimizeStats {
+    removedElements: number;
+    mergedPaths: number;
+}
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+const ELEMENTS = /<[a-zA-Z][^>]*>/g;
+const PATHS = /<path\b/g;
+
+export const optimizeSvg = async (file: Blob, options: SvgOptimizeOptions = {}): Promise<{ text: string; stats: SvgOptimizeStats }> => {
+    const { optimize } = await import('svgo/browser');
+    const source = await file.text();
+    const { data } = optimize(source, {
+        multipass: true,
+        floatPrecision: options.precision ?? SVG_PRECISION,
+        plugins: ['preset-default'],
+    });
+    // Already-minified files can come out a few bytes longer.
+    const text = data.length < source.length ? data : source;
+    return {
+        text,
+        stats: {
+            removedElements: Math.max(0, countMatches(source, ELEMENTS) - countMatches(text, ELEMENTS)),
+            mergedPaths: Math.max(0, countMatches(source, PATHS) - countMatches(text, PATHS)),
+        },
+    };
+};
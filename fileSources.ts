@@ -0,0 +1,62 @@
+// Turns what the user dropped or picked into a flat list of files, walking
+// into folders. Each file keeps its path inside the dropped folder so the
+// compressed copies can be written back in the same layout.
+
+export interface SourceFile {
+    file: File;
+    // "photos/2024/beach.jpg" for a file inside a dropped folder, or just the
+    // name for a file on its own.
+    relativePath: string;
+    // Came in as part of a folder rather than picked by itself.
+    fromFolder: boolean;
+}
+
+// Hidden files like .DS_Store and the contents of .git are never what's meant.
+const isHidden = (name: string) => name.startsWith('.');
+
+// A directory picker fills in webkitRelativePath; a plain file picker leaves
+// it empty.
+export const filesFromInput = (list: FileList): SourceFile[] => Array.from(list)
+    .filter(file => !file.webkitRelativePath.split('/').some(isHidden))
+    .map(file => ({ file, relativePath: file.webkitRelativePath || file.name, fromFolder: !!file.webkitRelativePath }));
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands directories over in batches of about a hundred and
+// returns an empty batch once it's done.
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (!batch.length) return entries;
+        entries.push(...batch);
+    }
+};
+
+const walkEntry = async (entry: FileSystemEntry, fromFolder: boolean, out: SourceFile[]) => {
+    if (isHidden(entry.name)) return;
+    // fullPath starts with a slash at the root of the drop.
+    const relativePath = entry.fullPath.replace(/^\//, '') || entry.name;
+    if (entry.isFile) {
+        out.push({ file: await readFile(entry as FileSystemFileEntry), relativePath, fromFolder });
+    } else if (entry.isDirectory) {
+        const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+        children.sort((a, b) => a.name.localeCompare(b.name));
+        for (const child of children) await walkEntry(child, true, out);
+    }
+};
+
+// The entries have to be taken from the DataTransfer before the drop handler
+// returns; the browser empties it afterwards.
+export const filesFromDrop = (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+    const entries = Array.from(dataTransfer.items, item => item.kind === 'file' ? item.webkitGetAsEntry() : null);
+    if (!entries.length || entries.some(entry => !entry)) {
+        return Promise.resolve(Array.from(dataTransfer.files, file => ({ file, relativePath: file.name, fromFolder: false })));
+    }
+    return (async () => {
+        const files: SourceFile[] = [];
+        for (const entry of entries) await walkEntry(entry!, false, files);
+        return files;
+    })();
+};
@@ -0,0 +1,38 @@
+import { formatNumber, Locale } from './core';
+import { en } from './messages/en';
+import { hi } from './messages/hi';
+import { mr } from './messages/mr';
+import { es } from './messages/es';
+
+// The app's messages in each language, looked up by key. Numbers in
+// parameters are written the locale's way.
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+// The keys that come as _one / _other pairs, without the suffix.
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+export type PluralKey = PluralBase<MessageKey>;
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, mr, es };
+
+// Fills each {name} from `params`, leaving unknown ones as they are.
+const fill = (template: string, locale: Locale, params?: MessageParams) => template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, 2, locale) : value;
+});
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => fill(CATALOGS[locale][key], locale, params);
+
+// The form for `count` by the locale's plural rules, which `{count}` fills.
+// Categories a catalog doesn't have, like Spanish "many", use _other.
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, params?: MessageParams): string => {
+    const exact = `${key}_${new Intl.PluralRules(locale).select(count)}`;
+    return translate(locale, (exact in en ? exact : `${key}_other`) as MessageKey, { ...params, count });
+};
+
+// A message split at its {placeholders}, for callers that put markup there:
+// text at even indices, placeholder names at odd ones.
+export const messageParts = (locale: Locale, key: MessageKey): string[] => CATALOGS[locale][key].split(/\{(\w+)\}/);
@@ -1,343 +1,1042 @@
-import React, { useState, useCallback, FC } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, createContext, useContext, FC } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
-import pica from 'pica';
-
-// --- Helper Functions ---
-const formatBytes = (bytes: number, decimals = 2): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-};
-
-const fileToDataURL = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
-const dataURLtoBlob = (dataURL: string): Blob => {
-    const parts = dataURL.split(',');
-    const mimeType = parts[0].match(/:(.*?);/)?.[1];
-    const bstr = atob(parts[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while (n--) {
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new Blob([u8arr], { type: mimeType });
-};
+import {
+    OUTPUT_FORMAT_NAMES, qualityToPaletteSize, OutputFormat, CompressionSettings, FormatCandidate,
+    getImageDimensions, cropRegion, outputDimensions, ManualResize, CROP_ASPECTS, RESIZE_FILTERS, centerCrop, clampCrop, CropRect, ResamplingOptions, ResizeFilter,
+    METADATA_POLICY_LABELS, MetadataPolicy, MetadataSummary, QualityMetrics,
+    ContentAnalysis, isAnimatedGif, getThumbnail, toDisplayableImage,
+    INPUT_FORMATS, INPUT_FORMAT_NAMES, INPUT_ACCEPT, INPUT_FORMAT_LIST, normalizeInputFile, hashBlob, isRasterImage, isVectorImage, displaysNatively, SVG_PRECISION, SvgOptimizeStats,
+    setRasterBackend, browserBackend, createServerProvider, getAIBatchSummary, setRecommendationProviders, heuristicProvider,
+    setAICacheStore, clearAICache, getAIUsage, resetAIUsage, subscribeAIUsage, setAIRateLimit, AIUsage, AI_PRICING, DEFAULT_REQUESTS_PER_MINUTE, getAIRecommendedSizes, getAIBreakpoints, getAIReport, ProviderId, AIFallback, AIErrorInfo, classifyAIError,
+    buildBatchReport, batchSummaryStats, batchReportRows, batchReportJson, batchReportHtml, savedBytes, savedPercent, formatSavings, BatchReport, BatchReportEntry,
+    DEFAULT_RESPONSIVE_FORMATS, DEFAULT_SIZES, parseBreakpoints, pictureMarkup, responsiveManifest, fallbackVariant, resizeBounds, ResponsiveSet,
+    PDF_COLOR_MODES, PdfColorMode, getPdfPageThumbnails, getPdfPageCount, mergePdfs, splitPdfByRanges, splitPdfBySize, parsePageRanges, formatPageRanges, PdfPart,
+    compressImageFile, compressPdfFile, compressSvgFile, compressResponsiveSet, encodeImageFile, formatBytes, formatNumber, outputFileName, toBytes, EncodeRunner, CompressionDetails, CompressionStage, StageCallback, OutputFormatChoice, PdfCompressionMode,
+    LOCALES, LOCALE_NAMES, DEFAULT_LOCALE, Locale, isLocale, matchLocale, setLocale, getLocale,
+} from './core';
+import { createWorkerPool, createTaskQueue, isAbortError } from './workerPool';
+import { saveZip, saveBlob, uniqueFileName, toCsv, ArchiveEntry } from './archive';
+import { getAllRecords, getRecord, putRecords, deleteRecords, clearRecords, StoredRecord } from './storage';
+import { filesFromDrop, filesFromInput, SourceFile } from './fileSources';
+import { BUILT_IN_PRESETS, loadCustomPresets, saveCustomPresets, exportPresets, importPresets, createPresetId, Preset, BuiltInPresetId } from './presets';
+import { translate, translatePlural, messageParts, MessageKey, MessageParams, PluralKey } from './i18n';
 
-const getImageDimensions = (file: File): Promise<{ width: number, height: number }> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            resolve({ width: img.width, height: img.height });
-            URL.revokeObjectURL(img.src);
-        };
-        img.onerror = reject;
-        img.src = URL.createObjectURL(file);
-    });
+// The compression core runs on whatever platform hooks it's given.
+setRasterBackend(browserBackend);
+
+// The saved language, or the browser's first one we have. Set before the
+// first render so sizes are formatted in it from the start.
+const LOCALE_KEY = 'whilo.locale';
+
+const loadLocale = (): Locale => {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    return isLocale(stored) ? stored : matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
 };
 
+setLocale(loadLocale());
 
-// --- API & Compression Logic ---
-let ai;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (error) {
-  console.error("Failed to initialize GoogleGenAI:", error);
+// Gemini is asked through the Whilo server, which holds the key. Until it
+// answers, or when it has no key, the offline rules do.
+const serverProvider = createServerProvider();
+const serverConnection = serverProvider.connect();
+
+// Gemini's answers are kept in IndexedDB next to the queue and history, so
+// they survive a reload.
+interface CachedAnswer extends StoredRecord {
+    value: unknown;
+    createdAt: number;
 }
 
-const getAIRecommendedSize = async (file: File) => {
-    if (!ai) throw new Error("AI Client not initialized.");
-    
-    let prompt;
-    let schema;
-
-    if (file.type.startsWith('image/')) {
-        prompt = `For a file named "${file.name}" of type ${file.type} and size ${formatBytes(file.size)}, suggest a recommended compressed size in bytes. The goal is a good balance between quality and size reduction. Also, provide a very brief reason for your suggestion (e.g., 'Good for web use', 'Maintains print quality'). Respond ONLY with JSON.`;
-        schema = {
-            type: Type.OBJECT,
-            properties: {
-                recommendedSize: { type: Type.NUMBER, description: "Suggested target file size in bytes." },
-                reason: { type: Type.STRING, description: "A brief reason for the suggestion." }
-            },
-            required: ["recommendedSize", "reason"]
-        };
-    } else if (file.type === 'application/pdf') {
-        prompt = `For a PDF file named "${file.name}" of size ${formatBytes(file.size)}, suggest a recommended compressed size in bytes and a compression mode ('lossless' for preserving all details, 'lossy' for maximum size reduction). The goal is a good balance between quality and size reduction. Also, provide a very brief reason for your suggestion. Respond ONLY with JSON.`;
-        schema = {
-            type: Type.OBJECT,
-            properties: {
-                recommendedSize: { type: Type.NUMBER, description: "Suggested target file size in bytes." },
-                reason: { type: Type.STRING, description: "A brief reason for the suggestion." },
-                recommendedMode: { type: Type.STRING, enum: ['lossless', 'lossy'], description: "Recommended compression mode." }
-            },
-            required: ["recommendedSize", "reason", "recommendedMode"]
-        };
-    } else {
-        throw new Error("Unsupported file type for recommendation");
-    }
+setAICacheStore({
+    get: async (key) => (await getRecord<CachedAnswer>('aiCache', key))?.value,
+    set: (key, value) => putRecords<CachedAnswer>('aiCache', [{ id: key, value, createdAt: Date.now() }]),
+    clear: () => clearRecords('aiCache'),
+});
 
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: schema
-        },
-    });
+// --- Compression Jobs ---
+// Encodes run in workers; whole compress jobs (AI call + encode + report) are
+// limited to the same number so queued files don't all hit the API at once.
+const MAX_CONCURRENT_JOBS = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+const compressionPool = createWorkerPool(MAX_CONCURRENT_JOBS);
+const compressionQueue = createTaskQueue(MAX_CONCURRENT_JOBS);
 
-    const result = JSON.parse(response.text);
-    return {
-        recommendedSize: result.recommendedSize,
-        reason: result.reason,
-        recommendedPdfMode: result.recommendedMode
-    };
+// Hands the core's encodes to the worker pool instead of running them here.
+const poolRunner: EncodeRunner = {
+    compress: (input, options) => compressionPool.run('compress', input, options),
+    candidates: (input, options) => compressionPool.run('candidates', input, options),
 };
 
+// --- Types ---
+type FileStatus = 'analyzing' | 'pending' | 'queued' | 'compressing' | 'done' | 'error' | 'cancelled' | 'duplicate';
 
-const getAICompressionSuggestion = async (file: File, enableSmartResize: boolean, targetSize?: number, targetUnit?: 'KB' | 'MB') => {
-    if (!ai) throw new Error("AI Client not initialized.");
-    
-    let prompt = `Act as a file compression expert. For a file named "${file.name}" of type ${file.type} and size ${formatBytes(file.size)}, provide the best compression settings to significantly reduce size while preserving quality. For images, suggest a target quality (0-100) and if converting to WebP is a good idea.`;
+// A queued file or a history entry with the same bytes as a newly added one.
+interface DuplicateSource {
+    kind: 'queue' | 'history';
+    id: string;
+    name: string;
+}
 
-    if (targetSize && targetUnit) {
-        prompt += ` The user has specified a target size of approximately ${targetSize} ${targetUnit}. Prioritize getting close to this size while maintaining the best possible quality.`;
-    }
+interface AppFile {
+    // The content hash, with a suffix for any further copy that's kept.
+    id: string;
+    file: File;
+    status: FileStatus;
+    // Path inside a dropped or picked folder; outputs are written back there.
+    relativePath?: string;
+    contentHash?: string;
+    duplicateOf?: DuplicateSource;
+    // Image specific
+    smartResize: boolean;
+    targetSizeInput?: string;
+    targetUnit?: 'KB' | 'MB';
+    outputFormatChoice?: OutputFormatChoice;
+    maxWidth?: number;
+    maxHeight?: number;
+    crop?: CropRect;
+    cropAspect?: number;
+    resize?: ManualResize;
+    resampling?: ResamplingOptions;
+    // Pixel size after EXIF orientation, for the resize and crop controls.
+    dimensions?: { width: number; height: number };
+    metadataPolicy?: MetadataPolicy;
+    compressionSettings?: CompressionSettings;
+    formatCandidates?: FormatCandidate[];
+    // Animated GIFs always come out as animated WebP.
+    animated?: boolean;
+    // Responsive set mode: every width in every format instead of one output.
+    responsive?: boolean;
+    responsiveWidths?: number[];
+    responsiveFormats?: OutputFormat[];
+    // The sizes attribute written into the markup.
+    responsiveSizes?: string;
+    breakpointReason?: string;
+    breakpointProvider?: ProviderId;
+    responsiveSet?: ResponsiveSet;
+    // SVG specific
+    svgPrecision?: number;
+    svgStats?: SvgOptimizeStats;
+    // PDF specific
+    pdfCompressionMode?: PdfCompressionMode;
+    recommendedPdfMode?: PdfCompressionMode;
+    pdfColorMode?: PdfColorMode;
+    // Set when the page tools made this file, e.g. "Pages 1-3 of scan.pdf".
+    pdfSource?: string;
+    // General
+    recommendedSize?: number;
+    recommendationReason?: string;
+    recommendationProvider?: ProviderId;
+    recommendationFallback?: AIFallback;
+    // What the previews show, from the first analysis.
+    contentAnalysis?: ContentAnalysis;
+    compressedFile?: File;
+    compressedSize?: number;
+    aiReport?: string;
+    compressionDetails?: CompressionDetails;
+    // Computed the first time the comparison viewer opens.
+    qualityMetrics?: QualityMetrics;
+    // 0-1 while queued or compressing.
+    progress?: number;
+    progressStage?: CompressionStage;
+    errorMessage?: string;
+}
 
-    if (enableSmartResize) {
-        const { width, height } = await getImageDimensions(file);
-        prompt += ` The original dimensions are ${width}x${height}px. Also suggest an optimal new resolution (targetWidth and targetHeight) that preserves key details and aspect ratio for maximum file size reduction.`
-    }
-    
-    prompt += ` Respond ONLY with JSON.`
+// Copies a preset's settings onto a file. PDFs without a preset mode keep the AI's pick.
+const applyPreset = (appFile: AppFile, preset: Preset): AppFile => ({
+    ...appFile,
+    targetSizeInput: preset.targetSize ? String(preset.targetSize) : '',
+    targetUnit: preset.targetUnit,
+    maxWidth: preset.maxWidth,
+    maxHeight: preset.maxHeight,
+    resize: preset.resize,
+    crop: undefined,
+    cropAspect: preset.cropAspect,
+    resampling: preset.resampling,
+    outputFormatChoice: preset.outputFormatChoice,
+    smartResize: preset.smartResize,
+    metadataPolicy: preset.metadataPolicy,
+    pdfCompressionMode: preset.pdfCompressionMode ?? appFile.recommendedPdfMode ?? appFile.pdfCompressionMode,
+});
 
-    const schema: any = {
-        type: Type.OBJECT,
-        properties: {
-            targetQuality: { type: Type.NUMBER, description: "A value between 0 and 100 for JPEG/WebP quality." },
-            convertToWebp: { type: Type.BOOLEAN, description: "Whether to convert PNG/JPEG to WebP for better compression." },
-            recommendation: { type: Type.STRING, description: "A brief explanation for the chosen settings." }
-        },
-        required: ["targetQuality", "convertToWebp", "recommendation"]
-    };
+// --- Sources & Duplicates ---
+const sourcePath = (appFile: AppFile) => appFile.relativePath ?? appFile.file.name;
 
-    if (enableSmartResize) {
-        schema.properties.targetWidth = { type: Type.NUMBER, description: "Suggested new width for the image." };
-        schema.properties.targetHeight = { type: Type.NUMBER, description: "Suggested new height for the image." };
-    }
+// An output name placed in the folder its original came from.
+const outputPath = (relativePath: string, name: string) => relativePath.slice(0, relativePath.lastIndexOf('/') + 1) + name;
 
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: schema
-        },
-    });
-    
-    return JSON.parse(response.text);
+// `base`, or `base-2`, `base-3`… when a copy of the same content already has it.
+const uniqueId = (base: string, taken: Set<string>): string => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id;
 };
 
-const getAIReport = async (originalSize: number, newSize: number) => {
-    if (!ai) throw new Error("AI Client not initialized.");
-    const reduction = (((originalSize - newSize) / originalSize) * 100).toFixed(0);
-    const prompt = `Generate a brief, encouraging compression report. Original size: ${formatBytes(originalSize)}, new size: ${formatBytes(newSize)}. Percentage saved: ${reduction}%. Keep it under 20 words.`;
-    
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt
-    });
+const baseName = (name: string) => {
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(0, dot) : name;
+};
 
-    return response.text;
-}
+// Outputs are named after their original, so one reused for a copy under
+// another name is renamed to match it.
+const renameOutput = (output: File, from: string, to: string): File => {
+    const [fromBase, toBase] = [baseName(from), baseName(to)];
+    if (fromBase === toBase || !output.name.startsWith(fromBase)) return output;
+    return new File([output], toBase + output.name.slice(fromBase.length), { type: output.type, lastModified: output.lastModified });
+};
 
-const getAIPdfReport = async (originalSize: number, newSize: number, mode?: 'lossless' | 'lossy') => {
-    if (!ai) throw new Error("AI Client not initialized.");
-    const reduction = (((originalSize - newSize) / originalSize) * 100).toFixed(0);
-    let prompt = `Generate a brief, encouraging compression report for a PDF file. Original size: ${formatBytes(originalSize)}, new size: ${formatBytes(newSize)}. Percentage saved: ${reduction}%.`;
-    
-    if (mode === 'lossless') {
-        prompt += ` Mention that document fidelity and quality are perfectly preserved.`;
-    } else {
-        prompt += ` Mention that readability is preserved, making it great for sharing.`;
+// A kept duplicate takes over the original's analysis and settings, and its
+// output too if it's finished. Undefined while the original hasn't been
+// analysed, so the copy has to be analysed on its own.
+const reuseResults = (copy: AppFile, original: AppFile): AppFile | undefined => {
+    if (!original.recommendationReason) return undefined;
+    const identity = { id: copy.id, file: copy.file, relativePath: copy.relativePath, contentHash: copy.contentHash, duplicateOf: undefined, progress: undefined, progressStage: undefined };
+    if (original.status === 'done' && original.compressedFile) {
+        const rename = (output: File) => renameOutput(output, original.file.name, copy.file.name);
+        const responsiveSet = original.responsiveSet && { ...renameVariants(original.responsiveSet, variant => rename(variant).name), sourceName: copy.file.name };
+        return { ...original, ...identity, compressedFile: rename(original.compressedFile), responsiveSet };
     }
-    
-    prompt += ` Keep it under 25 words.`;
-    
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt
-    });
+    return {
+        ...original, ...identity, status: 'pending', errorMessage: undefined,
+        compressedFile: undefined, compressedSize: undefined, aiReport: undefined, compressionDetails: undefined, formatCandidates: undefined, svgStats: undefined, qualityMetrics: undefined, responsiveSet: undefined,
+    };
+};
 
-    return response.text;
-}
+// --- Responsive Sets ---
+const renameVariants = (set: ResponsiveSet, rename: (variant: File) => string): ResponsiveSet => ({
+    ...set,
+    variants: set.variants.map(variant => {
+        const name = rename(variant.file);
+        return name === variant.file.name ? variant : { ...variant, file: new File([variant.file], name, { type: variant.file.type }) };
+    }),
+});
 
-const compressImage = async (file: File, settings: { targetQuality: number; convertToWebp: boolean; targetWidth?: number; targetHeight?: number }): Promise<Blob> => {
-    const picaInstance = pica();
-    const offScreenCanvas = document.createElement('canvas');
-    const dataUrl = await fileToDataURL(file);
-    const image = new Image();
-    
-    await new Promise<void>((resolve, reject) => {
-        image.onload = () => resolve();
-        image.onerror = reject;
-        image.src = dataUrl;
-    });
+// The <picture> snippet and JSON manifest that go next to a set's files.
+const responsiveDocs = (set: ResponsiveSet, sizes?: string): ArchiveEntry[] => {
+    const base = baseName(set.sourceName);
+    return [
+        { name: `${base}.html`, data: new Blob([`${pictureMarkup(set, { sizes })}\n`], { type: 'text/html' }), deflate: true },
+        { name: `${base}.srcset.json`, data: new Blob([JSON.stringify(responsiveManifest(set, sizes), null, 2)], { type: 'application/json' }), deflate: true },
+    ];
+};
 
-    offScreenCanvas.width = settings.targetWidth || image.width;
-    offScreenCanvas.height = settings.targetHeight || image.height;
+// --- Download Archive ---
+interface ManifestEntry {
+    originalName: string;
+    outputName: string;
+    // Every file of a responsive set; `outputName` is its fallback image.
+    variants?: string[];
+    originalSize: number;
+    compressedSize: number;
+    settings: {
+        format?: OutputFormat;
+        quality?: number;
+        width?: number;
+        height?: number;
+        passes?: number;
+        targetBytes?: number;
+        targetMet?: boolean;
+        pdfMode?: PdfCompressionMode;
+        pdfColor?: PdfColorMode;
+        // Where the page tools took this PDF's pages from.
+        pdfSource?: string;
+        svgPrecision?: number;
+        svgStats?: SvgOptimizeStats;
+        provider?: ProviderId;
+        metadataPolicy?: MetadataPolicy;
+        metadataRemoved?: string[];
+    };
+    aiReasoning: {
+        recommendation?: string;
+        settings?: string;
+        report?: string;
+    };
+}
 
-    await picaInstance.resize(image, offScreenCanvas);
+// What made each kind of output: encoder settings for images, the optimizer's
+// for SVGs and PDFs.
+const manifestSettings = (appFile: AppFile): ManifestEntry['settings'] => {
+    const details = appFile.compressionDetails;
+    if (details) {
+        return { format: details.format, quality: details.quality, width: details.width, height: details.height, passes: details.passes, targetBytes: details.targetBytes, targetMet: details.targetMet, provider: details.provider, metadataPolicy: details.metadata?.policy, metadataRemoved: details.metadata?.removed };
+    }
+    if (isVectorImage(appFile.file)) {
+        return { svgPrecision: appFile.svgPrecision ?? SVG_PRECISION, svgStats: appFile.svgStats };
+    }
+    return { pdfMode: appFile.pdfCompressionMode ?? 'lossy', pdfColor: appFile.pdfColorMode ?? 'color', pdfSource: appFile.pdfSource };
+};
 
-    const mimeType = settings.convertToWebp ? 'image/webp' : 'image/jpeg';
-    const quality = settings.targetQuality / 100;
+// Packs every finished file into one ZIP next to a manifest.json and a
+// manifest.csv, each in the folder its original came from. Outputs that end
+// up with the same path get a numeric suffix. Responsive sets bring all their
+// variants, markup and set manifest.
+const buildDownloadArchive = (files: AppFile[]): ArchiveEntry[] => {
+    const usedNames = new Set(['manifest.json', 'manifest.csv']);
+    const entries: ArchiveEntry[] = [];
+    const manifest: ManifestEntry[] = [];
 
-    const compressedDataUrl = await picaInstance.toBlob(offScreenCanvas, mimeType, quality).then(blob => {
-        return new Promise<string>(resolve => {
-            const reader = new FileReader();
-            reader.onload = () => resolve(reader.result as string);
-            reader.readAsDataURL(blob);
+    files.forEach(appFile => {
+        if (appFile.status !== 'done' || !appFile.compressedFile) return;
+        const folder = outputPath(sourcePath(appFile), '');
+        let outputName: string;
+        let variants: string[] | undefined;
+        if (appFile.responsiveSet) {
+            // Renamed before the markup is written, so it points at the files as packed.
+            const set = renameVariants(appFile.responsiveSet, variant => uniqueFileName(folder + variant.name, usedNames).slice(folder.length));
+            variants = set.variants.map(variant => folder + variant.file.name);
+            set.variants.forEach(variant => entries.push({ name: folder + variant.file.name, data: variant.file }));
+            responsiveDocs(set, appFile.responsiveSizes).forEach(doc => entries.push({ ...doc, name: uniqueFileName(folder + doc.name, usedNames) }));
+            outputName = folder + fallbackVariant(set).file.name;
+        } else {
+            outputName = uniqueFileName(folder + appFile.compressedFile.name, usedNames);
+            entries.push({ name: outputName, data: appFile.compressedFile });
+        }
+        manifest.push({
+            originalName: sourcePath(appFile),
+            outputName,
+            variants,
+            originalSize: appFile.file.size,
+            compressedSize: appFile.compressedFile.size,
+            settings: manifestSettings(appFile),
+            aiReasoning: {
+                recommendation: appFile.recommendationReason,
+                settings: appFile.compressionSettings?.recommendation,
+                report: appFile.aiReport,
+            },
         });
     });
 
-    return dataURLtoBlob(compressedDataUrl);
+    const csv = toCsv([
+        ['original_name', 'output_name', 'original_size', 'compressed_size', 'format', 'quality', 'width', 'height', 'target_bytes', 'target_met', 'pdf_mode', 'pdf_color', 'pdf_source', 'svg_precision', 'provider', 'metadata_policy', 'metadata_removed', 'ai_recommendation', 'ai_settings', 'ai_report'],
+        ...manifest.map(({ originalName, outputName, originalSize, compressedSize, settings, aiReasoning }) => [
+            originalName, outputName, originalSize, compressedSize,
+            settings.format, settings.quality, settings.width, settings.height, settings.targetBytes,
+            settings.targetMet === undefined ? undefined : String(settings.targetMet),
+            settings.pdfMode, settings.pdfColor, settings.pdfSource, settings.svgPrecision, settings.provider, settings.metadataPolicy, settings.metadataRemoved?.join('; '),
+            aiReasoning.recommendation, aiReasoning.settings, aiReasoning.report,
+        ]),
+    ]);
+
+    return [
+        ...entries,
+        { name: 'manifest.json', data: new Blob([JSON.stringify({ createdAt: new Date().toISOString(), files: manifest }, null, 2)], { type: 'application/json' }), deflate: true },
+        { name: 'manifest.csv', data: new Blob([csv], { type: 'text/csv' }), deflate: true },
+    ];
 };
 
+// --- Persistence ---
+// Files mid-analysis or mid-job aren't saved in that state; a reload brings
+// back the last settled version instead.
+const TRANSIENT_STATUSES: FileStatus[] = ['analyzing', 'queued', 'compressing'];
 
-// --- Types ---
-type FileStatus = 'analyzing' | 'pending' | 'compressing' | 'done' | 'error';
-type PdfCompressionMode = 'lossless' | 'lossy';
+type PersistedFile = Omit<AppFile, 'progress' | 'progressStage'>;
 
-interface AppFile {
+const toPersistedFile = ({ progress, progressStage, ...appFile }: AppFile): PersistedFile => appFile;
+
+type FileSettings = Pick<AppFile, 'smartResize' | 'targetSizeInput' | 'targetUnit' | 'outputFormatChoice' | 'maxWidth' | 'maxHeight' | 'crop' | 'cropAspect' | 'resize' | 'resampling' | 'metadataPolicy' | 'svgPrecision' | 'pdfCompressionMode' | 'pdfColorMode' | 'responsive' | 'responsiveWidths' | 'responsiveFormats' | 'responsiveSizes'>;
+
+interface HistoryEntry {
     id: string;
-    file: File;
-    status: FileStatus;
-    // Image specific
-    smartResize: boolean;
-    targetSizeInput?: string;
-    targetUnit?: 'KB' | 'MB';
-    // PDF specific
-    pdfCompressionMode?: PdfCompressionMode;
-    recommendedPdfMode?: PdfCompressionMode;
-    // General
+    createdAt: number;
+    originalFile: File;
+    relativePath?: string;
+    contentHash?: string;
+    compressedFile: File;
+    settings: FileSettings;
     recommendedSize?: number;
     recommendationReason?: string;
-    compressedFile?: File;
-    compressedSize?: number;
+    recommendationProvider?: ProviderId;
+    compressionDetails?: CompressionDetails;
     aiReport?: string;
-    errorMessage?: string;
 }
 
+const DEFAULT_HISTORY_QUOTA_MB = 500;
+const HISTORY_QUOTA_KEY = 'whilo.historyQuotaMb';
+
+const loadHistoryQuota = (): number => {
+    const stored = parseFloat(localStorage.getItem(HISTORY_QUOTA_KEY) || '');
+    return stored > 0 ? stored : DEFAULT_HISTORY_QUOTA_MB;
+};
+
+const historyEntrySize = (entry: HistoryEntry) => entry.originalFile.size + entry.compressedFile.size;
+
+const createHistoryEntry = (appFile: AppFile): HistoryEntry => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: Date.now(),
+    originalFile: appFile.file,
+    relativePath: appFile.relativePath,
+    contentHash: appFile.contentHash,
+    compressedFile: appFile.compressedFile!,
+    settings: {
+        smartResize: appFile.smartResize,
+        targetSizeInput: appFile.targetSizeInput,
+        targetUnit: appFile.targetUnit,
+        outputFormatChoice: appFile.outputFormatChoice,
+        maxWidth: appFile.maxWidth,
+        maxHeight: appFile.maxHeight,
+        crop: appFile.crop,
+        cropAspect: appFile.cropAspect,
+        resize: appFile.resize,
+        resampling: appFile.resampling,
+        metadataPolicy: appFile.metadataPolicy,
+        svgPrecision: appFile.svgPrecision,
+        pdfCompressionMode: appFile.pdfCompressionMode,
+        pdfColorMode: appFile.pdfColorMode,
+        responsive: appFile.responsive,
+        responsiveWidths: appFile.responsiveWidths,
+        responsiveFormats: appFile.responsiveFormats,
+        responsiveSizes: appFile.responsiveSizes,
+    },
+    recommendedSize: appFile.recommendedSize,
+    recommendationReason: appFile.recommendationReason,
+    recommendationProvider: appFile.recommendationProvider,
+    compressionDetails: appFile.compressionDetails,
+    aiReport: appFile.aiReport,
+});
+
+// A duplicate of something compressed before gets that earlier output back.
+const reuseHistoryEntry = (copy: AppFile, entry: HistoryEntry): AppFile => ({
+    ...copy,
+    ...entry.settings,
+    status: 'done',
+    duplicateOf: undefined,
+    recommendedSize: entry.recommendedSize,
+    recommendationReason: entry.recommendationReason,
+    recommendationProvider: entry.recommendationProvider,
+    compressedFile: renameOutput(entry.compressedFile, entry.originalFile.name, copy.file.name),
+    compressedSize: entry.compressedFile.size,
+    compressionDetails: entry.compressionDetails,
+    aiReport: entry.aiReport,
+});
+
+// The oldest entries that have to go for the rest to fit in the quota. The
+// newest entry always stays, even if it's bigger than the quota on its own.
+const entriesOverQuota = (entries: HistoryEntry[], quotaBytes: number): HistoryEntry[] => {
+    const oldestFirst = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+    let total = oldestFirst.reduce((sum, entry) => sum + historyEntrySize(entry), 0);
+    const evicted: HistoryEntry[] = [];
+    for (const entry of oldestFirst.slice(0, -1)) {
+        if (total <= quotaBytes) break;
+        evicted.push(entry);
+        total -= historyEntrySize(entry);
+    }
+    return evicted;
+};
+
+const describeMetadata = ({ orientation, removed, kept }: MetadataSummary, { t }: I18n): string => {
+    const parts = [
+        orientation ? t('metadata.orientation') : null,
+        removed.length ? t('metadata.removed', { tags: removed.join(', ') }) : null,
+        kept.length ? t('metadata.kept', { tags: kept.join(', ') }) : null,
+    ].filter(Boolean);
+    return parts.length ? t('metadata.summary', { parts: parts.join(' · ') }) : t('metadata.noneFound');
+};
+
+const describeStage = (stage: CompressionStage, { t }: I18n): string => stage.step === 'variant'
+    ? t('progress.variant', { width: stage.width, format: t(`format.${stage.format}`) })
+    : t(`progress.${stage.step}`);
+
+// Why an AI call gave no answer. Errors the core doesn't recognise keep their own message.
+const describeAIFailure = (error: AIErrorInfo, { t }: I18n): string => error.kind === 'failed'
+    ? t('ai.error.failed', { message: error.message })
+    : t(`ai.error.${error.kind}`, { status: error.status ?? '' });
+
+const describeFallback = ({ provider, error }: AIFallback, i18n: I18n): string => error
+    ? i18n.t('ai.providerFailed', { provider: i18n.t(`provider.${provider}`), reason: describeAIFailure(error, i18n) })
+    : i18n.t('ai.offline');
+
+// --- Localization ---
+interface I18n {
+    locale: Locale;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    tp: (key: PluralKey, count: number, params?: MessageParams) => string;
+    // Like t, with elements in place of some placeholders.
+    rich: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+}
+
+const createI18n = (locale: Locale): I18n => ({
+    locale,
+    t: (key, params) => translate(locale, key, params),
+    tp: (key, count, params) => translatePlural(locale, key, count, params),
+    rich: (key, params) => messageParts(locale, key).map((part, i) => <React.Fragment key={i}>{i % 2 ? params[part] : part}</React.Fragment>),
+});
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+const useI18n = () => useContext(I18nContext);
+
 // --- React Components ---
 
+const asIs = async (file: Blob) => file;
+
+// An object URL an <img> can show for `file`, made by `load`: the file itself
+// by default, or a converted copy for formats browsers can't display.
+const useDisplayUrl = (file: Blob | undefined, load: (file: File) => Promise<Blob | undefined> = asIs) => {
+    const [url, setUrl] = useState<string>();
+    useEffect(() => {
+        if (!file) return;
+        let cancelled = false;
+        let objectUrl: string | undefined;
+        load(file as File)
+            .then(blob => {
+                if (cancelled || !blob) return;
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            })
+            .catch(error => console.warn("Couldn't prepare an image for display:", error));
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            setUrl(undefined);
+        };
+    }, [file, load]);
+    return url;
+};
+
+// The geometry a file or preset can carry. Presets never hold an explicit crop.
+type GeometryPatch = Pick<AppFile, 'crop' | 'cropAspect' | 'resize' | 'resampling'>;
+
+type SizeMode = 'original' | 'exact' | 'percent';
+
+const sizeModeOf = (resize?: ManualResize): SizeMode => resize?.width || resize?.height ? 'exact' : resize?.scalePercent ? 'percent' : 'original';
+
+const parseOptional = (value: string, min = 0): number | undefined => {
+    const number = parseFloat(value);
+    return number >= min && isFinite(number) ? number : undefined;
+};
+
+// Manual size, crop ratio and resampling. `source` is the image size after
+// any crop; an aspect-locked side is worked out from it.
+const ResizeControls: FC<{
+    idPrefix: string;
+    resize?: ManualResize;
+    crop?: CropRect;
+    cropAspect?: number;
+    resampling?: ResamplingOptions;
+    source?: { width: number; height: number };
+    onChange: (patch: GeometryPatch) => void;
+    cropActions?: React.ReactNode;
+}> = ({ idPrefix, crop, cropAspect, source, onChange, cropActions, ...props }) => {
+    const { t } = useI18n();
+    const resize: ManualResize = props.resize ?? {};
+    const resampling: ResamplingOptions = props.resampling ?? {};
+    // Kept locally so "Exact size" stays selected before any size is typed.
+    const [mode, setMode] = useState<SizeMode>(sizeModeOf(resize));
+    // Follows changes from outside, like a preset being applied.
+    useEffect(() => {
+        if (!props.resize) setMode('original');
+        else if (sizeModeOf(props.resize) !== 'original') setMode(sizeModeOf(props.resize));
+    }, [props.resize]);
+    const lockAspect = resize.lockAspect !== false;
+    const setResize = (patch: Partial<ManualResize>) => onChange({ resize: { ...resize, ...patch } });
+    const setResampling = (patch: Partial<ResamplingOptions>) => onChange({ resampling: { ...resampling, ...patch } });
+
+    const handleModeChange = (next: SizeMode) => {
+        setMode(next);
+        const { maxLongEdge } = resize;
+        if (next === 'exact') onChange({ resize: { maxLongEdge, lockAspect: true, width: source?.width, height: source?.height } });
+        else if (next === 'percent') onChange({ resize: { maxLongEdge, scalePercent: 50 } });
+        else onChange({ resize: { maxLongEdge } });
+    };
+
+    // With the aspect locked, typing one side fills in the other.
+    const handleSideChange = (side: 'width' | 'height', value?: number) => {
+        const pixels = value && Math.round(value);
+        if (!lockAspect || !source || !pixels) return setResize({ [side]: pixels });
+        if (side === 'width') setResize({ width: pixels, height: Math.max(1, Math.round(pixels * source.height / source.width)) });
+        else setResize({ height: pixels, width: Math.max(1, Math.round(pixels * source.width / source.height)) });
+    };
+
+    return (
+        <div className="resize-controls">
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-size`}>{t('resize.size')}</label>
+                <select id={`${idPrefix}-size`} className="resize-input" value={mode} onChange={(e) => handleModeChange(e.target.value as SizeMode)}>
+                    <option value="original">{t('resize.original')}</option>
+                    <option value="exact">{t('resize.exact')}</option>
+                    <option value="percent">{t('resize.percent')}</option>
+                </select>
+                {mode === 'exact' && (
+                    <>
+                        <input type="number" min="1" className="resize-input" placeholder={t('resize.width')} aria-label={t('resize.width')} value={resize.width ?? ''} onChange={(e) => handleSideChange('width', parseOptional(e.target.value, 1))} />
+                        <span>×</span>
+                        <input type="number" min="1" className="resize-input" placeholder={t('resize.height')} aria-label={t('resize.height')} value={resize.height ?? ''} onChange={(e) => handleSideChange('height', parseOptional(e.target.value, 1))} />
+                        <label className="resize-lock" title={lockAspect ? t('resize.locked') : t('resize.stretch')}>
+                            <input type="checkbox" checked={lockAspect} onChange={(e) => setResize({ lockAspect: e.target.checked })} />
+                            🔒
+                        </label>
+                    </>
+                )}
+                {mode === 'percent' && (
+                    <>
+                        <input type="number" min="1" max="400" className="resize-input" aria-label={t('resize.scalePercent')} value={resize.scalePercent ?? ''} onChange={(e) => setResize({ scalePercent: parseOptional(e.target.value, 1) })} />
+                        <span>%</span>
+                    </>
+                )}
+            </div>
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-long-edge`}>{t('resize.maxLongEdge')}</label>
+                <input type="number" min="1" id={`${idPrefix}-long-edge`} className="resize-input" placeholder={t('common.none')} value={resize.maxLongEdge ?? ''} onChange={(e) => setResize({ maxLongEdge: parseOptional(e.target.value, 1) && Math.round(parseFloat(e.target.value)) })} />
+                <span>px</span>
+            </div>
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-crop`}>{t('resize.crop')}</label>
+                <select id={`${idPrefix}-crop`} className="resize-input" value={crop && !cropAspect ? 'custom' : cropAspect ?? ''} onChange={(e) => onChange({ crop: undefined, cropAspect: parseOptional(e.target.value) || undefined })}>
+                    <option value="">{t('common.none')}</option>
+                    {crop && !cropAspect && <option value="custom">{t('resize.custom')}</option>}
+                    {CROP_ASPECTS.map(aspect => <option key={aspect.id} value={aspect.ratio}>{t(`crop.aspect.${aspect.id}`)}</option>)}
+                </select>
+                {cropActions}
+            </div>
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-filter`}>{t('resize.filter')}</label>
+                <select id={`${idPrefix}-filter`} className="resize-input" value={resampling.filter ?? 'mks2013'} onChange={(e) => setResampling({ filter: e.target.value as ResizeFilter })}>
+                    {(Object.keys(RESIZE_FILTERS) as ResizeFilter[]).map(filter => <option key={filter} value={filter}>{t(`resize.filter.${filter}`)}</option>)}
+                </select>
+            </div>
+            <div className="resize-row">
+                <label title={t('resize.unsharpTitle')}>{t('resize.unsharp')}</label>
+                <input type="number" min="0" max="500" className="resize-input" placeholder={t('resize.amount')} aria-label={t('resize.unsharpAmount')} value={resampling.unsharpAmount ?? ''} onChange={(e) => setResampling({ unsharpAmount: parseOptional(e.target.value) })} />
+                <input type="number" min="0.5" max="2" step="0.1" className="resize-input" placeholder={t('resize.radius')} aria-label={t('resize.unsharpRadius')} value={resampling.unsharpRadius ?? ''} onChange={(e) => setResampling({ unsharpRadius: parseOptional(e.target.value) })} />
+                <input type="number" min="0" max="255" className="resize-input" placeholder={t('resize.threshold')} aria-label={t('resize.unsharpThreshold')} value={resampling.unsharpThreshold ?? ''} onChange={(e) => setResampling({ unsharpThreshold: parseOptional(e.target.value) })} />
+            </div>
+        </div>
+    );
+};
+
+// --- Responsive Sets ---
+type ResponsivePatch = Pick<AppFile, 'responsiveWidths' | 'responsiveFormats' | 'responsiveSizes'>;
+
+// Breakpoints, formats and the sizes attribute for a responsive set. Asks
+// for breakpoints as soon as it opens without any.
+const ResponsiveControls: FC<{
+    idPrefix: string;
+    widths?: number[];
+    formats?: OutputFormat[];
+    sizes?: string;
+    reason?: string;
+    provider?: ProviderId;
+    animated?: boolean;
+    onChange: (patch: ResponsivePatch) => void;
+    onSuggest: () => Promise<void>;
+}> = ({ idPrefix, widths, sizes, reason, provider, animated, onChange, onSuggest, ...props }) => {
+    const { t } = useI18n();
+    const formats = props.formats ?? DEFAULT_RESPONSIVE_FORMATS;
+    // Typed freely and only parsed on blur, so "480, " isn't tidied away mid-edit.
+    const [widthsText, setWidthsText] = useState(widths?.join(', ') ?? '');
+    const [suggesting, setSuggesting] = useState(false);
+    useEffect(() => setWidthsText(widths?.join(', ') ?? ''), [widths]);
+
+    const suggest = () => {
+        setSuggesting(true);
+        onSuggest().finally(() => setSuggesting(false));
+    };
+    // Only on opening; a field emptied later is the user's choice.
+    useEffect(() => {
+        if (!widths?.length) suggest();
+    }, []);
+
+    const toggleFormat = (format: OutputFormat, checked: boolean) => {
+        onChange({ responsiveFormats: checked ? [...formats, format] : formats.filter(f => f !== format) });
+    };
+
+    return (
+        <div className="resize-controls">
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-widths`}>{t('responsive.widths')}</label>
+                <input type="text" id={`${idPrefix}-widths`} className="resize-input" placeholder={t('responsive.widthsPlaceholder')} value={widthsText} onChange={(e) => setWidthsText(e.target.value)} onBlur={() => onChange({ responsiveWidths: parseBreakpoints(widthsText) })} />
+                <button className="link-button" disabled={suggesting} onClick={suggest}>{suggesting ? t('responsive.suggesting') : t('responsive.suggest')}</button>
+            </div>
+            {reason && <p className="compression-details">{reason}{provider && ` · ${t('common.via', { provider: t(`provider.${provider}`) })}`}</p>}
+            {animated ? (
+                <p className="compression-details">{t('responsive.animated')}</p>
+            ) : (
+                <div className="resize-row">
+                    <label>{t('responsive.formats')}</label>
+                    {OUTPUT_FORMAT_NAMES.map(format => (
+                        <label key={format} className="resize-lock">
+                            <input type="checkbox" checked={formats.includes(format)} onChange={(e) => toggleFormat(format, e.target.checked)} />
+                            {t(`format.${format}`)}
+                        </label>
+                    ))}
+                </div>
+            )}
+            <div className="resize-row">
+                <label htmlFor={`${idPrefix}-sizes`} title={t('responsive.sizesTitle')}>{t('responsive.sizes')}</label>
+                <input type="text" id={`${idPrefix}-sizes`} className="resize-input" placeholder={DEFAULT_SIZES} value={sizes ?? ''} onChange={(e) => onChange({ responsiveSizes: e.target.value || undefined })} />
+            </div>
+            <p className="compression-details">{t('responsive.note')}</p>
+        </div>
+    );
+};
+
+// Every variant's size by width and format, with the markup and manifest to copy.
+const ResponsiveSetResult: FC<{ set: ResponsiveSet; sizes?: string }> = ({ set, sizes }) => {
+    const { t, tp } = useI18n();
+    const [copied, setCopied] = useState<string>();
+    const [archiveError, setArchiveError] = useState<string>();
+    const markup = pictureMarkup(set, { sizes });
+    const formats = set.formats.filter(format => set.variants.some(variant => variant.format === format));
+    const widths = [...new Set(set.variants.map(variant => variant.width))];
+    const totalSize = set.variants.reduce((sum, variant) => sum + variant.file.size, 0);
+
+    const copy = (label: string, text: string) => {
+        navigator.clipboard.writeText(text)
+            .then(() => setCopied(label))
+            .catch(error => console.error("Couldn't copy to the clipboard:", error));
+    };
+
+    const download = () => {
+        setArchiveError(undefined);
+        const entries = [...set.variants.map(variant => ({ name: variant.file.name, data: variant.file })), ...responsiveDocs(set, sizes)];
+        saveZip(entries, `${baseName(set.sourceName)}-responsive.zip`).catch(error => {
+            console.error("Failed to build ZIP:", error);
+            setArchiveError(error instanceof Error ? t('common.zipFailedWith', { message: error.message }) : t('common.zipFailed'));
+        });
+    };
+
+    return (
+        <div className="responsive-result">
+            <p className="compression-details">{tp('responsive.summary', set.variants.length, { size: formatBytes(totalSize) })}</p>
+            <table className="format-candidates">
+                <thead>
+                    <tr><th>{t('responsive.width')}</th>{formats.map(format => <th key={format}>{t(`format.${format}`)}</th>)}</tr>
+                </thead>
+                <tbody>
+                    {widths.map(width => (
+                        <tr key={width}>
+                            <td>{width}px</td>
+                            {formats.map(format => {
+                                const variant = set.variants.find(v => v.width === width && v.format === format);
+                                return <td key={format}>{variant ? formatBytes(variant.file.size) : '–'}</td>;
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <pre className="markup-snippet">{markup}</pre>
+            <div className="cancelled-actions">
+                <button className="button button-tertiary" onClick={() => copy('html', markup)}>{copied === 'html' ? t('common.copied') : t('responsive.copyHtml')}</button>
+                <button className="button button-tertiary" onClick={() => copy('json', JSON.stringify(responsiveManifest(set, sizes), null, 2))}>{copied === 'json' ? t('common.copied') : t('responsive.copyJson')}</button>
+            </div>
+            <button className="button button-secondary" onClick={download}>{t('responsive.download')}</button>
+            {archiveError && <p className="global-actions-error">{archiveError}</p>}
+        </div>
+    );
+};
+
 const FileCard: FC<{ 
     appFile: AppFile;
     index: number;
     onCompress: (id: string) => void; 
     onToggleSmartResize: (id: string, checked: boolean) => void;
     onTargetSizeChange: (id: string, value: string, unit: 'KB' | 'MB') => void;
+    onOutputFormatChoiceChange: (id: string, choice: OutputFormatChoice) => void;
+    onMetadataPolicyChange: (id: string, policy: MetadataPolicy) => void;
+    onGeometryChange: (id: string, patch: GeometryPatch) => void;
+    onEditCrop: (id: string) => void;
+    onSelectFormat: (id: string, format: OutputFormat) => void;
     onPdfModeChange: (id: string, mode: PdfCompressionMode) => void;
+    onPdfColorChange: (id: string, color: PdfColorMode) => void;
+    onEditPdf: (id: string) => void;
+    onSvgPrecisionChange: (id: string, precision: number) => void;
+    onCancel: (id: string) => void;
+    onCompare: (id: string) => void;
     onRemove: (id: string) => void;
-}> = ({ appFile, index, onCompress, onToggleSmartResize, onTargetSizeChange, onPdfModeChange, onRemove }) => {
-    const { file, status, compressedFile, compressedSize, aiReport, errorMessage, smartResize, recommendedSize, recommendationReason, targetSizeInput, targetUnit, pdfCompressionMode, recommendedPdfMode } = appFile;
+    onKeepDuplicate: (id: string) => void;
+    onToggleResponsive: (id: string, checked: boolean) => void;
+    onResponsiveChange: (id: string, patch: ResponsivePatch) => void;
+    onSuggestBreakpoints: (id: string) => Promise<void>;
+}> = ({ appFile, index, onCompress, onToggleSmartResize, onTargetSizeChange, onOutputFormatChoiceChange, onMetadataPolicyChange, onGeometryChange, onEditCrop, onSelectFormat, onPdfModeChange, onPdfColorChange, onEditPdf, onSvgPrecisionChange, onCancel, onCompare, onRemove, onKeepDuplicate, onToggleResponsive, onResponsiveChange, onSuggestBreakpoints }) => {
+    const i18n = useI18n();
+    const { t, tp, rich } = i18n;
+    const { file, status, compressedFile, compressedSize, aiReport, errorMessage, smartResize, recommendedSize, recommendationReason, recommendationProvider, recommendationFallback, targetSizeInput, targetUnit, pdfCompressionMode, recommendedPdfMode, compressionDetails, outputFormatChoice, formatCandidates, maxWidth, maxHeight, metadataPolicy, progress, progressStage, contentAnalysis } = appFile;
     const originalSize = file.size;
     const newSize = compressedSize;
+    // The compression step may classify again; its answer is the one the settings used.
+    const contentType = appFile.compressionSettings?.contentType || contentAnalysis?.contentType;
+    const regionLabels = contentAnalysis?.regions.map(region => region.label) || [];
+    const { dimensions, crop, cropAspect, animated, svgStats, duplicateOf, responsive, responsiveSet } = appFile;
+    const path = sourcePath(appFile);
+    const previewUrl = useDisplayUrl(file.type.startsWith('image/') ? file : undefined, displaysNatively(file) ? asIs : getThumbnail);
+    const cropped = dimensions && (cropRegion(dimensions, appFile) ?? dimensions);
+    const output = cropped && outputDimensions(cropped, appFile);
 
     const renderStatus = () => {
         switch (status) {
             case 'analyzing':
-                return <div className="analyzing-status"><span>✨</span><span>Analyzing...</span></div>;
+                return <div className="analyzing-status"><span>✨</span><span>{t('card.analyzing')}</span></div>;
             case 'pending':
                 return (
                     <div className="pending-actions">
                          {recommendedSize && recommendationReason && (
                             <div className="ai-suggestion">
-                                <p>💡 AI Suggests: <strong>~{formatBytes(recommendedSize)}</strong></p>
+                                <p>{rich('card.aiSuggests', { size: <strong>~{formatBytes(recommendedSize)}</strong> })}</p>
                                 <span>{recommendationReason}</span>
+                                {recommendationProvider && <small className="provider-badge">{t('common.via', { provider: t(`provider.${recommendationProvider}`) })}{recommendationFallback && ` · ${describeFallback(recommendationFallback, i18n)}`}</small>}
                             </div>
                          )}
-                         {file.type.startsWith('image/') && (
+                         {isRasterImage(file) && (
                             <>
-                                <div className="target-size-input-container">
-                                    <label htmlFor={`target-size-${appFile.id}`}>Target</label>
+                                <div className="smart-resize-option" onClick={() => onToggleResponsive(appFile.id, !responsive)}>
                                     <input
-                                        type="number"
-                                        min="0"
-                                        id={`target-size-${appFile.id}`}
-                                        className="target-size-input"
-                                        value={targetSizeInput}
-                                        placeholder="Auto"
-                                        onChange={(e) => onTargetSizeChange(appFile.id, e.target.value, targetUnit || 'KB')}
+                                        type="checkbox"
+                                        id={`responsive-${appFile.id}`}
+                                        checked={!!responsive}
+                                        onChange={(e) => onToggleResponsive(appFile.id, e.target.checked)}
+                                    />
+                                    <label htmlFor={`responsive-${appFile.id}`}>{t('responsive.toggle')}</label>
+                                </div>
+                                {responsive ? (
+                                    <ResponsiveControls
+                                        idPrefix={`responsive-${appFile.id}`}
+                                        widths={appFile.responsiveWidths}
+                                        formats={appFile.responsiveFormats}
+                                        sizes={appFile.responsiveSizes}
+                                        reason={appFile.breakpointReason}
+                                        provider={appFile.breakpointProvider}
+                                        animated={animated}
+                                        onChange={(patch) => onResponsiveChange(appFile.id, patch)}
+                                        onSuggest={() => onSuggestBreakpoints(appFile.id)}
                                     />
+                                ) : (
+                                    <>
+                                    <div className="target-size-input-container">
+                                        <label htmlFor={`target-size-${appFile.id}`}>{t('card.target')}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            id={`target-size-${appFile.id}`}
+                                            className="target-size-input"
+                                            value={targetSizeInput}
+                                            placeholder={t('card.auto')}
+                                            onChange={(e) => onTargetSizeChange(appFile.id, e.target.value, targetUnit || 'KB')}
+                                        />
+                                        <select
+                                            className="target-unit-select"
+                                            value={targetUnit || 'KB'}
+                                            onChange={(e) => onTargetSizeChange(appFile.id, targetSizeInput || '', e.target.value as 'KB' | 'MB')}
+                                        >
+                                            <option value="KB">KB</option>
+                                            <option value="MB">MB</option>
+                                        </select>
+                                    </div>
+                                    {animated ? (
+                                        <p className="compression-details">{t('card.animatedGif')}</p>
+                                    ) : (
+                                        <div className="format-select-container">
+                                            <label htmlFor={`format-${appFile.id}`}>{t('card.format')}</label>
+                                            <select
+                                                id={`format-${appFile.id}`}
+                                                className="format-select"
+                                                value={outputFormatChoice || 'ai'}
+                                                onChange={(e) => onOutputFormatChoiceChange(appFile.id, e.target.value as OutputFormatChoice)}
+                                            >
+                                                <option value="ai">{t('card.aiChoice')}</option>
+                                                <option value="best">{t('card.best')}</option>
+                                                {OUTPUT_FORMAT_NAMES.map(format => <option key={format} value={format}>{t(`format.${format}`)}</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div className="smart-resize-option" onClick={() => onToggleSmartResize(appFile.id, !smartResize)}>
+                                        <input
+                                            type="checkbox"
+                                            id={`smart-resize-${appFile.id}`}
+                                            checked={!!smartResize}
+                                            onChange={(e) => onToggleSmartResize(appFile.id, e.target.checked)}
+                                        />
+                                        <label htmlFor={`smart-resize-${appFile.id}`}>{t('card.smartResize')}</label>
+                                    </div>
+                                    </>
+                                )}
+                                <div className="format-select-container">
+                                    <label htmlFor={`metadata-${appFile.id}`}>{t('card.metadata')}</label>
                                     <select
-                                        className="target-unit-select"
-                                        value={targetUnit || 'KB'}
-                                        onChange={(e) => onTargetSizeChange(appFile.id, targetSizeInput || '', e.target.value as 'KB' | 'MB')}
+                                        id={`metadata-${appFile.id}`}
+                                        className="format-select"
+                                        value={metadataPolicy || 'strip-private'}
+                                        onChange={(e) => onMetadataPolicyChange(appFile.id, e.target.value as MetadataPolicy)}
                                     >
-                                        <option value="KB">KB</option>
-                                        <option value="MB">MB</option>
+                                        {(Object.keys(METADATA_POLICY_LABELS) as MetadataPolicy[]).map(policy => <option key={policy} value={policy}>{t(`metadata.${policy}`)}</option>)}
                                     </select>
                                 </div>
-                                <div className="smart-resize-option" onClick={() => onToggleSmartResize(appFile.id, !smartResize)}>
-                                    <input
-                                        type="checkbox"
-                                        id={`smart-resize-${appFile.id}`}
-                                        checked={!!smartResize}
-                                        onChange={(e) => onToggleSmartResize(appFile.id, e.target.checked)}
+                                <details className="resize-panel">
+                                    <summary>{t('card.resizeCrop')}{output && dimensions && (output.width !== dimensions.width || output.height !== dimensions.height) && <small> · {formatNumber(output.width)}×{formatNumber(output.height)}px</small>}</summary>
+                                    <ResizeControls
+                                        idPrefix={`geometry-${appFile.id}`}
+                                        resize={appFile.resize}
+                                        crop={crop}
+                                        cropAspect={cropAspect}
+                                        resampling={appFile.resampling}
+                                        source={cropped}
+                                        onChange={(patch) => onGeometryChange(appFile.id, patch)}
+                                        cropActions={
+                                            <>
+                                                <button className="link-button" disabled={!dimensions} onClick={() => onEditCrop(appFile.id)}>{t('card.adjust')}</button>
+                                                {(crop || cropAspect) && <button className="link-button" onClick={() => onGeometryChange(appFile.id, { crop: undefined, cropAspect: undefined })}>{t('common.clear')}</button>}
+                                            </>
+                                        }
                                     />
-                                    <label htmlFor={`smart-resize-${appFile.id}`}>✨ AI Smart Resize</label>
-                                </div>
+                                    {output && <p className="compression-details">{t(smartResize ? 'card.outputSmart' : 'card.output', { width: output.width, height: output.height })}</p>}
+                                </details>
+                                {(maxWidth || maxHeight) && (
+                                    <p className="compression-details">{t('card.fitsWithin', { width: maxWidth ?? '∞', height: maxHeight ?? '∞' })}</p>
+                                )}
                             </>
                         )}
+                        {isVectorImage(file) && (
+                            <div className="format-select-container">
+                                <label htmlFor={`svg-precision-${appFile.id}`} title={t('card.precisionTitle')}>{t('card.precision')}</label>
+                                <select
+                                    id={`svg-precision-${appFile.id}`}
+                                    className="format-select"
+                                    value={appFile.svgPrecision ?? SVG_PRECISION}
+                                    onChange={(e) => onSvgPrecisionChange(appFile.id, Number(e.target.value))}
+                                >
+                                    {[0, 1, 2, 3, 4, 5].map(digits => <option key={digits} value={digits}>{tp('card.decimals', digits)}</option>)}
+                                </select>
+                            </div>
+                        )}
                         {file.type === 'application/pdf' && (
                            <div className="pdf-options-container">
-                                <p className="options-label">Compression Mode</p>
+                                <p className="options-label">{t('card.compressionMode')}</p>
                                 <div className="radio-group">
                                     <div className="radio-option">
                                         <input type="radio" id={`lossless-${appFile.id}`} name={`mode-${appFile.id}`} value="lossless" checked={pdfCompressionMode === 'lossless'} onChange={(e) => onPdfModeChange(appFile.id, e.target.value as PdfCompressionMode)} />
-                                        <label htmlFor={`lossless-${appFile.id}`}>Lossless</label>
+                                        <label htmlFor={`lossless-${appFile.id}`}>{t('pdf.lossless')}</label>
                                     </div>
                                     <div className="radio-option">
                                         <input type="radio" id={`lossy-${appFile.id}`} name={`mode-${appFile.id}`} value="lossy" checked={pdfCompressionMode === 'lossy'} onChange={(e) => onPdfModeChange(appFile.id, e.target.value as PdfCompressionMode)} />
-                                        <label htmlFor={`lossy-${appFile.id}`}>Lossy</label>
+                                        <label htmlFor={`lossy-${appFile.id}`}>{t('pdf.lossy')}</label>
                                     </div>
                                 </div>
-                                {recommendedPdfMode && <small className="ai-mode-suggestion">💡 AI suggests: <strong>{recommendedPdfMode}</strong></small>}
+                                {recommendedPdfMode && <small className="ai-mode-suggestion">{rich('card.aiSuggestsMode', { mode: <strong>{t(`pdf.${recommendedPdfMode}`)}</strong> })}</small>}
+                                <div className="format-select-container">
+                                    <label htmlFor={`pdf-color-${appFile.id}`}>{t('card.colour')}</label>
+                                    <select
+                                        id={`pdf-color-${appFile.id}`}
+                                        className="format-select"
+                                        value={appFile.pdfColorMode ?? 'color'}
+                                        onChange={(e) => onPdfColorChange(appFile.id, e.target.value as PdfColorMode)}
+                                    >
+                                        {(Object.keys(PDF_COLOR_MODES) as PdfColorMode[]).map(color => <option key={color} value={color}>{t(`pdf.${color}`)}</option>)}
+                                    </select>
+                                </div>
+                                {appFile.pdfSource && <p className="compression-details">{appFile.pdfSource}</p>}
+                                <button className="link-button" onClick={() => onEditPdf(appFile.id)}>{t('card.pdfTools')}</button>
                            </div>
                         )}
-                        <button className="button button-primary" onClick={() => onCompress(appFile.id)}>Compress</button>
+                        <button className="button button-primary" onClick={() => onCompress(appFile.id)}>{t('card.compress')}</button>
                     </div>
                 );
+            case 'queued':
             case 'compressing':
-                return <button className="button button-primary" disabled><div className="loader"></div>AI is thinking...</button>;
+                return (
+                    <div className="progress-status">
+                        <div className="progress-label">
+                            <span>{status === 'queued' ? t('card.queued') : progressStage ? describeStage(progressStage, i18n) : t('card.starting')}</span>
+                            {status === 'compressing' && <span>{formatNumber((progress || 0) * 100)}%</span>}
+                        </div>
+                        <div className="progress-bar">
+                            <div className="progress-bar-fill" style={{ width: `${(progress || 0) * 100}%` }}></div>
+                        </div>
+                        <button className="button button-tertiary" onClick={() => onCancel(appFile.id)}>{t('card.cancel')}</button>
+                    </div>
+                );
             case 'done':
                  if (typeof newSize === 'number') {
-                    const reduction = (((originalSize - newSize) / originalSize) * 100).toFixed(0);
+                    const reduction = formatNumber(((originalSize - newSize) / originalSize) * 100);
+                    if (responsiveSet) {
+                        return (
+                            <div className="compression-status success">
+                                <div className="size-report">
+                                    <span className="original">{formatBytes(originalSize)}</span> → <span className="new">{formatBytes(newSize)}</span> <span className="reduction">-{reduction}%</span>
+                                </div>
+                                <ResponsiveSetResult set={responsiveSet} sizes={appFile.responsiveSizes} />
+                                {aiReport && <p className="ai-report">{aiReport}</p>}
+                                <button className="button button-tertiary" style={{marginTop: '1rem'}} onClick={() => onCompare(appFile.id)}>{t('card.compare')}</button>
+                            </div>
+                        );
+                    }
                     return (
                         <div className="compression-status success">
                             <div className="size-report">
                                 <span className="original">{formatBytes(originalSize)}</span> → <span className="new">{formatBytes(newSize)}</span> <span className="reduction">-{reduction}%</span>
                             </div>
+                            {compressionDetails && (
+                                <p className="compression-details">
+                                    {compressionDetails.frames ? `${t('card.animatedFormat', { format: t(`format.${compressionDetails.format}`) })} · ${tp('card.frames', compressionDetails.frames)}` : t(`format.${compressionDetails.format}`)} · {tp('card.passes', compressionDetails.passes)} · {compressionDetails.format === 'png-quantized' ? t('card.colors', { count: qualityToPaletteSize(compressionDetails.quality) }) : compressionDetails.format === 'png' ? t('card.lossless') : t('card.quality', { quality: compressionDetails.quality })} · {formatNumber(compressionDetails.width)}×{formatNumber(compressionDetails.height)}px
+                                    {compressionDetails.provider && <> · <span title={compressionDetails.fallback && describeFallback(compressionDetails.fallback, i18n)}>{t(compressionDetails.fallback ? 'card.settingsByFallback' : 'card.settingsBy', { provider: t(`provider.${compressionDetails.provider}`) })}</span></>}
+                                </p>
+                            )}
+                            {svgStats && (
+                                <p className="compression-details">SVG · {tp('card.svgElements', svgStats.removedElements)} · {tp('card.svgPaths', svgStats.mergedPaths)}</p>
+                            )}
+                            {compressionDetails?.unchanged && (
+                                <p className="compression-details">{t('card.unchanged')}</p>
+                            )}
+                            {compressionDetails?.requestedFormat && (
+                                <p className="compression-details">{t('card.keptTransparency', { format: t(`format.${compressionDetails.format}`), requested: compressionDetails.requestedFormat && t(`format.${compressionDetails.requestedFormat}`) })}</p>
+                            )}
+                            {compressionDetails?.metadata && (
+                                <p className="compression-details">{describeMetadata(compressionDetails.metadata, i18n)}</p>
+                            )}
+                            {compressionDetails && !compressionDetails.targetMet && compressionDetails.targetBytes && (
+                                <p className="target-missed">{t('card.targetMissed', { size: formatBytes(compressionDetails.targetBytes) })}</p>
+                            )}
+                            {formatCandidates && compressionDetails && (
+                                <table className="format-candidates">
+                                    <thead>
+                                        <tr><th>{t('card.format')}</th><th>{t('card.size')}</th><th></th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {formatCandidates.map(candidate => (
+                                            <tr key={candidate.format} className={candidate.format === compressionDetails.format ? 'selected' : ''}>
+                                                <td>{t(`format.${candidate.format}`)}</td>
+                                                <td>{formatBytes(candidate.size)}</td>
+                                                <td>
+                                                    {candidate.format === compressionDetails.format
+                                                        ? <span>{t('card.using')}</span>
+                                                        : <button className="link-button" onClick={() => onSelectFormat(appFile.id, candidate.format)}>{t('card.use')}</button>}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
                             {aiReport && <p className="ai-report">{aiReport}</p>}
-                            <a href={URL.createObjectURL(compressedFile!)} download={compressedFile!.name} className="button button-secondary" style={{marginTop: '1rem', textDecoration: 'none'}}>Download</a>
+                            {isRasterImage(file) && (
+                                <button className="button button-tertiary" style={{marginTop: '1rem'}} onClick={() => onCompare(appFile.id)}>{t('card.compare')}</button>
+                            )}
+                            <a href={URL.createObjectURL(compressedFile!)} download={compressedFile!.name} className="button button-secondary" style={{marginTop: '1rem', textDecoration: 'none'}}>{t('card.download')}</a>
                         </div>
                     );
                 }
                 return null;
+            case 'cancelled':
+                return (
+                    <div className="compression-status cancelled">
+                        <p>{t('card.cancelled')}</p>
+                        <div className="cancelled-actions">
+                            <button className="button button-secondary" onClick={() => onCompress(appFile.id)}>{t('card.retry')}</button>
+                            <button className="button button-tertiary" onClick={() => onRemove(appFile.id)}>{t('common.clear')}</button>
+                        </div>
+                    </div>
+                );
+            case 'duplicate':
+                return (
+                    <div className="compression-status duplicate">
+                        <p>{rich(duplicateOf?.kind === 'history' ? 'card.sameContentHistory' : 'card.sameContent', { name: <strong>{duplicateOf?.name}</strong> })}</p>
+                        <div className="cancelled-actions">
+                            <button className="button button-secondary" onClick={() => onRemove(appFile.id)}>{t('card.skip')}</button>
+                            <button className="button button-tertiary" onClick={() => onKeepDuplicate(appFile.id)}>{t('card.keepDuplicate')}</button>
+                        </div>
+                    </div>
+                );
             case 'error':
                 return (
                     <div className="compression-status error">
-                        <p>{errorMessage || 'An unknown error occurred.'}</p>
-                        <button className="button button-tertiary" onClick={() => onRemove(appFile.id)}>Clear</button>
+                        <p>{errorMessage || t('common.unknownError')}</p>
+                        <button className="button button-tertiary" onClick={() => onRemove(appFile.id)}>{t('common.clear')}</button>
                     </div>
                 );
         }
@@ -348,7 +1047,7 @@ const FileCard: FC<{
             <div className="file-info">
                 <div className="file-icon-wrapper">
                     {file.type.startsWith('image/') ? (
-                        <img src={URL.createObjectURL(file)} alt={file.name} className="file-icon" />
+                        previewUrl && <img src={previewUrl} alt={file.name} className="file-icon" />
                     ) : (
                         <svg className="file-icon pdf-icon" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
                             <path d="M20 2H8C6.9 2 6 2.9 6 4V16C6 17.1 6.9 18 8 18H20C21.1 18 22 17.1 22 16V4C22 2.9 21.1 2 20 2ZM20 16H8V4H20V16ZM4 6H2V20C2 21.1 2.9 22 4 22H18V20H4V6Z"/>
@@ -356,8 +1055,14 @@ const FileCard: FC<{
                     )}
                 </div>
                 <div className="file-details">
-                    <p className="file-name" title={file.name}>{file.name}</p>
+                    <p className="file-name" title={path}>{path}</p>
                     <p className="file-size">{formatBytes(originalSize)}</p>
+                    {contentType && (
+                        <p className="content-badge" title={regionLabels.length ? t('card.regionsHint', { regions: regionLabels.join(', ') }) : t(`content.${contentType}.description`)}>
+                            {t(`content.${contentType}`)}
+                            {regionLabels.length > 0 && <small> · {t('card.regions', { regions: regionLabels.join(', ') })}</small>}
+                        </p>
+                    )}
                 </div>
             </div>
             <div className="file-actions">
@@ -367,190 +1072,1677 @@ const FileCard: FC<{
     );
 };
 
-const DropZone: FC<{ onFilesAdded: (files: File[]) => void }> = ({ onFilesAdded }) => {
-    const [isDragging, setIsDragging] = useState(false);
+// --- Comparison Viewer ---
+interface ViewTransform {
+    zoom: number;
+    x: number;
+    y: number;
+}
 
-    const handleDrag = (e: React.DragEvent) => {
-        e.preventDefault();
-        e.stopPropagation();
-        if (e.type === 'dragenter' || e.type === 'dragover') {
-            setIsDragging(true);
-        } else if (e.type === 'dragleave') {
-            setIsDragging(false);
-        }
-    };
+type ComparisonView = 'split' | 'side-by-side' | 'difference';
 
-    const handleDrop = (e: React.DragEvent) => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragging(false);
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onFilesAdded(Array.from(e.dataTransfer.files));
-        }
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const FIT_TRANSFORM: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+const layerStyle = ({ zoom, x, y }: ViewTransform): React.CSSProperties => ({
+    transform: `translate(${x}px, ${y}px) scale(${zoom})`,
+});
+
+// Zooms the view by `factor` while keeping the point under (px, py) in place.
+const zoomAround = (transform: ViewTransform, factor: number, px: number, py: number): ViewTransform => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, transform.zoom * factor));
+    if (zoom === MIN_ZOOM) return FIT_TRANSFORM;
+    const ratio = zoom / transform.zoom;
+    return { zoom, x: px - (px - transform.x) * ratio, y: py - (py - transform.y) * ratio };
+};
+
+const describeSimilarity = (ssim: number): MessageKey => {
+    if (ssim >= 0.98) return 'compare.identical';
+    if (ssim >= 0.95) return 'compare.minor';
+    if (ssim >= 0.9) return 'compare.noticeable';
+    return 'compare.strong';
+};
+
+// A pannable, wheel-zoomable frame. Every viewport in the modal shares one
+// transform, so zoom and pan stay in sync across them.
+const ComparisonViewport: FC<{
+    transform: ViewTransform;
+    onTransformChange: (transform: ViewTransform) => void;
+    label?: string;
+    children: React.ReactNode;
+}> = ({ transform, onTransformChange, label, children }) => {
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const transformRef = useRef(transform);
+    const dragRef = useRef<{ startX: number; startY: number; origin: ViewTransform }>();
+    transformRef.current = transform;
+
+    // React registers wheel listeners as passive, so preventDefault needs a native one.
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = viewport.getBoundingClientRect();
+            onTransformChange(zoomAround(transformRef.current, Math.exp(-e.deltaY * 0.002), e.clientX - rect.left, e.clientY - rect.top));
+        };
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, [onTransformChange]);
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (transform.zoom === MIN_ZOOM) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { startX: e.clientX, startY: e.clientY, origin: transform };
     };
-    
-    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files.length > 0) {
-            onFilesAdded(Array.from(e.target.files));
-        }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        onTransformChange({ ...drag.origin, x: drag.origin.x + e.clientX - drag.startX, y: drag.origin.y + e.clientY - drag.startY });
     };
 
     return (
-        <div className={`drop-zone ${isDragging ? 'dragging' : ''}`} onDragEnter={handleDrag} onDragOver={handleDrag} onDragLeave={handleDrag} onDrop={handleDrop} onClick={() => document.getElementById('file-input')?.click()}>
-            <input type="file" id="file-input" multiple style={{ display: 'none' }} accept="image/jpeg,image/png,application/pdf" onChange={handleFileSelect} />
-            <svg className="drop-zone-icon" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M12 15l-3-3m0 0l3-3m-3 3h12" />
-            </svg>
-            <p className="drop-zone-text">Drag & drop files or click to select</p>
-            <button className="button button-secondary">Select Files</button>
+        <div
+            ref={viewportRef}
+            className={`comparison-viewport ${transform.zoom > MIN_ZOOM ? 'pannable' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = undefined; }}
+            onPointerCancel={() => { dragRef.current = undefined; }}
+        >
+            {children}
+            {label && <span className="comparison-label">{label}</span>}
         </div>
     );
 };
 
-const App: FC = () => {
-    const [files, setFiles] = useState<AppFile[]>([]);
+const ComparisonModal: FC<{
+    appFile: AppFile;
+    onMetricsComputed: (id: string, metrics: QualityMetrics) => void;
+    onClose: () => void;
+}> = ({ appFile, onMetricsComputed, onClose }) => {
+    const { t } = useI18n();
+    const { id, file, compressedFile, qualityMetrics } = appFile;
+    const [view, setView] = useState<ComparisonView>('split');
+    const [transform, setTransform] = useState<ViewTransform>(FIT_TRANSFORM);
+    const [split, setSplit] = useState(50);
+    const originalUrl = useDisplayUrl(file, toDisplayableImage);
+    const compressedUrl = useDisplayUrl(compressedFile);
+    const [heatmapUrl, setHeatmapUrl] = useState<string>();
+    const [metricsError, setMetricsError] = useState<{ message?: string }>();
+    const stageRef = useRef<HTMLDivElement>(null);
 
-    const handleAddFiles = useCallback((newFiles: File[]) => {
-        const appFiles: AppFile[] = newFiles.map(file => {
-            const isSupported = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'].includes(file.type);
-            if (!isSupported) {
-                return {
-                    id: `${file.name}-${file.lastModified}`,
-                    file,
-                    status: 'error',
-                    smartResize: false,
-                    errorMessage: `Unsupported file type. Please use JPG, PNG, or PDF.`
-                };
-            }
-            return {
-                id: `${file.name}-${file.lastModified}`,
-                file,
-                status: 'analyzing',
-                smartResize: false,
-                targetSizeInput: '',
-                targetUnit: 'KB',
-                pdfCompressionMode: 'lossy'
-            };
-        });
-        
-        setFiles(prev => [...prev, ...appFiles]);
+    useEffect(() => {
+        if (!qualityMetrics) return;
+        const url = URL.createObjectURL(qualityMetrics.heatmap);
+        setHeatmapUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [qualityMetrics]);
 
-        appFiles.forEach(async (appFile) => {
-            if(appFile.status !== 'analyzing') return;
+    useEffect(() => {
+        if (qualityMetrics || !compressedFile) return;
+        const controller = new AbortController();
+        compressionPool.run('metrics', { original: file, compressed: compressedFile, crop: appFile.compressionDetails?.crop }, { signal: controller.signal })
+            .then(metrics => onMetricsComputed(id, metrics))
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.error("Failed to compute quality metrics:", error);
+                setMetricsError({ message: error instanceof Error ? error.message : undefined });
+            });
+        return () => controller.abort();
+    }, [id, file, compressedFile, qualityMetrics, onMetricsComputed]);
 
-            try {
-                const { recommendedSize, reason, recommendedPdfMode } = await getAIRecommendedSize(appFile.file);
-                setFiles(prev => prev.map(f => f.id === appFile.id ? { ...f, status: 'pending', recommendedSize, recommendationReason: reason, recommendedPdfMode, pdfCompressionMode: recommendedPdfMode || 'lossy' } : f));
-            } catch (error) {
-                console.error("Failed to get recommendation:", error);
-                const errorMessage = error instanceof Error ? `AI analysis failed: ${error.message}` : "Could not get AI suggestion.";
-                setFiles(prev => prev.map(f => f.id === appFile.id ? { ...f, status: 'error', errorMessage } : f));
-            }
-        });
-    }, []);
-    
-    const handleToggleSmartResize = useCallback((id: string, checked: boolean) => {
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, smartResize: checked } : f));
-    }, []);
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
 
-    const handleTargetSizeChange = useCallback((id: string, value: string, unit: 'KB' | 'MB') => {
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, targetSizeInput: value, targetUnit: unit } : f));
-    }, []);
-    
-    const handlePdfModeChange = useCallback((id: string, mode: PdfCompressionMode) => {
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, pdfCompressionMode: mode } : f));
-    }, []);
+    const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+        else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        e.stopPropagation();
+        const rect = e.currentTarget.parentElement!.getBoundingClientRect();
+        setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+    };
 
-    const handleRemoveFile = useCallback((id: string) => {
-        setFiles(prev => prev.filter(f => f.id !== id));
+    const zoomBy = (factor: number) => {
+        // Buttons zoom around the center of the view.
+        const viewport = stageRef.current?.querySelector('.comparison-viewport');
+        const rect = viewport?.getBoundingClientRect();
+        setTransform(t => zoomAround(t, factor, (rect?.width ?? 0) / 2, (rect?.height ?? 0) / 2));
+    };
+
+    const renderImage = (src: string | undefined, alt: string) => (
+        <div className={`comparison-layer ${transform.zoom >= 4 ? 'pixelated' : ''}`} style={layerStyle(transform)}>
+            {src && <img src={src} alt={alt} draggable={false} />}
+        </div>
+    );
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="comparison-modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label={t('compare.title', { name: file.name })}>
+                <div className="comparison-header">
+                    <p className="file-name" title={file.name}>{file.name}</p>
+                    <div className="comparison-tabs">
+                        {([['split', 'compare.split'], ['side-by-side', 'compare.sideBySide'], ['difference', 'compare.difference']] as [ComparisonView, MessageKey][]).map(([value, label]) => (
+                            <button key={value} className={`comparison-tab ${view === value ? 'active' : ''}`} onClick={() => setView(value)}>{t(label)}</button>
+                        ))}
+                    </div>
+                    <div className="comparison-zoom">
+                        <button className="comparison-tab" onClick={() => zoomBy(1 / 1.5)} aria-label={t('compare.zoomOut')}>−</button>
+                        <span>{Math.round(transform.zoom * 100)}%</span>
+                        <button className="comparison-tab" onClick={() => zoomBy(1.5)} aria-label={t('compare.zoomIn')}>+</button>
+                        <button className="comparison-tab" onClick={() => setTransform(FIT_TRANSFORM)}>{t('compare.fit')}</button>
+                    </div>
+                    <button className="comparison-close" onClick={onClose} aria-label={t('common.close')}>×</button>
+                </div>
+                <div className="comparison-metrics">
+                    {qualityMetrics ? (
+                        <>
+                            <span>PSNR <strong>{isFinite(qualityMetrics.psnr) ? `${qualityMetrics.psnr.toFixed(2)} dB` : '∞'}</strong></span>
+                            <span>SSIM <strong>{qualityMetrics.ssim.toFixed(4)}</strong></span>
+                            <span>{t(describeSimilarity(qualityMetrics.ssim))}</span>
+                            <small>{t('compare.measuredAt', { width: qualityMetrics.width, height: qualityMetrics.height })}</small>
+                        </>
+                    ) : metricsError ? (
+                        <span className="target-missed">⚠️ {metricsError.message || t('compare.metricsFailed')}</span>
+                    ) : (
+                        <span>{t('compare.measuring')}</span>
+                    )}
+                </div>
+                <div ref={stageRef} className={`comparison-stage ${view}`}>
+                    {view === 'split' && (
+                        <ComparisonViewport transform={transform} onTransformChange={setTransform}>
+                            {renderImage(originalUrl, t('compare.original'))}
+                            <div className="comparison-clip" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+                                {renderImage(compressedUrl, t('compare.compressed'))}
+                            </div>
+                            <div className="comparison-divider" style={{ left: `${split}%` }} onPointerDown={handleSplitDrag} onPointerMove={handleSplitDrag}>
+                                <span className="comparison-handle">⇔</span>
+                            </div>
+                            <span className="comparison-label left">{t('compare.originalSize', { size: formatBytes(file.size) })}</span>
+                            <span className="comparison-label right">{t('compare.compressedSize', { size: formatBytes(compressedFile?.size ?? 0) })}</span>
+                        </ComparisonViewport>
+                    )}
+                    {view === 'side-by-side' && (
+                        <>
+                            <ComparisonViewport transform={transform} onTransformChange={setTransform} label={t('compare.originalSize', { size: formatBytes(file.size) })}>
+                                {renderImage(originalUrl, t('compare.original'))}
+                            </ComparisonViewport>
+                            <ComparisonViewport transform={transform} onTransformChange={setTransform} label={t('compare.compressedSize', { size: formatBytes(compressedFile?.size ?? 0) })}>
+                                {renderImage(compressedUrl, t('compare.compressed'))}
+                            </ComparisonViewport>
+                        </>
+                    )}
+                    {view === 'difference' && (
+                        <ComparisonViewport transform={transform} onTransformChange={setTransform} label={t('compare.heatmapHint')}>
+                            {renderImage(heatmapUrl, t('compare.heatmap'))}
+                        </ComparisonViewport>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Crop Tool ---
+type CropDrag = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const MIN_CROP_EDGE = 16;
+
+// Drags one corner with the opposite one fixed. A set aspect ratio follows
+// the width, then shrinks back if the height runs out of room.
+const resizeCrop = (start: CropRect, corner: Exclude<CropDrag, 'move'>, dx: number, dy: number, image: { width: number; height: number }, aspect?: number): CropRect => {
+    const west = corner.endsWith('w');
+    const north = corner.startsWith('n');
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    const maxWidth = west ? anchorX : image.width - anchorX;
+    const maxHeight = north ? anchorY : image.height - anchorY;
+    let width = Math.min(maxWidth, Math.max(MIN_CROP_EDGE, start.width + (west ? -dx : dx)));
+    let height = Math.min(maxHeight, Math.max(MIN_CROP_EDGE, start.height + (north ? -dy : dy)));
+    if (aspect) {
+        height = width / aspect;
+        if (height > maxHeight) {
+            height = maxHeight;
+            width = height * aspect;
+        }
+    }
+    return { x: west ? anchorX - width : anchorX, y: north ? anchorY - height : anchorY, width, height };
+};
+
+const CropModal: FC<{
+    appFile: AppFile & { dimensions: { width: number; height: number } };
+    onApply: (id: string, patch: GeometryPatch) => void;
+    onClose: () => void;
+}> = ({ appFile, onApply, onClose }) => {
+    const { t } = useI18n();
+    const { id, file, dimensions } = appFile;
+    const [aspect, setAspect] = useState(appFile.cropAspect);
+    const [rect, setRect] = useState<CropRect>(() => cropRegion(dimensions, appFile) ?? { x: 0, y: 0, ...dimensions });
+    const url = useDisplayUrl(file, toDisplayableImage);
+    const dragRef = useRef<{ mode: CropDrag; startX: number; startY: number; start: CropRect; scale: number }>();
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleAspectChange = (next?: number) => {
+        setAspect(next);
+        if (next) setRect(centerCrop(dimensions, next));
+    };
+
+    const handlePointerDown = (mode: CropDrag) => (e: React.PointerEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        const stage = e.currentTarget.closest('.crop-stage')!;
+        (stage as HTMLElement).setPointerCapture(e.pointerId);
+        // Screen pixels to image pixels.
+        const scale = dimensions.width / stage.getBoundingClientRect().width;
+        dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: rect, scale };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = (e.clientX - drag.startX) * drag.scale;
+        const dy = (e.clientY - drag.startY) * drag.scale;
+        if (drag.mode === 'move') {
+            setRect({
+                ...drag.start,
+                x: Math.min(dimensions.width - drag.start.width, Math.max(0, drag.start.x + dx)),
+                y: Math.min(dimensions.height - drag.start.height, Math.max(0, drag.start.y + dy)),
+            });
+        } else {
+            setRect(resizeCrop(drag.start, drag.mode, dx, dy, dimensions, aspect));
+        }
+    };
+
+    const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="crop-modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label={t('crop.title', { name: file.name })}>
+                <div className="comparison-header">
+                    <p className="file-name" title={file.name}>{file.name}</p>
+                    <div className="comparison-tabs">
+                        <button className={`comparison-tab ${!aspect ? 'active' : ''}`} onClick={() => handleAspectChange(undefined)}>{t('crop.free')}</button>
+                        {CROP_ASPECTS.map(option => (
+                            <button key={option.id} className={`comparison-tab ${aspect === option.ratio ? 'active' : ''}`} onClick={() => handleAspectChange(option.ratio)}>{t(`crop.aspect.${option.id}`)}</button>
+                        ))}
+                    </div>
+                    <button className="comparison-close" onClick={onClose} aria-label={t('common.close')}>×</button>
+                </div>
+                <div className="crop-stage" onPointerMove={handlePointerMove} onPointerUp={() => { dragRef.current = undefined; }} onPointerCancel={() => { dragRef.current = undefined; }}>
+                    {url && <img src={url} alt={file.name} draggable={false} />}
+                    <div
+                        className="crop-box"
+                        style={{ left: percent(rect.x, dimensions.width), top: percent(rect.y, dimensions.height), width: percent(rect.width, dimensions.width), height: percent(rect.height, dimensions.height) }}
+                        onPointerDown={handlePointerDown('move')}
+                    >
+                        {(['nw', 'ne', 'sw', 'se'] as const).map(corner => <div key={corner} className={`crop-handle ${corner}`} onPointerDown={handlePointerDown(corner)} />)}
+                    </div>
+                </div>
+                <div className="crop-footer">
+                    <span>{t('crop.size', { width: Math.round(rect.width), height: Math.round(rect.height), fullWidth: dimensions.width, fullHeight: dimensions.height })}</span>
+                    <button className="button button-secondary" onClick={() => { setAspect(undefined); setRect({ x: 0, y: 0, ...dimensions }); }}>{t('common.reset')}</button>
+                    <button className="button button-primary" onClick={() => { onApply(id, { crop: clampCrop(dimensions, rect), cropAspect: aspect }); onClose(); }}>{t('crop.apply')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- PDF Workspace ---
+// A file the page tools made, with a note on where its pages came from.
+interface PdfToolOutput {
+    file: File;
+    pdfSource: string;
+}
+
+type PdfSplit = 'none' | 'ranges' | 'size';
+
+const pdfFile = (bytes: Uint8Array, name: string) => new File([bytes as BlobPart], name, { type: 'application/pdf' });
+
+const usePdfThumbnails = (file: File) => {
+    const [urls, setUrls] = useState<string[]>();
+    const [error, setError] = useState<{ message?: string }>();
+    useEffect(() => {
+        let cancelled = false;
+        let objectUrls: string[] = [];
+        getPdfPageThumbnails(file)
+            .then(blobs => {
+                if (cancelled) return;
+                objectUrls = blobs.map(blob => URL.createObjectURL(blob));
+                setUrls(objectUrls);
+            })
+            .catch(error => {
+                console.warn(`Couldn't render the pages of ${file.name}:`, error);
+                if (!cancelled) setError({ message: error instanceof Error ? error.message : undefined });
+            });
+        return () => {
+            cancelled = true;
+            objectUrls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [file]);
+    return { urls, error };
+};
+
+// Pages are kept, dropped and reordered on the card's own file; other PDFs in
+// the queue can be appended, and the result split by page ranges or size.
+// Whatever comes out replaces the card (and any merged cards) in the queue,
+// to be compressed like any other PDF.
+const PdfWorkspaceModal: FC<{
+    appFile: AppFile;
+    otherPdfs: AppFile[];
+    onApply: (id: string, outputs: PdfToolOutput[], mergedIds: string[]) => void;
+    onClose: () => void;
+}> = ({ appFile, otherPdfs, onApply, onClose }) => {
+    const { t, tp } = useI18n();
+    const { id, file } = appFile;
+    const { urls, error: thumbnailError } = usePdfThumbnails(file);
+    const [pages, setPages] = useState<number[]>();
+    const [mergeIds, setMergeIds] = useState<string[]>([]);
+    const [split, setSplit] = useState<PdfSplit>('none');
+    const [rangesInput, setRangesInput] = useState('');
+    const [partSizeMb, setPartSizeMb] = useState('10');
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string>();
+    const dragIndexRef = useRef<number>();
+
+    useEffect(() => {
+        if (urls && !pages) setPages(urls.map((_, page) => page));
+    }, [urls, pages]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleDrop = (to: number) => {
+        const from = dragIndexRef.current;
+        dragIndexRef.current = undefined;
+        if (from === undefined || from === to || !pages) return;
+        const next = [...pages];
+        next.splice(to, 0, ...next.splice(from, 1));
+        setPages(next);
+    };
+
+    const toggleMerge = (otherId: string, checked: boolean) => {
+        setMergeIds(prev => checked ? [...prev, otherId] : prev.filter(m => m !== otherId));
+    };
+
+    const merged = otherPdfs.filter(other => mergeIds.includes(other.id));
+    const unchanged = !!pages && urls?.length === pages.length && pages.every((page, i) => page === i) && merged.length === 0;
+
+    // The edited pages and merged files as one document, then split if asked.
+    const buildOutputs = async (): Promise<PdfToolOutput[]> => {
+        const source = sourcePath(appFile);
+        const edited: PdfToolOutput = unchanged
+            ? { file, pdfSource: source }
+            : {
+                file: pdfFile(await mergePdfs([{ file, pages }, ...merged.map(other => ({ file: other.file }))]), outputFileName(file.name, 'pdf', merged.length ? '-merged' : '-edited')),
+                pdfSource: [
+                    pages!.length === urls!.length && pages!.every((page, i) => page === i) ? source : t('pdfTools.pagesOf', { ranges: formatPageRanges(pages!), source }),
+                    ...merged.map(sourcePath),
+                ].join(' + '),
+            };
+        if (split === 'none') return [edited];
+
+        let parts: PdfPart[];
+        if (split === 'ranges') {
+            parts = await splitPdfByRanges(edited.file, parsePageRanges(rangesInput, await getPdfPageCount(edited.file)));
+        } else {
+            const maxBytes = toBytes(parseFloat(partSizeMb), 'MB');
+            if (!(maxBytes > 0)) throw new Error(t('pdfTools.partSizeRequired'));
+            parts = await splitPdfBySize(edited.file, maxBytes);
+        }
+        return parts.map((part, i) => ({
+            file: pdfFile(part.bytes, outputFileName(file.name, 'pdf', `-part${i + 1}`)),
+            pdfSource: t('pdfTools.partOf', { part: i + 1, parts: parts.length, ranges: formatPageRanges(part.pages), source: edited.pdfSource }),
+        }));
+    };
+
+    const handleApply = async () => {
+        setIsWorking(true);
+        setError(undefined);
+        try {
+            onApply(id, await buildOutputs(), merged.map(other => other.id));
+            onClose();
+        } catch (error) {
+            console.error("PDF page tools failed:", error);
+            setError(error instanceof Error ? error.message : t('pdfTools.failed'));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="crop-modal pdf-workspace" onClick={(e) => e.stopPropagation()} role="dialog" aria-label={t('pdfTools.title', { name: file.name })}>
+                <div className="comparison-header">
+                    <p className="file-name" title={file.name}>{file.name}</p>
+                    <button className="comparison-close" onClick={onClose} aria-label={t('common.close')}>×</button>
+                </div>
+                {thumbnailError ? (
+                    <p className="global-actions-error">{thumbnailError.message || t('pdfTools.renderFailed')}</p>
+                ) : !urls || !pages ? (
+                    <p className="usage-note"><span className="loader"></span> {t('pdfTools.rendering')}</p>
+                ) : (
+                    <div className="pdf-page-grid">
+                        {pages.map((page, index) => (
+                            <div
+                                key={page}
+                                className="pdf-page"
+                                draggable
+                                onDragStart={() => { dragIndexRef.current = index; }}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={() => handleDrop(index)}
+                            >
+                                <img src={urls[page]} alt={t('pdfTools.page', { page: page + 1 })} draggable={false} />
+                                <span>{page + 1}</span>
+                                <button className="pdf-page-delete" disabled={pages.length === 1} onClick={() => setPages(pages.filter(p => p !== page))} aria-label={t('pdfTools.deletePage', { page: page + 1 })}>×</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {otherPdfs.length > 0 && (
+                    <div className="pdf-options-container">
+                        <p className="options-label">{t('pdfTools.append')}</p>
+                        {otherPdfs.map(other => (
+                            <div key={other.id} className="radio-option">
+                                <input type="checkbox" id={`merge-${id}-${other.id}`} checked={mergeIds.includes(other.id)} onChange={(e) => toggleMerge(other.id, e.target.checked)} />
+                                <label htmlFor={`merge-${id}-${other.id}`}>{sourcePath(other)} <small>· {formatBytes(other.file.size)}</small></label>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="pdf-options-container">
+                    <p className="options-label">{t('pdfTools.split')}</p>
+                    <div className="radio-group">
+                        {([['none', 'pdfTools.noSplit'], ['ranges', 'pdfTools.byRanges'], ['size', 'pdfTools.bySize']] as const).map(([value, label]) => (
+                            <div key={value} className="radio-option">
+                                <input type="radio" id={`split-${value}-${id}`} name={`split-${id}`} checked={split === value} onChange={() => setSplit(value)} />
+                                <label htmlFor={`split-${value}-${id}`}>{t(label)}</label>
+                            </div>
+                        ))}
+                    </div>
+                    {split === 'ranges' && (
+                        <div className="target-size-input-container">
+                            <label htmlFor={`split-ranges-${id}`}>{t('pdfTools.pages')}</label>
+                            <input type="text" id={`split-ranges-${id}`} className="target-size-input" value={rangesInput} placeholder="1-3, 4-10, 11-" onChange={(e) => setRangesInput(e.target.value)} />
+                        </div>
+                    )}
+                    {split === 'size' && (
+                        <>
+                            <div className="target-size-input-container">
+                                <label htmlFor={`split-size-${id}`}>{t('pdfTools.atMost')}</label>
+                                <input type="number" min="0" step="0.5" id={`split-size-${id}`} className="target-size-input" value={partSizeMb} onChange={(e) => setPartSizeMb(e.target.value)} />
+                                <span>MB</span>
+                            </div>
+                            <small className="usage-note">{t('pdfTools.sizeNote')}</small>
+                        </>
+                    )}
+                </div>
+                {error && <p className="global-actions-error">{error}</p>}
+                <div className="crop-footer">
+                    <span>{pages && urls ? t('pdfTools.pageCount', { count: pages.length, total: urls.length }) : ''}{merged.length > 0 && ` ${tp('pdfTools.mergedFiles', merged.length)}`}</span>
+                    <button className="button button-secondary" disabled={!urls} onClick={() => { setPages(urls?.map((_, page) => page)); setMergeIds([]); setSplit('none'); }}>{t('common.reset')}</button>
+                    <button className="button button-primary" disabled={!pages || isWorking || (unchanged && split === 'none')} onClick={handleApply}>
+                        {isWorking ? <><div className="loader"></div>{t('pdfTools.working')}</> : split === 'none' ? t('pdfTools.apply') : t('pdfTools.split')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const describePreset = (preset: Preset, { t }: I18n): string => {
+    const cropAspect = CROP_ASPECTS.find(aspect => aspect.ratio === preset.cropAspect);
+    const parts = [
+        preset.targetSize ? t('presets.atMost', { size: preset.targetSize, unit: preset.targetUnit }) : t('presets.autoSize'),
+        preset.maxWidth || preset.maxHeight ? t('presets.max', { width: preset.maxWidth ?? '∞', height: preset.maxHeight ?? '∞' }) : null,
+        preset.cropAspect ? t('presets.crop', { aspect: cropAspect ? t(`crop.aspect.${cropAspect.id}`) : formatNumber(preset.cropAspect, 2) }) : null,
+        preset.resize?.width || preset.resize?.height ? `${preset.resize.width ?? t('card.auto')}×${preset.resize.height ?? t('card.auto')}px` : preset.resize?.scalePercent ? `${preset.resize.scalePercent}%` : null,
+        preset.resize?.maxLongEdge ? t('presets.longEdge', { size: preset.resize.maxLongEdge }) : null,
+        preset.outputFormatChoice === 'ai' ? t('presets.aiFormat') : preset.outputFormatChoice === 'best' ? t('presets.bestFormat') : t(`format.${preset.outputFormatChoice}`),
+        preset.smartResize ? t('presets.smartResize') : null,
+        t('presets.metadata', { policy: t(`metadata.${preset.metadataPolicy}`) }),
+        preset.pdfCompressionMode ? t('presets.pdf', { mode: t(`pdf.${preset.pdfCompressionMode}`) }) : null,
+    ];
+    return parts.filter(Boolean).join(' · ');
+};
+
+const emptyPreset = (): Preset => ({ id: '', name: '', targetUnit: 'KB', outputFormatChoice: 'ai', smartResize: false, metadataPolicy: 'strip-private' });
+
+const PresetToolbar: FC<{
+    presets: Preset[];
+    selectedPreset?: Preset;
+    batchCount: number;
+    message?: string;
+    onSelect: (id: string) => void;
+    onApply: (preset: Preset) => void;
+    onCompressAll: () => void;
+    onSave: (preset: Preset) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+}> = ({ presets, selectedPreset, batchCount, message, onSelect, onApply, onCompressAll, onSave, onDelete, onImport, onExport }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [draft, setDraft] = useState<Preset>();
+    const hasCustomPresets = presets.some(preset => !preset.builtIn);
+
+    const parseLimit = (value: string) => {
+        const number = parseInt(value, 10);
+        return number > 0 ? number : undefined;
+    };
+
+    const handleImportSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="preset-toolbar">
+            <div className="preset-toolbar-row">
+                <div className="format-select-container">
+                    <label htmlFor="preset-select">{t('presets.label')}</label>
+                    <select id="preset-select" className="format-select" value={selectedPreset?.id ?? ''} onChange={(e) => onSelect(e.target.value)}>
+                        <option value="">{t('presets.none')}</option>
+                        <optgroup label={t('presets.builtIn')}>
+                            {presets.filter(preset => preset.builtIn).map(preset => <option key={preset.id} value={preset.id}>{t(`presets.builtIn.${preset.id as BuiltInPresetId}`)}</option>)}
+                        </optgroup>
+                        {hasCustomPresets && (
+                            <optgroup label={t('presets.custom')}>
+                                {presets.filter(preset => !preset.builtIn).map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                </div>
+                <button className="button button-secondary" disabled={!selectedPreset || batchCount === 0} onClick={() => selectedPreset && onApply(selectedPreset)}>{t('presets.apply')}</button>
+                <button className="button button-primary" disabled={batchCount === 0} onClick={onCompressAll}>{t('presets.compressAll', { count: batchCount })}</button>
+            </div>
+            {selectedPreset && <p className="compression-details">{describePreset(selectedPreset, i18n)}</p>}
+            <div className="preset-toolbar-links">
+                <button className="link-button" onClick={() => setDraft(draft ? undefined : { ...(selectedPreset ?? emptyPreset()), name: '' })}>{draft ? t('presets.closeEditor') : t('presets.new')}</button>
+                {selectedPreset && !selectedPreset.builtIn && <button className="link-button" onClick={() => onDelete(selectedPreset.id)}>{t('presets.delete')}</button>}
+                <button className="link-button" onClick={() => document.getElementById('preset-import-input')?.click()}>{t('presets.import')}</button>
+                <input type="file" id="preset-import-input" accept="application/json,.json" style={{ display: 'none' }} onChange={handleImportSelect} />
+                {hasCustomPresets && <button className="link-button" onClick={onExport}>{t('presets.export')}</button>}
+            </div>
+            {message && <p className="preset-message">{message}</p>}
+            {draft && (
+                <div className="preset-editor">
+                    <input type="text" className="preset-input" placeholder={t('presets.name')} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                    <div className="preset-editor-row">
+                        <input type="number" min="0" className="preset-input" placeholder={t('presets.target')} value={draft.targetSize ?? ''} onChange={(e) => setDraft({ ...draft, targetSize: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined })} />
+                        <select className="preset-input" value={draft.targetUnit} onChange={(e) => setDraft({ ...draft, targetUnit: e.target.value as 'KB' | 'MB' })}>
+                            <option value="KB">KB</option>
+                            <option value="MB">MB</option>
+                        </select>
+                    </div>
+                    <div className="preset-editor-row">
+                        <input type="number" min="0" className="preset-input" placeholder={t('presets.maxWidth')} value={draft.maxWidth ?? ''} onChange={(e) => setDraft({ ...draft, maxWidth: parseLimit(e.target.value) })} />
+                        <input type="number" min="0" className="preset-input" placeholder={t('presets.maxHeight')} value={draft.maxHeight ?? ''} onChange={(e) => setDraft({ ...draft, maxHeight: parseLimit(e.target.value) })} />
+                    </div>
+                    <ResizeControls
+                        idPrefix="preset"
+                        resize={draft.resize}
+                        cropAspect={draft.cropAspect}
+                        resampling={draft.resampling}
+                        onChange={({ crop, ...patch }) => setDraft({ ...draft, ...patch })}
+                    />
+                    <div className="preset-editor-row">
+                        <select className="preset-input" value={draft.outputFormatChoice} onChange={(e) => setDraft({ ...draft, outputFormatChoice: e.target.value as OutputFormatChoice })}>
+                            <option value="ai">{t('card.aiChoice')}</option>
+                            <option value="best">{t('card.best')}</option>
+                            {OUTPUT_FORMAT_NAMES.map(format => <option key={format} value={format}>{t(`format.${format}`)}</option>)}
+                        </select>
+                        <select className="preset-input" value={draft.pdfCompressionMode ?? ''} onChange={(e) => setDraft({ ...draft, pdfCompressionMode: (e.target.value || undefined) as PdfCompressionMode | undefined })}>
+                            <option value="">{t('presets.pdfAi')}</option>
+                            <option value="lossless">{t('presets.pdf', { mode: t('pdf.lossless') })}</option>
+                            <option value="lossy">{t('presets.pdf', { mode: t('pdf.lossy') })}</option>
+                        </select>
+                    </div>
+                    <select className="preset-input" value={draft.metadataPolicy} onChange={(e) => setDraft({ ...draft, metadataPolicy: e.target.value as MetadataPolicy })}>
+                        {(Object.keys(METADATA_POLICY_LABELS) as MetadataPolicy[]).map(policy => <option key={policy} value={policy}>{t('presets.metadata', { policy: t(`metadata.${policy}`) })}</option>)}
+                    </select>
+                    <label className="preset-checkbox">
+                        <input type="checkbox" checked={draft.smartResize} onChange={(e) => setDraft({ ...draft, smartResize: e.target.checked })} />
+                        {t('card.smartResize')}
+                    </label>
+                    <button className="button button-secondary" disabled={!draft.name.trim()} onClick={() => { onSave({ ...draft, name: draft.name.trim() }); setDraft(undefined); }}>{t('presets.save')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const HistoryPanel: FC<{
+    entries: HistoryEntry[];
+    quotaMb: number;
+    onQuotaChange: (quotaMb: number) => void;
+    onRerun: (entry: HistoryEntry) => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+}> = ({ entries, quotaMb, onQuotaChange, onRerun, onDelete, onClear }) => {
+    const { locale, t, tp } = useI18n();
+    const [quotaInput, setQuotaInput] = useState(String(quotaMb));
+    const usedBytes = entries.reduce((sum, entry) => sum + historyEntrySize(entry), 0);
+
+    const commitQuota = () => {
+        const value = parseFloat(quotaInput);
+        if (value > 0) onQuotaChange(value);
+        else setQuotaInput(String(quotaMb));
+    };
+
+    return (
+        <div className="history-panel">
+            <div className="history-header">
+                <p>{t('history.used', { used: formatBytes(usedBytes), quota: quotaMb })}</p>
+                <div className="target-size-input-container">
+                    <label htmlFor="history-quota">{t('history.quota')}</label>
+                    <input
+                        type="number"
+                        min="1"
+                        id="history-quota"
+                        className="target-size-input"
+                        value={quotaInput}
+                        onChange={(e) => setQuotaInput(e.target.value)}
+                        onBlur={commitQuota}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitQuota(); }}
+                    />
+                    <span>MB</span>
+                </div>
+                {entries.length > 0 && <button className="button button-tertiary" onClick={onClear}>{t('history.purge')}</button>}
+            </div>
+            {entries.length === 0 ? (
+                <p className="history-empty">{t('history.empty')}</p>
+            ) : (
+                <ul className="history-list">
+                    {entries.map(entry => {
+                        const { originalFile, compressedFile, compressionDetails, settings } = entry;
+                        const reduction = formatNumber(((originalFile.size - compressedFile.size) / originalFile.size) * 100);
+                        return (
+                            <li key={entry.id} className="history-item">
+                                <div className="history-item-info">
+                                    <p className="file-name" title={originalFile.name}>{originalFile.name}</p>
+                                    <p className="file-size">{new Date(entry.createdAt).toLocaleString(locale)}</p>
+                                    <div className="size-report">
+                                        <span className="original">{formatBytes(originalFile.size)}</span> → <span className="new">{formatBytes(compressedFile.size)}</span> <span className="reduction">-{reduction}%</span>
+                                    </div>
+                                    <p className="compression-details">
+                                        {compressionDetails
+                                            ? `${t(`format.${compressionDetails.format}`)} · ${t('card.quality', { quality: compressionDetails.quality })} · ${compressionDetails.width}×${compressionDetails.height}px`
+                                            : isVectorImage(originalFile)
+                                                ? `SVG · ${tp('card.decimals', settings.svgPrecision ?? SVG_PRECISION)}`
+                                                : `PDF · ${t(`pdf.${settings.pdfCompressionMode ?? 'lossy'}`)}${settings.pdfColorMode && settings.pdfColorMode !== 'color' ? ` · ${t(`pdf.${settings.pdfColorMode}`)}` : ''}`}
+                                        {settings.targetSizeInput && ` · ${t('common.target', { size: settings.targetSizeInput, unit: settings.targetUnit ?? 'KB' })}`}
+                                    </p>
+                                </div>
+                                <div className="history-item-actions">
+                                    <a href={URL.createObjectURL(compressedFile)} download={compressedFile.name} className="button button-secondary" style={{textDecoration: 'none'}}>{t('card.download')}</a>
+                                    <button className="button button-tertiary" onClick={() => onRerun(entry)}>{t('history.rerun')}</button>
+                                    <button className="button button-tertiary" onClick={() => onDelete(entry.id)}>{t('common.delete')}</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// --- Batch Report ---
+const inputTypeLabel = (file: File, { t }: I18n) => {
+    const format = INPUT_FORMAT_NAMES.find(name => INPUT_FORMATS[name].mimeType === file.type);
+    return format ? INPUT_FORMATS[format].label : file.type || t('report.otherType');
+};
+
+const describeOutput = (appFile: AppFile, { t, tp }: I18n): string => {
+    const details = appFile.compressionDetails;
+    const parts = details
+        ? [t(`format.${details.format}`), t('card.quality', { quality: details.quality }), `${details.width}×${details.height}px`]
+        : isVectorImage(appFile.file)
+            ? ['SVG', tp('card.decimals', appFile.svgPrecision ?? SVG_PRECISION)]
+            : ['PDF', t(`pdf.${appFile.pdfCompressionMode ?? 'lossy'}`), t(`pdf.${appFile.pdfColorMode ?? 'color'}`)];
+    if (appFile.pdfSource) parts.push(appFile.pdfSource);
+    if (appFile.responsiveSet) parts.push(tp('report.variants', appFile.responsiveSet.variants.length));
+    if (appFile.targetSizeInput) parts.push(t('common.target', { size: appFile.targetSizeInput, unit: appFile.targetUnit ?? 'KB' }));
+    return parts.join(' · ');
+};
+
+// A responsive set counts as its fallback image, as in the ZIP manifest.
+const reportEntry = (appFile: AppFile, i18n: I18n): BatchReportEntry => ({
+    name: sourcePath(appFile),
+    inputType: inputTypeLabel(appFile.file, i18n),
+    outputName: appFile.compressedFile!.name,
+    originalSize: appFile.file.size,
+    compressedSize: appFile.compressedFile!.size,
+    settings: describeOutput(appFile, i18n),
+    targetBytes: appFile.compressionDetails?.targetBytes,
+    targetMet: appFile.compressionDetails?.targetMet ?? true,
+    provider: appFile.compressionDetails?.provider ?? appFile.recommendationProvider,
+    aiReasoning: {
+        recommendation: appFile.recommendationReason,
+        settings: appFile.compressionSettings?.recommendation,
+        report: appFile.aiReport,
+    },
+});
+
+const BatchReportPanel: FC<{ report: BatchReport }> = ({ report }) => {
+    const i18n = useI18n();
+    const { locale, t } = i18n;
+    const [summary, setSummary] = useState<{ text: string; provider: ProviderId }>();
+    const [summaryError, setSummaryError] = useState<AIErrorInfo>();
+    const stats = useMemo(() => batchSummaryStats(report), [report]);
+    // Only a change in the numbers calls for a new summary.
+    const statsKey = JSON.stringify(stats);
+
+    useEffect(() => {
+        if (!stats.files) return;
+        const controller = new AbortController();
+        setSummary(undefined);
+        setSummaryError(undefined);
+        getAIBatchSummary(stats, locale, controller.signal)
+            .then(setSummary)
+            .catch(error => {
+                if (controller.signal.aborted) return;
+                console.error("Failed to write the batch summary:", error);
+                setSummaryError(classifyAIError(error));
+            });
+        return () => controller.abort();
+    }, [statsKey, locale]);
+
+    if (!report.files) return <p className="history-empty">{t('history.empty')}</p>;
+
+    const withSummary: BatchReport = { ...report, summary: summary?.text, summaryProvider: summary?.provider };
+    const fileName = `whilo-report-${new Date(report.createdAt).toISOString().slice(0, 10)}`;
+    const exportCsv = () => saveBlob(new Blob([toCsv(batchReportRows(withSummary))], { type: 'text/csv' }), `${fileName}.csv`);
+    const exportJson = () => saveBlob(new Blob([batchReportJson(withSummary)], { type: 'application/json' }), `${fileName}.json`);
+    const exportHtml = () => saveBlob(new Blob([batchReportHtml(withSummary)], { type: 'text/html' }), `${fileName}.html`);
+    // The browser's print dialog saves it as a PDF. Blocked pop-ups get the HTML file instead.
+    const print = () => {
+        const page = window.open('', '_blank');
+        if (!page) return exportHtml();
+        page.document.write(batchReportHtml(withSummary));
+        page.document.close();
+        page.focus();
+        page.print();
+    };
+
+    return (
+        <div className="history-panel batch-report">
+            <div className="usage-stats">
+                <div className="usage-stat"><span>{t('report.files')}</span><strong>{report.files}</strong></div>
+                <div className="usage-stat"><span>{t('report.original')}</span><strong>{formatBytes(report.originalSize)}</strong></div>
+                <div className="usage-stat"><span>{t('report.compressed')}</span><strong>{formatBytes(report.compressedSize)}</strong></div>
+                <div className="usage-stat"><span>{t('report.saved')}</span><strong>{formatSavings(savedBytes(report))}</strong><small>{t('report.ofOriginal', { percent: savedPercent(report) })}</small></div>
+            </div>
+            <div className="ai-report batch-summary">
+                {summary
+                    ? <p>{summary.text} <span className="provider-badge">{t(`provider.${summary.provider}`)}</span></p>
+                    : summaryError
+                        ? <p className="usage-note">{t('report.noSummary', { reason: describeAIFailure(summaryError, i18n) })}</p>
+                        : <p className="usage-note"><span className="loader"></span> {t('report.writingSummary')}</p>}
+            </div>
+
+            <h3>{t('report.byType')}</h3>
+            <table className="format-candidates">
+                <thead><tr><th>{t('report.type')}</th><th>{t('report.files')}</th><th>{t('report.original')}</th><th>{t('report.compressed')}</th><th>{t('report.saved')}</th></tr></thead>
+                <tbody>
+                    {report.byType.map(type => (
+                        <tr key={type.inputType}><td>{type.inputType}</td><td>{type.files}</td><td>{formatBytes(type.originalSize)}</td><td>{formatBytes(type.compressedSize)}</td><td>{formatSavings(savedBytes(type))} ({savedPercent(type)}%)</td></tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {report.biggestWins.length > 0 && <>
+                <h3>{t('report.biggestWins')}</h3>
+                <table className="format-candidates">
+                    <tbody>
+                        {report.biggestWins.map(entry => (
+                            <tr key={entry.name}><td>{entry.name}</td><td>{formatBytes(entry.originalSize)} → {formatBytes(entry.compressedSize)}</td><td>{formatSavings(savedBytes(entry))} ({savedPercent(entry)}%)</td></tr>
+                        ))}
+                    </tbody>
+                </table>
+            </>}
+
+            {report.missedTargets.length > 0 && <>
+                <h3>{t('report.missedTargets')}</h3>
+                <table className="format-candidates">
+                    <tbody>
+                        {report.missedTargets.map(entry => (
+                            <tr key={entry.name} className="target-missed-row"><td>{entry.name}</td><td>{t('report.target', { size: entry.targetBytes ? formatBytes(entry.targetBytes) : '—' })}</td><td>{t('report.got', { size: formatBytes(entry.compressedSize) })}</td></tr>
+                        ))}
+                    </tbody>
+                </table>
+            </>}
+
+            <h3>{t('report.everyFile')}</h3>
+            <table className="format-candidates">
+                <thead><tr><th>{t('report.file')}</th><th>{t('report.settings')}</th><th>{t('card.size')}</th><th>{t('report.reasoning')}</th></tr></thead>
+                <tbody>
+                    {report.entries.map(entry => (
+                        <tr key={entry.name}>
+                            <td>{entry.name}</td>
+                            <td>{entry.settings}{entry.provider && <> <span className="provider-badge">{t(`provider.${entry.provider}`)}</span></>}</td>
+                            <td>{formatBytes(entry.originalSize)} → {formatBytes(entry.compressedSize)}</td>
+                            <td>{[entry.aiReasoning.recommendation, entry.aiReasoning.settings].filter(Boolean).join(' ') || '—'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="global-actions">
+                <button className="button button-secondary" onClick={exportCsv}>{t('report.exportCsv')}</button>
+                <button className="button button-secondary" onClick={exportJson}>{t('report.exportJson')}</button>
+                <button className="button button-secondary" onClick={exportHtml}>{t('report.exportHtml')}</button>
+                <button className="button button-primary" onClick={print}>{t('report.print')}</button>
+            </div>
+        </div>
+    );
+};
+
+// --- AI Usage ---
+// Requests and cost so far today, kept across reloads so the budget holds
+// for the whole day.
+interface DailyUsage {
+    // Local date, YYYY-MM-DD.
+    date: string;
+    requests: number;
+    costUsd: number;
+}
+
+const DAILY_USAGE_KEY = 'whilo.aiUsage.daily';
+const AI_BUDGET_KEY = 'whilo.aiBudgetUsd';
+const AI_RATE_LIMIT_KEY = 'whilo.aiRequestsPerMinute';
+
+const todayKey = () => new Date().toLocaleDateString('en-CA');
+
+const loadDailyUsage = (): DailyUsage => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(DAILY_USAGE_KEY) || 'null');
+        if (stored?.date === todayKey()) return stored;
+    } catch {
+        // A corrupt record counts as a fresh day.
+    }
+    return { date: todayKey(), requests: 0, costUsd: 0 };
+};
+
+// No budget unless one was set.
+const loadAIBudget = (): number | undefined => {
+    const stored = parseFloat(localStorage.getItem(AI_BUDGET_KEY) || '');
+    return stored > 0 ? stored : undefined;
+};
+
+const loadAIRateLimit = (): number => {
+    const stored = parseInt(localStorage.getItem(AI_RATE_LIMIT_KEY) || '', 10);
+    return stored >= 0 ? stored : DEFAULT_REQUESTS_PER_MINUTE;
+};
+
+// Fractions of a cent show up with single images, so small amounts get more digits.
+const formatUsd = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const UsagePanel: FC<{
+    usage: AIUsage;
+    daily: DailyUsage;
+    budgetUsd?: number;
+    overBudget: boolean;
+    requestsPerMinute: number;
+    onBudgetChange: (budgetUsd?: number) => void;
+    onRateLimitChange: (requestsPerMinute: number) => void;
+    onClearCache: () => void;
+    onResetSession: () => void;
+}> = ({ usage, daily, budgetUsd, overBudget, requestsPerMinute, onBudgetChange, onRateLimitChange, onClearCache, onResetSession }) => {
+    const { locale, t, tp } = useI18n();
+    const [budgetInput, setBudgetInput] = useState(budgetUsd ? String(budgetUsd) : '');
+    const [rateInput, setRateInput] = useState(String(requestsPerMinute));
+    const hitRate = usage.cacheLookups ? `${Math.round(usage.cacheHits / usage.cacheLookups * 100)}%` : '—';
+
+    // An empty budget field means no budget.
+    const commitBudget = () => {
+        const value = parseFloat(budgetInput);
+        if (!budgetInput.trim()) onBudgetChange(undefined);
+        else if (value > 0) onBudgetChange(value);
+        else setBudgetInput(budgetUsd ? String(budgetUsd) : '');
+    };
+
+    const commitRate = () => {
+        const value = parseInt(rateInput, 10);
+        if (value >= 0) onRateLimitChange(value);
+        else setRateInput(String(requestsPerMinute));
+    };
+
+    return (
+        <div className="history-panel usage-panel">
+            <div className="usage-stats">
+                <div className="usage-stat"><span>{t('usage.requests')}</span><strong>{usage.requests}</strong></div>
+                <div className="usage-stat"><span>{t('usage.tokens')}</span><strong>{usage.promptTokens.toLocaleString(locale)} / {usage.outputTokens.toLocaleString(locale)}</strong></div>
+                <div className="usage-stat"><span>{t('usage.hitRate')}</span><strong>{hitRate}</strong><small>{t('usage.lookups', { hits: usage.cacheHits, lookups: usage.cacheLookups })}</small></div>
+                <div className="usage-stat"><span>{t('usage.sessionCost')}</span><strong>{formatUsd(usage.costUsd)}</strong></div>
+            </div>
+            <p className="usage-note">
+                {t('usage.costNote', { input: formatUsd(AI_PRICING.inputPerMillion), output: formatUsd(AI_PRICING.outputPerMillion) })}
+            </p>
+            <div className="history-header">
+                <p>{tp('usage.today', daily.requests, { cost: budgetUsd ? t('usage.ofBudget', { cost: formatUsd(daily.costUsd), budget: formatUsd(budgetUsd) }) : formatUsd(daily.costUsd) })}</p>
+                <div className="target-size-input-container">
+                    <label htmlFor="ai-budget">{t('usage.budget')}</label>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        id="ai-budget"
+                        className="target-size-input"
+                        placeholder={t('common.none')}
+                        value={budgetInput}
+                        onChange={(e) => setBudgetInput(e.target.value)}
+                        onBlur={commitBudget}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitBudget(); }}
+                    />
+                </div>
+                <div className="target-size-input-container">
+                    <label htmlFor="ai-rate-limit">{t('usage.requests')}</label>
+                    <input
+                        type="number"
+                        min="0"
+                        id="ai-rate-limit"
+                        className="target-size-input"
+                        title={t('usage.noLimit')}
+                        value={rateInput}
+                        onChange={(e) => setRateInput(e.target.value)}
+                        onBlur={commitRate}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRate(); }}
+                    />
+                    <span>{t('usage.perMinute')}</span>
+                </div>
+            </div>
+            {overBudget && <p className="usage-budget-notice">{t('usage.overBudget')}</p>}
+            <div className="global-actions">
+                <button className="button button-secondary" onClick={onResetSession}>{t('usage.resetSession')}</button>
+                <button className="button button-tertiary" onClick={onClearCache}>{t('usage.clearCache')}</button>
+            </div>
+        </div>
+    );
+};
+
+// Takes files and whole folders, by drag and drop or from either picker.
+// `compact` is the slimmer version shown above a queue that has files.
+const DropZone: FC<{ compact?: boolean; onFilesAdded: (files: SourceFile[]) => void }> = ({ compact, onFilesAdded }) => {
+    const { t } = useI18n();
+    const [isDragging, setIsDragging] = useState(false);
+
+    const handleDrag = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.type === 'dragenter' || e.type === 'dragover') {
+            setIsDragging(true);
+        } else if (e.type === 'dragleave') {
+            setIsDragging(false);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        filesFromDrop(e.dataTransfer)
+            .then(files => files.length > 0 && onFilesAdded(files))
+            .catch(error => console.error("Couldn't read the dropped files:", error));
+    };
+    
+    // Cleared afterwards so picking the same files again still fires.
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            onFilesAdded(filesFromInput(e.target.files));
+        }
+        e.target.value = '';
+    };
+
+    const openFolderPicker = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        document.getElementById('folder-input')?.click();
+    };
+
+    return (
+        <div className={`drop-zone ${compact ? 'compact' : ''} ${isDragging ? 'dragging' : ''}`} onDragEnter={handleDrag} onDragOver={handleDrag} onDragLeave={handleDrag} onDrop={handleDrop} onClick={() => document.getElementById('file-input')?.click()}>
+            <input type="file" id="file-input" multiple style={{ display: 'none' }} accept={INPUT_ACCEPT} onChange={handleFileSelect} />
+            <input type="file" id="folder-input" style={{ display: 'none' }} ref={input => { if (input) input.webkitdirectory = true; }} onClick={(e) => e.stopPropagation()} onChange={handleFileSelect} />
+            <svg className="drop-zone-icon" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M12 15l-3-3m0 0l3-3m-3 3h12" />
+            </svg>
+            <p className="drop-zone-text">{compact ? t('drop.promptCompact') : t('drop.prompt')}</p>
+            <div className="drop-zone-buttons">
+                <button className="button button-secondary">{t('drop.selectFiles')}</button>
+                <button className="button button-secondary" onClick={openFolderPicker}>{t('drop.selectFolder')}</button>
+            </div>
+        </div>
+    );
+};
+
+const App: FC = () => {
+    const [files, setFiles] = useState<AppFile[]>([]);
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const [customPresets, setCustomPresets] = useState<Preset[]>(loadCustomPresets);
+    const [selectedPresetId, setSelectedPresetId] = useState('');
+    const [presetMessage, setPresetMessage] = useState<string>();
+    const [isArchiving, setIsArchiving] = useState(false);
+    const [archiveError, setArchiveError] = useState<string>();
+    const [comparingId, setComparingId] = useState<string>();
+    const [croppingId, setCroppingId] = useState<string>();
+    const [pdfEditingId, setPdfEditingId] = useState<string>();
+    const [view, setView] = useState<'files' | 'history' | 'report' | 'usage'>('files');
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [historyQuotaMb, setHistoryQuotaMb] = useState(loadHistoryQuota);
+    // Kept untranslated so it follows a change of language.
+    const [storageError, setStorageError] = useState<{ message?: string }>();
+    const [aiUsage, setAIUsage] = useState<AIUsage>(getAIUsage);
+    const [dailyUsage, setDailyUsage] = useState<DailyUsage>(loadDailyUsage);
+    const [aiBudgetUsd, setAIBudgetUsd] = useState(loadAIBudget);
+    const [aiRateLimit, setAIRateLimitState] = useState(loadAIRateLimit);
+    const [locale, setLocaleState] = useState(getLocale);
+    // What's currently in the queue store, so only changed files get rewritten.
+    const savedFilesRef = useRef<Map<string, AppFile>>();
+
+    const reportStorageError = useCallback((error: unknown) => {
+        console.error("Storage failed:", error);
+        setStorageError({ message: error instanceof Error ? error.message : undefined });
     }, []);
 
-    const handleCompress = useCallback(async (id:string) => {
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'compressing' } : f));
+    // --- Persistence ---
+    useEffect(() => {
+        Promise.all([getAllRecords<PersistedFile>('queue'), getAllRecords<HistoryEntry>('history')])
+            .then(([queue, entries]) => {
+                savedFilesRef.current = new Map(queue.map(f => [f.id, f]));
+                setFiles(prev => [...queue.filter(f => !prev.some(p => p.id === f.id)), ...prev]);
+                setHistory(entries.sort((a, b) => b.createdAt - a.createdAt));
+            })
+            .catch(error => {
+                savedFilesRef.current = new Map();
+                reportStorageError(error);
+            });
+    }, [reportStorageError]);
+
+    useEffect(() => {
+        const saved = savedFilesRef.current;
+        // Wait for the restore so it can't be mistaken for a cleared queue.
+        if (!saved) return;
+        const changed = files.filter(f => !TRANSIENT_STATUSES.includes(f.status) && saved.get(f.id) !== f);
+        const removed = [...saved.keys()].filter(id => !files.some(f => f.id === id));
+        changed.forEach(f => saved.set(f.id, f));
+        removed.forEach(id => saved.delete(id));
+        putRecords('queue', changed.map(toPersistedFile))
+            .then(() => deleteRecords('queue', removed))
+            .catch(reportStorageError);
+    }, [files, reportStorageError]);
+
+    useEffect(() => {
+        const evicted = entriesOverQuota(history, historyQuotaMb * 1024 * 1024);
+        if (evicted.length === 0) return;
+        setHistory(prev => prev.filter(entry => !evicted.includes(entry)));
+        deleteRecords('history', evicted.map(entry => entry.id)).catch(reportStorageError);
+    }, [history, historyQuotaMb, reportStorageError]);
+
+    // --- AI Usage ---
+    useEffect(() => subscribeAIUsage((usage, change) => {
+        setAIUsage(usage);
+        if (!change.requests) return;
+        setDailyUsage(prev => {
+            const day = prev.date === todayKey() ? prev : { date: todayKey(), requests: 0, costUsd: 0 };
+            return { ...day, requests: day.requests + change.requests, costUsd: day.costUsd + (change.costUsd ?? 0) };
+        });
+    }), []);
+
+    useEffect(() => {
+        localStorage.setItem(DAILY_USAGE_KEY, JSON.stringify(dailyUsage));
+    }, [dailyUsage]);
+
+    useEffect(() => {
+        setAIRateLimit(aiRateLimit);
+    }, [aiRateLimit]);
+
+    // Past the budget only the offline rules answer, until the day turns.
+    const overBudget = aiBudgetUsd !== undefined && dailyUsage.date === todayKey() && dailyUsage.costUsd >= aiBudgetUsd;
+    useEffect(() => {
+        setRecommendationProviders(overBudget ? [heuristicProvider] : [serverProvider, heuristicProvider]);
+    }, [overBudget]);
+
+    const handleBudgetChange = (budgetUsd?: number) => {
+        setAIBudgetUsd(budgetUsd);
+        if (budgetUsd) localStorage.setItem(AI_BUDGET_KEY, String(budgetUsd));
+        else localStorage.removeItem(AI_BUDGET_KEY);
+    };
+
+    const handleRateLimitChange = (requestsPerMinute: number) => {
+        setAIRateLimitState(requestsPerMinute);
+        localStorage.setItem(AI_RATE_LIMIT_KEY, String(requestsPerMinute));
+    };
+
+    // --- Language ---
+    // The core formats sizes in it and AI requests ask for it by reading
+    // getLocale() when they're made, so it's set there before rendering.
+    const handleLocaleChange = (next: Locale) => {
+        setLocale(next);
+        setLocaleState(next);
+        localStorage.setItem(LOCALE_KEY, next);
+    };
+
+    const i18n = useMemo(() => createI18n(locale), [locale]);
+
+    // index.html's own text is marked with the keys it shows.
+    useEffect(() => {
+        document.documentElement.lang = i18n.locale;
+        document.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+            element.textContent = i18n.t(element.dataset.i18n as MessageKey);
+        });
+    }, [i18n]);
+
+    const handleClearAICache = () => {
+        clearAICache().catch(reportStorageError);
+    };
 
+    const addToHistory = useCallback((entry: HistoryEntry) => {
+        setHistory(prev => [entry, ...prev]);
+        putRecords('history', [entry]).catch(reportStorageError);
+    }, [reportStorageError]);
+
+    // Reads the size and frames of images and asks for recommendations, all
+    // files of a drop together so Gemini can answer them in one request.
+    const analyzeFiles = useCallback(async (appFiles: AppFile[]) => {
+        if (!appFiles.length) return;
+        // Files dropped right after load wait to find out whether the server can answer.
+        await serverConnection;
+        appFiles.filter(appFile => isRasterImage(appFile.file)).forEach(appFile => {
+            getImageDimensions(appFile.file)
+                .then(dimensions => setFiles(prev => prev.map(f => f.id === appFile.id ? { ...f, dimensions } : f)))
+                .catch(error => console.warn(`Couldn't read the size of ${appFile.file.name}:`, error));
+            isAnimatedGif(appFile.file)
+                .then(animated => animated && setFiles(prev => prev.map(f => f.id === appFile.id ? { ...f, animated } : f)))
+                .catch(error => console.warn(`Couldn't read the frames of ${appFile.file.name}:`, error));
+        });
+
+        const results = await getAIRecommendedSizes(appFiles.map(appFile => appFile.file), getLocale());
+        const updates = new Map(appFiles.map((appFile, i): [string, Partial<AppFile>] => {
+            const result = results[i];
+            if (result.status === 'fulfilled') {
+                const { recommendedSize, reason, recommendedPdfMode, provider, fallback, analysis } = result.value;
+                return [appFile.id, { status: 'pending', recommendedSize, recommendationReason: reason ?? i18n.t('ai.defaultRecommendation'), recommendationProvider: provider, recommendationFallback: fallback, recommendedPdfMode, pdfCompressionMode: recommendedPdfMode || 'lossy', contentAnalysis: analysis }];
+            }
+            console.error("Failed to get recommendation:", result.reason);
+            return [appFile.id, { status: 'error', errorMessage: i18n.t('queue.noRecommendation', { reason: describeAIFailure(classifyAIError(result.reason), i18n) }) }];
+        }));
+        setFiles(prev => prev.map(f => updates.has(f.id) ? { ...f, ...updates.get(f.id) } : f));
+    }, [i18n]);
+
+    // Types are read from the files' contents, since HEIC and TIFF often
+    // arrive with none or a wrong one. Unsupported files inside a folder are
+    // passed over quietly; ones picked by themselves get an error card.
+    // Files whose bytes are already queued, earlier in the same drop or in
+    // the history wait as duplicates instead of being analysed again.
+    const handleAddFiles = useCallback(async (sources: SourceFile[]) => {
+        const normalized = await Promise.all(sources.map(({ file }) => normalizeInputFile(file)));
+        const accepted = sources
+            .map((source, i) => ({ ...source, normalized: normalized[i] }))
+            .filter(source => source.normalized || !source.fromFolder);
+        const hashes = await Promise.all(accepted.map(source => source.normalized && hashBlob(source.normalized)));
+
+        const taken = new Set<string>(files.map(f => f.id));
+        const appFiles: AppFile[] = [];
+        accepted.forEach(({ file: original, normalized: file, relativePath }, i) => {
+            const contentHash = hashes[i];
+            if (!file || !contentHash) {
+                appFiles.push({
+                    id: uniqueId(`${original.name}-${original.lastModified}`, taken),
+                    file: original,
+                    relativePath,
+                    status: 'error',
+                    smartResize: false,
+                    errorMessage: i18n.t('queue.unsupported', { formats: INPUT_FORMAT_LIST })
+                });
+                return;
+            }
+            const queued = [...files, ...appFiles].find(f => f.contentHash === contentHash && f.status !== 'duplicate');
+            const compressed = queued ? undefined : history.find(entry => entry.contentHash === contentHash);
+            const duplicateOf: DuplicateSource | undefined = queued
+                ? { kind: 'queue', id: queued.id, name: sourcePath(queued) }
+                : compressed && { kind: 'history', id: compressed.id, name: compressed.relativePath ?? compressed.originalFile.name };
+            appFiles.push({
+                id: uniqueId(contentHash, taken),
+                file,
+                relativePath,
+                contentHash,
+                duplicateOf,
+                status: duplicateOf ? 'duplicate' : 'analyzing',
+                smartResize: false,
+                targetSizeInput: '',
+                targetUnit: 'KB',
+                metadataPolicy: 'strip-private',
+                pdfCompressionMode: 'lossy'
+            });
+        });
+        
+        setFiles(prev => [...prev, ...appFiles]);
+        analyzeFiles(appFiles.filter(appFile => appFile.status === 'analyzing'));
+    }, [files, history, analyzeFiles, i18n]);
+
+    const handleKeepDuplicate = useCallback((id: string) => {
         const appFile = files.find(f => f.id === id);
-        if (!appFile) return;
+        const source = appFile?.duplicateOf;
+        if (!appFile || !source) return;
+        const original = source.kind === 'queue' ? files.find(f => f.id === source.id) : undefined;
+        const entry = source.kind === 'history' ? history.find(e => e.id === source.id) : undefined;
+        const reused = entry ? reuseHistoryEntry(appFile, entry) : original && reuseResults(appFile, original);
+        if (reused) {
+            setFiles(prev => prev.map(f => f.id === id ? reused : f));
+            return;
+        }
+        const analyzing: AppFile = { ...appFile, status: 'analyzing', duplicateOf: undefined };
+        setFiles(prev => prev.map(f => f.id === id ? analyzing : f));
+        analyzeFiles([analyzing]);
+    }, [files, history, analyzeFiles]);
+
+    const handleSkipDuplicates = () => {
+        setFiles(prev => prev.filter(f => f.status !== 'duplicate'));
+    };
+    
+    const handleToggleSmartResize = useCallback((id: string, checked: boolean) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, smartResize: checked } : f));
+    }, []);
+
+    const handleTargetSizeChange = useCallback((id: string, value: string, unit: 'KB' | 'MB') => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, targetSizeInput: value, targetUnit: unit } : f));
+    }, []);
+    
+    const handleOutputFormatChoiceChange = useCallback((id: string, choice: OutputFormatChoice) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, outputFormatChoice: choice } : f));
+    }, []);
+
+    const handleMetadataPolicyChange = useCallback((id: string, metadataPolicy: MetadataPolicy) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, metadataPolicy } : f));
+    }, []);
+
+    const handleGeometryChange = useCallback((id: string, patch: GeometryPatch) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+    }, []);
+
+    const handlePdfModeChange = useCallback((id: string, mode: PdfCompressionMode) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, pdfCompressionMode: mode } : f));
+    }, []);
+
+    const handlePdfColorChange = useCallback((id: string, pdfColorMode: PdfColorMode) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, pdfColorMode } : f));
+    }, []);
+
+    // The page tools' outputs take the card's place in the queue, keep its
+    // PDF settings and get their own recommendations. Merged cards go away.
+    const handlePdfToolsApply = useCallback(async (id: string, outputs: PdfToolOutput[], mergedIds: string[]) => {
+        const original = files.find(f => f.id === id);
+        if (!original) return;
+        const hashes = await Promise.all(outputs.map(output => hashBlob(output.file)));
+        const taken = new Set<string>(files.map(f => f.id));
+        const replacements: AppFile[] = outputs.map(({ file, pdfSource }, i) => ({
+            id: uniqueId(hashes[i], taken),
+            file,
+            relativePath: original.relativePath && outputPath(original.relativePath, file.name),
+            contentHash: hashes[i],
+            status: 'analyzing',
+            smartResize: false,
+            pdfCompressionMode: original.pdfCompressionMode,
+            pdfColorMode: original.pdfColorMode,
+            pdfSource,
+        }));
+        [id, ...mergedIds].forEach(removed => {
+            controllersRef.current.get(removed)?.abort();
+            controllersRef.current.delete(removed);
+        });
+        setFiles(prev => prev.flatMap(f => f.id === id ? replacements : mergedIds.includes(f.id) ? [] : [f]));
+        analyzeFiles(replacements);
+    }, [files, analyzeFiles]);
+
+    const handleSvgPrecisionChange = useCallback((id: string, svgPrecision: number) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, svgPrecision } : f));
+    }, []);
+
+    const handleToggleResponsive = useCallback((id: string, responsive: boolean) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, responsive } : f));
+    }, []);
 
+    const handleResponsiveChange = useCallback((id: string, patch: ResponsivePatch) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+    }, []);
+
+    // Breakpoints for the image as it will be encoded, after any crop.
+    const handleSuggestBreakpoints = useCallback(async (id: string) => {
+        const appFile = files.find(f => f.id === id);
+        if (!appFile) return;
         try {
-            if (appFile.file.type.startsWith('image/')) {
+            const dimensions = resizeBounds(appFile.dimensions ?? await getImageDimensions(appFile.file), { crop: appFile.crop, cropAspect: appFile.cropAspect });
+            const { widths, reason, provider } = await getAIBreakpoints(appFile.file, dimensions, getLocale());
+            setFiles(prev => prev.map(f => f.id === id ? { ...f, responsiveWidths: widths, breakpointReason: reason ?? i18n.t('ai.defaultBreakpoints'), breakpointProvider: provider } : f));
+        } catch (error) {
+            console.error("Failed to suggest breakpoints:", error);
+            const breakpointReason = i18n.t('queue.noBreakpoints', { reason: describeAIFailure(classifyAIError(error), i18n) });
+            setFiles(prev => prev.map(f => f.id === id ? { ...f, breakpointReason, breakpointProvider: undefined } : f));
+        }
+    }, [files, i18n]);
+
+    const handleRemoveFile = useCallback((id: string) => {
+        controllersRef.current.get(id)?.abort();
+        controllersRef.current.delete(id);
+        setFiles(prev => prev.filter(f => f.id !== id));
+    }, []);
+
+    const updateFile = useCallback((id: string, patch: Partial<AppFile>) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+    }, []);
+
+    // Queues a compression job for one file. The job gets its own AbortController
+    // so Cancel can stop it while queued, mid-request or mid-encode.
+    const enqueueJob = useCallback((appFile: AppFile, job: (signal: AbortSignal, setProgress: StageCallback) => Promise<Partial<AppFile>>) => {
+        const { id } = appFile;
+        controllersRef.current.get(id)?.abort();
+        const controller = new AbortController();
+        controllersRef.current.set(id, controller);
+        updateFile(id, { status: 'queued', progress: 0, progressStage: undefined, qualityMetrics: undefined });
+
+        const setProgress: StageCallback = (progress, progressStage) => {
+            if (!controller.signal.aborted) updateFile(id, { status: 'compressing', progress, progressStage });
+        };
+
+        compressionQueue.run(() => job(controller.signal, setProgress), controller.signal)
+            .then(patch => {
+                if (controller.signal.aborted) return;
+                updateFile(id, { ...patch, status: 'done', progress: undefined, progressStage: undefined });
+                addToHistory(createHistoryEntry({ ...appFile, ...patch }));
+            })
+            .catch(error => {
+                if (isAbortError(error) || controller.signal.aborted) return;
+                console.error("Compression failed:", error);
+                updateFile(id, { status: 'error', errorMessage: error instanceof Error ? error.message : undefined });
+            })
+            .finally(() => {
+                if (controllersRef.current.get(id) === controller) controllersRef.current.delete(id);
+            });
+    }, [updateFile, addToHistory]);
+
+    // Takes the file itself rather than an id so batch runs can pass in files
+    // with a preset applied before that state update has rendered.
+    const startCompression = useCallback((appFile: AppFile) => {
+        enqueueJob(appFile, async (signal, setProgress) => {
+            if (isVectorImage(appFile.file)) {
+                 const { compressedFile, stats, report } = await compressSvgFile(appFile.file, {
+                     precision: appFile.svgPrecision,
+                     language: getLocale(),
+                     signal,
+                     onProgress: setProgress
+                 });
+                 return { compressedFile, compressedSize: compressedFile.size, aiReport: report.text, svgStats: stats };
+            } else if (appFile.responsive && isRasterImage(appFile.file)) {
+                 const { set, compressionSettings, provider, fallback: aiFallback, report } = await compressResponsiveSet(appFile.file, {
+                     widths: appFile.responsiveWidths ?? [],
+                     formats: appFile.responsiveFormats,
+                     crop: appFile.crop,
+                     cropAspect: appFile.cropAspect,
+                     resampling: appFile.resampling,
+                     metadataPolicy: appFile.metadataPolicy,
+                     language: getLocale(),
+                     runner: poolRunner,
+                     signal,
+                     onProgress: setProgress
+                 });
+                 // The widest fallback image stands in for the set in comparisons and history.
+                 const fallback = fallbackVariant(set);
+                 const compressionDetails: CompressionDetails = { format: fallback.format, passes: set.variants.length, quality: compressionSettings.targetQuality, width: fallback.width, height: fallback.height, targetMet: true, provider, fallback: aiFallback };
+                 return { compressedFile: fallback.file, compressedSize: fallback.file.size, aiReport: report.text, compressionDetails, compressionSettings, formatCandidates: undefined, responsiveSet: set };
+            } else if (appFile.file.type.startsWith('image/')) {
                  const targetSize = parseFloat(appFile.targetSizeInput || '');
-                 const settings = await getAICompressionSuggestion(
-                     appFile.file, 
-                     appFile.smartResize,
-                     !isNaN(targetSize) && targetSize > 0 ? targetSize : undefined,
-                     appFile.targetUnit
-                 );
-                 const compressedBlob = await compressImage(appFile.file, settings);
-                 
-                 const originalName = appFile.file.name.substring(0, appFile.file.name.lastIndexOf('.'));
-                 const newExtension = settings.convertToWebp ? 'webp' : 'jpeg';
-                 const newName = `${originalName}.${newExtension}`;
-                 
-                 const compressedFile = new File([compressedBlob], newName, { type: compressedBlob.type });
-
-                 const report = await getAIReport(appFile.file.size, compressedFile.size);
-                 
-                 setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'done', compressedFile, compressedSize: compressedFile.size, aiReport: report } : f));
+                 const { compressedFile, compressionDetails, compressionSettings, formatCandidates, report } = await compressImageFile(appFile.file, {
+                     targetSize: isNaN(targetSize) ? undefined : targetSize,
+                     targetUnit: appFile.targetUnit,
+                     smartResize: appFile.smartResize,
+                     outputFormatChoice: appFile.outputFormatChoice,
+                     maxWidth: appFile.maxWidth,
+                     maxHeight: appFile.maxHeight,
+                     crop: appFile.crop,
+                     cropAspect: appFile.cropAspect,
+                     resize: appFile.resize,
+                     resampling: appFile.resampling,
+                     metadataPolicy: appFile.metadataPolicy,
+                     language: getLocale(),
+                     runner: poolRunner,
+                     signal,
+                     onProgress: setProgress
+                 });
+                 return { compressedFile, compressedSize: compressedFile.size, aiReport: report.text, compressionDetails, compressionSettings, formatCandidates, responsiveSet: undefined };
             } else if (appFile.file.type === 'application/pdf') {
-                 // Simulate PDF compression as it's complex for client-side
-                 await new Promise(resolve => setTimeout(resolve, 2500)); // Simulate processing time
-
-                 const originalSize = appFile.file.size;
-                 
-                 let reductionFactor;
-                 if(appFile.pdfCompressionMode === 'lossless') {
-                     // Simulate a believable reduction for lossless (e.g., 10% to 30%)
-                     reductionFactor = 0.1 + Math.random() * 0.2;
-                 } else { // 'lossy'
-                    // Simulate a believable reduction for lossy (e.g., 40% to 80%)
-                    reductionFactor = 0.4 + Math.random() * 0.4;
-                 }
-                 
-                 const compressedSize = Math.round(originalSize * (1 - reductionFactor));
-                 
-                 const report = await getAIPdfReport(originalSize, compressedSize, appFile.pdfCompressionMode);
-                 
-                 const originalName = appFile.file.name.substring(0, appFile.file.name.lastIndexOf('.'));
-                 const newName = `${originalName}-compressed.pdf`;
-
-                 // For the demo, the downloadable file is a copy of the original.
-                 const compressedFile = new File([appFile.file], newName, { type: 'application/pdf' });
-
-                 setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'done', compressedFile, compressedSize, aiReport: report } : f));
+                 const { compressedFile, report } = await compressPdfFile(appFile.file, {
+                     mode: appFile.pdfCompressionMode,
+                     color: appFile.pdfColorMode,
+                     language: getLocale(),
+                     signal,
+                     onProgress: setProgress
+                 });
+                 return { compressedFile, compressedSize: compressedFile.size, aiReport: report.text };
             } else {
-                 throw new Error(`Unsupported file type: ${appFile.file.type}`);
+                 throw new Error(i18n.t('queue.unsupportedType', { type: appFile.file.type }));
             }
+        });
+    }, [enqueueJob, i18n]);
+
+    const handleCompress = useCallback((id: string) => {
+        const appFile = files.find(f => f.id === id);
+        if (appFile) startCompression(appFile);
+    }, [files, startCompression]);
 
+    const handleSelectFormat = useCallback((id: string, format: OutputFormat) => {
+        const appFile = files.find(f => f.id === id);
+        if (!appFile?.compressionSettings || !appFile.compressionDetails) return;
+        const { compressionSettings, compressionDetails: previousDetails } = appFile;
+
+        enqueueJob(appFile, async (signal, setProgress) => {
+            setProgress(0.05, { step: 'encoding' });
+            const settings: CompressionSettings = { ...compressionSettings, outputFormat: format };
+            const { compressedFile, compressionDetails } = await encodeImageFile(appFile.file, settings, previousDetails.targetBytes, {
+                metadataPolicy: previousDetails.metadata?.policy,
+                runner: poolRunner,
+                signal,
+                onProgress: fraction => setProgress(0.05 + fraction * 0.85, { step: 'encoding' })
+            });
+            compressionDetails.provider = previousDetails.provider;
+
+            setProgress(0.9, { step: 'report' });
+            const report = await getAIReport(appFile.file.size, compressedFile.size, getLocale(), signal);
+
+            return { compressedFile, compressedSize: compressedFile.size, aiReport: report.text, compressionDetails, compressionSettings: settings };
+        });
+    }, [files, enqueueJob]);
+
+    const handleCancel = useCallback((id: string) => {
+        controllersRef.current.get(id)?.abort();
+        controllersRef.current.delete(id);
+        updateFile(id, { status: 'cancelled', progress: undefined, progressStage: undefined });
+    }, [updateFile]);
+
+    const handleMetricsComputed = useCallback((id: string, qualityMetrics: QualityMetrics) => {
+        updateFile(id, { qualityMetrics });
+    }, [updateFile]);
+
+    const handleCloseComparison = useCallback(() => setComparingId(undefined), []);
+    const handleCloseCrop = useCallback(() => setCroppingId(undefined), []);
+    const handleClosePdfTools = useCallback(() => setPdfEditingId(undefined), []);
+
+    // --- History ---
+    const handleRerun = (entry: HistoryEntry) => {
+        const { originalFile, contentHash } = entry;
+        setFiles(prev => [...prev, {
+            id: uniqueId(contentHash ?? `${originalFile.name}-${Date.now()}`, new Set<string>(prev.map(f => f.id))),
+            file: originalFile,
+            relativePath: entry.relativePath,
+            contentHash,
+            status: 'pending',
+            ...entry.settings,
+            recommendedSize: entry.recommendedSize,
+            recommendationReason: entry.recommendationReason,
+            recommendationProvider: entry.recommendationProvider,
+        }]);
+        setView('files');
+    };
+
+    const handleDeleteHistory = (id: string) => {
+        setHistory(prev => prev.filter(entry => entry.id !== id));
+        deleteRecords('history', [id]).catch(reportStorageError);
+    };
+
+    const handleClearHistory = () => {
+        setHistory([]);
+        clearRecords('history').catch(reportStorageError);
+    };
+
+    const handleHistoryQuotaChange = (quotaMb: number) => {
+        setHistoryQuotaMb(quotaMb);
+        localStorage.setItem(HISTORY_QUOTA_KEY, String(quotaMb));
+    };
+
+    // --- Presets & Batch ---
+    const presets = [...BUILT_IN_PRESETS, ...customPresets];
+    const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+    const isBatchable = (appFile: AppFile) => appFile.status === 'pending' || appFile.status === 'cancelled';
+
+    const updateCustomPresets = (next: Preset[]) => {
+        setCustomPresets(next);
+        saveCustomPresets(next);
+    };
+
+    const applyPresetToPending = (preset: Preset): AppFile[] => {
+        const updated = files.filter(isBatchable).map(f => applyPreset(f, preset));
+        setFiles(prev => prev.map(f => updated.find(u => u.id === f.id) ?? f));
+        return updated;
+    };
+
+    const handleCompressAll = () => {
+        const targets = selectedPreset ? applyPresetToPending(selectedPreset) : files.filter(isBatchable);
+        targets.forEach(startCompression);
+    };
+
+    const handleSavePreset = (preset: Preset) => {
+        const saved = { ...preset, id: createPresetId(), builtIn: undefined };
+        updateCustomPresets([...customPresets, saved]);
+        setSelectedPresetId(saved.id);
+    };
+
+    const handleDeletePreset = (id: string) => {
+        updateCustomPresets(customPresets.filter(preset => preset.id !== id));
+        if (selectedPresetId === id) setSelectedPresetId('');
+    };
+
+    const handleImportPresets = async (file: File) => {
+        try {
+            updateCustomPresets(importPresets(await file.text(), customPresets));
+            setPresetMessage(i18n.t('presets.imported', { name: file.name }));
         } catch (error) {
-            console.error("Compression failed:", error);
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-            setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'error', errorMessage } : f));
+            setPresetMessage(error instanceof Error ? error.message : i18n.t('presets.importFailed'));
         }
-    }, [files]);
-    
-    const handleClearAll = () => setFiles([]);
+    };
+
+    const handleExportPresets = () => {
+        const blob = new Blob([exportPresets(customPresets)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'whilo-presets.json';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleClearAll = () => {
+        controllersRef.current.forEach(controller => controller.abort());
+        controllersRef.current.clear();
+        setFiles([]);
+    };
     
-    const handleDownloadAll = () => {
-        files.forEach(appFile => {
-            if(appFile.status === 'done' && appFile.compressedFile) {
-                const link = document.createElement('a');
-                link.href = URL.createObjectURL(appFile.compressedFile);
-                link.download = appFile.compressedFile.name;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-            }
-        });
+    const handleDownloadAll = async () => {
+        setIsArchiving(true);
+        setArchiveError(undefined);
+        try {
+            await saveZip(buildDownloadArchive(files), `whilo-compressed-${new Date().toISOString().slice(0, 10)}.zip`);
+        } catch (error) {
+            console.error("Failed to build ZIP:", error);
+            setArchiveError(error instanceof Error ? i18n.t('common.zipFailedWith', { message: error.message }) : i18n.t('common.zipFailed'));
+        } finally {
+            setIsArchiving(false);
+        }
     };
     
     const canDownloadAll = files.some(f => f.status === 'done');
+    const batchReport = useMemo(() => buildBatchReport(files.filter(f => f.status === 'done' && f.compressedFile).map(appFile => reportEntry(appFile, i18n))), [files, i18n]);
+    const duplicateCount = files.filter(f => f.status === 'duplicate').length;
+    const comparingFile = files.find(f => f.id === comparingId);
+    const croppingFile = files.find(f => f.id === croppingId);
+    const pdfEditingFile = files.find(f => f.id === pdfEditingId);
 
     return (
-        <>
-            {files.length === 0 ? (
+        <I18nContext.Provider value={i18n}>
+            <div className="view-tabs">
+                <button className={`comparison-tab ${view === 'files' ? 'active' : ''}`} onClick={() => setView('files')}>{i18n.t('tabs.files', { count: files.length })}</button>
+                <button className={`comparison-tab ${view === 'history' ? 'active' : ''}`} onClick={() => setView('history')}>{i18n.t('tabs.history', { count: history.length })}</button>
+                <button className={`comparison-tab ${view === 'report' ? 'active' : ''}`} onClick={() => setView('report')}>{i18n.t('tabs.report')}</button>
+                <button className={`comparison-tab ${view === 'usage' ? 'active' : ''}`} onClick={() => setView('usage')}>{i18n.t('tabs.usage')}</button>
+                <select className="language-select" aria-label={i18n.t('app.language')} title={i18n.t('app.language')} value={locale} onChange={(e) => handleLocaleChange(e.target.value as Locale)}>
+                    {LOCALE_NAMES.map(name => <option key={name} value={name}>{LOCALES[name].nativeName}</option>)}
+                </select>
+            </div>
+            {storageError && <p className="global-actions-error">{storageError.message ? i18n.t('app.storageFailedWith', { message: storageError.message }) : i18n.t('app.storageFailed')}</p>}
+            {overBudget && view !== 'usage' && <p className="usage-budget-notice">{i18n.t('app.overBudget')}</p>}
+            {view === 'usage' ? (
+                <UsagePanel
+                    usage={aiUsage}
+                    daily={dailyUsage}
+                    budgetUsd={aiBudgetUsd}
+                    overBudget={overBudget}
+                    requestsPerMinute={aiRateLimit}
+                    onBudgetChange={handleBudgetChange}
+                    onRateLimitChange={handleRateLimitChange}
+                    onClearCache={handleClearAICache}
+                    onResetSession={resetAIUsage}
+                />
+            ) : view === 'report' ? (
+                <BatchReportPanel report={batchReport} />
+            ) : view === 'history' ? (
+                <HistoryPanel
+                    entries={history}
+                    quotaMb={historyQuotaMb}
+                    onQuotaChange={handleHistoryQuotaChange}
+                    onRerun={handleRerun}
+                    onDelete={handleDeleteHistory}
+                    onClear={handleClearHistory}
+                />
+            ) : files.length === 0 ? (
                 <DropZone onFilesAdded={handleAddFiles} />
             ) : (
                 <>
+                    <PresetToolbar
+                        presets={presets}
+                        selectedPreset={selectedPreset}
+                        batchCount={files.filter(isBatchable).length}
+                        message={presetMessage}
+                        onSelect={setSelectedPresetId}
+                        onApply={applyPresetToPending}
+                        onCompressAll={handleCompressAll}
+                        onSave={handleSavePreset}
+                        onDelete={handleDeletePreset}
+                        onImport={handleImportPresets}
+                        onExport={handleExportPresets}
+                    />
+                    <DropZone compact onFilesAdded={handleAddFiles} />
                     <div className="file-list">
                         {files.map((appFile, index) => (
                             <FileCard 
@@ -560,18 +2752,52 @@ const App: FC = () => {
                                 onCompress={handleCompress} 
                                 onToggleSmartResize={handleToggleSmartResize}
                                 onTargetSizeChange={handleTargetSizeChange}
+                                onOutputFormatChoiceChange={handleOutputFormatChoiceChange}
+                                onMetadataPolicyChange={handleMetadataPolicyChange}
+                                onGeometryChange={handleGeometryChange}
+                                onEditCrop={setCroppingId}
+                                onSelectFormat={handleSelectFormat}
                                 onPdfModeChange={handlePdfModeChange}
+                                onPdfColorChange={handlePdfColorChange}
+                                onEditPdf={setPdfEditingId}
+                                onSvgPrecisionChange={handleSvgPrecisionChange}
+                                onCancel={handleCancel}
+                                onCompare={setComparingId}
                                 onRemove={handleRemoveFile}
+                                onKeepDuplicate={handleKeepDuplicate}
+                                onToggleResponsive={handleToggleResponsive}
+                                onResponsiveChange={handleResponsiveChange}
+                                onSuggestBreakpoints={handleSuggestBreakpoints}
                             />
                         ))}
                     </div>
                     <div className="global-actions">
-                        <button className="button button-secondary" onClick={handleClearAll}>Clear All</button>
-                        {canDownloadAll && <button className="button button-primary" onClick={handleDownloadAll}>Download All</button>}
+                        <button className="button button-secondary" onClick={handleClearAll}>{i18n.t('queue.clearAll')}</button>
+                        {duplicateCount > 0 && <button className="button button-secondary" onClick={handleSkipDuplicates}>{i18n.t('queue.skipDuplicates', { count: duplicateCount })}</button>}
+                        {canDownloadAll && (
+                            <button className="button button-primary" disabled={isArchiving} onClick={handleDownloadAll}>
+                                {isArchiving ? <><div className="loader"></div>{i18n.t('queue.preparingZip')}</> : i18n.t('queue.downloadAll')}
+                            </button>
+                        )}
                     </div>
+                    {archiveError && <p className="global-actions-error">{archiveError}</p>}
+                    {croppingFile?.dimensions && (
+                        <CropModal appFile={{ ...croppingFile, dimensions: croppingFile.dimensions }} onApply={handleGeometryChange} onClose={handleCloseCrop} />
+                    )}
+                    {pdfEditingFile && (
+                        <PdfWorkspaceModal
+                            appFile={pdfEditingFile}
+                            otherPdfs={files.filter(f => f.id !== pdfEditingFile.id && f.file.type === 'application/pdf' && f.status !== 'error')}
+                            onApply={handlePdfToolsApply}
+                            onClose={handleClosePdfTools}
+                        />
+                    )}
+                    {comparingFile?.status === 'done' && (
+                        <ComparisonModal appFile={comparingFile} onMetricsComputed={handleMetricsComputed} onClose={handleCloseComparison} />
+                    )}
                 </>
             )}
-        </>
+        </I18nContext.Provider>
     );
 };
 
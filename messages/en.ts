@@ -0,0 +1,359 @@
+// The app's own English text, and the keys every other catalog fills in.
+// {name} is replaced with a parameter; keys ending in _one / _other are
+// picked by count.
+
+export const en = {
+    // Page
+    'app.title': 'Whilo - AI File Compression',
+    'app.subtitle': 'Intelligent File Compression, Powered by AI',
+    'app.language': 'Language',
+    'app.tagline': 'by whiletrueloop',
+    'app.overBudget': 'Daily AI budget reached, using the offline rules.',
+    'app.storageFailed': "Couldn't save to browser storage.",
+    'app.storageFailedWith': "Couldn't save to browser storage: {message}",
+
+    // Tabs & queue actions
+    'tabs.files': 'Files ({count})',
+    'tabs.history': 'History ({count})',
+    'tabs.report': 'Report',
+    'tabs.usage': 'AI usage',
+    'queue.clearAll': 'Clear All',
+    'queue.skipDuplicates': 'Skip Duplicates ({count})',
+    'queue.preparingZip': 'Preparing ZIP…',
+    'queue.downloadAll': 'Download All (.zip)',
+    'queue.noRecommendation': 'No recommendation available: {reason}',
+    'queue.unsupported': 'Unsupported file type. Please use {formats}.',
+    'queue.unsupportedType': 'Unsupported file type: {type}',
+    'queue.noBreakpoints': 'No breakpoints suggested: {reason}',
+
+    // Drop zone
+    'drop.prompt': 'Drag & drop files or folders, or click to select',
+    'drop.promptCompact': 'Drop more files or folders',
+    'drop.selectFiles': 'Select Files',
+    'drop.selectFolder': 'Select Folder',
+
+    // Shared
+    'common.via': 'via {provider}',
+    'common.clear': 'Clear',
+    'common.none': 'None',
+    'common.copied': 'Copied ✓',
+    'common.zipFailed': "Couldn't create the ZIP.",
+    'common.zipFailedWith': "Couldn't create the ZIP: {message}",
+    'common.unknownError': 'An unknown error occurred.',
+    'common.close': 'Close',
+    'common.reset': 'Reset',
+    'common.delete': 'Delete',
+    'common.target': 'Target {size} {unit}',
+    'provider.gemini': 'Gemini',
+    'provider.heuristic': 'Offline rules',
+    'provider.mock': 'Mock',
+    'format.jpeg': 'JPEG',
+    'format.webp': 'WebP',
+    'format.avif': 'AVIF',
+    'format.png': 'PNG',
+    'format.png-quantized': 'PNG (palette)',
+
+    // AI answers
+    'ai.defaultRecommendation': 'Good balance of size and quality',
+    'ai.defaultBreakpoints': 'Common layout widths for this image',
+    'ai.offline': "You're offline.",
+    'ai.providerFailed': '{provider} failed: {reason}',
+    'ai.error.timeout': "Gemini didn't answer in time.",
+    'ai.error.bad-answer': "Gemini's answer couldn't be used.",
+    'ai.error.rate-limit': 'Gemini rate limit reached.',
+    'ai.error.key-rejected': 'Gemini rejected the API key.',
+    'ai.error.unavailable': 'Gemini is unavailable right now.',
+    'ai.error.refused': 'Gemini refused the request ({status}).',
+    'ai.error.unreachable': "Couldn't reach Gemini.",
+    'ai.error.server-unreachable': "Couldn't reach the Whilo server.",
+    'ai.error.server-failed': "The Whilo server couldn't answer ({status}).",
+    'ai.error.failed': 'Something went wrong: {message}',
+
+    // Content types
+    'content.photo': 'Photo',
+    'content.photo.description': 'camera photos and other continuous-tone images',
+    'content.screenshot': 'Screenshot / text',
+    'content.screenshot.description': 'screen captures, UI and anything mostly text',
+    'content.illustration': 'Illustration',
+    'content.illustration.description': 'logos, icons, drawings and flat-color art',
+    'content.scanned-document': 'Scanned document',
+    'content.scanned-document.description': 'scans or photos of paper pages',
+    'content.chart': 'Chart',
+    'content.chart.description': 'graphs, diagrams and plots',
+
+    // Metadata
+    'metadata.strip-all': 'Strip all',
+    'metadata.strip-private': 'Strip GPS & device info',
+    'metadata.keep-all': 'Keep all',
+    'metadata.orientation': 'Orientation applied',
+    'metadata.removed': 'Removed {tags}',
+    'metadata.kept': 'Kept {tags}',
+    'metadata.summary': 'Metadata: {parts}',
+    'metadata.noneFound': 'Metadata: none found',
+
+    // PDF
+    'pdf.lossless': 'Lossless',
+    'pdf.lossy': 'Lossy',
+    'pdf.color': 'Colour',
+    'pdf.grayscale': 'Grayscale',
+    'pdf.bilevel': 'Black & white',
+
+    // Resize & crop
+    'resize.size': 'Size',
+    'resize.original': 'Original',
+    'resize.exact': 'Exact size',
+    'resize.percent': 'Scale by %',
+    'resize.width': 'Width',
+    'resize.height': 'Height',
+    'resize.locked': 'Aspect ratio locked',
+    'resize.stretch': 'Stretch to exactly this size',
+    'resize.scalePercent': 'Scale percent',
+    'resize.maxLongEdge': 'Max long edge',
+    'resize.crop': 'Crop',
+    'resize.custom': 'Custom',
+    'resize.filter': 'Filter',
+    'resize.filter.mks2013': 'MKS 2013 (default)',
+    'resize.filter.lanczos3': 'Lanczos 3',
+    'resize.filter.lanczos2': 'Lanczos 2',
+    'resize.filter.hamming': 'Hamming',
+    'resize.filter.box': 'Box (fastest)',
+    'resize.unsharp': 'Unsharp',
+    'resize.unsharpTitle': 'Unsharp mask applied after resizing',
+    'resize.amount': 'Amount',
+    'resize.radius': 'Radius',
+    'resize.threshold': 'Threshold',
+    'resize.unsharpAmount': 'Unsharp amount',
+    'resize.unsharpRadius': 'Unsharp radius',
+    'resize.unsharpThreshold': 'Unsharp threshold',
+
+    // Responsive sets
+    'responsive.toggle': 'Responsive set (several widths & formats)',
+    'responsive.widths': 'Widths',
+    'responsive.widthsPlaceholder': 'e.g. 480, 960, 1600',
+    'responsive.suggest': '✨ Suggest',
+    'responsive.suggesting': 'Suggesting…',
+    'responsive.animated': 'Animated GIF: every width is an animated WebP.',
+    'responsive.formats': 'Formats',
+    'responsive.sizes': 'Sizes',
+    'responsive.sizesTitle': 'How wide the image is shown, for the browser to pick a width',
+    'responsive.note': 'Crop and resampling apply; each width replaces the resize settings.',
+    'responsive.summary_one': 'Responsive set · {count} file · {size} in all',
+    'responsive.summary_other': 'Responsive set · {count} files · {size} in all',
+    'responsive.width': 'Width',
+    'responsive.copyHtml': 'Copy HTML',
+    'responsive.copyJson': 'Copy JSON',
+    'responsive.download': 'Download set (.zip)',
+
+    // File card
+    'card.analyzing': 'Analyzing...',
+    'card.aiSuggests': '💡 AI Suggests: {size}',
+    'card.target': 'Target',
+    'card.auto': 'Auto',
+    'card.animatedGif': 'Animated GIF: saved as animated WebP with the same frame timing.',
+    'card.format': 'Format',
+    'card.aiChoice': '✨ AI choice',
+    'card.best': 'Best (smallest of JPEG/WebP/AVIF)',
+    'card.smartResize': '✨ AI Smart Resize',
+    'card.metadata': 'Metadata',
+    'card.resizeCrop': 'Resize & crop',
+    'card.adjust': 'Adjust…',
+    'card.output': 'Output {width}×{height}px',
+    'card.outputSmart': 'Output {width}×{height}px, or smaller if AI Smart Resize picks it',
+    'card.fitsWithin': 'Fits within {width}×{height}px',
+    'card.precision': 'Precision',
+    'card.precisionTitle': 'Decimal places kept in coordinates',
+    'card.decimals_one': '{count} decimal',
+    'card.decimals_other': '{count} decimals',
+    'card.compressionMode': 'Compression Mode',
+    'card.aiSuggestsMode': '💡 AI suggests: {mode}',
+    'card.colour': 'Colour',
+    'card.pdfTools': 'Pages, split & merge…',
+    'card.compress': 'Compress',
+    'card.queued': 'Queued…',
+    'card.starting': 'Starting…',
+    'card.cancel': 'Cancel',
+    'card.compare': 'Compare before/after',
+    'card.animatedFormat': 'Animated {format}',
+    'card.frames_one': '{count} frame',
+    'card.frames_other': '{count} frames',
+    'card.passes_one': '{count} pass',
+    'card.passes_other': '{count} passes',
+    'card.colors': '{count} colors',
+    'card.lossless': 'Lossless',
+    'card.quality': 'Quality {quality}',
+    'card.settingsBy': 'Settings by {provider}',
+    'card.settingsByFallback': 'Settings by {provider} (fallback)',
+    'card.svgElements_one': '{count} element removed',
+    'card.svgElements_other': '{count} elements removed',
+    'card.svgPaths_one': '{count} path merged',
+    'card.svgPaths_other': '{count} paths merged',
+    'card.keptTransparency': 'Kept transparency: saved as {format} instead of {requested}.',
+    'card.unchanged': "No setting came out smaller than the original, so it's kept as it was.",
+    'card.targetMissed': "⚠️ Couldn't reach {size}. This is the smallest output found.",
+    'card.size': 'Size',
+    'card.using': '✓ Using',
+    'card.use': 'Use',
+    'card.download': 'Download',
+    'card.cancelled': 'Compression cancelled.',
+    'card.retry': 'Retry',
+    'card.sameContent': 'Same content as {name}.',
+    'card.sameContentHistory': 'Same content as {name}, compressed before.',
+    'card.skip': 'Skip',
+    'card.keepDuplicate': 'Keep, reuse results',
+    'card.regionsHint': 'Spotted by the AI: {regions}. A hint only; encoding treats the whole image the same.',
+    'card.regions': 'Spotted: {regions}',
+
+    // Progress
+    'progress.choosing': 'Choosing settings…',
+    'progress.comparing': 'Comparing formats…',
+    'progress.encoding': 'Encoding…',
+    'progress.variant': 'Encoding {width}px {format}…',
+    'progress.pdf': 'Optimizing PDF…',
+    'progress.svg': 'Optimizing SVG…',
+    'progress.report': 'Writing report…',
+
+    // Comparison viewer
+    'compare.title': 'Compare {name}',
+    'compare.split': 'Split',
+    'compare.sideBySide': 'Side by side',
+    'compare.difference': 'Difference',
+    'compare.zoomOut': 'Zoom out',
+    'compare.zoomIn': 'Zoom in',
+    'compare.fit': 'Fit',
+    'compare.identical': 'Visually identical',
+    'compare.minor': 'Minor differences',
+    'compare.noticeable': 'Noticeable differences',
+    'compare.strong': 'Strong artifacts',
+    'compare.measuredAt': 'Measured at {width}×{height}px',
+    'compare.measuring': 'Measuring quality…',
+    'compare.metricsFailed': "Couldn't compute quality metrics.",
+    'compare.original': 'Original',
+    'compare.compressed': 'Compressed',
+    'compare.originalSize': 'Original · {size}',
+    'compare.compressedSize': 'Compressed · {size}',
+    'compare.heatmap': 'Difference heatmap',
+    'compare.heatmapHint': 'Brighter = bigger difference',
+
+    // Crop tool
+    'crop.title': 'Crop {name}',
+    'crop.free': 'Free',
+    'crop.aspect.square': 'Square 1:1',
+    'crop.aspect.landscape-4-3': 'Landscape 4:3',
+    'crop.aspect.landscape-3-2': 'Landscape 3:2',
+    'crop.aspect.widescreen': 'Widescreen 16:9',
+    'crop.aspect.social-card': 'Social card 1.91:1',
+    'crop.aspect.portrait': 'Portrait 4:5',
+    'crop.aspect.story': 'Story 9:16',
+    'crop.size': '{width}×{height}px of {fullWidth}×{fullHeight}px',
+    'crop.apply': 'Apply crop',
+
+    // PDF page tools
+    'pdfTools.title': 'Pages of {name}',
+    'pdfTools.rendering': 'Rendering pages…',
+    'pdfTools.renderFailed': "Couldn't render the pages.",
+    'pdfTools.page': 'Page {page}',
+    'pdfTools.deletePage': 'Delete page {page}',
+    'pdfTools.append': 'Append other PDFs',
+    'pdfTools.split': 'Split',
+    'pdfTools.noSplit': "Don't split",
+    'pdfTools.byRanges': 'By page ranges',
+    'pdfTools.bySize': 'By size',
+    'pdfTools.pages': 'Pages',
+    'pdfTools.atMost': 'At most',
+    'pdfTools.sizeNote': 'Parts are measured before compression, which only makes them smaller.',
+    'pdfTools.partSizeRequired': 'Enter a part size in MB.',
+    'pdfTools.pagesOf': 'Pages {ranges} of {source}',
+    'pdfTools.partOf': 'Part {part} of {parts} (pages {ranges}) of {source}',
+    'pdfTools.pageCount': '{count} of {total} pages',
+    'pdfTools.mergedFiles_one': '+ {count} file',
+    'pdfTools.mergedFiles_other': '+ {count} files',
+    'pdfTools.working': 'Working…',
+    'pdfTools.apply': 'Apply',
+    'pdfTools.failed': "Couldn't build the PDF.",
+
+    // Presets
+    'presets.label': 'Preset',
+    'presets.none': "Each file's own settings",
+    'presets.builtIn': 'Built-in',
+    'presets.builtIn.web': 'Web',
+    'presets.builtIn.email': 'Email attachment',
+    'presets.builtIn.print': 'Print',
+    'presets.builtIn.social-card': 'Social card (1200×630)',
+    'presets.builtIn.social': 'Social',
+    'presets.custom': 'Custom',
+    'presets.apply': 'Apply to pending',
+    'presets.compressAll': 'Compress All ({count})',
+    'presets.new': 'New preset',
+    'presets.closeEditor': 'Close editor',
+    'presets.delete': 'Delete preset',
+    'presets.import': 'Import',
+    'presets.export': 'Export custom presets',
+    'presets.imported': 'Imported presets from {name}.',
+    'presets.importFailed': "Couldn't import presets.",
+    'presets.name': 'Preset name',
+    'presets.target': 'Target (auto)',
+    'presets.maxWidth': 'Max width',
+    'presets.maxHeight': 'Max height',
+    'presets.pdfAi': 'PDF: AI suggestion',
+    'presets.pdf': 'PDF: {mode}',
+    'presets.metadata': 'Metadata: {policy}',
+    'presets.save': 'Save preset',
+    'presets.autoSize': 'Auto size',
+    'presets.atMost': '≤ {size} {unit}',
+    'presets.max': 'max {width}×{height}px',
+    'presets.crop': 'Crop {aspect}',
+    'presets.longEdge': 'long edge ≤ {size}px',
+    'presets.aiFormat': 'AI format',
+    'presets.bestFormat': 'Best format',
+    'presets.smartResize': 'Smart resize',
+
+    // History
+    'history.used': '{used} of {quota} MB used · oldest entries are removed first',
+    'history.quota': 'Quota',
+    'history.purge': 'Purge all',
+    'history.empty': 'Finished compressions show up here.',
+    'history.rerun': 'Re-run',
+
+    // Batch report
+    'report.files': 'Files',
+    'report.original': 'Original',
+    'report.compressed': 'Compressed',
+    'report.saved': 'Saved',
+    'report.ofOriginal': '{percent}% of the original',
+    'report.noSummary': 'No summary available: {reason}',
+    'report.writingSummary': 'Writing the executive summary…',
+    'report.byType': 'Savings by file type',
+    'report.type': 'Type',
+    'report.otherType': 'Other',
+    'report.biggestWins': 'Biggest wins',
+    'report.missedTargets': 'Missed targets',
+    'report.target': 'Target {size}',
+    'report.got': 'Got {size}',
+    'report.everyFile': 'Every file',
+    'report.file': 'File',
+    'report.settings': 'Settings',
+    'report.reasoning': 'AI reasoning',
+    'report.variants_one': '{count} variant',
+    'report.variants_other': '{count} variants',
+    'report.exportCsv': 'Export CSV',
+    'report.exportJson': 'Export JSON',
+    'report.exportHtml': 'Export HTML',
+    'report.print': 'Print / Save as PDF',
+
+    // AI usage
+    'usage.requests': 'Requests',
+    'usage.tokens': 'Tokens in / out',
+    'usage.hitRate': 'Cache hit rate',
+    'usage.lookups': '{hits} of {lookups} lookups',
+    'usage.sessionCost': 'Session cost',
+    'usage.costNote': "Cost is estimated from the paid-tier prices of {input} per million input and {output} per million output tokens; free-tier keys aren't billed.",
+    'usage.today_one': 'Today: {count} request · {cost}',
+    'usage.today_other': 'Today: {count} requests · {cost}',
+    'usage.ofBudget': '{cost} of {budget}',
+    'usage.budget': 'Daily budget $',
+    'usage.noLimit': '0 for no limit',
+    'usage.perMinute': '/ min',
+    'usage.overBudget': "Today's budget is spent. Recommendations use the offline rules until tomorrow or until the budget is raised.",
+    'usage.resetSession': 'Reset session',
+    'usage.clearCache': 'Clear AI cache',
+};
@@ -0,0 +1,357 @@
+import type { Messages } from '../i18n';
+
+export const es: Messages = {
+    // Page
+    'app.title': 'Whilo - Compresión de archivos con IA',
+    'app.subtitle': 'Compresión inteligente de archivos, impulsada por IA',
+    'app.language': 'Idioma',
+    'app.tagline': 'por whiletrueloop',
+    'app.overBudget': 'Se alcanzó el presupuesto diario de IA; se usan las reglas sin conexión.',
+    'app.storageFailed': 'No se pudo guardar en el almacenamiento del navegador.',
+    'app.storageFailedWith': 'No se pudo guardar en el almacenamiento del navegador: {message}',
+
+    // Tabs & queue actions
+    'tabs.files': 'Archivos ({count})',
+    'tabs.history': 'Historial ({count})',
+    'tabs.report': 'Informe',
+    'tabs.usage': 'Uso de IA',
+    'queue.clearAll': 'Quitar todo',
+    'queue.skipDuplicates': 'Omitir duplicados ({count})',
+    'queue.preparingZip': 'Preparando ZIP…',
+    'queue.downloadAll': 'Descargar todo (.zip)',
+    'queue.noRecommendation': 'No hay recomendación disponible: {reason}',
+    'queue.unsupported': 'Tipo de archivo no compatible. Usa {formats}.',
+    'queue.unsupportedType': 'Tipo de archivo no compatible: {type}',
+    'queue.noBreakpoints': 'No se sugirieron puntos de corte: {reason}',
+
+    // Drop zone
+    'drop.prompt': 'Arrastra y suelta archivos o carpetas, o haz clic para seleccionar',
+    'drop.promptCompact': 'Suelta más archivos o carpetas',
+    'drop.selectFiles': 'Seleccionar archivos',
+    'drop.selectFolder': 'Seleccionar carpeta',
+
+    // Shared
+    'common.via': 'vía {provider}',
+    'common.clear': 'Quitar',
+    'common.none': 'Ninguno',
+    'common.copied': 'Copiado ✓',
+    'common.zipFailed': 'No se pudo crear el ZIP.',
+    'common.zipFailedWith': 'No se pudo crear el ZIP: {message}',
+    'common.unknownError': 'Se produjo un error desconocido.',
+    'common.close': 'Cerrar',
+    'common.reset': 'Restablecer',
+    'common.delete': 'Eliminar',
+    'common.target': 'Objetivo {size} {unit}',
+    'provider.gemini': 'Gemini',
+    'provider.heuristic': 'Reglas sin conexión',
+    'provider.mock': 'Simulado',
+    'format.jpeg': 'JPEG',
+    'format.webp': 'WebP',
+    'format.avif': 'AVIF',
+    'format.png': 'PNG',
+    'format.png-quantized': 'PNG (paleta)',
+
+    // AI answers
+    'ai.defaultRecommendation': 'Buen equilibrio entre tamaño y calidad',
+    'ai.defaultBreakpoints': 'Anchos de diseño habituales para esta imagen',
+    'ai.offline': 'No hay conexión.',
+    'ai.providerFailed': '{provider} falló: {reason}',
+    'ai.error.timeout': 'Gemini no respondió a tiempo.',
+    'ai.error.bad-answer': 'No se pudo usar la respuesta de Gemini.',
+    'ai.error.rate-limit': 'Se alcanzó el límite de solicitudes de Gemini.',
+    'ai.error.key-rejected': 'Gemini rechazó la clave de API.',
+    'ai.error.unavailable': 'Gemini no está disponible en este momento.',
+    'ai.error.refused': 'Gemini rechazó la solicitud ({status}).',
+    'ai.error.unreachable': 'No se pudo conectar con Gemini.',
+    'ai.error.server-unreachable': 'No se pudo conectar con el servidor de Whilo.',
+    'ai.error.server-failed': 'El servidor de Whilo no pudo responder ({status}).',
+    'ai.error.failed': 'Algo salió mal: {message}',
+
+    // Content types
+    'content.photo': 'Foto',
+    'content.photo.description': 'fotos de cámara y otras imágenes de tono continuo',
+    'content.screenshot': 'Captura / texto',
+    'content.screenshot.description': 'capturas de pantalla, interfaces y todo lo que sea mayormente texto',
+    'content.illustration': 'Ilustración',
+    'content.illustration.description': 'logotipos, iconos, dibujos y arte de colores planos',
+    'content.scanned-document': 'Documento escaneado',
+    'content.scanned-document.description': 'escaneos o fotos de páginas en papel',
+    'content.chart': 'Gráfico',
+    'content.chart.description': 'gráficos, diagramas y trazados',
+
+    // Metadata
+    'metadata.strip-all': 'Quitar todo',
+    'metadata.strip-private': 'Quitar GPS y datos del dispositivo',
+    'metadata.keep-all': 'Conservar todo',
+    'metadata.orientation': 'Orientación aplicada',
+    'metadata.removed': 'Eliminado: {tags}',
+    'metadata.kept': 'Conservado: {tags}',
+    'metadata.summary': 'Metadatos: {parts}',
+    'metadata.noneFound': 'Metadatos: no se encontró ninguno',
+
+    // PDF
+    'pdf.lossless': 'Sin pérdida',
+    'pdf.lossy': 'Con pérdida',
+    'pdf.color': 'Color',
+    'pdf.grayscale': 'Escala de grises',
+    'pdf.bilevel': 'Blanco y negro',
+
+    // Resize & crop
+    'resize.size': 'Tamaño',
+    'resize.original': 'Original',
+    'resize.exact': 'Tamaño exacto',
+    'resize.percent': 'Escalar en %',
+    'resize.width': 'Ancho',
+    'resize.height': 'Alto',
+    'resize.locked': 'Relación de aspecto bloqueada',
+    'resize.stretch': 'Estirar exactamente a este tamaño',
+    'resize.scalePercent': 'Porcentaje de escala',
+    'resize.maxLongEdge': 'Lado largo máximo',
+    'resize.crop': 'Recorte',
+    'resize.custom': 'Personalizado',
+    'resize.filter': 'Filtro',
+    'resize.filter.mks2013': 'MKS 2013 (predeterminado)',
+    'resize.filter.lanczos3': 'Lanczos 3',
+    'resize.filter.lanczos2': 'Lanczos 2',
+    'resize.filter.hamming': 'Hamming',
+    'resize.filter.box': 'Box (el más rápido)',
+    'resize.unsharp': 'Enfoque',
+    'resize.unsharpTitle': 'Máscara de enfoque aplicada tras redimensionar',
+    'resize.amount': 'Cantidad',
+    'resize.radius': 'Radio',
+    'resize.threshold': 'Umbral',
+    'resize.unsharpAmount': 'Cantidad de enfoque',
+    'resize.unsharpRadius': 'Radio de enfoque',
+    'resize.unsharpThreshold': 'Umbral de enfoque',
+
+    // Responsive sets
+    'responsive.toggle': 'Conjunto adaptable (varios anchos y formatos)',
+    'responsive.widths': 'Anchos',
+    'responsive.widthsPlaceholder': 'p. ej. 480, 960, 1600',
+    'responsive.suggest': '✨ Sugerir',
+    'responsive.suggesting': 'Sugiriendo…',
+    'responsive.animated': 'GIF animado: cada ancho es un WebP animado.',
+    'responsive.formats': 'Formatos',
+    'responsive.sizes': 'Sizes',
+    'responsive.sizesTitle': 'Con qué ancho se muestra la imagen, para que el navegador elija un ancho',
+    'responsive.note': 'Se aplican el recorte y el remuestreo; cada ancho sustituye los ajustes de tamaño.',
+    'responsive.summary_one': 'Conjunto adaptable · {count} archivo · {size} en total',
+    'responsive.summary_other': 'Conjunto adaptable · {count} archivos · {size} en total',
+    'responsive.width': 'Ancho',
+    'responsive.copyHtml': 'Copiar HTML',
+    'responsive.copyJson': 'Copiar JSON',
+    'responsive.download': 'Descargar conjunto (.zip)',
+
+    // File card
+    'card.analyzing': 'Analizando...',
+    'card.aiSuggests': '💡 La IA sugiere: {size}',
+    'card.target': 'Objetivo',
+    'card.auto': 'Auto',
+    'card.animatedGif': 'GIF animado: se guarda como WebP animado con la misma temporización de fotogramas.',
+    'card.format': 'Formato',
+    'card.aiChoice': '✨ Elección de la IA',
+    'card.best': 'El mejor (el menor de JPEG/WebP/AVIF)',
+    'card.smartResize': '✨ Redimensionado inteligente con IA',
+    'card.metadata': 'Metadatos',
+    'card.resizeCrop': 'Tamaño y recorte',
+    'card.adjust': 'Ajustar…',
+    'card.output': 'Salida {width}×{height}px',
+    'card.outputSmart': 'Salida {width}×{height}px, o menor si lo elige el redimensionado inteligente',
+    'card.fitsWithin': 'Cabe en {width}×{height}px',
+    'card.precision': 'Precisión',
+    'card.precisionTitle': 'Decimales que se conservan en las coordenadas',
+    'card.decimals_one': '{count} decimal',
+    'card.decimals_other': '{count} decimales',
+    'card.compressionMode': 'Modo de compresión',
+    'card.aiSuggestsMode': '💡 La IA sugiere: {mode}',
+    'card.colour': 'Color',
+    'card.pdfTools': 'Páginas, dividir y unir…',
+    'card.compress': 'Comprimir',
+    'card.queued': 'En cola…',
+    'card.starting': 'Iniciando…',
+    'card.cancel': 'Cancelar',
+    'card.compare': 'Comparar antes/después',
+    'card.animatedFormat': '{format} animado',
+    'card.frames_one': '{count} fotograma',
+    'card.frames_other': '{count} fotogramas',
+    'card.passes_one': '{count} pasada',
+    'card.passes_other': '{count} pasadas',
+    'card.colors': '{count} colores',
+    'card.lossless': 'Sin pérdida',
+    'card.quality': 'Calidad {quality}',
+    'card.settingsBy': 'Ajustes de {provider}',
+    'card.settingsByFallback': 'Ajustes de {provider} (alternativa)',
+    'card.svgElements_one': '{count} elemento eliminado',
+    'card.svgElements_other': '{count} elementos eliminados',
+    'card.svgPaths_one': '{count} trazado unido',
+    'card.svgPaths_other': '{count} trazados unidos',
+    'card.keptTransparency': 'Transparencia conservada: guardado como {format} en lugar de {requested}.',
+    'card.unchanged': 'Ningún ajuste quedó más pequeño que el original, así que se conserva tal cual.',
+    'card.targetMissed': '⚠️ No se pudo llegar a {size}. Este es el resultado más pequeño encontrado.',
+    'card.size': 'Tamaño',
+    'card.using': '✓ En uso',
+    'card.use': 'Usar',
+    'card.download': 'Descargar',
+    'card.cancelled': 'Compresión cancelada.',
+    'card.retry': 'Reintentar',
+    'card.sameContent': 'Mismo contenido que {name}.',
+    'card.sameContentHistory': 'Mismo contenido que {name}, ya comprimido antes.',
+    'card.skip': 'Omitir',
+    'card.keepDuplicate': 'Conservar y reutilizar resultados',
+    'card.regionsHint': 'Detectado por la IA: {regions}. Solo es una pista; la codificación trata toda la imagen por igual.',
+    'card.regions': 'Detectado: {regions}',
+
+    // Progress
+    'progress.choosing': 'Eligiendo ajustes…',
+    'progress.comparing': 'Comparando formatos…',
+    'progress.encoding': 'Codificando…',
+    'progress.variant': 'Codificando {format} de {width}px…',
+    'progress.pdf': 'Optimizando PDF…',
+    'progress.svg': 'Optimizando SVG…',
+    'progress.report': 'Escribiendo informe…',
+
+    // Comparison viewer
+    'compare.title': 'Comparar {name}',
+    'compare.split': 'Dividida',
+    'compare.sideBySide': 'Lado a lado',
+    'compare.difference': 'Diferencia',
+    'compare.zoomOut': 'Alejar',
+    'compare.zoomIn': 'Acercar',
+    'compare.fit': 'Ajustar',
+    'compare.identical': 'Visualmente idénticas',
+    'compare.minor': 'Diferencias menores',
+    'compare.noticeable': 'Diferencias apreciables',
+    'compare.strong': 'Artefactos marcados',
+    'compare.measuredAt': 'Medido a {width}×{height}px',
+    'compare.measuring': 'Midiendo la calidad…',
+    'compare.metricsFailed': 'No se pudieron calcular las métricas de calidad.',
+    'compare.original': 'Original',
+    'compare.compressed': 'Comprimida',
+    'compare.originalSize': 'Original · {size}',
+    'compare.compressedSize': 'Comprimida · {size}',
+    'compare.heatmap': 'Mapa de calor de diferencias',
+    'compare.heatmapHint': 'Más brillo = más diferencia',
+
+    // Crop tool
+    'crop.title': 'Recortar {name}',
+    'crop.free': 'Libre',
+    'crop.aspect.square': 'Cuadrado 1:1',
+    'crop.aspect.landscape-4-3': 'Horizontal 4:3',
+    'crop.aspect.landscape-3-2': 'Horizontal 3:2',
+    'crop.aspect.widescreen': 'Panorámico 16:9',
+    'crop.aspect.social-card': 'Tarjeta social 1,91:1',
+    'crop.aspect.portrait': 'Vertical 4:5',
+    'crop.aspect.story': 'Historia 9:16',
+    'crop.size': '{width}×{height}px de {fullWidth}×{fullHeight}px',
+    'crop.apply': 'Aplicar recorte',
+
+    // PDF page tools
+    'pdfTools.title': 'Páginas de {name}',
+    'pdfTools.rendering': 'Generando páginas…',
+    'pdfTools.renderFailed': 'No se pudieron mostrar las páginas.',
+    'pdfTools.page': 'Página {page}',
+    'pdfTools.deletePage': 'Eliminar página {page}',
+    'pdfTools.append': 'Añadir otros PDF',
+    'pdfTools.split': 'Dividir',
+    'pdfTools.noSplit': 'No dividir',
+    'pdfTools.byRanges': 'Por rangos de páginas',
+    'pdfTools.bySize': 'Por tamaño',
+    'pdfTools.pages': 'Páginas',
+    'pdfTools.atMost': 'Como máximo',
+    'pdfTools.sizeNote': 'Las partes se miden antes de comprimir, lo que solo las hace más pequeñas.',
+    'pdfTools.partSizeRequired': 'Introduce un tamaño de parte en MB.',
+    'pdfTools.pagesOf': 'Páginas {ranges} de {source}',
+    'pdfTools.partOf': 'Parte {part} de {parts} (páginas {ranges}) de {source}',
+    'pdfTools.pageCount': '{count} de {total} páginas',
+    'pdfTools.mergedFiles_one': '+ {count} archivo',
+    'pdfTools.mergedFiles_other': '+ {count} archivos',
+    'pdfTools.working': 'Procesando…',
+    'pdfTools.apply': 'Aplicar',
+    'pdfTools.failed': 'No se pudo crear el PDF.',
+
+    // Presets
+    'presets.label': 'Ajuste predefinido',
+    'presets.none': 'Los ajustes de cada archivo',
+    'presets.builtIn': 'Incluidos',
+    'presets.builtIn.web': 'Web',
+    'presets.builtIn.email': 'Adjunto de correo',
+    'presets.builtIn.print': 'Impresión',
+    'presets.builtIn.social-card': 'Tarjeta social (1200×630)',
+    'presets.builtIn.social': 'Redes sociales',
+    'presets.custom': 'Personalizados',
+    'presets.apply': 'Aplicar a pendientes',
+    'presets.compressAll': 'Comprimir todo ({count})',
+    'presets.new': 'Nuevo ajuste',
+    'presets.closeEditor': 'Cerrar editor',
+    'presets.delete': 'Eliminar ajuste',
+    'presets.import': 'Importar',
+    'presets.export': 'Exportar ajustes personalizados',
+    'presets.imported': 'Ajustes importados de {name}.',
+    'presets.importFailed': 'No se pudieron importar los ajustes.',
+    'presets.name': 'Nombre del ajuste',
+    'presets.target': 'Objetivo (automático)',
+    'presets.maxWidth': 'Ancho máximo',
+    'presets.maxHeight': 'Alto máximo',
+    'presets.pdfAi': 'PDF: sugerencia de la IA',
+    'presets.pdf': 'PDF: {mode}',
+    'presets.metadata': 'Metadatos: {policy}',
+    'presets.save': 'Guardar ajuste',
+    'presets.autoSize': 'Tamaño automático',
+    'presets.atMost': '≤ {size} {unit}',
+    'presets.max': 'máx. {width}×{height}px',
+    'presets.crop': 'Recorte {aspect}',
+    'presets.longEdge': 'lado largo ≤ {size}px',
+    'presets.aiFormat': 'Formato de la IA',
+    'presets.bestFormat': 'Mejor formato',
+    'presets.smartResize': 'Redimensionado inteligente',
+
+    // History
+    'history.used': '{used} de {quota} MB usados · primero se eliminan las entradas más antiguas',
+    'history.quota': 'Cuota',
+    'history.purge': 'Vaciar todo',
+    'history.empty': 'Las compresiones terminadas aparecen aquí.',
+    'history.rerun': 'Repetir',
+
+    // Batch report
+    'report.files': 'Archivos',
+    'report.original': 'Original',
+    'report.compressed': 'Comprimido',
+    'report.saved': 'Ahorro',
+    'report.ofOriginal': '{percent}% del original',
+    'report.noSummary': 'No hay resumen disponible: {reason}',
+    'report.writingSummary': 'Escribiendo el resumen ejecutivo…',
+    'report.byType': 'Ahorro por tipo de archivo',
+    'report.type': 'Tipo',
+    'report.otherType': 'Otro',
+    'report.biggestWins': 'Mayores ahorros',
+    'report.missedTargets': 'Objetivos no alcanzados',
+    'report.target': 'Objetivo {size}',
+    'report.got': 'Resultado {size}',
+    'report.everyFile': 'Todos los archivos',
+    'report.file': 'Archivo',
+    'report.settings': 'Ajustes',
+    'report.reasoning': 'Razonamiento de la IA',
+    'report.variants_one': '{count} variante',
+    'report.variants_other': '{count} variantes',
+    'report.exportCsv': 'Exportar CSV',
+    'report.exportJson': 'Exportar JSON',
+    'report.exportHtml': 'Exportar HTML',
+    'report.print': 'Imprimir / Guardar como PDF',
+
+    // AI usage
+    'usage.requests': 'Solicitudes',
+    'usage.tokens': 'Tokens de entrada / salida',
+    'usage.hitRate': 'Aciertos de caché',
+    'usage.lookups': '{hits} de {lookups} consultas',
+    'usage.sessionCost': 'Coste de la sesión',
+    'usage.costNote': 'El coste se estima con los precios del nivel de pago: {input} por millón de tokens de entrada y {output} por millón de tokens de salida; las claves del nivel gratuito no se facturan.',
+    'usage.today_one': 'Hoy: {count} solicitud · {cost}',
+    'usage.today_other': 'Hoy: {count} solicitudes · {cost}',
+    'usage.ofBudget': '{cost} de {budget}',
+    'usage.budget': 'Presupuesto diario $',
+    'usage.noLimit': '0 para no poner límite',
+    'usage.perMinute': '/ min',
+    'usage.overBudget': 'El presupuesto de hoy está agotado. Las recomendaciones usan las reglas sin conexión hasta mañana o hasta que se aumente el presupuesto.',
+    'usage.resetSession': 'Restablecer sesión',
+    'usage.clearCache': 'Vaciar caché de IA',
+};
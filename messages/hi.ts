@@ -0,0 +1,357 @@
+import type { Messages } from '../i18n';
+
+export const hi: Messages = {
+    // Page
+    'app.title': 'Whilo - AI फ़ाइल कम्प्रेशन',
+    'app.subtitle': 'AI से चलने वाला स्मार्ट फ़ाइल कम्प्रेशन',
+    'app.language': 'भाषा',
+    'app.tagline': 'whiletrueloop द्वारा',
+    'app.overBudget': 'आज का AI बजट पूरा हो गया, ऑफ़लाइन नियम इस्तेमाल हो रहे हैं।',
+    'app.storageFailed': 'ब्राउज़र स्टोरेज में सहेजा नहीं जा सका।',
+    'app.storageFailedWith': 'ब्राउज़र स्टोरेज में सहेजा नहीं जा सका: {message}',
+
+    // Tabs & queue actions
+    'tabs.files': 'फ़ाइलें ({count})',
+    'tabs.history': 'इतिहास ({count})',
+    'tabs.report': 'रिपोर्ट',
+    'tabs.usage': 'AI उपयोग',
+    'queue.clearAll': 'सब हटाएँ',
+    'queue.skipDuplicates': 'डुप्लिकेट छोड़ें ({count})',
+    'queue.preparingZip': 'ZIP तैयार हो रहा है…',
+    'queue.downloadAll': 'सब डाउनलोड करें (.zip)',
+    'queue.noRecommendation': 'कोई सुझाव उपलब्ध नहीं: {reason}',
+    'queue.unsupported': 'असमर्थित फ़ाइल प्रकार। कृपया {formats} इस्तेमाल करें।',
+    'queue.unsupportedType': 'असमर्थित फ़ाइल प्रकार: {type}',
+    'queue.noBreakpoints': 'कोई ब्रेकपॉइंट नहीं सुझाए गए: {reason}',
+
+    // Drop zone
+    'drop.prompt': 'फ़ाइलें या फ़ोल्डर खींचकर यहाँ छोड़ें, या चुनने के लिए क्लिक करें',
+    'drop.promptCompact': 'और फ़ाइलें या फ़ोल्डर छोड़ें',
+    'drop.selectFiles': 'फ़ाइलें चुनें',
+    'drop.selectFolder': 'फ़ोल्डर चुनें',
+
+    // Shared
+    'common.via': '{provider} द्वारा',
+    'common.clear': 'हटाएँ',
+    'common.none': 'कोई नहीं',
+    'common.copied': 'कॉपी हो गया ✓',
+    'common.zipFailed': 'ZIP नहीं बन सका।',
+    'common.zipFailedWith': 'ZIP नहीं बन सका: {message}',
+    'common.unknownError': 'कोई अज्ञात त्रुटि हुई।',
+    'common.close': 'बंद करें',
+    'common.reset': 'रीसेट करें',
+    'common.delete': 'मिटाएँ',
+    'common.target': 'लक्ष्य {size} {unit}',
+    'provider.gemini': 'Gemini',
+    'provider.heuristic': 'ऑफ़लाइन नियम',
+    'provider.mock': 'मॉक',
+    'format.jpeg': 'JPEG',
+    'format.webp': 'WebP',
+    'format.avif': 'AVIF',
+    'format.png': 'PNG',
+    'format.png-quantized': 'PNG (पैलेट)',
+
+    // AI answers
+    'ai.defaultRecommendation': 'आकार और गुणवत्ता का अच्छा संतुलन',
+    'ai.defaultBreakpoints': 'इस छवि के लिए सामान्य लेआउट चौड़ाइयाँ',
+    'ai.offline': 'आप ऑफ़लाइन हैं।',
+    'ai.providerFailed': '{provider} विफल रहा: {reason}',
+    'ai.error.timeout': 'Gemini ने समय पर जवाब नहीं दिया।',
+    'ai.error.bad-answer': 'Gemini का जवाब इस्तेमाल नहीं किया जा सका।',
+    'ai.error.rate-limit': 'Gemini की दर सीमा पूरी हो गई।',
+    'ai.error.key-rejected': 'Gemini ने API कुंजी अस्वीकार कर दी।',
+    'ai.error.unavailable': 'Gemini अभी उपलब्ध नहीं है।',
+    'ai.error.refused': 'Gemini ने अनुरोध अस्वीकार कर दिया ({status})।',
+    'ai.error.unreachable': 'Gemini तक नहीं पहुँच सके।',
+    'ai.error.server-unreachable': 'Whilo सर्वर तक नहीं पहुँच सके।',
+    'ai.error.server-failed': 'Whilo सर्वर जवाब नहीं दे सका ({status})।',
+    'ai.error.failed': 'कुछ गलत हो गया: {message}',
+
+    // Content types
+    'content.photo': 'फ़ोटो',
+    'content.photo.description': 'कैमरे की फ़ोटो और अन्य निरंतर-टोन वाली छवियाँ',
+    'content.screenshot': 'स्क्रीनशॉट / टेक्स्ट',
+    'content.screenshot.description': 'स्क्रीन कैप्चर, UI और ज़्यादातर टेक्स्ट वाली कोई भी चीज़',
+    'content.illustration': 'चित्रण',
+    'content.illustration.description': 'लोगो, आइकन, ड्रॉइंग और सपाट रंगों वाली कला',
+    'content.scanned-document': 'स्कैन किया गया दस्तावेज़',
+    'content.scanned-document.description': 'काग़ज़ के पन्नों के स्कैन या फ़ोटो',
+    'content.chart': 'चार्ट',
+    'content.chart.description': 'ग्राफ़, आरेख और प्लॉट',
+
+    // Metadata
+    'metadata.strip-all': 'सब हटाएँ',
+    'metadata.strip-private': 'GPS और डिवाइस जानकारी हटाएँ',
+    'metadata.keep-all': 'सब रखें',
+    'metadata.orientation': 'ओरिएंटेशन लागू किया गया',
+    'metadata.removed': 'हटाया गया: {tags}',
+    'metadata.kept': 'रखा गया: {tags}',
+    'metadata.summary': 'मेटाडेटा: {parts}',
+    'metadata.noneFound': 'मेटाडेटा: कुछ नहीं मिला',
+
+    // PDF
+    'pdf.lossless': 'लॉसलेस',
+    'pdf.lossy': 'लॉसी',
+    'pdf.color': 'रंगीन',
+    'pdf.grayscale': 'ग्रेस्केल',
+    'pdf.bilevel': 'श्वेत-श्याम',
+
+    // Resize & crop
+    'resize.size': 'आकार',
+    'resize.original': 'मूल',
+    'resize.exact': 'सटीक आकार',
+    'resize.percent': '% में स्केल करें',
+    'resize.width': 'चौड़ाई',
+    'resize.height': 'ऊँचाई',
+    'resize.locked': 'आस्पेक्ट रेशियो लॉक है',
+    'resize.stretch': 'ठीक इसी आकार तक खींचें',
+    'resize.scalePercent': 'स्केल प्रतिशत',
+    'resize.maxLongEdge': 'लंबी भुजा अधिकतम',
+    'resize.crop': 'क्रॉप',
+    'resize.custom': 'कस्टम',
+    'resize.filter': 'फ़िल्टर',
+    'resize.filter.mks2013': 'MKS 2013 (डिफ़ॉल्ट)',
+    'resize.filter.lanczos3': 'Lanczos 3',
+    'resize.filter.lanczos2': 'Lanczos 2',
+    'resize.filter.hamming': 'Hamming',
+    'resize.filter.box': 'Box (सबसे तेज़)',
+    'resize.unsharp': 'शार्पनिंग',
+    'resize.unsharpTitle': 'आकार बदलने के बाद लगाया गया अनशार्प मास्क',
+    'resize.amount': 'मात्रा',
+    'resize.radius': 'त्रिज्या',
+    'resize.threshold': 'सीमा',
+    'resize.unsharpAmount': 'शार्पनिंग की मात्रा',
+    'resize.unsharpRadius': 'शार्पनिंग की त्रिज्या',
+    'resize.unsharpThreshold': 'शार्पनिंग की सीमा',
+
+    // Responsive sets
+    'responsive.toggle': 'रिस्पॉन्सिव सेट (कई चौड़ाइयाँ और फ़ॉर्मैट)',
+    'responsive.widths': 'चौड़ाइयाँ',
+    'responsive.widthsPlaceholder': 'जैसे 480, 960, 1600',
+    'responsive.suggest': '✨ सुझाएँ',
+    'responsive.suggesting': 'सुझाव आ रहे हैं…',
+    'responsive.animated': 'एनिमेटेड GIF: हर चौड़ाई एक एनिमेटेड WebP है।',
+    'responsive.formats': 'फ़ॉर्मैट',
+    'responsive.sizes': 'Sizes',
+    'responsive.sizesTitle': 'छवि कितनी चौड़ी दिखाई जाती है, ताकि ब्राउज़र चौड़ाई चुन सके',
+    'responsive.note': 'क्रॉप और रीसैंपलिंग लागू होते हैं; हर चौड़ाई आकार की सेटिंग की जगह लेती है।',
+    'responsive.summary_one': 'रिस्पॉन्सिव सेट · {count} फ़ाइल · कुल {size}',
+    'responsive.summary_other': 'रिस्पॉन्सिव सेट · {count} फ़ाइलें · कुल {size}',
+    'responsive.width': 'चौड़ाई',
+    'responsive.copyHtml': 'HTML कॉपी करें',
+    'responsive.copyJson': 'JSON कॉपी करें',
+    'responsive.download': 'सेट डाउनलोड करें (.zip)',
+
+    // File card
+    'card.analyzing': 'विश्लेषण हो रहा है...',
+    'card.aiSuggests': '💡 AI का सुझाव: {size}',
+    'card.target': 'लक्ष्य',
+    'card.auto': 'स्वचालित',
+    'card.animatedGif': 'एनिमेटेड GIF: उसी फ़्रेम टाइमिंग के साथ एनिमेटेड WebP के रूप में सहेजा जाता है।',
+    'card.format': 'फ़ॉर्मैट',
+    'card.aiChoice': '✨ AI की पसंद',
+    'card.best': 'सबसे अच्छा (JPEG/WebP/AVIF में सबसे छोटा)',
+    'card.smartResize': '✨ AI स्मार्ट रीसाइज़',
+    'card.metadata': 'मेटाडेटा',
+    'card.resizeCrop': 'आकार और क्रॉप',
+    'card.adjust': 'समायोजित करें…',
+    'card.output': 'आउटपुट {width}×{height}px',
+    'card.outputSmart': 'आउटपुट {width}×{height}px, या छोटा अगर AI स्मार्ट रीसाइज़ उसे चुने',
+    'card.fitsWithin': '{width}×{height}px के भीतर',
+    'card.precision': 'सटीकता',
+    'card.precisionTitle': 'निर्देशांकों में रखे गए दशमलव स्थान',
+    'card.decimals_one': '{count} दशमलव',
+    'card.decimals_other': '{count} दशमलव',
+    'card.compressionMode': 'कम्प्रेशन मोड',
+    'card.aiSuggestsMode': '💡 AI का सुझाव: {mode}',
+    'card.colour': 'रंग',
+    'card.pdfTools': 'पेज, विभाजन और विलय…',
+    'card.compress': 'कम्प्रेस करें',
+    'card.queued': 'कतार में…',
+    'card.starting': 'शुरू हो रहा है…',
+    'card.cancel': 'रद्द करें',
+    'card.compare': 'पहले/बाद की तुलना करें',
+    'card.animatedFormat': 'एनिमेटेड {format}',
+    'card.frames_one': '{count} फ़्रेम',
+    'card.frames_other': '{count} फ़्रेम',
+    'card.passes_one': '{count} पास',
+    'card.passes_other': '{count} पास',
+    'card.colors': '{count} रंग',
+    'card.lossless': 'लॉसलेस',
+    'card.quality': 'गुणवत्ता {quality}',
+    'card.settingsBy': 'सेटिंग {provider} द्वारा',
+    'card.settingsByFallback': 'सेटिंग {provider} द्वारा (वैकल्पिक)',
+    'card.svgElements_one': '{count} एलिमेंट हटाया गया',
+    'card.svgElements_other': '{count} एलिमेंट हटाए गए',
+    'card.svgPaths_one': '{count} पाथ जोड़ा गया',
+    'card.svgPaths_other': '{count} पाथ जोड़े गए',
+    'card.keptTransparency': 'पारदर्शिता बनाए रखी: {requested} की जगह {format} के रूप में सहेजा गया।',
+    'card.unchanged': 'कोई भी सेटिंग मूल से छोटी नहीं निकली, इसलिए इसे जैसा था वैसा ही रखा गया।',
+    'card.targetMissed': '⚠️ {size} तक नहीं पहुँच सके। यह मिला सबसे छोटा आउटपुट है।',
+    'card.size': 'आकार',
+    'card.using': '✓ उपयोग में',
+    'card.use': 'उपयोग करें',
+    'card.download': 'डाउनलोड करें',
+    'card.cancelled': 'कम्प्रेशन रद्द किया गया।',
+    'card.retry': 'फिर से कोशिश करें',
+    'card.sameContent': '{name} जैसी ही सामग्री।',
+    'card.sameContentHistory': '{name} जैसी ही सामग्री, पहले कम्प्रेस की जा चुकी है।',
+    'card.skip': 'छोड़ें',
+    'card.keepDuplicate': 'रखें, परिणाम दोबारा उपयोग करें',
+    'card.regionsHint': 'AI ने पहचाना: {regions}। यह केवल संकेत है; एन्कोडिंग पूरी छवि को एक जैसा मानती है।',
+    'card.regions': 'पहचाना गया: {regions}',
+
+    // Progress
+    'progress.choosing': 'सेटिंग्स चुनी जा रही हैं…',
+    'progress.comparing': 'फ़ॉर्मैट की तुलना हो रही है…',
+    'progress.encoding': 'एन्कोड हो रहा है…',
+    'progress.variant': '{width}px {format} एन्कोड हो रहा है…',
+    'progress.pdf': 'PDF अनुकूलित हो रही है…',
+    'progress.svg': 'SVG अनुकूलित हो रहा है…',
+    'progress.report': 'रिपोर्ट लिखी जा रही है…',
+
+    // Comparison viewer
+    'compare.title': '{name} की तुलना',
+    'compare.split': 'विभाजित',
+    'compare.sideBySide': 'अगल-बगल',
+    'compare.difference': 'अंतर',
+    'compare.zoomOut': 'छोटा करें',
+    'compare.zoomIn': 'बड़ा करें',
+    'compare.fit': 'फ़िट',
+    'compare.identical': 'देखने में एक जैसे',
+    'compare.minor': 'मामूली अंतर',
+    'compare.noticeable': 'ध्यान देने लायक अंतर',
+    'compare.strong': 'स्पष्ट विकृतियाँ',
+    'compare.measuredAt': '{width}×{height}px पर मापा गया',
+    'compare.measuring': 'गुणवत्ता मापी जा रही है…',
+    'compare.metricsFailed': 'गुणवत्ता के माप नहीं निकाले जा सके।',
+    'compare.original': 'मूल',
+    'compare.compressed': 'संपीड़ित',
+    'compare.originalSize': 'मूल · {size}',
+    'compare.compressedSize': 'संपीड़ित · {size}',
+    'compare.heatmap': 'अंतर का हीटमैप',
+    'compare.heatmapHint': 'जितना चमकीला, उतना बड़ा अंतर',
+
+    // Crop tool
+    'crop.title': '{name} क्रॉप करें',
+    'crop.free': 'मुक्त',
+    'crop.aspect.square': 'वर्गाकार 1:1',
+    'crop.aspect.landscape-4-3': 'लैंडस्केप 4:3',
+    'crop.aspect.landscape-3-2': 'लैंडस्केप 3:2',
+    'crop.aspect.widescreen': 'वाइडस्क्रीन 16:9',
+    'crop.aspect.social-card': 'सोशल कार्ड 1.91:1',
+    'crop.aspect.portrait': 'पोर्ट्रेट 4:5',
+    'crop.aspect.story': 'स्टोरी 9:16',
+    'crop.size': '{fullWidth}×{fullHeight}px में से {width}×{height}px',
+    'crop.apply': 'क्रॉप लागू करें',
+
+    // PDF page tools
+    'pdfTools.title': '{name} के पेज',
+    'pdfTools.rendering': 'पेज बन रहे हैं…',
+    'pdfTools.renderFailed': 'पेज नहीं दिखाए जा सके।',
+    'pdfTools.page': 'पेज {page}',
+    'pdfTools.deletePage': 'पेज {page} मिटाएँ',
+    'pdfTools.append': 'अन्य PDF जोड़ें',
+    'pdfTools.split': 'विभाजित करें',
+    'pdfTools.noSplit': 'विभाजित न करें',
+    'pdfTools.byRanges': 'पेज रेंज के अनुसार',
+    'pdfTools.bySize': 'आकार के अनुसार',
+    'pdfTools.pages': 'पेज',
+    'pdfTools.atMost': 'अधिकतम',
+    'pdfTools.sizeNote': 'हिस्सों का आकार कम्प्रेशन से पहले मापा जाता है, जो उन्हें केवल छोटा करता है।',
+    'pdfTools.partSizeRequired': 'हिस्से का आकार MB में दर्ज करें।',
+    'pdfTools.pagesOf': '{source} के पेज {ranges}',
+    'pdfTools.partOf': '{source} का हिस्सा {part}/{parts} (पेज {ranges})',
+    'pdfTools.pageCount': '{total} में से {count} पेज',
+    'pdfTools.mergedFiles_one': '+ {count} फ़ाइल',
+    'pdfTools.mergedFiles_other': '+ {count} फ़ाइलें',
+    'pdfTools.working': 'काम चल रहा है…',
+    'pdfTools.apply': 'लागू करें',
+    'pdfTools.failed': 'PDF नहीं बन सकी।',
+
+    // Presets
+    'presets.label': 'प्रीसेट',
+    'presets.none': 'हर फ़ाइल की अपनी सेटिंग्स',
+    'presets.builtIn': 'अंतर्निहित',
+    'presets.builtIn.web': 'वेब',
+    'presets.builtIn.email': 'ईमेल अटैचमेंट',
+    'presets.builtIn.print': 'प्रिंट',
+    'presets.builtIn.social-card': 'सोशल कार्ड (1200×630)',
+    'presets.builtIn.social': 'सोशल',
+    'presets.custom': 'कस्टम',
+    'presets.apply': 'बाकी फ़ाइलों पर लागू करें',
+    'presets.compressAll': 'सब कम्प्रेस करें ({count})',
+    'presets.new': 'नया प्रीसेट',
+    'presets.closeEditor': 'एडिटर बंद करें',
+    'presets.delete': 'प्रीसेट मिटाएँ',
+    'presets.import': 'इम्पोर्ट करें',
+    'presets.export': 'कस्टम प्रीसेट एक्सपोर्ट करें',
+    'presets.imported': '{name} से प्रीसेट इम्पोर्ट किए गए।',
+    'presets.importFailed': 'प्रीसेट इम्पोर्ट नहीं किए जा सके।',
+    'presets.name': 'प्रीसेट का नाम',
+    'presets.target': 'लक्ष्य (स्वतः)',
+    'presets.maxWidth': 'अधिकतम चौड़ाई',
+    'presets.maxHeight': 'अधिकतम ऊँचाई',
+    'presets.pdfAi': 'PDF: AI सुझाव',
+    'presets.pdf': 'PDF: {mode}',
+    'presets.metadata': 'मेटाडेटा: {policy}',
+    'presets.save': 'प्रीसेट सहेजें',
+    'presets.autoSize': 'स्वतः आकार',
+    'presets.atMost': '≤ {size} {unit}',
+    'presets.max': 'अधिकतम {width}×{height}px',
+    'presets.crop': 'क्रॉप {aspect}',
+    'presets.longEdge': 'लंबा किनारा ≤ {size}px',
+    'presets.aiFormat': 'AI फ़ॉर्मैट',
+    'presets.bestFormat': 'सबसे अच्छा फ़ॉर्मैट',
+    'presets.smartResize': 'स्मार्ट रीसाइज़',
+
+    // History
+    'history.used': '{quota} MB में से {used} इस्तेमाल · सबसे पुरानी प्रविष्टियाँ पहले हटती हैं',
+    'history.quota': 'कोटा',
+    'history.purge': 'सब मिटाएँ',
+    'history.empty': 'पूरे हुए कम्प्रेशन यहाँ दिखते हैं।',
+    'history.rerun': 'फिर से चलाएँ',
+
+    // Batch report
+    'report.files': 'फ़ाइलें',
+    'report.original': 'मूल',
+    'report.compressed': 'संपीड़ित',
+    'report.saved': 'बचत',
+    'report.ofOriginal': 'मूल का {percent}%',
+    'report.noSummary': 'कोई सारांश उपलब्ध नहीं: {reason}',
+    'report.writingSummary': 'कार्यकारी सारांश लिखा जा रहा है…',
+    'report.byType': 'फ़ाइल प्रकार के अनुसार बचत',
+    'report.type': 'प्रकार',
+    'report.otherType': 'अन्य',
+    'report.biggestWins': 'सबसे बड़ी बचत',
+    'report.missedTargets': 'चूके हुए लक्ष्य',
+    'report.target': 'लक्ष्य {size}',
+    'report.got': 'मिला {size}',
+    'report.everyFile': 'हर फ़ाइल',
+    'report.file': 'फ़ाइल',
+    'report.settings': 'सेटिंग्स',
+    'report.reasoning': 'AI का तर्क',
+    'report.variants_one': '{count} संस्करण',
+    'report.variants_other': '{count} संस्करण',
+    'report.exportCsv': 'CSV एक्सपोर्ट करें',
+    'report.exportJson': 'JSON एक्सपोर्ट करें',
+    'report.exportHtml': 'HTML एक्सपोर्ट करें',
+    'report.print': 'प्रिंट करें / PDF के रूप में सहेजें',
+
+    // AI usage
+    'usage.requests': 'अनुरोध',
+    'usage.tokens': 'टोकन इनपुट / आउटपुट',
+    'usage.hitRate': 'कैश हिट दर',
+    'usage.lookups': '{lookups} में से {hits} लुकअप',
+    'usage.sessionCost': 'सत्र की लागत',
+    'usage.costNote': 'लागत का अनुमान पेड टियर की कीमतों से है: प्रति मिलियन इनपुट टोकन {input} और प्रति मिलियन आउटपुट टोकन {output}; फ़्री टियर की कुंजियों पर शुल्क नहीं लगता।',
+    'usage.today_one': 'आज: {count} अनुरोध · {cost}',
+    'usage.today_other': 'आज: {count} अनुरोध · {cost}',
+    'usage.ofBudget': '{budget} में से {cost}',
+    'usage.budget': 'दैनिक बजट $',
+    'usage.noLimit': 'कोई सीमा न हो तो 0',
+    'usage.perMinute': '/ मिनट',
+    'usage.overBudget': 'आज का बजट खर्च हो चुका है। कल तक या बजट बढ़ने तक सुझाव ऑफ़लाइन नियमों से आएँगे।',
+    'usage.resetSession': 'सत्र रीसेट करें',
+    'usage.clearCache': 'AI कैश साफ़ करें',
+};
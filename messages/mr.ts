@@ -0,0 +1,357 @@
+import type { Messages } from '../i18n';
+
+export const mr: Messages = {
+    // Page
+    'app.title': 'Whilo - AI फाइल कॉम्प्रेशन',
+    'app.subtitle': 'AI वर चालणारे स्मार्ट फाइल कॉम्प्रेशन',
+    'app.language': 'भाषा',
+    'app.tagline': 'whiletrueloop कडून',
+    'app.overBudget': 'आजचे AI बजेट संपले, ऑफलाइन नियम वापरले जात आहेत.',
+    'app.storageFailed': 'ब्राउझर स्टोरेजमध्ये जतन करता आले नाही.',
+    'app.storageFailedWith': 'ब्राउझर स्टोरेजमध्ये जतन करता आले नाही: {message}',
+
+    // Tabs & queue actions
+    'tabs.files': 'फाइल्स ({count})',
+    'tabs.history': 'इतिहास ({count})',
+    'tabs.report': 'अहवाल',
+    'tabs.usage': 'AI वापर',
+    'queue.clearAll': 'सर्व काढा',
+    'queue.skipDuplicates': 'डुप्लिकेट वगळा ({count})',
+    'queue.preparingZip': 'ZIP तयार होत आहे…',
+    'queue.downloadAll': 'सर्व डाउनलोड करा (.zip)',
+    'queue.noRecommendation': 'कोणतीही शिफारस उपलब्ध नाही: {reason}',
+    'queue.unsupported': 'असमर्थित फाइल प्रकार. कृपया {formats} वापरा.',
+    'queue.unsupportedType': 'असमर्थित फाइल प्रकार: {type}',
+    'queue.noBreakpoints': 'कोणतेही ब्रेकपॉइंट सुचवले नाहीत: {reason}',
+
+    // Drop zone
+    'drop.prompt': 'फाइल्स किंवा फोल्डर्स ओढून येथे सोडा, किंवा निवडण्यासाठी क्लिक करा',
+    'drop.promptCompact': 'आणखी फाइल्स किंवा फोल्डर्स सोडा',
+    'drop.selectFiles': 'फाइल्स निवडा',
+    'drop.selectFolder': 'फोल्डर निवडा',
+
+    // Shared
+    'common.via': '{provider} द्वारे',
+    'common.clear': 'काढा',
+    'common.none': 'काहीही नाही',
+    'common.copied': 'कॉपी झाले ✓',
+    'common.zipFailed': 'ZIP तयार करता आली नाही.',
+    'common.zipFailedWith': 'ZIP तयार करता आली नाही: {message}',
+    'common.unknownError': 'अज्ञात त्रुटी आली.',
+    'common.close': 'बंद करा',
+    'common.reset': 'रीसेट करा',
+    'common.delete': 'हटवा',
+    'common.target': 'लक्ष्य {size} {unit}',
+    'provider.gemini': 'Gemini',
+    'provider.heuristic': 'ऑफलाइन नियम',
+    'provider.mock': 'मॉक',
+    'format.jpeg': 'JPEG',
+    'format.webp': 'WebP',
+    'format.avif': 'AVIF',
+    'format.png': 'PNG',
+    'format.png-quantized': 'PNG (पॅलेट)',
+
+    // AI answers
+    'ai.defaultRecommendation': 'आकार आणि गुणवत्तेचा चांगला समतोल',
+    'ai.defaultBreakpoints': 'या प्रतिमेसाठी सामान्य लेआउट रुंदी',
+    'ai.offline': 'तुम्ही ऑफलाइन आहात.',
+    'ai.providerFailed': '{provider} अयशस्वी: {reason}',
+    'ai.error.timeout': 'Gemini ने वेळेत उत्तर दिले नाही.',
+    'ai.error.bad-answer': 'Gemini चे उत्तर वापरता आले नाही.',
+    'ai.error.rate-limit': 'Gemini ची दर मर्यादा गाठली.',
+    'ai.error.key-rejected': 'Gemini ने API की नाकारली.',
+    'ai.error.unavailable': 'Gemini सध्या उपलब्ध नाही.',
+    'ai.error.refused': 'Gemini ने विनंती नाकारली ({status}).',
+    'ai.error.unreachable': 'Gemini पर्यंत पोहोचता आले नाही.',
+    'ai.error.server-unreachable': 'Whilo सर्व्हरपर्यंत पोहोचता आले नाही.',
+    'ai.error.server-failed': 'Whilo सर्व्हर उत्तर देऊ शकला नाही ({status}).',
+    'ai.error.failed': 'काहीतरी चुकले: {message}',
+
+    // Content types
+    'content.photo': 'फोटो',
+    'content.photo.description': 'कॅमेऱ्याचे फोटो आणि इतर सलग-टोन प्रतिमा',
+    'content.screenshot': 'स्क्रीनशॉट / मजकूर',
+    'content.screenshot.description': 'स्क्रीन कॅप्चर, UI आणि मुख्यतः मजकूर असलेले काहीही',
+    'content.illustration': 'चित्रण',
+    'content.illustration.description': 'लोगो, आयकॉन, रेखाचित्रे आणि सपाट रंगांची कला',
+    'content.scanned-document': 'स्कॅन केलेला दस्तऐवज',
+    'content.scanned-document.description': 'कागदी पानांचे स्कॅन किंवा फोटो',
+    'content.chart': 'चार्ट',
+    'content.chart.description': 'आलेख, आकृत्या आणि प्लॉट',
+
+    // Metadata
+    'metadata.strip-all': 'सर्व काढा',
+    'metadata.strip-private': 'GPS आणि डिव्हाइस माहिती काढा',
+    'metadata.keep-all': 'सर्व ठेवा',
+    'metadata.orientation': 'ओरिएंटेशन लागू केले',
+    'metadata.removed': 'काढले: {tags}',
+    'metadata.kept': 'ठेवले: {tags}',
+    'metadata.summary': 'मेटाडेटा: {parts}',
+    'metadata.noneFound': 'मेटाडेटा: काहीही आढळले नाही',
+
+    // PDF
+    'pdf.lossless': 'लॉसलेस',
+    'pdf.lossy': 'लॉसी',
+    'pdf.color': 'रंगीत',
+    'pdf.grayscale': 'ग्रेस्केल',
+    'pdf.bilevel': 'कृष्णधवल',
+
+    // Resize & crop
+    'resize.size': 'आकार',
+    'resize.original': 'मूळ',
+    'resize.exact': 'अचूक आकार',
+    'resize.percent': '% ने स्केल करा',
+    'resize.width': 'रुंदी',
+    'resize.height': 'उंची',
+    'resize.locked': 'आस्पेक्ट रेशो लॉक आहे',
+    'resize.stretch': 'नेमक्या या आकारापर्यंत ताणा',
+    'resize.scalePercent': 'स्केल टक्केवारी',
+    'resize.maxLongEdge': 'लांब बाजू कमाल',
+    'resize.crop': 'क्रॉप',
+    'resize.custom': 'सानुकूल',
+    'resize.filter': 'फिल्टर',
+    'resize.filter.mks2013': 'MKS 2013 (डीफॉल्ट)',
+    'resize.filter.lanczos3': 'Lanczos 3',
+    'resize.filter.lanczos2': 'Lanczos 2',
+    'resize.filter.hamming': 'Hamming',
+    'resize.filter.box': 'Box (सर्वात जलद)',
+    'resize.unsharp': 'शार्पनिंग',
+    'resize.unsharpTitle': 'आकार बदलल्यानंतर लावलेला अनशार्प मास्क',
+    'resize.amount': 'प्रमाण',
+    'resize.radius': 'त्रिज्या',
+    'resize.threshold': 'मर्यादा',
+    'resize.unsharpAmount': 'शार्पनिंगचे प्रमाण',
+    'resize.unsharpRadius': 'शार्पनिंगची त्रिज्या',
+    'resize.unsharpThreshold': 'शार्पनिंगची मर्यादा',
+
+    // Responsive sets
+    'responsive.toggle': 'रिस्पॉन्सिव्ह सेट (अनेक रुंदी आणि फॉरमॅट)',
+    'responsive.widths': 'रुंदी',
+    'responsive.widthsPlaceholder': 'उदा. 480, 960, 1600',
+    'responsive.suggest': '✨ सुचवा',
+    'responsive.suggesting': 'सुचवत आहे…',
+    'responsive.animated': 'ॲनिमेटेड GIF: प्रत्येक रुंदी ॲनिमेटेड WebP आहे.',
+    'responsive.formats': 'फॉरमॅट',
+    'responsive.sizes': 'Sizes',
+    'responsive.sizesTitle': 'प्रतिमा किती रुंद दाखवली जाते, ब्राउझरला रुंदी निवडता यावी म्हणून',
+    'responsive.note': 'क्रॉप आणि रीसॅम्पलिंग लागू होतात; प्रत्येक रुंदी आकाराच्या सेटिंग्जची जागा घेते.',
+    'responsive.summary_one': 'रिस्पॉन्सिव्ह सेट · {count} फाइल · एकूण {size}',
+    'responsive.summary_other': 'रिस्पॉन्सिव्ह सेट · {count} फाइल्स · एकूण {size}',
+    'responsive.width': 'रुंदी',
+    'responsive.copyHtml': 'HTML कॉपी करा',
+    'responsive.copyJson': 'JSON कॉपी करा',
+    'responsive.download': 'सेट डाउनलोड करा (.zip)',
+
+    // File card
+    'card.analyzing': 'विश्लेषण सुरू आहे...',
+    'card.aiSuggests': '💡 AI ची सूचना: {size}',
+    'card.target': 'लक्ष्य',
+    'card.auto': 'स्वयंचलित',
+    'card.animatedGif': 'ॲनिमेटेड GIF: त्याच फ्रेम वेळेसह ॲनिमेटेड WebP म्हणून जतन केले जाते.',
+    'card.format': 'फॉरमॅट',
+    'card.aiChoice': '✨ AI ची निवड',
+    'card.best': 'सर्वोत्तम (JPEG/WebP/AVIF पैकी सर्वात लहान)',
+    'card.smartResize': '✨ AI स्मार्ट रीसाइझ',
+    'card.metadata': 'मेटाडेटा',
+    'card.resizeCrop': 'आकार आणि क्रॉप',
+    'card.adjust': 'समायोजित करा…',
+    'card.output': 'आउटपुट {width}×{height}px',
+    'card.outputSmart': 'आउटपुट {width}×{height}px, किंवा AI स्मार्ट रीसाइझने निवडल्यास लहान',
+    'card.fitsWithin': '{width}×{height}px मध्ये बसते',
+    'card.precision': 'अचूकता',
+    'card.precisionTitle': 'निर्देशांकांमध्ये ठेवलेली दशांश स्थाने',
+    'card.decimals_one': '{count} दशांश',
+    'card.decimals_other': '{count} दशांश',
+    'card.compressionMode': 'कॉम्प्रेशन मोड',
+    'card.aiSuggestsMode': '💡 AI ची सूचना: {mode}',
+    'card.colour': 'रंग',
+    'card.pdfTools': 'पाने, विभाजन आणि विलीनीकरण…',
+    'card.compress': 'कॉम्प्रेस करा',
+    'card.queued': 'रांगेत…',
+    'card.starting': 'सुरू होत आहे…',
+    'card.cancel': 'रद्द करा',
+    'card.compare': 'आधी/नंतर तुलना करा',
+    'card.animatedFormat': 'ॲनिमेटेड {format}',
+    'card.frames_one': '{count} फ्रेम',
+    'card.frames_other': '{count} फ्रेम्स',
+    'card.passes_one': '{count} पास',
+    'card.passes_other': '{count} पास',
+    'card.colors': '{count} रंग',
+    'card.lossless': 'लॉसलेस',
+    'card.quality': 'गुणवत्ता {quality}',
+    'card.settingsBy': 'सेटिंग्ज {provider} द्वारे',
+    'card.settingsByFallback': 'सेटिंग्ज {provider} द्वारे (पर्यायी)',
+    'card.svgElements_one': '{count} एलिमेंट काढला',
+    'card.svgElements_other': '{count} एलिमेंट्स काढले',
+    'card.svgPaths_one': '{count} पाथ जोडला',
+    'card.svgPaths_other': '{count} पाथ जोडले',
+    'card.keptTransparency': 'पारदर्शकता राखली: {requested} ऐवजी {format} म्हणून जतन केले.',
+    'card.unchanged': 'कोणतीही सेटिंग मूळपेक्षा लहान झाली नाही, म्हणून ती जशी होती तशीच ठेवली.',
+    'card.targetMissed': '⚠️ {size} पर्यंत पोहोचता आले नाही. हा सापडलेला सर्वात लहान आउटपुट आहे.',
+    'card.size': 'आकार',
+    'card.using': '✓ वापरात',
+    'card.use': 'वापरा',
+    'card.download': 'डाउनलोड करा',
+    'card.cancelled': 'कॉम्प्रेशन रद्द केले.',
+    'card.retry': 'पुन्हा प्रयत्न करा',
+    'card.sameContent': '{name} सारखीच सामग्री.',
+    'card.sameContentHistory': '{name} सारखीच सामग्री, आधी कॉम्प्रेस केलेली.',
+    'card.skip': 'वगळा',
+    'card.keepDuplicate': 'ठेवा, निकाल पुन्हा वापरा',
+    'card.regionsHint': 'AI ने ओळखले: {regions}. हा फक्त संकेत आहे; एन्कोडिंग संपूर्ण प्रतिमेला सारखेच हाताळते.',
+    'card.regions': 'ओळखले: {regions}',
+
+    // Progress
+    'progress.choosing': 'सेटिंग्ज निवडत आहे…',
+    'progress.comparing': 'फॉरमॅट्सची तुलना करत आहे…',
+    'progress.encoding': 'एन्कोड करत आहे…',
+    'progress.variant': '{width}px {format} एन्कोड करत आहे…',
+    'progress.pdf': 'PDF ऑप्टिमाइझ करत आहे…',
+    'progress.svg': 'SVG ऑप्टिमाइझ करत आहे…',
+    'progress.report': 'अहवाल लिहित आहे…',
+
+    // Comparison viewer
+    'compare.title': '{name} ची तुलना',
+    'compare.split': 'विभाजित',
+    'compare.sideBySide': 'शेजारी शेजारी',
+    'compare.difference': 'फरक',
+    'compare.zoomOut': 'लहान करा',
+    'compare.zoomIn': 'मोठे करा',
+    'compare.fit': 'बसवा',
+    'compare.identical': 'दिसायला सारखेच',
+    'compare.minor': 'किरकोळ फरक',
+    'compare.noticeable': 'लक्षात येणारे फरक',
+    'compare.strong': 'ठळक दोष',
+    'compare.measuredAt': '{width}×{height}px वर मोजले',
+    'compare.measuring': 'गुणवत्ता मोजत आहे…',
+    'compare.metricsFailed': 'गुणवत्तेचे मोजमाप करता आले नाही.',
+    'compare.original': 'मूळ',
+    'compare.compressed': 'संकुचित',
+    'compare.originalSize': 'मूळ · {size}',
+    'compare.compressedSize': 'संकुचित · {size}',
+    'compare.heatmap': 'फरकाचा हीटमॅप',
+    'compare.heatmapHint': 'जितके उजळ, तितका मोठा फरक',
+
+    // Crop tool
+    'crop.title': '{name} क्रॉप करा',
+    'crop.free': 'मुक्त',
+    'crop.aspect.square': 'चौरस 1:1',
+    'crop.aspect.landscape-4-3': 'लँडस्केप 4:3',
+    'crop.aspect.landscape-3-2': 'लँडस्केप 3:2',
+    'crop.aspect.widescreen': 'वाइडस्क्रीन 16:9',
+    'crop.aspect.social-card': 'सोशल कार्ड 1.91:1',
+    'crop.aspect.portrait': 'पोर्ट्रेट 4:5',
+    'crop.aspect.story': 'स्टोरी 9:16',
+    'crop.size': '{fullWidth}×{fullHeight}px पैकी {width}×{height}px',
+    'crop.apply': 'क्रॉप लागू करा',
+
+    // PDF page tools
+    'pdfTools.title': '{name} ची पाने',
+    'pdfTools.rendering': 'पाने तयार होत आहेत…',
+    'pdfTools.renderFailed': 'पाने दाखवता आली नाहीत.',
+    'pdfTools.page': 'पान {page}',
+    'pdfTools.deletePage': 'पान {page} हटवा',
+    'pdfTools.append': 'इतर PDF जोडा',
+    'pdfTools.split': 'विभाजित करा',
+    'pdfTools.noSplit': 'विभाजित करू नका',
+    'pdfTools.byRanges': 'पान श्रेणीनुसार',
+    'pdfTools.bySize': 'आकारानुसार',
+    'pdfTools.pages': 'पाने',
+    'pdfTools.atMost': 'जास्तीत जास्त',
+    'pdfTools.sizeNote': 'भागांचा आकार कॉम्प्रेशनपूर्वी मोजला जातो, जे त्यांना फक्त लहान करते.',
+    'pdfTools.partSizeRequired': 'भागाचा आकार MB मध्ये लिहा.',
+    'pdfTools.pagesOf': '{source} ची पाने {ranges}',
+    'pdfTools.partOf': '{source} चा भाग {part}/{parts} (पाने {ranges})',
+    'pdfTools.pageCount': '{total} पैकी {count} पाने',
+    'pdfTools.mergedFiles_one': '+ {count} फाइल',
+    'pdfTools.mergedFiles_other': '+ {count} फाइल्स',
+    'pdfTools.working': 'काम सुरू आहे…',
+    'pdfTools.apply': 'लागू करा',
+    'pdfTools.failed': 'PDF तयार करता आली नाही.',
+
+    // Presets
+    'presets.label': 'प्रीसेट',
+    'presets.none': 'प्रत्येक फाइलची स्वतःची सेटिंग्ज',
+    'presets.builtIn': 'अंगभूत',
+    'presets.builtIn.web': 'वेब',
+    'presets.builtIn.email': 'ईमेल संलग्नक',
+    'presets.builtIn.print': 'प्रिंट',
+    'presets.builtIn.social-card': 'सोशल कार्ड (1200×630)',
+    'presets.builtIn.social': 'सोशल',
+    'presets.custom': 'सानुकूल',
+    'presets.apply': 'उरलेल्या फाइल्सवर लागू करा',
+    'presets.compressAll': 'सर्व कॉम्प्रेस करा ({count})',
+    'presets.new': 'नवीन प्रीसेट',
+    'presets.closeEditor': 'संपादक बंद करा',
+    'presets.delete': 'प्रीसेट हटवा',
+    'presets.import': 'आयात करा',
+    'presets.export': 'सानुकूल प्रीसेट निर्यात करा',
+    'presets.imported': '{name} मधून प्रीसेट आयात केले.',
+    'presets.importFailed': 'प्रीसेट आयात करता आले नाहीत.',
+    'presets.name': 'प्रीसेटचे नाव',
+    'presets.target': 'लक्ष्य (आपोआप)',
+    'presets.maxWidth': 'कमाल रुंदी',
+    'presets.maxHeight': 'कमाल उंची',
+    'presets.pdfAi': 'PDF: AI सूचना',
+    'presets.pdf': 'PDF: {mode}',
+    'presets.metadata': 'मेटाडेटा: {policy}',
+    'presets.save': 'प्रीसेट जतन करा',
+    'presets.autoSize': 'आपोआप आकार',
+    'presets.atMost': '≤ {size} {unit}',
+    'presets.max': 'कमाल {width}×{height}px',
+    'presets.crop': 'क्रॉप {aspect}',
+    'presets.longEdge': 'लांब कडा ≤ {size}px',
+    'presets.aiFormat': 'AI फॉरमॅट',
+    'presets.bestFormat': 'सर्वोत्तम फॉरमॅट',
+    'presets.smartResize': 'स्मार्ट रीसाइझ',
+
+    // History
+    'history.used': '{quota} MB पैकी {used} वापरले · सर्वात जुन्या नोंदी आधी काढल्या जातात',
+    'history.quota': 'कोटा',
+    'history.purge': 'सर्व हटवा',
+    'history.empty': 'पूर्ण झालेली कॉम्प्रेशन्स येथे दिसतात.',
+    'history.rerun': 'पुन्हा चालवा',
+
+    // Batch report
+    'report.files': 'फाइल्स',
+    'report.original': 'मूळ',
+    'report.compressed': 'संकुचित',
+    'report.saved': 'बचत',
+    'report.ofOriginal': 'मूळच्या {percent}%',
+    'report.noSummary': 'कोणताही सारांश उपलब्ध नाही: {reason}',
+    'report.writingSummary': 'कार्यकारी सारांश लिहित आहे…',
+    'report.byType': 'फाइल प्रकारानुसार बचत',
+    'report.type': 'प्रकार',
+    'report.otherType': 'इतर',
+    'report.biggestWins': 'सर्वात मोठी बचत',
+    'report.missedTargets': 'चुकलेली लक्ष्ये',
+    'report.target': 'लक्ष्य {size}',
+    'report.got': 'मिळाले {size}',
+    'report.everyFile': 'प्रत्येक फाइल',
+    'report.file': 'फाइल',
+    'report.settings': 'सेटिंग्ज',
+    'report.reasoning': 'AI चे कारण',
+    'report.variants_one': '{count} आवृत्ती',
+    'report.variants_other': '{count} आवृत्त्या',
+    'report.exportCsv': 'CSV निर्यात करा',
+    'report.exportJson': 'JSON निर्यात करा',
+    'report.exportHtml': 'HTML निर्यात करा',
+    'report.print': 'प्रिंट करा / PDF म्हणून जतन करा',
+
+    // AI usage
+    'usage.requests': 'विनंत्या',
+    'usage.tokens': 'टोकन इनपुट / आउटपुट',
+    'usage.hitRate': 'कॅशे हिट दर',
+    'usage.lookups': '{lookups} पैकी {hits} लुकअप',
+    'usage.sessionCost': 'सत्राचा खर्च',
+    'usage.costNote': 'खर्चाचा अंदाज सशुल्क स्तराच्या किमतींवरून आहे: दर दशलक्ष इनपुट टोकनसाठी {input} आणि दर दशलक्ष आउटपुट टोकनसाठी {output}; विनामूल्य स्तराच्या कीजना शुल्क लागत नाही.',
+    'usage.today_one': 'आज: {count} विनंती · {cost}',
+    'usage.today_other': 'आज: {count} विनंत्या · {cost}',
+    'usage.ofBudget': '{budget} पैकी {cost}',
+    'usage.budget': 'दैनिक बजेट $',
+    'usage.noLimit': 'मर्यादा नको असल्यास 0',
+    'usage.perMinute': '/ मिनिट',
+    'usage.overBudget': 'आजचे बजेट खर्च झाले आहे. उद्यापर्यंत किंवा बजेट वाढेपर्यंत शिफारसी ऑफलाइन नियमांनुसार येतील.',
+    'usage.resetSession': 'सत्र रीसेट करा',
+    'usage.clearCache': 'AI कॅशे साफ करा',
+};
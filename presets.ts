@@ -0,0 +1,141 @@
+import { OUTPUT_FORMAT_NAMES, ManualResize } from './core/imageCodec';
+import { RESIZE_FILTERS, ResamplingOptions, ResizeFilter } from './core/raster';
+import { METADATA_POLICY_LABELS, MetadataPolicy } from './core/imageMetadata';
+import type { OutputFormatChoice } from './core/compress';
+import type { PdfCompressionMode } from './core/pdf';
+
+// --- Types ---
+export interface Preset {
+    id: string;
+    name: string;
+    // Leave the target empty to let the AI settings decide the size.
+    targetSize?: number;
+    targetUnit: 'KB' | 'MB';
+    maxWidth?: number;
+    maxHeight?: number;
+    resize?: ManualResize;
+    // Crops each image around its center to this width/height ratio.
+    cropAspect?: number;
+    resampling?: ResamplingOptions;
+    outputFormatChoice: OutputFormatChoice;
+    smartResize: boolean;
+    metadataPolicy: MetadataPolicy;
+    // Leave unset to keep the AI's recommended mode for each PDF.
+    pdfCompressionMode?: PdfCompressionMode;
+    builtIn?: boolean;
+}
+
+// --- Built-in Presets ---
+// Their names are the English; the app shows each under its id's message.
+export type BuiltInPresetId = 'web' | 'email' | 'print' | 'social-card' | 'social';
+
+export const BUILT_IN_PRESETS: (Preset & { id: BuiltInPresetId })[] = [
+    { id: 'web', name: 'Web', targetSize: 200, targetUnit: 'KB', maxWidth: 1920, maxHeight: 1920, outputFormatChoice: 'webp', smartResize: true, metadataPolicy: 'strip-all', pdfCompressionMode: 'lossy', builtIn: true },
+    { id: 'email', name: 'Email attachment', targetSize: 500, targetUnit: 'KB', maxWidth: 1600, maxHeight: 1600, outputFormatChoice: 'jpeg', smartResize: true, metadataPolicy: 'strip-private', pdfCompressionMode: 'lossy', builtIn: true },
+    { id: 'print', name: 'Print', targetUnit: 'MB', outputFormatChoice: 'jpeg', smartResize: false, metadataPolicy: 'keep-all', pdfCompressionMode: 'lossless', builtIn: true },
+    { id: 'social-card', name: 'Social card (1200×630)', resize: { width: 1200, height: 630, lockAspect: true }, cropAspect: 1200 / 630, targetSize: 300, targetUnit: 'KB', outputFormatChoice: 'jpeg', smartResize: false, metadataPolicy: 'strip-all', builtIn: true },
+    { id: 'social', name: 'Social', targetSize: 1, targetUnit: 'MB', maxWidth: 2048, maxHeight: 2048, outputFormatChoice: 'jpeg', smartResize: false, metadataPolicy: 'strip-private', pdfCompressionMode: 'lossy', builtIn: true },
+];
+
+// --- Storage ---
+const STORAGE_KEY = 'whilo.presets';
+const EXPORT_VERSION = 1;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const parseResize = (value: unknown): ManualResize | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const raw = value as Record<string, unknown>;
+    const resize: ManualResize = {
+        width: isPositive(raw.width) ? Math.round(raw.width) : undefined,
+        height: isPositive(raw.height) ? Math.round(raw.height) : undefined,
+        lockAspect: raw.lockAspect !== false,
+        scalePercent: isPositive(raw.scalePercent) ? raw.scalePercent : undefined,
+        maxLongEdge: isPositive(raw.maxLongEdge) ? Math.round(raw.maxLongEdge) : undefined,
+    };
+    return resize.width || resize.height || resize.scalePercent || resize.maxLongEdge ? resize : undefined;
+};
+
+const parseResampling = (value: unknown): ResamplingOptions | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const raw = value as Record<string, unknown>;
+    return {
+        filter: typeof raw.filter === 'string' && raw.filter in RESIZE_FILTERS ? raw.filter as ResizeFilter : undefined,
+        unsharpAmount: isNonNegative(raw.unsharpAmount) ? raw.unsharpAmount : undefined,
+        unsharpRadius: isNonNegative(raw.unsharpRadius) ? raw.unsharpRadius : undefined,
+        unsharpThreshold: isNonNegative(raw.unsharpThreshold) ? raw.unsharpThreshold : undefined,
+    };
+};
+
+// Checks one preset from storage or an imported file, dropping anything that
+// isn't a setting the app understands.
+const parsePreset = (value: unknown): Preset | null => {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+
+    const formatChoices: string[] = ['ai', 'best', ...OUTPUT_FORMAT_NAMES];
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : createPresetId(),
+        name: raw.name.trim(),
+        targetSize: isPositive(raw.targetSize) ? raw.targetSize : undefined,
+        targetUnit: raw.targetUnit === 'MB' ? 'MB' : 'KB',
+        maxWidth: isPositive(raw.maxWidth) ? Math.round(raw.maxWidth) : undefined,
+        maxHeight: isPositive(raw.maxHeight) ? Math.round(raw.maxHeight) : undefined,
+        resize: parseResize(raw.resize),
+        cropAspect: isPositive(raw.cropAspect) ? raw.cropAspect : undefined,
+        resampling: parseResampling(raw.resampling),
+        outputFormatChoice: typeof raw.outputFormatChoice === 'string' && formatChoices.includes(raw.outputFormatChoice) ? raw.outputFormatChoice as OutputFormatChoice : 'ai',
+        smartResize: raw.smartResize === true,
+        metadataPolicy: typeof raw.metadataPolicy === 'string' && raw.metadataPolicy in METADATA_POLICY_LABELS ? raw.metadataPolicy as MetadataPolicy : 'strip-private',
+        pdfCompressionMode: raw.pdfCompressionMode === 'lossless' || raw.pdfCompressionMode === 'lossy' ? raw.pdfCompressionMode : undefined,
+    };
+};
+
+export const createPresetId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const loadCustomPresets = (): Preset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.map(parsePreset).filter((preset): preset is Preset => !!preset) : [];
+    } catch (error) {
+        console.error("Failed to load presets:", error);
+        return [];
+    }
+};
+
+export const saveCustomPresets = (presets: Preset[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ builtIn, ...preset }) => preset)));
+};
+
+// --- Import / Export ---
+export const exportPresets = (presets: Preset[]): string => {
+    return JSON.stringify({ version: EXPORT_VERSION, presets: presets.map(({ builtIn, ...preset }) => preset) }, null, 2);
+};
+
+// Accepts either an exported file or a bare array of presets. Imported presets
+// replace custom ones with the same name, so re-importing a shared "house
+// style" updates it instead of duplicating it.
+export const importPresets = (json: string, existing: Preset[]): Preset[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+    const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+    if (!Array.isArray(list)) throw new Error("No presets found in this file.");
+
+    const imported = list.map(parsePreset).filter((preset): preset is Preset => !!preset);
+    if (imported.length === 0) throw new Error("No valid presets found in this file.");
+
+    const reservedIds = new Set<string>(BUILT_IN_PRESETS.map(preset => preset.id));
+    const importedNames = new Set(imported.map(preset => preset.name.toLowerCase()));
+    const kept = existing.filter(preset => !importedNames.has(preset.name.toLowerCase()));
+    const keptIds = new Set(kept.map(preset => preset.id));
+    return [
+        ...kept,
+        ...imported.map(preset => reservedIds.has(preset.id) || keptIds.has(preset.id) ? { ...preset, id: createPresetId() } : preset),
+    ];
+};
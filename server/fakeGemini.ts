@@ -0,0 +1,96 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// A stand-in for the Gemini API that answers generateContent with made-up
+// but well-formed JSON built from the request's response schema, so the
+// server can be exercised end to end without a key or a network. Replies
+// carry usage metadata like the real thing.
+
+type Schema = {
+    type?: string;
+    enum?: string[];
+    properties?: Record<string, Schema>;
+    required?: string[];
+    items?: Schema;
+};
+
+// Plausible values for the fields Whilo's prompts ask for; anything else
+// gets a placeholder of the right type.
+const FIELD_VALUES: Record<string, unknown> = {
+    recommendedSize: 50_000,
+    targetQuality: 75,
+    outputFormat: 'webp',
+    recommendedMode: 'lossy',
+    contentType: 'photo',
+    widths: [480, 960, 1600],
+    regionsOfInterest: [],
+};
+
+const fakeValue = (schema: Schema, field: string, prompt: string): unknown => {
+    if (field in FIELD_VALUES && (!schema.enum || schema.enum.includes(FIELD_VALUES[field] as string))) return FIELD_VALUES[field];
+    switch (schema.type) {
+        case 'OBJECT':
+            return Object.fromEntries((schema.required ?? Object.keys(schema.properties ?? {}))
+                .map(key => [key, fakeValue(schema.properties?.[key] ?? {}, key, prompt)]));
+        case 'ARRAY': {
+            // A batch prompt says how many files it's about, and wants one entry each.
+            const count = field === 'files' ? Number(/For each of the (\d+) files/.exec(prompt)?.[1] ?? 0) : 0;
+            return Array.from({ length: count }, (_, index) => ({ ...fakeValue(schema.items ?? {}, '', prompt) as object, index }));
+        }
+        case 'NUMBER':
+        case 'INTEGER':
+            return 1;
+        case 'BOOLEAN':
+            return false;
+        default:
+            return schema.enum?.[0] ?? 'Answered by the fake Gemini endpoint.';
+    }
+};
+
+// The parts of a generateContent request the fake reads; images come as
+// inline data and are ignored.
+export interface GenerateContentBody {
+    contents?: { role?: string; parts?: { text?: string; inlineData?: { mimeType: string; data: string } }[] }[];
+    generationConfig?: { responseSchema?: Schema };
+}
+
+const promptText = (body: GenerateContentBody): string => (body.contents ?? [])
+    .flatMap(content => content.parts ?? [])
+    .map(part => part.text ?? '')
+    .join('\n');
+
+export const answerGenerateContent = (body: GenerateContentBody) => {
+    const prompt = promptText(body);
+    const schema = body.generationConfig?.responseSchema;
+    const text = schema ? JSON.stringify(fakeValue(schema, '', prompt)) : 'Nicely compressed, and answered by the fake Gemini endpoint.';
+    const promptTokenCount = Math.ceil(prompt.length / 4);
+    const candidatesTokenCount = Math.ceil(text.length / 4);
+    return {
+        candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+        usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+    };
+};
+
+// Listens on a free local port; the returned URL is the base URL to hand the
+// Gemini client.
+export const startFakeGemini = (): Promise<{ server: Server; baseUrl: string }> => new Promise((resolve, reject) => {
+    const server = createServer(async (request, response) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of request) chunks.push(chunk);
+        if (request.method !== 'POST' || !request.url?.includes(':generateContent')) {
+            response.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { code: 404, message: 'Only generateContent is faked.', status: 'NOT_FOUND' } }));
+            return;
+        }
+        try {
+            const answer = answerGenerateContent(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(answer));
+        } catch {
+            response.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { code: 400, message: 'Malformed request body.', status: 'INVALID_ARGUMENT' } }));
+        }
+    });
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({ server, baseUrl: `http://127.0.0.1:${port}` });
+    });
+});
@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import UPNG from 'upng-js';
+import {
+    setRasterBackend, configureGemini, setAIRateLimit, setAICacheStore, createMemoryCache,
+    AI_API_ROUTES, COMPRESS_API_ROUTE, AIServerStatus, AIApiResponse, CompressReport, SizeRecommendation,
+} from '../core';
+import { createNodeBackend } from '../cli/nodeBackend';
+import { startFakeGemini } from './fakeGemini';
+import { startWhiloServer } from './whiloServer';
+
+// The server end to end, answering AI calls from the fake Gemini endpoint.
+
+const MAX_UPLOAD_BYTES = 64 * 1024;
+
+type Started = Awaited<ReturnType<typeof startWhiloServer>>;
+
+let fake: Awaited<ReturnType<typeof startFakeGemini>>;
+let whilo: Started;
+let limited: Started;
+
+// A small gradient, so the encoders have something to work with.
+const gradientPng = (width: number, height: number): File => {
+    const pixels = new Uint8Array(width * height * 4);
+    for (let index = 0; index < width * height; index++) {
+        pixels.set([index % width * 4, Math.floor(index / width) * 4, 128, 255], index * 4);
+    }
+    return new File([UPNG.encode([pixels.buffer], width, height, 0)], 'gradient.png', { type: 'image/png' });
+};
+
+const upload = (file: File, options?: object): FormData => {
+    const form = new FormData();
+    form.append('file', file);
+    if (options) form.append('options', JSON.stringify(options));
+    return form;
+};
+
+const post = (server: Started, route: string, body: FormData | object) => fetch(`${server.url}${route}`, body instanceof FormData
+    ? { method: 'POST', body }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+// A multipart body too big for the server, as bytes and its content type.
+const oversizedForm = async () => {
+    const encoded = new Response(upload(new File([new Uint8Array(MAX_UPLOAD_BYTES * 2)], 'big.png', { type: 'image/png' })));
+    return { bytes: new Uint8Array(await encoded.arrayBuffer()), type: encoded.headers.get('content-type')! };
+};
+
+beforeAll(async () => {
+    setRasterBackend(await createNodeBackend());
+    setAIRateLimit(0);
+    setAICacheStore(createMemoryCache());
+    fake = await startFakeGemini();
+    configureGemini('fake-key', fake.baseUrl);
+    whilo = await startWhiloServer({ port: 0, host: '127.0.0.1', rateLimit: 0, maxUploadBytes: MAX_UPLOAD_BYTES });
+    limited = await startWhiloServer({ port: 0, host: '127.0.0.1', rateLimit: 2, maxUploadBytes: MAX_UPLOAD_BYTES });
+}, 60_000);
+
+afterAll(async () => {
+    await Promise.all([whilo?.close(), limited?.close()]);
+    fake?.server.close();
+});
+
+describe('AI endpoints', () => {
+    it('reports that Gemini is configured', async () => {
+        const response = await fetch(`${whilo.url}${AI_API_ROUTES.status}`);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual<AIServerStatus>({ gemini: true, requestsPerMinute: 0 });
+    });
+
+    it('answers a report with its usage', async () => {
+        const response = await post(whilo, AI_API_ROUTES.report, { originalSize: 300_000, newSize: 120_000, language: 'es' });
+        expect(response.status).toBe(200);
+        const { result, usage } = await response.json() as AIApiResponse<string>;
+        expect(result).toContain('fake Gemini');
+        expect(usage.requests).toBe(1);
+        expect(usage.promptTokens).toBeGreaterThan(0);
+    });
+
+    it('recommends a size for an uploaded image', async () => {
+        const file = gradientPng(32, 32);
+        const response = await post(whilo, AI_API_ROUTES.recommendSize, upload(file));
+        expect(response.status).toBe(200);
+        const { result } = await response.json() as AIApiResponse<SizeRecommendation>;
+        // Gemini's answer is kept below the file's own size.
+        expect(result.recommendedSize).toBeGreaterThan(0);
+        expect(result.recommendedSize).toBeLessThan(file.size);
+        expect(result.reason).toEqual(expect.any(String));
+    });
+
+    it('refuses options of the wrong type', async () => {
+        const response = await post(whilo, AI_API_ROUTES.proposeBreakpoints, upload(gradientPng(32, 32), { dimensions: { width: '32', height: 32 } }));
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain('dimensions.width');
+    });
+
+    const pdfStats = { removedObjects: 1, deduplicatedObjects: 0, deflatedStreams: 2, resampledImages: 3, recoloredImages: 3, color: 'grayscale' };
+    const batchStats = {
+        files: 2, originalSize: 500_000, compressedSize: 200_000, missedTargets: 0,
+        byType: [{ inputType: 'JPEG', files: 2, originalSize: 500_000, compressedSize: 200_000 }],
+        biggestWin: { name: 'photo.jpg', originalSize: 400_000, compressedSize: 150_000 },
+    };
+
+    it('answers a PDF report and a batch summary', async () => {
+        const report = await post(whilo, AI_API_ROUTES.pdfReport, { originalSize: 900_000, newSize: 300_000, mode: 'lossy', stats: pdfStats });
+        expect(report.status).toBe(200);
+        const summary = await post(whilo, AI_API_ROUTES.batchSummary, { stats: batchStats });
+        expect(summary.status).toBe(200);
+    });
+
+    it.each([
+        [{ mode: 'extreme' }, 'mode'],
+        [{ stats: 'all of them' }, 'stats'],
+        [{ stats: { ...pdfStats, color: 'sepia' } }, 'stats.color'],
+        [{ stats: { ...pdfStats, resampledImages: -1 } }, 'stats.resampledImages'],
+        [{ stats: { ...pdfStats, recoloredImages: undefined } }, 'stats.recoloredImages'],
+    ])('refuses a PDF report with %j', async (fields, field) => {
+        const response = await post(whilo, AI_API_ROUTES.pdfReport, { originalSize: 900_000, newSize: 300_000, ...fields });
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain(`"${field}"`);
+    });
+
+    it.each([
+        [undefined, 'stats'],
+        [{ ...batchStats, files: 1.5 }, 'stats.files'],
+        [{ ...batchStats, byType: {} }, 'stats.byType'],
+        [{ ...batchStats, byType: [null] }, 'stats.byType[0]'],
+        [{ ...batchStats, byType: [{ ...batchStats.byType[0], compressedSize: '200 KB' }] }, 'stats.byType[0].compressedSize'],
+        [{ ...batchStats, byType: [{ ...batchStats.byType[0], inputType: 'x'.repeat(500) }] }, 'stats.byType[0].inputType'],
+        [{ ...batchStats, missedTargets: undefined }, 'stats.missedTargets'],
+        [{ ...batchStats, biggestWin: { name: 'photo.jpg', originalSize: 400_000 } }, 'stats.biggestWin.compressedSize'],
+    ])('refuses a batch summary of %j', async (stats, field) => {
+        const response = await post(whilo, AI_API_ROUTES.batchSummary, { stats });
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain(`"${field}"`);
+    });
+
+    it('refuses an unknown language', async () => {
+        const response = await post(whilo, AI_API_ROUTES.report, { originalSize: 300_000, newSize: 120_000, language: 'fr' });
+        expect(response.status).toBe(400);
+    });
+
+    it('answers unknown routes with 404', async () => {
+        expect((await post(whilo, '/api/ai/nothing', {})).status).toBe(404);
+    });
+});
+
+describe('POST /api/compress', () => {
+    it('answers with the compressed file and its report', async () => {
+        const file = gradientPng(64, 48);
+        const response = await post(whilo, COMPRESS_API_ROUTE, upload(file, { targetSize: 20, targetUnit: 'KB', outputFormatChoice: 'webp', maxWidth: 32 }));
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toMatch(/^multipart\/form-data; boundary=/);
+
+        const reply = await response.formData();
+        const report = JSON.parse(String(reply.get('report'))) as CompressReport;
+        const compressed = reply.get('file') as File;
+        expect(report).toMatchObject({ name: 'gradient.png', originalSize: file.size, format: 'webp', width: 32, height: 24, targetMet: true });
+        expect(compressed.name).toBe(report.outputName);
+        expect(compressed.size).toBe(report.compressedSize);
+    }, 60_000);
+
+    it.each([
+        [{ targetSize: -1 }, 'targetSize'],
+        [{ outputFormatChoice: 'gif' }, 'outputFormatChoice'],
+        [{ resize: { scalePercent: 5000 } }, 'resize.scalePercent'],
+        [{ crop: { x: 0, y: 0, width: 10 } }, 'crop.height'],
+        [{ resampling: { filter: 'nearest' } }, 'resampling.filter'],
+        [{ svgPrecision: 2.5 }, 'svgPrecision'],
+    ])('refuses %j', async (options, field) => {
+        const response = await post(whilo, COMPRESS_API_ROUTE, upload(gradientPng(8, 8), options));
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain(`"${field}"`);
+    });
+
+    it('refuses a file that is not an image, PDF or SVG', async () => {
+        const response = await post(whilo, COMPRESS_API_ROUTE, upload(new File(['plain text'], 'notes.txt', { type: 'text/plain' })));
+        expect(response.status).toBe(415);
+    });
+
+    it('refuses an upload whose Content-Length is over the limit', async () => {
+        const { bytes, type } = await oversizedForm();
+        const response = await fetch(`${whilo.url}${COMPRESS_API_ROUTE}`, { method: 'POST', headers: { 'Content-Type': type }, body: bytes });
+        expect(response.status).toBe(413);
+    });
+
+    it('refuses a chunked upload once it passes the limit', async () => {
+        const { bytes, type } = await oversizedForm();
+        const chunkSize = 8 * 1024;
+        let offset = 0;
+        const body = new ReadableStream<Uint8Array>({
+            pull: controller => {
+                if (offset >= bytes.length) return controller.close();
+                controller.enqueue(bytes.slice(offset, offset += chunkSize));
+            },
+        });
+        const response = await fetch(`${whilo.url}${COMPRESS_API_ROUTE}`, { method: 'POST', headers: { 'Content-Type': type }, body, duplex: 'half' } as RequestInit);
+        expect(response.status).toBe(413);
+    });
+});
+
+describe('rate limit', () => {
+    it('answers 429 once a client has used its requests for the minute', async () => {
+        const ask = () => post(limited, AI_API_ROUTES.report, { originalSize: 1000, newSize: 500 });
+        expect((await ask()).status).toBe(200);
+        expect((await ask()).status).toBe(200);
+        const refused = await ask();
+        expect(refused.status).toBe(429);
+        expect(refused.headers.get('retry-after')).toBe('60');
+    });
+});
@@ -0,0 +1,606 @@
+#!/usr/bin/env node
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Readable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { ApiError } from '@google/genai';
+import {
+    setRasterBackend, configureGemini, geminiProvider, fallbackReason, setAIRateLimit, subscribeAIUsage, createRateLimiter, describeAIError,
+    AITimeoutError, AIUsage, RateLimiter, DEFAULT_REQUESTS_PER_MINUTE, setAICacheStore, createMemoryCache, DEFAULT_MEMORY_CACHE_ENTRIES,
+    compressImageFile, compressPdfFile, compressSvgFile, normalizeInputFile, toBytes, INPUT_FORMATS, INPUT_FORMAT_LIST,
+    AI_API_ROUTES, COMPRESS_API_ROUTE, AIServerStatus, AIApiResponse, ReportRequest, PdfReportRequest, CompressRequestOptions, CompressReport, BatchSummaryRequest,
+    isLocale, LOCALE_NAMES, Locale, OUTPUT_FORMAT_NAMES, OutputFormatChoice, METADATA_POLICY_LABELS, MetadataPolicy, RESIZE_FILTERS, ResizeFilter, ResamplingOptions,
+    PDF_COLOR_MODES, PdfColorMode, PdfCompressionMode, PdfOptimizeStats, BatchSummaryStats, TypeSavings, CropRect, ManualResize, ResizeBounds, SizeUnit,
+} from '../core';
+import { createTaskQueue, isAbortError } from '../workerPool';
+import { createNodeBackend } from '../cli/nodeBackend';
+import { startFakeGemini } from './fakeGemini';
+
+// whilo-server: holds the Gemini key so the browser never sees it. The app's
+// AI calls come here and are asked on its behalf, each client within its own
+// rate limit, and other tools can compress through POST /api/compress
+// without the UI.
+
+const DEFAULT_MAX_UPLOAD_MB = 200;
+
+const USAGE = `Usage: whilo-server [options]
+
+Options:
+  --port <n>               Port to listen on  [8787]
+  --host <host>            Interface to listen on  [127.0.0.1]
+  --rate-limit <n>         Requests per minute per client, 0 for none  [60]
+  --gemini-rate-limit <n>  Requests per minute to Gemini, 0 for none  [${DEFAULT_REQUESTS_PER_MINUTE}]
+  --cache-entries <n>      AI answers kept in memory  [${DEFAULT_MEMORY_CACHE_ENTRIES}]
+  --max-upload <MB>        Largest request body accepted  [${DEFAULT_MAX_UPLOAD_MB}]
+  --fake-gemini            Answer AI calls from a local fake Gemini endpoint
+  -h, --help               Show this help
+
+Gemini is used when GEMINI_API_KEY is set; GEMINI_BASE_URL points it at
+another endpoint.`;
+
+// --- Options ---
+class UsageError extends Error {}
+
+// What startWhiloServer needs; the rest of ServerOptions sets up core.
+export interface WhiloServerOptions {
+    port: number;
+    host: string;
+    rateLimit: number;
+    maxUploadBytes: number;
+}
+
+interface ServerOptions extends WhiloServerOptions {
+    geminiRateLimit: number;
+    cacheEntries: number;
+    fakeGemini: boolean;
+}
+
+const parseCount = (name: string, value: string | undefined, fallback: number): number => {
+    if (value === undefined) return fallback;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) throw new UsageError(`Invalid --${name} "${value}". Use a whole number.`);
+    return count;
+};
+
+const parseServerArgs = (args: string[]): ServerOptions | undefined => {
+    const { values } = parseArgs({
+        args,
+        options: {
+            'port': { type: 'string' },
+            'host': { type: 'string' },
+            'rate-limit': { type: 'string' },
+            'gemini-rate-limit': { type: 'string' },
+            'cache-entries': { type: 'string' },
+            'max-upload': { type: 'string' },
+            'fake-gemini': { type: 'boolean' },
+            'help': { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) return undefined;
+    const port = parseCount('port', values.port ?? process.env.PORT, 8787);
+    if (port > 65535) throw new UsageError(`Invalid --port "${port}".`);
+    const maxUpload = parseCount('max-upload', values['max-upload'], DEFAULT_MAX_UPLOAD_MB);
+    if (!maxUpload) throw new UsageError('Invalid --max-upload "0". Use a size in MB from 1.');
+    return {
+        port,
+        host: values.host ?? '127.0.0.1',
+        rateLimit: parseCount('rate-limit', values['rate-limit'], 60),
+        geminiRateLimit: parseCount('gemini-rate-limit', values['gemini-rate-limit'], DEFAULT_REQUESTS_PER_MINUTE),
+        cacheEntries: parseCount('cache-entries', values['cache-entries'], DEFAULT_MEMORY_CACHE_ENTRIES),
+        maxUploadBytes: maxUpload * 1024 * 1024,
+        fakeGemini: !!values['fake-gemini'],
+    };
+};
+
+// --- Requests ---
+// Thrown for anything the client got wrong; the message goes back as is.
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+// A request's body, read at most once and only up to the server's limit.
+interface RequestBody {
+    form(): Promise<FormData>;
+    json<T>(): Promise<T>;
+}
+
+// The web Request parses multipart and JSON bodies for us. Bytes are counted
+// as they arrive, since a chunked upload has no Content-Length to check
+// first; past the limit the body errors and the upload is refused.
+const requestBody = (request: IncomingMessage, maxBytes: number): RequestBody => {
+    const tooLarge = () => new HttpError(413, `Uploads are limited to ${maxBytes / 1024 / 1024} MB.`);
+    const read = async <T,>(parse: (body: Request) => Promise<T>, invalid: string): Promise<T> => {
+        if (Number(request.headers['content-length']) > maxBytes) throw tooLarge();
+        let received = 0;
+        const limit = new TransformStream<Uint8Array, Uint8Array>({
+            transform: (chunk, controller) => {
+                received += chunk.byteLength;
+                if (received > maxBytes) controller.error(tooLarge());
+                else controller.enqueue(chunk);
+            },
+        });
+        try {
+            return await parse(new Request(`http://localhost${request.url}`, {
+                method: request.method,
+                headers: request.headers as Record<string, string>,
+                body: (Readable.toWeb(request) as ReadableStream<Uint8Array>).pipeThrough(limit),
+                duplex: 'half',
+            } as RequestInit));
+        } catch {
+            if (received > maxBytes) throw tooLarge();
+            throw new HttpError(400, invalid);
+        }
+    };
+    return {
+        form: () => read(body => body.formData(), 'Send the file as multipart/form-data.'),
+        json: <T,>() => read(body => body.json() as Promise<T>, 'The request body is not valid JSON.'),
+    };
+};
+
+// Uploads are typed by their contents, as in the app and the CLI.
+const readFiles = async (form: FormData, field: string): Promise<File[]> => {
+    const uploads = form.getAll(field).filter((value): value is File => value instanceof File);
+    if (!uploads.length) throw new HttpError(400, `No file in the "${field}" field.`);
+    return Promise.all(uploads.map(async upload => {
+        const file = await normalizeInputFile(upload);
+        if (!file) throw new HttpError(415, `${upload.name} is not a ${INPUT_FORMAT_LIST} file.`);
+        return file;
+    }));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The parsed "options" field, unchecked: callers validate what they use.
+const readOptions = (form: FormData): Record<string, unknown> => {
+    const options = form.get('options');
+    if (options === null) return {};
+    try {
+        const parsed = JSON.parse(String(options));
+        if (isObject(parsed)) return parsed;
+    } catch {
+        // Reported below.
+    }
+    throw new HttpError(400, 'The "options" field is not a JSON object.');
+};
+
+// --- Validation ---
+// Options come as JSON from anyone, so each is checked the way the CLI
+// checks its flags before it reaches the encoders.
+const MAX_DIMENSION = 16384;
+const MAX_SCALE_PERCENT = 1000;
+const SIZE_UNITS: SizeUnit[] = ['KB', 'MB'];
+const PDF_MODES: PdfCompressionMode[] = ['lossless', 'lossy'];
+
+const isPositive = (value: number) => value > 0;
+const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+const COUNT = 'a whole number from 0';
+const isPixels = (value: number) => Number.isInteger(value) && value > 0 && value <= MAX_DIMENSION;
+const PIXELS = `a whole number of pixels up to ${MAX_DIMENSION}`;
+
+const checkNumber = (value: unknown, name: string, valid: (value: number) => boolean, expected: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !valid(value)) throw new HttpError(400, `"${name}" must be ${expected}.`);
+    return value;
+};
+
+const optionalNumber = (value: unknown, name: string, valid: (value: number) => boolean, expected: string): number | undefined =>
+    value === undefined ? undefined : checkNumber(value, name, valid, expected);
+
+const optionalBoolean = (value: unknown, name: string): boolean | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value === 'boolean') return value;
+    throw new HttpError(400, `"${name}" must be true or false.`);
+};
+
+const optionalChoice = <T extends string>(value: unknown, name: string, choices: readonly string[]): T | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value === 'string' && choices.includes(value)) return value as T;
+    throw new HttpError(400, `"${name}" must be one of ${choices.join(', ')}.`);
+};
+
+const optionalObject = (value: unknown, name: string): Record<string, unknown> | undefined => {
+    if (value === undefined) return undefined;
+    if (isObject(value)) return value;
+    throw new HttpError(400, `"${name}" must be an object.`);
+};
+
+const requireSize = (value: unknown, name: string): number => checkNumber(value, name, isPositive, 'a positive number');
+const requireCount = (value: unknown, name: string): number => checkNumber(value, name, isCount, COUNT);
+
+const requireObject = (value: unknown, name: string): Record<string, unknown> => {
+    if (isObject(value)) return value;
+    throw new HttpError(400, `"${name}" must be an object.`);
+};
+
+// Text that ends up in a prompt, such as a file name.
+const MAX_TEXT = 200;
+
+const requireText = (value: unknown, name: string): string => {
+    if (typeof value === 'string' && value.trim() && value.length <= MAX_TEXT) return value;
+    throw new HttpError(400, `"${name}" must be text of up to ${MAX_TEXT} characters.`);
+};
+
+const readLanguage = (value: unknown): Locale | undefined => {
+    if (value === undefined) return undefined;
+    if (isLocale(value)) return value;
+    throw new HttpError(400, `"language" must be one of ${LOCALE_NAMES.join(', ')}.`);
+};
+
+const readBounds = (value: unknown, name: string): ResizeBounds => {
+    const bounds = optionalObject(value, name) ?? {};
+    return { width: checkNumber(bounds.width, `${name}.width`, isPixels, PIXELS), height: checkNumber(bounds.height, `${name}.height`, isPixels, PIXELS) };
+};
+
+const readCrop = (value: unknown): CropRect | undefined => {
+    const crop = optionalObject(value, 'crop');
+    if (!crop) return undefined;
+    const offset = (key: 'x' | 'y') => checkNumber(crop[key], `crop.${key}`, offset => offset >= 0 && offset < MAX_DIMENSION, `a number of pixels from 0 to ${MAX_DIMENSION}`);
+    return { x: offset('x'), y: offset('y'), width: checkNumber(crop.width, 'crop.width', isPixels, PIXELS), height: checkNumber(crop.height, 'crop.height', isPixels, PIXELS) };
+};
+
+const readResize = (value: unknown): ManualResize | undefined => {
+    const resize = optionalObject(value, 'resize');
+    if (!resize) return undefined;
+    return {
+        width: optionalNumber(resize.width, 'resize.width', isPixels, PIXELS),
+        height: optionalNumber(resize.height, 'resize.height', isPixels, PIXELS),
+        lockAspect: optionalBoolean(resize.lockAspect, 'resize.lockAspect'),
+        scalePercent: optionalNumber(resize.scalePercent, 'resize.scalePercent', percent => percent > 0 && percent <= MAX_SCALE_PERCENT, `a percentage above 0 and up to ${MAX_SCALE_PERCENT}`),
+        maxLongEdge: optionalNumber(resize.maxLongEdge, 'resize.maxLongEdge', isPixels, PIXELS),
+    };
+};
+
+const readResampling = (value: unknown): ResamplingOptions | undefined => {
+    const resampling = optionalObject(value, 'resampling');
+    if (!resampling) return undefined;
+    const atLeastZero = (value: number) => value >= 0;
+    return {
+        filter: optionalChoice<ResizeFilter>(resampling.filter, 'resampling.filter', Object.keys(RESIZE_FILTERS)),
+        unsharpAmount: optionalNumber(resampling.unsharpAmount, 'resampling.unsharpAmount', atLeastZero, 'a number from 0'),
+        unsharpRadius: optionalNumber(resampling.unsharpRadius, 'resampling.unsharpRadius', atLeastZero, 'a number from 0'),
+        unsharpThreshold: optionalNumber(resampling.unsharpThreshold, 'resampling.unsharpThreshold', threshold => threshold >= 0 && threshold <= 255, 'a number from 0 to 255'),
+    };
+};
+
+const readPdfStats = (value: unknown): PdfOptimizeStats | undefined => {
+    const stats = optionalObject(value, 'stats');
+    if (!stats) return undefined;
+    return {
+        removedObjects: requireCount(stats.removedObjects, 'stats.removedObjects'),
+        deduplicatedObjects: requireCount(stats.deduplicatedObjects, 'stats.deduplicatedObjects'),
+        deflatedStreams: requireCount(stats.deflatedStreams, 'stats.deflatedStreams'),
+        resampledImages: requireCount(stats.resampledImages, 'stats.resampledImages'),
+        recoloredImages: requireCount(stats.recoloredImages, 'stats.recoloredImages'),
+        color: optionalChoice<PdfColorMode>(stats.color, 'stats.color', Object.keys(PDF_COLOR_MODES)),
+        unchanged: optionalBoolean(stats.unchanged, 'stats.unchanged'),
+    };
+};
+
+const readTypeSavings = (value: unknown, name: string): TypeSavings => {
+    const type = requireObject(value, name);
+    return {
+        inputType: requireText(type.inputType, `${name}.inputType`),
+        files: checkNumber(type.files, `${name}.files`, files => isCount(files) && files > 0, 'a whole number above 0'),
+        originalSize: requireSize(type.originalSize, `${name}.originalSize`),
+        compressedSize: requireSize(type.compressedSize, `${name}.compressedSize`),
+    };
+};
+
+const readBatchStats = (value: unknown): BatchSummaryStats => {
+    const stats = requireObject(value, 'stats');
+    if (!Array.isArray(stats.byType)) throw new HttpError(400, '"stats.byType" must be an array.');
+    const win = optionalObject(stats.biggestWin, 'stats.biggestWin');
+    return {
+        files: checkNumber(stats.files, 'stats.files', files => isCount(files) && files > 0, 'a whole number above 0'),
+        originalSize: requireSize(stats.originalSize, 'stats.originalSize'),
+        compressedSize: requireSize(stats.compressedSize, 'stats.compressedSize'),
+        byType: stats.byType.map((type, index) => readTypeSavings(type, `stats.byType[${index}]`)),
+        missedTargets: requireCount(stats.missedTargets, 'stats.missedTargets'),
+        biggestWin: win && {
+            name: requireText(win.name, 'stats.biggestWin.name'),
+            originalSize: requireSize(win.originalSize, 'stats.biggestWin.originalSize'),
+            compressedSize: requireSize(win.compressedSize, 'stats.biggestWin.compressedSize'),
+        },
+    };
+};
+
+const readCompressOptions = (form: FormData): CompressRequestOptions => {
+    const options = readOptions(form);
+    return {
+        targetSize: optionalNumber(options.targetSize, 'targetSize', isPositive, 'a positive number'),
+        targetUnit: optionalChoice<SizeUnit>(options.targetUnit, 'targetUnit', SIZE_UNITS),
+        smartResize: optionalBoolean(options.smartResize, 'smartResize'),
+        outputFormatChoice: optionalChoice<OutputFormatChoice>(options.outputFormatChoice, 'outputFormatChoice', ['ai', 'best', ...OUTPUT_FORMAT_NAMES]),
+        maxWidth: optionalNumber(options.maxWidth, 'maxWidth', isPixels, PIXELS),
+        maxHeight: optionalNumber(options.maxHeight, 'maxHeight', isPixels, PIXELS),
+        crop: readCrop(options.crop),
+        cropAspect: optionalNumber(options.cropAspect, 'cropAspect', isPositive, 'a positive ratio'),
+        resize: readResize(options.resize),
+        resampling: readResampling(options.resampling),
+        metadataPolicy: optionalChoice<MetadataPolicy>(options.metadataPolicy, 'metadataPolicy', Object.keys(METADATA_POLICY_LABELS)),
+        language: readLanguage(options.language),
+        pdfMode: optionalChoice<PdfCompressionMode>(options.pdfMode, 'pdfMode', PDF_MODES),
+        pdfColor: optionalChoice<PdfColorMode>(options.pdfColor, 'pdfColor', Object.keys(PDF_COLOR_MODES)),
+        svgPrecision: optionalNumber(options.svgPrecision, 'svgPrecision', digits => Number.isInteger(digits) && digits >= 0 && digits <= 8, 'a whole number from 0 to 8'),
+    };
+};
+
+// --- Usage ---
+// Each AI request gets its own tally; Gemini calls made while answering it
+// add to it, however many run at once.
+const requestUsage = new AsyncLocalStorage<Partial<AIUsage>>();
+
+subscribeAIUsage((_, change) => {
+    const usage = requestUsage.getStore();
+    if (!usage || !change.requests) return;
+    usage.requests = (usage.requests ?? 0) + change.requests;
+    usage.promptTokens = (usage.promptTokens ?? 0) + (change.promptTokens ?? 0);
+    usage.outputTokens = (usage.outputTokens ?? 0) + (change.outputTokens ?? 0);
+    usage.costUsd = (usage.costUsd ?? 0) + (change.costUsd ?? 0);
+});
+
+const withUsage = <T,>(answer: () => Promise<T>): Promise<AIApiResponse<T>> => {
+    const usage: Partial<AIUsage> = {};
+    return requestUsage.run(usage, async () => ({ result: await answer(), usage }));
+};
+
+// --- AI Endpoints ---
+type Handler = (body: RequestBody, signal: AbortSignal) => Promise<unknown>;
+
+const aiHandlers: Record<string, Handler> = {
+    [AI_API_ROUTES.recommendSize]: async (body, signal) => {
+        const form = await body.form();
+        const [file] = await readFiles(form, 'file');
+        const language = readLanguage(readOptions(form).language);
+        return withUsage(() => geminiProvider.recommendSize(file, language, signal));
+    },
+    [AI_API_ROUTES.recommendSizes]: async (body, signal) => {
+        const form = await body.form();
+        const files = await readFiles(form, 'files');
+        const language = readLanguage(readOptions(form).language);
+        return withUsage(async () => (await geminiProvider.recommendSizes!(files, language, signal)).map(result => result ?? null));
+    },
+    [AI_API_ROUTES.suggestCompression]: async (body, signal) => {
+        const form = await body.form();
+        const [file] = await readFiles(form, 'file');
+        const options = readOptions(form);
+        const enableSmartResize = optionalBoolean(options.enableSmartResize, 'enableSmartResize');
+        const targetSize = optionalNumber(options.targetSize, 'targetSize', isPositive, 'a positive number');
+        const targetUnit = optionalChoice<SizeUnit>(options.targetUnit, 'targetUnit', SIZE_UNITS);
+        const hasTransparency = optionalBoolean(options.hasTransparency, 'hasTransparency');
+        const bounds = options.bounds === undefined ? undefined : readBounds(options.bounds, 'bounds');
+        const language = readLanguage(options.language);
+        return withUsage(() => geminiProvider.suggestCompression(file, !!enableSmartResize, targetSize, targetUnit, hasTransparency, bounds, language, signal));
+    },
+    [AI_API_ROUTES.proposeBreakpoints]: async (body, signal) => {
+        const form = await body.form();
+        const [file] = await readFiles(form, 'file');
+        const options = readOptions(form);
+        const dimensions = readBounds(options.dimensions, 'dimensions');
+        const language = readLanguage(options.language);
+        return withUsage(() => geminiProvider.proposeBreakpoints(file, dimensions, language, signal));
+    },
+    [AI_API_ROUTES.report]: async (body, signal) => {
+        const { originalSize, newSize, language } = await body.json<ReportRequest>();
+        requireSize(originalSize, 'originalSize');
+        requireSize(newSize, 'newSize');
+        return withUsage(() => geminiProvider.report(originalSize, newSize, readLanguage(language), signal));
+    },
+    [AI_API_ROUTES.pdfReport]: async (body, signal) => {
+        const request = await body.json<PdfReportRequest>();
+        const originalSize = requireSize(request.originalSize, 'originalSize');
+        const newSize = requireSize(request.newSize, 'newSize');
+        const mode = optionalChoice<PdfCompressionMode>(request.mode, 'mode', PDF_MODES);
+        const stats = readPdfStats(request.stats);
+        const language = readLanguage(request.language);
+        return withUsage(() => geminiProvider.pdfReport(originalSize, newSize, mode, stats, language, signal));
+    },
+    [AI_API_ROUTES.batchSummary]: async (body, signal) => {
+        const request = await body.json<BatchSummaryRequest>();
+        const stats = readBatchStats(request.stats);
+        const language = readLanguage(request.language);
+        return withUsage(() => geminiProvider.batchSummary(stats, language, signal));
+    },
+};
+
+// Gemini's own status where it means something to the client; anything else
+// it couldn't do is a bad gateway.
+const aiErrorStatus = (error: unknown): number => {
+    if (error instanceof ApiError && error.status === 429) return 429;
+    if (error instanceof AITimeoutError) return 504;
+    return 502;
+};
+
+// --- Compression Endpoint ---
+// Encodes run on this thread, so one at a time keeps the server answering.
+const compressionQueue = createTaskQueue(1);
+
+const compressUpload = async (file: File, options: CompressRequestOptions, signal: AbortSignal): Promise<{ compressedFile: File; report: CompressReport }> => {
+    const targetBytes = options.targetSize ? toBytes(options.targetSize, options.targetUnit ?? 'KB') : undefined;
+    const { language } = options;
+
+    if (file.type === INPUT_FORMATS.pdf.mimeType || file.type === INPUT_FORMATS.svg.mimeType) {
+        const isPdf = file.type === INPUT_FORMATS.pdf.mimeType;
+        const { compressedFile, report } = isPdf
+            ? await compressPdfFile(file, { mode: options.pdfMode, color: options.pdfColor, language, signal })
+            : await compressSvgFile(file, { precision: options.svgPrecision, language, signal });
+        return {
+            compressedFile,
+            report: {
+                name: file.name,
+                outputName: compressedFile.name,
+                originalSize: file.size,
+                compressedSize: compressedFile.size,
+                targetBytes,
+                targetMet: !targetBytes || compressedFile.size <= targetBytes,
+                format: isPdf ? 'pdf' : 'svg',
+                provider: report.provider,
+                report: report.text,
+            },
+        };
+    }
+
+    const { compressedFile, compressionDetails, report } = await compressImageFile(file, {
+        targetSize: options.targetSize,
+        targetUnit: options.targetUnit,
+        smartResize: options.smartResize,
+        outputFormatChoice: options.outputFormatChoice,
+        maxWidth: options.maxWidth,
+        maxHeight: options.maxHeight,
+        crop: options.crop,
+        cropAspect: options.cropAspect,
+        resize: options.resize,
+        resampling: options.resampling,
+        metadataPolicy: options.metadataPolicy,
+        language,
+        signal,
+    });
+    return {
+        compressedFile,
+        report: {
+            name: file.name,
+            outputName: compressedFile.name,
+            originalSize: file.size,
+            compressedSize: compressedFile.size,
+            targetBytes,
+            targetMet: compressionDetails.targetMet,
+            format: compressionDetails.format,
+            quality: compressionDetails.quality,
+            width: compressionDetails.width,
+            height: compressionDetails.height,
+            frames: compressionDetails.frames,
+            unchanged: compressionDetails.unchanged,
+            provider: compressionDetails.provider,
+            fallbackReason: compressionDetails.fallback && fallbackReason(compressionDetails.fallback),
+            report: report.text,
+        },
+    };
+};
+
+// Answers with the compressed file and its report as one multipart body.
+const handleCompress = async (body: RequestBody, response: ServerResponse, signal: AbortSignal) => {
+    const form = await body.form();
+    const [file] = await readFiles(form, 'file');
+    const options = readCompressOptions(form);
+    let result;
+    try {
+        result = await compressionQueue.run(() => compressUpload(file, options, signal), signal);
+    } catch (error) {
+        if (isAbortError(error) || signal.aborted) throw error;
+        throw new HttpError(422, `Couldn't compress ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+    const reply = new FormData();
+    reply.append('report', JSON.stringify(result.report));
+    reply.append('file', result.compressedFile, result.compressedFile.name);
+    const encoded = new Response(reply);
+    response.writeHead(200, { 'Content-Type': encoded.headers.get('content-type')! });
+    response.end(Buffer.from(await encoded.arrayBuffer()));
+};
+
+// --- Server ---
+const sendJson = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+};
+
+// Listens with the given limits, answering with whatever backend and Gemini
+// client core has been set up with. Port 0 picks a free one.
+export const startWhiloServer = async (options: WhiloServerOptions): Promise<{ server: Server; url: string; close: () => Promise<void> }> => {
+    // Clients are told apart by address; behind a proxy they all share one.
+    const limiters = new Map<string, RateLimiter>();
+    const limiterFor = (client: string) => {
+        let limiter = limiters.get(client);
+        if (!limiter) limiters.set(client, limiter = createRateLimiter(options.rateLimit, 60_000));
+        return limiter;
+    };
+
+    const server = createServer(async (request, response) => {
+        // Stop working on an answer nobody is waiting for.
+        const controller = new AbortController();
+        response.on('close', () => { if (!response.writableFinished) controller.abort(); });
+        const route = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+        try {
+            if (route === AI_API_ROUTES.status && request.method === 'GET') {
+                const status: AIServerStatus = { gemini: !!geminiProvider.isConfigured?.(), requestsPerMinute: options.rateLimit };
+                return sendJson(response, 200, status);
+            }
+            const handler = aiHandlers[route];
+            if (!handler && route !== COMPRESS_API_ROUTE) throw new HttpError(404, `No such endpoint: ${route}`);
+            if (request.method !== 'POST') throw new HttpError(405, `${route} takes POST requests.`);
+            if (!limiterFor(request.socket.remoteAddress ?? '').tryAcquire()) {
+                return sendJson(response, 429, { error: 'Too many requests; try again in a minute.' }, { 'Retry-After': '60' });
+            }
+            const body = requestBody(request, options.maxUploadBytes);
+            if (handler) {
+                if (!geminiProvider.isConfigured?.()) throw new HttpError(503, 'Gemini is not configured on the server.');
+                return sendJson(response, 200, await handler(body, controller.signal));
+            }
+            await handleCompress(body, response, controller.signal);
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            // An upload refused for its size may still be arriving; drop it rather than read it all.
+            if (error instanceof HttpError) return sendJson(response, error.status, { error: error.message }, error.status === 413 ? { Connection: 'close' } : {});
+            console.error(`${route} failed:`, error);
+            sendJson(response, aiErrorStatus(error), { error: describeAIError(error) });
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    return {
+        server,
+        url: `http://${options.host}:${port}`,
+        close: () => new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        }),
+    };
+};
+
+const run = async (args: string[]): Promise<number> => {
+    let options: ServerOptions | undefined;
+    try {
+        options = parseServerArgs(args);
+        if (!options) {
+            console.log(USAGE);
+            return 0;
+        }
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+
+    setRasterBackend(await createNodeBackend());
+    setAIRateLimit(options.geminiRateLimit);
+    setAICacheStore(createMemoryCache(options.cacheEntries));
+    const fake = options.fakeGemini ? await startFakeGemini() : undefined;
+    if (fake) configureGemini('fake-key', fake.baseUrl);
+    else configureGemini(process.env.GEMINI_API_KEY || process.env.API_KEY, process.env.GEMINI_BASE_URL);
+
+    const { url, close } = await startWhiloServer(options);
+    const gemini = fake ? `fake at ${fake.baseUrl}` : geminiProvider.isConfigured?.() ? 'on' : 'off, set GEMINI_API_KEY';
+    console.log(`Whilo server listening on ${url} (Gemini: ${gemini})`);
+
+    await new Promise<void>(resolve => {
+        const stop = () => {
+            close().then(resolve);
+            fake?.server.close();
+        };
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+    });
+    return 0;
+};
+
+// Started as a program; the tests import startWhiloServer instead.
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+    run(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
@@ -0,0 +1,80 @@
+// A thin promise wrapper over IndexedDB. Records are stored whole, Blobs and
+// Files included, keyed by their `id`.
+
+export type StoreName = 'queue' | 'history' | 'aiCache';
+
+export interface StoredRecord {
+    id: string;
+}
+
+const DB_NAME = 'whilo';
+const DB_VERSION = 2;
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') return reject(new Error("IndexedDB isn't available in this browser."));
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains('queue')) db.createObjectStore('queue', { keyPath: 'id' });
+            if (!db.objectStoreNames.contains('history')) db.createObjectStore('history', { keyPath: 'id' });
+            if (!db.objectStoreNames.contains('aiCache')) db.createObjectStore('aiCache', { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again instead of caching a failure.
+    database.catch(() => { database = undefined; });
+    return database;
+};
+
+const complete = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted.'));
+    });
+};
+
+export const getAllRecords = async <T extends StoredRecord>(store: StoreName): Promise<T[]> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(store, 'readonly').objectStore(store).getAll();
+        request.onsuccess = () => resolve(request.result as T[]);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getRecord = async <T extends StoredRecord>(store: StoreName, id: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(store, 'readonly').objectStore(store).get(id);
+        request.onsuccess = () => resolve(request.result as T | undefined);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const putRecords = async <T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(store, 'readwrite');
+    records.forEach(record => transaction.objectStore(store).put(record));
+    return complete(transaction);
+};
+
+export const deleteRecords = async (store: StoreName, ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(store, 'readwrite');
+    ids.forEach(id => transaction.objectStore(store).delete(id));
+    return complete(transaction);
+};
+
+export const clearRecords = async (store: StoreName): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(store, 'readwrite');
+    transaction.objectStore(store).clear();
+    return complete(transaction);
+};
@@ -3,10 +3,24 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the Whilo server (npm run server); the app
+    // only ever talks to its /api routes.
+    const api = { '/api': env.WHILO_SERVER_URL || 'http://localhost:8787' };
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      server: {
+        proxy: api
+      },
+      preview: {
+        proxy: api
+      },
+      // The AVIF codec resolves its .wasm relative to its own module, which
+      // breaks if Vite pre-bundles it.
+      optimizeDeps: {
+        exclude: ['@jsquash/avif']
+      },
+      // The multi-threaded AVIF encoder spawns module workers.
+      worker: {
+        format: 'es'
       },
       resolve: {
         alias: {
@@ -0,0 +1,145 @@
+import type { CompressionJobs, CompressionJobKind, WorkerRequest, WorkerResponse } from './compression.worker';
+
+export const createAbortError = () => new DOMException('Compression cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+interface RunOptions {
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+interface PoolTask<K extends CompressionJobKind = CompressionJobKind> {
+    request: WorkerRequest;
+    onProgress?: (fraction: number) => void;
+    resolve: (result: CompressionJobs[K]['output']) => void;
+    reject: (error: unknown) => void;
+    // Detaches the task from its abort signal once it settles.
+    release: () => void;
+}
+
+// A fixed number of compression workers fed from a FIFO queue. Cancelling a
+// running job terminates its worker, since that is the only way to stop an
+// encode midway, and a fresh worker takes its place on the next dispatch.
+export const createWorkerPool = (size: number) => {
+    const idle: Worker[] = [];
+    const running = new Map<Worker, PoolTask>();
+    const queue: PoolTask[] = [];
+    let nextId = 0;
+
+    const spawn = () => {
+        const worker = new Worker(new URL('./compression.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const message = event.data;
+            const task = running.get(worker);
+            if (!task || task.request.id !== message.id) return;
+            if (message.type === 'progress') {
+                task.onProgress?.(message.fraction);
+                return;
+            }
+            running.delete(worker);
+            idle.push(worker);
+            task.release();
+            if (message.type === 'result') task.resolve(message.result);
+            else task.reject(new Error(message.message));
+            dispatch();
+        };
+        worker.onerror = (event) => {
+            const task = running.get(worker);
+            if (!task) return;
+            event.preventDefault();
+            discard(worker);
+            task.reject(new Error(event.message || 'Compression worker crashed.'));
+        };
+        return worker;
+    };
+
+    const discard = (worker: Worker) => {
+        running.get(worker)?.release();
+        running.delete(worker);
+        worker.terminate();
+        dispatch();
+    };
+
+    const dispatch = () => {
+        while (queue.length > 0 && running.size < size) {
+            const task = queue.shift()!;
+            const worker = idle.pop() ?? spawn();
+            running.set(worker, task);
+            worker.postMessage(task.request);
+        }
+    };
+
+    const run = <K extends CompressionJobKind>(kind: K, input: CompressionJobs[K]['input'], options: RunOptions = {}): Promise<CompressionJobs[K]['output']> => {
+        return new Promise((resolve, reject) => {
+            const { signal, onProgress } = options;
+            if (signal?.aborted) return reject(createAbortError());
+
+            const onAbort = () => {
+                const queued = queue.indexOf(task);
+                if (queued >= 0) {
+                    queue.splice(queued, 1);
+                    task.release();
+                } else {
+                    const worker = [...running].find(([, t]) => t === task)?.[0];
+                    if (worker) discard(worker);
+                }
+                reject(createAbortError());
+            };
+            const task: PoolTask<K> = {
+                request: { id: nextId++, kind, input } as WorkerRequest,
+                onProgress,
+                resolve,
+                reject,
+                release: () => signal?.removeEventListener('abort', onAbort),
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            queue.push(task);
+            dispatch();
+        });
+    };
+
+    return { run };
+};
+
+// Limits how many async jobs run at once. Jobs wait in order; an aborted job
+// leaves the queue without ever starting.
+export const createTaskQueue = (concurrency: number) => {
+    let active = 0;
+    const waiting: { start: () => void; signal?: AbortSignal }[] = [];
+
+    const next = () => {
+        while (active < concurrency && waiting.length > 0) {
+            const entry = waiting.shift()!;
+            if (entry.signal?.aborted) continue;
+            active++;
+            entry.start();
+        }
+    };
+
+    const run = <T,>(job: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) return reject(createAbortError());
+            const entry = {
+                signal,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    job().then(resolve, reject).finally(() => {
+                        active--;
+                        next();
+                    });
+                },
+            };
+            const onAbort = () => {
+                const index = waiting.indexOf(entry);
+                if (index >= 0) waiting.splice(index, 1);
+                reject(createAbortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            waiting.push(entry);
+            next();
+        });
+    };
+
+    return { run };
+};